@@ -559,7 +559,7 @@ module varuna::options_pool {
     // ====== Settlement ======
 
     /// Settle the pool after expiration
-    /// Fetches final price from DeepBook and locks in settlement
+    /// Locks in the last oracle price as the settlement price the claim functions read
     /// Anyone can call this after expiration
     public fun settle_pool<OptionToken, BaseAsset, QuoteAsset>(
         pool: &mut OptionsPool<OptionToken, BaseAsset, QuoteAsset>,
@@ -579,7 +579,7 @@ module varuna::options_pool {
         );
 
         let settlement_price = *option::borrow(&pool.underlying_asset_price);
-        pool.underlying_asset_price = option::some(settlement_price);
+        pool.settlement_price = option::some(settlement_price);
         pool.is_settled = true;
 
         event::emit(PoolSettled {
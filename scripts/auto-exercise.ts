@@ -0,0 +1,202 @@
+/**
+ * Auto-exercise: watches the option token balances of configured accounts and exercises
+ * in-the-money positions inside a window before expiry, so held options don't expire unexercised.
+ * Opt-in: nothing runs without a config file, and accounts without a key are only watched.
+ *
+ *   bun run auto-exercise --config auto-exercise.json
+ *   bun run auto-exercise --config auto-exercise.json --dry-run --once
+ *
+ * Options:
+ *   --config   JSON config (see scripts/auto-exercise.example.json)
+ *   --dry-run  log decisions without executing
+ *   --once     run a single check and exit
+ *   --log      also append every decision to this file as JSON lines
+ *
+ * Keys are read from the environment variable named by each account's `privateKeyEnv`
+ * (suiprivkey... format), so the config itself can stay free of secrets.
+ */
+import { appendFileSync, readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { SuiJsonRpcClient } from '@mysten/sui/jsonRpc';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import { RPC_URLS } from '../src/lib/deepbook';
+import { decideAutoExercise, executeExercise, type AutoExercisePolicy } from '../src/lib/exercise';
+import { discoverOptionPools } from '../src/lib/options';
+import { fail, log } from './log';
+
+type Network = 'mainnet' | 'testnet' | 'devnet';
+
+interface AccountConfig {
+  label?: string;
+  /** Watch-only accounts give just an address */
+  address?: string;
+  /** Environment variable holding the account's suiprivkey */
+  privateKeyEnv?: string;
+  /** Only these options pool IDs; all pools when omitted */
+  pools?: string[];
+  enabled?: boolean;
+}
+
+interface AutoExerciseConfig {
+  network: Network;
+  intervalSeconds: number;
+  /** Exercise when expiry is at most this many minutes away */
+  windowMinutes: number;
+  /** Minimum intrinsic value (quote) worth exercising for */
+  minIntrinsicValue: number;
+  accounts: AccountConfig[];
+}
+
+interface Account {
+  label: string;
+  address: string;
+  keypair: Ed25519Keypair | null;
+  pools: Set<string> | null;
+}
+
+const { values: args } = parseArgs({
+  options: {
+    config: { type: 'string' },
+    'dry-run': { type: 'boolean', default: false },
+    once: { type: 'boolean', default: false },
+    log: { type: 'string' },
+  },
+});
+
+function record(entry: Record<string, unknown>) {
+  if (args.log) {
+    appendFileSync(args.log, `${JSON.stringify({ time: new Date().toISOString(), ...entry })}\n`);
+  }
+}
+
+function loadConfig(path: string): AutoExerciseConfig {
+  let config: AutoExerciseConfig;
+  try {
+    config = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    fail(`Cannot read config ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!['mainnet', 'testnet', 'devnet'].includes(config.network)) fail(`Unknown network: ${config.network}`);
+  if (!(config.intervalSeconds > 0) || !(config.windowMinutes > 0)) {
+    fail('intervalSeconds and windowMinutes must be positive');
+  }
+  if (!(config.minIntrinsicValue >= 0)) fail('minIntrinsicValue must be zero or more');
+  if (!Array.isArray(config.accounts) || config.accounts.length === 0) fail('No accounts configured');
+  return config;
+}
+
+function loadAccounts(configs: AccountConfig[]): Account[] {
+  return configs
+    .filter((account) => account.enabled !== false)
+    .map((account, i): Account => {
+      const label = account.label ?? `account ${i + 1}`;
+      let keypair: Ed25519Keypair | null = null;
+      if (account.privateKeyEnv) {
+        const secretKey = process.env[account.privateKeyEnv];
+        if (!secretKey) fail(`${label}: environment variable ${account.privateKeyEnv} is not set`);
+        keypair = Ed25519Keypair.fromSecretKey(secretKey);
+      }
+      const address = keypair?.toSuiAddress() ?? account.address;
+      if (!address) fail(`${label}: give an address or a privateKeyEnv`);
+      if (keypair && account.address && normalizeSuiAddress(account.address) !== keypair.toSuiAddress()) {
+        fail(`${label}: key does not belong to ${account.address}`);
+      }
+      return {
+        label,
+        address: normalizeSuiAddress(address),
+        keypair,
+        pools: account.pools ? new Set(account.pools.map((id) => normalizeSuiAddress(id))) : null,
+      };
+    });
+}
+
+if (!args.config) fail('Pass --config <file> (see scripts/auto-exercise.example.json)');
+const config = loadConfig(args.config);
+const accounts = loadAccounts(config.accounts);
+const dryRun = args['dry-run'];
+const network = config.network;
+const policy: AutoExercisePolicy = {
+  windowMs: config.windowMinutes * 60_000,
+  minIntrinsicValue: config.minIntrinsicValue,
+};
+const intervalMs = config.intervalSeconds * 1000;
+if (intervalMs >= policy.windowMs) {
+  log('Warning: intervalSeconds is not shorter than the window; positions may expire between checks');
+}
+
+const client = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+
+async function checkAccount(account: Account) {
+  const options = (await discoverOptionPools(network)).filter(
+    (option) => !account.pools || account.pools.has(normalizeSuiAddress(option.id))
+  );
+  const balances = new Map(
+    (await client.getAllBalances({ owner: account.address })).map((b) => [
+      normalizeStructTag(b.coinType),
+      BigInt(b.totalBalance),
+    ])
+  );
+
+  for (const option of options) {
+    const balance = balances.get(normalizeStructTag(option.optionTokenType)) ?? 0n;
+    if (balance === 0n) continue;
+
+    const decision = await decideAutoExercise(option, balance, account.address, policy, network);
+    const details = {
+      balance: decision.balance.toString(),
+      oraclePrice: decision.quote?.oraclePrice ?? null,
+      intrinsicValue: decision.quote?.intrinsicValue ?? null,
+    };
+    log(`${account.label}: ${decision.action.toUpperCase()} ${option.name} (${option.id}) - ${decision.reason}`, details);
+    record({ account: account.address, option: option.id, action: decision.action, reason: decision.reason, ...details });
+
+    if (decision.action !== 'exercise') continue;
+    if (dryRun || !account.keypair) {
+      log(`${account.label}: not executing (${dryRun ? 'dry run' : 'watch-only account'})`);
+      continue;
+    }
+    try {
+      const digest = await executeExercise(option, balance, account.keypair, network);
+      log(`${account.label}: exercised ${option.name} in ${digest}`);
+      record({ account: account.address, option: option.id, action: 'executed', digest });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`${account.label}: exercise of ${option.name} failed: ${message}`);
+      record({ account: account.address, option: option.id, action: 'failed', error: message });
+    }
+  }
+}
+
+let stopped = false;
+let timer: ReturnType<typeof setTimeout> | undefined;
+let wake: (() => void) | undefined;
+
+process.on('SIGINT', () => {
+  stopped = true;
+  clearTimeout(timer);
+  wake?.();
+});
+
+log(`Auto-exercise on ${network}${dryRun ? ' (dry run)' : ''}`, {
+  accounts: accounts.map((a) => `${a.label} ${a.address}${a.keypair ? '' : ' (watch-only)'}`),
+  windowMinutes: config.windowMinutes,
+  minIntrinsicValue: config.minIntrinsicValue,
+  intervalSeconds: config.intervalSeconds,
+});
+
+while (!stopped) {
+  for (const account of accounts) {
+    try {
+      await checkAccount(account);
+    } catch (error) {
+      log(`${account.label}: check failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+  if (args.once) break;
+  await new Promise<void>((resolve) => {
+    wake = resolve;
+    timer = setTimeout(resolve, intervalMs);
+  });
+}
+log('Auto-exercise stopped');
@@ -0,0 +1,37 @@
+/**
+ * On-disk layout of recorded DeepBook indexer responses, shared by scripts/record-indexer.ts
+ * (writes) and scripts/mock-indexer.ts (serves). One directory per network:
+ *
+ *   get_pools.json
+ *   ohclv/<pool>/<interval>.json
+ *   orderbook/<pool>.json
+ *   trades/<pool>.json
+ *   orders/<pool>/<balance manager>.json
+ *
+ * Files hold the indexer's response bodies unchanged.
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import type { CandleInterval } from '../src/lib/indexer';
+
+export const DEFAULT_FIXTURES_DIR = 'scripts/fixtures/indexer';
+
+export const fixturePaths = {
+  pools: (dir: string) => join(dir, 'get_pools.json'),
+  candles: (dir: string, poolName: string, interval: CandleInterval) => join(dir, 'ohclv', poolName, `${interval}.json`),
+  orderBook: (dir: string, poolName: string) => join(dir, 'orderbook', `${poolName}.json`),
+  trades: (dir: string, poolName: string) => join(dir, 'trades', `${poolName}.json`),
+  orders: (dir: string, poolName: string, balanceManagerId: string) =>
+    join(dir, 'orders', poolName, `${balanceManagerId}.json`),
+};
+
+/** Parsed fixture, or undefined when it hasn't been recorded */
+export function readFixture<T>(path: string): T | undefined {
+  if (!existsSync(path)) return undefined;
+  return JSON.parse(readFileSync(path, 'utf8')) as T;
+}
+
+export function writeFixture(path: string, body: unknown): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, `${JSON.stringify(body, null, 2)}\n`);
+}
@@ -0,0 +1,154 @@
+/**
+ * Oracle keeper: calls update_price on every known options pool whose oracle price is about to go
+ * stale (or has drifted from the DeepBook mid), so exercises don't abort with EPriceStale.
+ *
+ *   KEEPER_PRIVATE_KEY=suiprivkey1... bun run keeper --network testnet
+ *   bun run keeper --network testnet --dry-run --sender 0x... --once
+ *
+ * Options:
+ *   --network   mainnet | testnet | devnet (default mainnet)
+ *   --interval  seconds between checks (default 60)
+ *   --max-age   seconds before a price counts as stale (default 240)
+ *   --deviation refresh when the mid moves this fraction from the oracle price (default 0.02)
+ *   --dry-run   devInspect the updates instead of executing them
+ *   --sender    address used for --dry-run when no key is set
+ *   --once      run a single check and exit
+ */
+import { parseArgs } from 'node:util';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { getAllPools, getMarketPrice, getOnChainMarketPrice } from '../src/lib/deepbook';
+import {
+  DEFAULT_KEEPER_POLICY,
+  checkPoolFreshness,
+  executePriceUpdates,
+  simulatePriceUpdates,
+  type KeeperPolicy,
+} from '../src/lib/keeper';
+import { discoverOptionPools, type OptionPool } from '../src/lib/options';
+import { fail, log } from './log';
+
+type Network = 'mainnet' | 'testnet' | 'devnet';
+
+const { values: args } = parseArgs({
+  options: {
+    network: { type: 'string', default: 'mainnet' },
+    interval: { type: 'string', default: '60' },
+    'max-age': { type: 'string', default: String(DEFAULT_KEEPER_POLICY.maxAgeMs / 1000) },
+    deviation: { type: 'string', default: String(DEFAULT_KEEPER_POLICY.maxDeviation) },
+    'dry-run': { type: 'boolean', default: false },
+    sender: { type: 'string' },
+    once: { type: 'boolean', default: false },
+  },
+});
+
+const network = args.network as Network;
+if (!['mainnet', 'testnet', 'devnet'].includes(network)) fail(`Unknown network: ${args.network}`);
+
+const intervalMs = Number(args.interval) * 1000;
+const policy: KeeperPolicy = {
+  maxAgeMs: Number(args['max-age']) * 1000,
+  maxDeviation: Number(args.deviation),
+};
+if (!(intervalMs > 0) || !(policy.maxAgeMs > 0) || !(policy.maxDeviation > 0)) {
+  fail('--interval, --max-age and --deviation must be positive numbers');
+}
+
+const secretKey = process.env.KEEPER_PRIVATE_KEY;
+const keypair = secretKey ? Ed25519Keypair.fromSecretKey(secretKey) : null;
+const dryRun = args['dry-run'];
+const sender = keypair?.toSuiAddress() ?? args.sender;
+if (!keypair && !dryRun) fail('Set KEEPER_PRIVATE_KEY (suiprivkey...) or use --dry-run --sender <address>');
+if (!sender) fail('--dry-run needs --sender <address> when KEEPER_PRIVATE_KEY is not set');
+
+/**
+ * DeepBook mid per oracle pool, for the deviation check. The book is read on chain, where
+ * update_price reads it, so indexer lag can't trigger or hide an update; pools the indexer doesn't
+ * list fall back to its book. Pools without a two-sided book are left out: a last-candle estimate
+ * can't tell whether the oracle has drifted.
+ */
+async function getSpotPrices(options: OptionPool[]): Promise<Record<string, number>> {
+  const spotPrices: Record<string, number> = {};
+  const poolNames = new Set(options.map((option) => option.deepbookPoolName));
+  if (poolNames.size === 0) return spotPrices;
+  const listed = await getAllPools(network).catch((error: unknown) => {
+    log('Could not list DeepBook pools; reading mids from the indexer:', error instanceof Error ? error.message : error);
+    return [];
+  });
+  const pools = new Map(listed.map((pool) => [pool.poolName, pool]));
+  for (const poolName of poolNames) {
+    try {
+      const pool = pools.get(poolName);
+      const price = pool
+        ? await getOnChainMarketPrice(pool, network)
+        : await getMarketPrice(poolName, network === 'devnet' ? 'testnet' : network);
+      if (price && !price.estimated) spotPrices[poolName] = price.midPrice;
+      else log(`No two-sided DeepBook book for ${poolName}; checking staleness only`);
+    } catch (error) {
+      // Without a mid the pool is only checked for staleness
+      log(`No DeepBook mid for ${poolName}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return spotPrices;
+}
+
+async function tick() {
+  const options = await discoverOptionPools(network);
+  const freshness = await checkPoolFreshness(options, network, {
+    policy,
+    spotPrices: await getSpotPrices(options.filter((option) => Date.now() < option.expirationDate)),
+  });
+
+  for (const { option, ageMs, deviation, needsUpdate, reason } of freshness) {
+    log(`${needsUpdate ? 'UPDATE' : 'skip  '} ${option.name} (${option.id})`, {
+      reason,
+      ageSeconds: ageMs === null ? null : Math.round(ageMs / 1000),
+      deviation: deviation === null ? null : Number(deviation.toFixed(4)),
+    });
+  }
+
+  const due = freshness.filter((f) => f.needsUpdate).map((f) => f.option);
+  if (due.length === 0) {
+    log(`No updates needed (${options.length} pools checked)`);
+    return;
+  }
+
+  if (dryRun) {
+    for (const result of await simulatePriceUpdates(due, sender!, network)) {
+      log(`dry-run ${result.ok ? 'ok    ' : 'FAILED'} ${result.optionId}`, result.error ?? '');
+    }
+    return;
+  }
+
+  const digest = await executePriceUpdates(due, keypair!, network);
+  log(`Updated ${due.length} pools in ${digest}`);
+}
+
+let stopped = false;
+let timer: ReturnType<typeof setTimeout> | undefined;
+let wake: (() => void) | undefined;
+
+process.on('SIGINT', () => {
+  stopped = true;
+  clearTimeout(timer);
+  wake?.();
+});
+
+log(`Keeper on ${network}${dryRun ? ' (dry run)' : ''} as ${sender}`, {
+  intervalSeconds: intervalMs / 1000,
+  maxAgeSeconds: policy.maxAgeMs / 1000,
+  maxDeviation: policy.maxDeviation,
+});
+
+while (!stopped) {
+  try {
+    await tick();
+  } catch (error) {
+    log('Check failed:', error instanceof Error ? error.message : error);
+  }
+  if (args.once) break;
+  await new Promise<void>((resolve) => {
+    wake = resolve;
+    timer = setTimeout(resolve, intervalMs);
+  });
+}
+log('Keeper stopped');
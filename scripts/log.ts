@@ -0,0 +1,14 @@
+/**
+ * Console helpers shared by the headless scripts
+ */
+
+/** Log a line prefixed with an ISO timestamp */
+export function log(message: string, ...details: unknown[]) {
+  console.log(`[${new Date().toISOString()}] ${message}`, ...details);
+}
+
+/** Print the message and exit with status 1 */
+export function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
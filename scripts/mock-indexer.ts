@@ -0,0 +1,529 @@
+/**
+ * Mock DeepBook indexer for offline development and tests. Serves the endpoints lib/deepbook.ts
+ * uses from recorded fixtures (scripts/record-indexer.ts) when present, and otherwise from
+ * deterministic synthetic markets, with configurable latency and injected failures.
+ *
+ *   bun run mock-indexer --network mainnet
+ *   VITE_DEEPBOOK_INDEXER_URL=http://localhost:9009 bun run dev
+ *   DEEPBOOK_INDEXER_URL=http://localhost:9009 bun run keeper --dry-run --sender 0x... --once
+ *
+ * Options:
+ *   --port            port to listen on (default 9009)
+ *   --network         network whose fixtures and coin types to serve (default mainnet)
+ *   --fixtures        fixtures directory (default scripts/fixtures/indexer/<network>)
+ *   --fixtures-only   404 instead of synthesizing what wasn't recorded
+ *   --latency         milliseconds added to every response (default 0)
+ *   --jitter          up to this many extra random milliseconds (default 0)
+ *   --error-rate      fraction of requests answered with --error-status (default 0)
+ *   --error-status    status for injected errors; 429 also sends Retry-After (default 503)
+ *   --malformed-rate  fraction of requests answered 200 with a truncated body (default 0)
+ *   --error-path      only inject into paths matching this regular expression
+ *
+ * The injection settings can also be read and changed while running, e.g. from a test:
+ *   GET /__mock/config, POST /__mock/config {"errorRate": 0.5, "latencyMs": 2000}
+ */
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { mainnetCoins, testnetCoins, type CoinMap } from '@mysten/deepbook-v3';
+import type {
+  CandleInterval,
+  IndexerCandles,
+  IndexerOrder,
+  IndexerOrderBook,
+  IndexerPool,
+  IndexerTrade,
+} from '../src/lib/indexer';
+import { DEFAULT_FIXTURES_DIR, fixturePaths, readFixture } from './indexer-fixtures';
+import { fail, log } from './log';
+
+type Network = 'mainnet' | 'testnet' | 'devnet';
+
+interface MockConfig {
+  latencyMs: number;
+  jitterMs: number;
+  errorRate: number;
+  errorStatus: number;
+  malformedRate: number;
+  /** Regular expression source; null injects into every path */
+  errorPath: string | null;
+}
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '9009' },
+    network: { type: 'string', default: 'mainnet' },
+    fixtures: { type: 'string' },
+    'fixtures-only': { type: 'boolean', default: false },
+    latency: { type: 'string', default: '0' },
+    jitter: { type: 'string', default: '0' },
+    'error-rate': { type: 'string', default: '0' },
+    'error-status': { type: 'string', default: '503' },
+    'malformed-rate': { type: 'string', default: '0' },
+    'error-path': { type: 'string' },
+  },
+});
+
+const network = args.network as Network;
+if (!['mainnet', 'testnet', 'devnet'].includes(network)) fail(`Unknown network: ${args.network}`);
+
+const port = Number(args.port);
+const fixturesDir = args.fixtures ?? join(DEFAULT_FIXTURES_DIR, network);
+const fixturesOnly = args['fixtures-only'];
+
+const config: MockConfig = {
+  latencyMs: Number(args.latency),
+  jitterMs: Number(args.jitter),
+  errorRate: Number(args['error-rate']),
+  errorStatus: Number(args['error-status']),
+  malformedRate: Number(args['malformed-rate']),
+  errorPath: args['error-path'] ?? null,
+};
+
+/** Valid settings, or a message saying what isn't */
+function validateConfig(next: MockConfig): string | null {
+  if (!(next.latencyMs >= 0) || !(next.jitterMs >= 0)) return 'latency and jitter must be >= 0';
+  if (!(next.errorRate >= 0 && next.errorRate <= 1)) return 'error rate must be between 0 and 1';
+  if (!(next.malformedRate >= 0 && next.malformedRate <= 1)) return 'malformed rate must be between 0 and 1';
+  if (!(next.errorStatus >= 400 && next.errorStatus <= 599)) return 'error status must be 4xx or 5xx';
+  if (next.errorPath !== null) {
+    try {
+      new RegExp(next.errorPath);
+    } catch {
+      return `invalid error path pattern: ${next.errorPath}`;
+    }
+  }
+  return null;
+}
+
+const configError = validateConfig(config);
+if (!(port > 0)) fail('--port must be a positive number');
+if (configError) fail(configError);
+
+// =============== Synthetic Markets ===============
+
+interface SyntheticPool {
+  base: string;
+  quote: string;
+  /** Price the synthetic market oscillates around */
+  price: number;
+}
+
+const SYNTHETIC_POOLS: SyntheticPool[] = [
+  { base: 'SUI', quote: 'USDC', price: 3.5 },
+  { base: 'DEEP', quote: 'SUI', price: 0.045 },
+  { base: 'DEEP', quote: 'USDC', price: 0.16 },
+  { base: 'WAL', quote: 'USDC', price: 0.45 },
+  { base: 'WAL', quote: 'SUI', price: 0.13 },
+  { base: 'SUI', quote: 'DBUSDC', price: 3.5 },
+  { base: 'DEEP', quote: 'DBUSDC', price: 0.16 },
+];
+
+const INTERVAL_SECONDS: Record<CandleInterval, number> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '30m': 1800,
+  '1h': 3600,
+  '4h': 14400,
+  '1d': 86400,
+  '1w': 604800,
+};
+
+/** Deterministic value in [0, 1) for a key (FNV-1a) */
+function noise(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+function hexId(key: string): string {
+  let hex = '';
+  for (let i = 0; hex.length < 64; i++) {
+    hex += Math.floor(noise(`${key}:${i}`) * 0x100000000).toString(16).padStart(8, '0');
+  }
+  return `0x${hex.slice(0, 64)}`;
+}
+
+/** `value` to a multiple of `step`, without float noise like 28.700000000000003 */
+function roundTo(value: number, step: number): number {
+  return Number((Math.round(value / step) * step).toPrecision(12));
+}
+
+/** Pools the coin map of the network has both coins of, in the indexer's shape */
+function syntheticPools(coins: CoinMap): IndexerPool[] {
+  return SYNTHETIC_POOLS.filter((pool) => coins[pool.base] && coins[pool.quote]).map((pool) => {
+    const base = coins[pool.base];
+    const quote = coins[pool.quote];
+    const poolName = `${pool.base}_${pool.quote}`;
+    // Tick about 1bp of the price, lot 0.1 units of base
+    const tickSize = Math.pow(10, Math.floor(Math.log10(pool.price)) - 4);
+    return {
+      pool_id: hexId(`${network}:${poolName}`),
+      pool_name: poolName,
+      base_asset_id: base.type,
+      base_asset_symbol: pool.base,
+      base_asset_decimals: Math.log10(base.scalar),
+      quote_asset_id: quote.type,
+      quote_asset_symbol: pool.quote,
+      quote_asset_decimals: Math.log10(quote.scalar),
+      min_size: 1,
+      lot_size: 0.1,
+      tick_size: tickSize,
+    };
+  });
+}
+
+/**
+ * Mid price at `timeMs`: slow and fast waves around the pool's price plus per-minute noise, so
+ * candles, book and trades agree with each other whenever they are asked for
+ */
+function midPrice(pool: IndexerPool, timeMs: number): number {
+  const base = SYNTHETIC_POOLS.find((p) => `${p.base}_${p.quote}` === pool.pool_name)?.price
+    ?? 0.5 + noise(pool.pool_name) * 10;
+  const phase = noise(`${pool.pool_name}:phase`) * 2 * Math.PI;
+  const minute = Math.floor(timeMs / 60_000);
+  const wave = 0.03 * Math.sin((2 * Math.PI * timeMs) / (6 * 3_600_000) + phase)
+    + 0.01 * Math.sin((2 * Math.PI * timeMs) / (25 * 60_000) + phase * 2)
+    + 0.004 * (noise(`${pool.pool_name}:${minute}`) - 0.5);
+  return base * (1 + wave);
+}
+
+function syntheticCandles(
+  pool: IndexerPool,
+  interval: CandleInterval,
+  limit: number,
+  startTime: number | undefined,
+  endTime: number | undefined
+): IndexerCandles {
+  const step = INTERVAL_SECONDS[interval];
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const last = Math.floor(Math.min(endTime ?? nowSeconds, nowSeconds) / step) * step;
+  const first = Math.max(startTime !== undefined ? Math.ceil(startTime / step) * step : -Infinity, last - (limit - 1) * step);
+
+  const candles: IndexerCandles['candles'] = [];
+  for (let time = last; time >= first; time -= step) {
+    const closeMs = Math.min((time + step) * 1000, Date.now());
+    const samples = [0, 0.25, 0.5, 0.75].map((f) => midPrice(pool, time * 1000 + f * (closeMs - time * 1000)));
+    const open = samples[0];
+    const close = midPrice(pool, closeMs);
+    const spread = 1 + 0.002 * noise(`${pool.pool_name}:${interval}:${time}:wick`);
+    const volume = (500 + 1500 * noise(`${pool.pool_name}:${interval}:${time}:volume`)) * (step / 60) / open;
+    candles.push([
+      time * 1000,
+      open,
+      Math.max(...samples, close) * spread,
+      Math.min(...samples, close) / spread,
+      close,
+      volume,
+    ]);
+  }
+  return { candles };
+}
+
+/** `levels` per side; null for the whole (synthetic) book */
+function syntheticOrderBook(pool: IndexerPool, levels: number | null): IndexerOrderBook {
+  const now = Date.now();
+  const mid = midPrice(pool, now);
+  levels ??= 50;
+  const spacing = Math.max(pool.tick_size, roundTo(mid * 0.0004, pool.tick_size));
+  const side = (sign: -1 | 1): [number, number][] =>
+    Array.from({ length: levels }, (_, i) => {
+      const price = roundTo(mid + sign * spacing * (i + 0.5), pool.tick_size);
+      const quantity = roundTo((200 + 800 * noise(`${pool.pool_name}:${sign}:${i}:${Math.floor(now / 5000)}`)) / mid, pool.lot_size);
+      return [price, Math.max(quantity, pool.min_size)];
+    });
+  return { timestamp: now, bids: side(-1), asks: side(1) };
+}
+
+const TRADE_SPACING_MS = 9_000;
+
+function syntheticTrades(
+  pool: IndexerPool,
+  { limit, startTime, endTime, maker, taker }: TradeQuery
+): IndexerTrade[] {
+  // Trades against the synthetic book come from made-up BalanceManagers
+  if (maker || taker) return [];
+  const end = Math.min((endTime ?? Infinity) * 1000, Date.now());
+  const start = (startTime ?? 0) * 1000;
+  const trades: IndexerTrade[] = [];
+  for (let time = Math.floor(end / TRADE_SPACING_MS) * TRADE_SPACING_MS; time >= start && trades.length < limit; time -= TRADE_SPACING_MS) {
+    const key = `${pool.pool_name}:trade:${time}`;
+    const takerIsBid = noise(`${key}:side`) < 0.5;
+    const mid = midPrice(pool, time);
+    const price = roundTo(mid * (takerIsBid ? 1.0002 : 0.9998), pool.tick_size);
+    const baseVolume = Math.max(pool.min_size, roundTo((20 + 400 * noise(`${key}:size`)) / mid, pool.lot_size));
+    trades.push({
+      trade_id: String(BigInt(time) * 1000n + BigInt(Math.floor(noise(key) * 1000))),
+      digest: hexId(`${key}:digest`),
+      price,
+      base_volume: baseVolume,
+      quote_volume: Number((baseVolume * price).toPrecision(12)),
+      taker_is_bid: takerIsBid,
+      timestamp: time,
+      maker_balance_manager_id: hexId(`${key}:maker`),
+      taker_balance_manager_id: hexId(`${key}:taker`),
+      maker_order_id: String(BigInt(Math.floor(noise(`${key}:maker-order`) * 1e15))),
+      taker_order_id: String(BigInt(Math.floor(noise(`${key}:taker-order`) * 1e15))),
+    });
+  }
+  return trades;
+}
+
+/** An order as the current indexer reports it; the older field names are left out */
+type OrderBody = Pick<IndexerOrder, 'order_id'> & Partial<IndexerOrder>;
+
+/** Two resting orders and one filled, around the current mid */
+function syntheticOrders(pool: IndexerPool, balanceManagerId: string): OrderBody[] {
+  const now = Date.now();
+  const mid = midPrice(pool, now);
+  const order = (index: number, isBid: boolean, offset: number, status: string, filled: number): OrderBody => {
+    const quantity = roundTo(100 / mid, pool.lot_size);
+    return {
+      order_id: String(BigInt(Math.floor(noise(`${balanceManagerId}:${pool.pool_name}:${index}`) * 1e15))),
+      pool_name: pool.pool_name,
+      balance_manager_id: balanceManagerId,
+      client_order_id: String(now - index * 3_600_000),
+      is_bid: isBid,
+      price: roundTo(mid * (1 + offset), pool.tick_size),
+      original_quantity: quantity,
+      filled_quantity: roundTo(filled * quantity, pool.lot_size),
+      remaining_quantity: roundTo((1 - filled) * quantity, pool.lot_size),
+      status,
+      timestamp: now - index * 3_600_000,
+    };
+  };
+  return [order(1, true, -0.02, 'placed', 0), order(2, false, 0.03, 'placed', 0.25), order(3, true, -0.001, 'filled', 1)];
+}
+
+// =============== Fixtures ===============
+
+interface TradeQuery {
+  limit: number;
+  startTime?: number;
+  endTime?: number;
+  maker?: string;
+  taker?: string;
+}
+
+/** Unix seconds of a timestamp in seconds or milliseconds */
+const toSeconds = (timestamp: number) => (timestamp >= 10_000_000_000 ? Math.floor(timestamp / 1000) : timestamp);
+
+function recordedCandles(
+  candles: IndexerCandles,
+  limit: number,
+  startTime: number | undefined,
+  endTime: number | undefined
+): IndexerCandles {
+  const inRange = candles.candles
+    .filter(([time]) => (startTime === undefined || toSeconds(time) >= startTime) && (endTime === undefined || toSeconds(time) <= endTime))
+    .sort(([a], [b]) => b - a);
+  return { candles: inRange.slice(0, limit) };
+}
+
+function recordedTrades(trades: IndexerTrade[], { limit, startTime, endTime, maker, taker }: TradeQuery): IndexerTrade[] {
+  return trades
+    .filter((trade) =>
+      (startTime === undefined || trade.timestamp >= startTime * 1000)
+      && (endTime === undefined || trade.timestamp <= endTime * 1000)
+      && (!maker || trade.maker_balance_manager_id === maker)
+      && (!taker || trade.taker_balance_manager_id === taker))
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, limit);
+}
+
+function recordedOrderBook(book: IndexerOrderBook, levels: number | null): IndexerOrderBook {
+  return levels === null ? book : { ...book, bids: book.bids.slice(0, levels), asks: book.asks.slice(0, levels) };
+}
+
+const coins = network === 'mainnet' ? mainnetCoins : testnetCoins;
+const recordedPools = readFixture<IndexerPool[]>(fixturePaths.pools(fixturesDir));
+const pools = recordedPools ?? (fixturesOnly ? [] : syntheticPools(coins));
+
+// =============== Server ===============
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const optionalNumber = (params: URLSearchParams, name: string) => {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw new HttpError(400, `Invalid ${name}: ${value}`);
+  return parsed;
+};
+
+function findPool(poolName: string): IndexerPool {
+  const pool = pools.find((p) => p.pool_name === poolName);
+  if (!pool) throw new HttpError(404, `Pool ${poolName} not found`);
+  return pool;
+}
+
+/** The recorded body, else a synthetic one (unless --fixtures-only) */
+function recordedOr<T>(path: string, synthesize: () => T, serve: (recorded: T) => T = (recorded) => recorded): T {
+  const recorded = readFixture<T>(path);
+  if (recorded !== undefined) return serve(recorded);
+  if (fixturesOnly) throw new HttpError(404, 'Not recorded');
+  return synthesize();
+}
+
+/** Response body for an indexer path */
+function route(path: string, params: URLSearchParams): unknown {
+  const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  const [endpoint, poolName, balanceManagerId] = segments;
+
+  if (endpoint === 'get_pools' && segments.length === 1) return pools;
+
+  if (endpoint === 'ohclv' && segments.length === 2) {
+    const pool = findPool(poolName);
+    const interval = (params.get('interval') ?? '1m') as CandleInterval;
+    if (!(interval in INTERVAL_SECONDS)) throw new HttpError(400, `Invalid interval: ${interval}`);
+    const limit = optionalNumber(params, 'limit') ?? 100;
+    const startTime = optionalNumber(params, 'start_time');
+    const endTime = optionalNumber(params, 'end_time');
+    return recordedOr(
+      fixturePaths.candles(fixturesDir, poolName, interval),
+      () => syntheticCandles(pool, interval, limit, startTime, endTime),
+      (candles) => recordedCandles(candles, limit, startTime, endTime)
+    );
+  }
+
+  if (endpoint === 'orderbook' && segments.length === 2) {
+    const pool = findPool(poolName);
+    // Like the indexer, depth counts both sides: depth / 2 levels each, 0 for every level
+    const depth = optionalNumber(params, 'depth') ?? 30;
+    if (depth === 1 || depth < 0) throw new HttpError(400, `Invalid depth: ${depth}`);
+    const levels = depth === 0 ? null : Math.floor(depth / 2);
+    return recordedOr(
+      fixturePaths.orderBook(fixturesDir, poolName),
+      () => syntheticOrderBook(pool, levels),
+      (book) => recordedOrderBook(book, levels)
+    );
+  }
+
+  if (endpoint === 'trades' && segments.length === 2) {
+    const pool = findPool(poolName);
+    const query: TradeQuery = {
+      limit: optionalNumber(params, 'limit') ?? 1,
+      startTime: optionalNumber(params, 'start_time'),
+      endTime: optionalNumber(params, 'end_time'),
+      maker: params.get('maker_balance_manager_id') ?? undefined,
+      taker: params.get('taker_balance_manager_id') ?? undefined,
+    };
+    return recordedOr(
+      fixturePaths.trades(fixturesDir, poolName),
+      () => syntheticTrades(pool, query),
+      (trades) => recordedTrades(trades, query)
+    );
+  }
+
+  if (endpoint === 'orders' && segments.length === 3) {
+    const pool = findPool(poolName);
+    // Like the indexer, a BalanceManager without orders in the pool is a 404
+    const orders = recordedOr(fixturePaths.orders(fixturesDir, poolName, balanceManagerId), () =>
+      syntheticOrders(pool, balanceManagerId)
+    );
+    if (orders.length === 0) throw new HttpError(404, 'No orders found');
+    return orders;
+  }
+
+  throw new HttpError(404, `Unknown endpoint: ${path}`);
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function send(response: ServerResponse, status: number, body: string, headers: Record<string, string> = {}) {
+  response.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*',
+    'Content-Type': status < 300 ? 'application/json' : 'text/plain',
+    ...headers,
+  });
+  response.end(body);
+}
+
+async function handleConfig(request: IncomingMessage, response: ServerResponse) {
+  if (request.method === 'POST') {
+    let update: Partial<MockConfig>;
+    try {
+      update = JSON.parse(await readBody(request)) as Partial<MockConfig>;
+    } catch {
+      send(response, 400, 'Body must be JSON');
+      return;
+    }
+    const next = { ...config, ...update };
+    const error = validateConfig(next);
+    if (error) {
+      send(response, 400, error);
+      return;
+    }
+    Object.assign(config, next);
+    log('Config updated', config);
+  }
+  send(response, 200, JSON.stringify(config));
+}
+
+async function handle(request: IncomingMessage, response: ServerResponse) {
+  const url = new URL(request.url ?? '/', `http://${request.headers.host ?? 'localhost'}`);
+  if (request.method === 'OPTIONS') {
+    send(response, 204, '');
+    return;
+  }
+  if (url.pathname === '/__mock/config') {
+    await handleConfig(request, response);
+    return;
+  }
+
+  const delay = config.latencyMs + Math.random() * config.jitterMs;
+  if (delay > 0) await new Promise((resolve) => setTimeout(resolve, delay));
+
+  const injectable = config.errorPath === null || new RegExp(config.errorPath).test(url.pathname);
+  const roll = Math.random();
+  if (injectable && roll < config.errorRate) {
+    log(`${request.method} ${url.pathname}${url.search} -> injected ${config.errorStatus}`);
+    send(response, config.errorStatus, 'Injected error', config.errorStatus === 429 ? { 'Retry-After': '1' } : {});
+    return;
+  }
+
+  try {
+    const body = JSON.stringify(route(url.pathname, url.searchParams));
+    if (injectable && roll < config.errorRate + config.malformedRate) {
+      log(`${request.method} ${url.pathname}${url.search} -> injected malformed body`);
+      send(response, 200, body.slice(0, Math.floor(body.length / 2)));
+      return;
+    }
+    log(`${request.method} ${url.pathname}${url.search} -> 200`);
+    send(response, 200, body);
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    log(`${request.method} ${url.pathname}${url.search} -> ${status}`, error instanceof Error ? error.message : error);
+    send(response, status, error instanceof Error ? error.message : 'Internal error');
+  }
+}
+
+const server = createServer((request, response) => {
+  handle(request, response).catch((error) => {
+    console.error(error);
+    if (!response.headersSent) send(response, 500, 'Internal error');
+  });
+});
+
+process.on('SIGINT', () => server.close(() => process.exit(0)));
+
+server.listen(port, () => {
+  log(`Mock ${network} indexer on http://localhost:${port}`, {
+    fixtures: recordedPools ? fixturesDir : fixturesOnly ? 'none (fixtures only)' : 'none (synthetic)',
+    pools: pools.map((pool) => pool.pool_name),
+    ...config,
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Fixture recorder: saves real DeepBook indexer responses for scripts/mock-indexer.ts to replay.
+ * Every response is validated by the typed indexer client before it is written.
+ *
+ *   bun run record-indexer --network mainnet --pools SUI_USDC,DEEP_SUI
+ *   bun run record-indexer --pools SUI_USDC --intervals 1m,1h --balance-manager 0x...
+ *
+ * Options:
+ *   --network          mainnet | testnet | devnet (default mainnet)
+ *   --pools            comma-separated pool names (default: every pool)
+ *   --intervals        candle intervals to record (default 1m,15m,1h,1d)
+ *   --limit            candles and trades per pool (default 500)
+ *   --balance-manager  also record this BalanceManager's orders in each pool
+ *   --out              fixtures directory (default scripts/fixtures/indexer/<network>)
+ *   --url              indexer to record from (default: the network's configured indexer)
+ */
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { DeepBookIndexer, getIndexerUrl, isIndexerError, type CandleInterval } from '../src/lib/indexer';
+import { DEFAULT_FIXTURES_DIR, fixturePaths, writeFixture } from './indexer-fixtures';
+import { fail, log } from './log';
+
+type Network = 'mainnet' | 'testnet' | 'devnet';
+
+const CANDLE_INTERVALS: CandleInterval[] = ['1m', '5m', '15m', '30m', '1h', '4h', '1d', '1w'];
+
+const { values: args } = parseArgs({
+  options: {
+    network: { type: 'string', default: 'mainnet' },
+    pools: { type: 'string' },
+    intervals: { type: 'string', default: '1m,15m,1h,1d' },
+    limit: { type: 'string', default: '500' },
+    'balance-manager': { type: 'string' },
+    out: { type: 'string' },
+    url: { type: 'string' },
+  },
+});
+
+const network = args.network as Network;
+if (!['mainnet', 'testnet', 'devnet'].includes(network)) fail(`Unknown network: ${args.network}`);
+
+const intervals = args.intervals.split(',').map((interval) => interval.trim()) as CandleInterval[];
+const unknownInterval = intervals.find((interval) => !CANDLE_INTERVALS.includes(interval));
+if (unknownInterval) fail(`Unknown interval: ${unknownInterval}`);
+
+const limit = Number(args.limit);
+if (!(limit > 0)) fail('--limit must be a positive number');
+
+const outDir = args.out ?? join(DEFAULT_FIXTURES_DIR, network);
+const balanceManagerId = args['balance-manager'];
+const indexer = new DeepBookIndexer(args.url ?? getIndexerUrl(network));
+
+async function main() {
+  log(`Recording ${indexer.baseUrl} into ${outDir}`);
+  const pools = await indexer.getPools();
+  writeFixture(fixturePaths.pools(outDir), pools);
+
+  const wanted = args.pools?.split(',').map((name) => name.trim());
+  const missing = wanted?.filter((name) => !pools.some((pool) => pool.pool_name === name)) ?? [];
+  if (missing.length > 0) fail(`Not on the indexer: ${missing.join(', ')}`);
+  const poolNames = wanted ?? pools.map((pool) => pool.pool_name);
+
+  let failures = 0;
+  for (const poolName of poolNames) {
+    try {
+      for (const interval of intervals) {
+        writeFixture(fixturePaths.candles(outDir, poolName, interval), await indexer.getCandles(poolName, { interval, limit }));
+      }
+      writeFixture(fixturePaths.orderBook(outDir, poolName), await indexer.getOrderBook(poolName, { level: 2, depth: 0 }));
+      writeFixture(fixturePaths.trades(outDir, poolName), await indexer.getTrades(poolName, { limit }));
+
+      if (balanceManagerId) {
+        try {
+          const orders = await indexer.getOrders(poolName, balanceManagerId);
+          writeFixture(fixturePaths.orders(outDir, poolName, balanceManagerId), orders);
+        } catch (error) {
+          // No orders in this pool; the mock answers 404 for an unrecorded BalanceManager as well
+          if (!isIndexerError(error, 'http') || error.detail.kind !== 'http' || error.detail.status !== 404) throw error;
+        }
+      }
+      log(`Recorded ${poolName}`);
+    } catch (error) {
+      failures++;
+      log(`Failed to record ${poolName}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  log(`Done: ${poolNames.length - failures}/${poolNames.length} pools recorded`);
+  if (failures > 0) process.exit(1);
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)));
@@ -6,6 +6,7 @@ import { NETWORK_STORAGE_KEY } from "../dApp-kit";
 import { Wallet, Wifi, ChevronRight, TrendingUp, TrendingDown, Copy, Coins } from "lucide-react";
 import { PortfolioChart } from "./PortfolioChart";
 import { AnimatedNumber } from "./AnimatedNumber";
+import { OptionsPositions } from "./OptionsPositions";
 import { getBalanceManager, getBalanceForCoin } from "../lib/deepbook";
 import { toast } from "sonner";
 
@@ -123,6 +124,9 @@ export function AccountPage() {
             </CardContent>
           </Card>
 
+          {/* Options held and written (when connected) */}
+          {currentAccount && !isLoadingBalanceManager && <OptionsPositions balanceManagerId={balanceManager} />}
+
           {/* Settings: compact list below chart */}
           <div className="pt-2">
             <h3 className="text-sm font-medium text-muted-foreground px-1 mb-3">Settings</h3>
@@ -1,28 +1,33 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState } from 'react';
 import { useCurrentAccount, useCurrentClient, useDAppKit, useCurrentNetwork } from '@mysten/dapp-kit-react';
 import { Transaction } from '@mysten/sui/transactions';
-import { getOrders, cancelOrder, getBalanceManager, getAllPools, PoolInfo, Order } from '../lib/deepbook';
+import { cancelOrder, Order } from '../lib/deepbook';
+import { useBalanceManager, useInvalidateAfterTransaction, useOrders, usePools } from '../hooks/deepbook';
 import { Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Button } from './ui/button';
 
 interface AccountPanelProps {
     poolName: string;
-    /** When this value changes, orders will be refetched (e.g. after placing a new order) */
-    refreshTrigger?: number;
 }
 
-export function AccountPanel({ poolName, refreshTrigger }: AccountPanelProps) {
+export function AccountPanel({ poolName }: AccountPanelProps) {
     const [activeTab, setActiveTab] = useState<'orders' | 'orderHistory'>('orders');
     const currentAccount = useCurrentAccount();
     const client = useCurrentClient();
     const dAppKit = useDAppKit();
     const currentNetwork = useCurrentNetwork();
+    const network = currentNetwork as 'mainnet' | 'testnet' | 'devnet';
 
-    const [orders, setOrders] = useState<Order[]>([]);
-    const [isLoadingOrders, setIsLoadingOrders] = useState(false);
-    const [balanceManager, setBalanceManager] = useState<string | null>(null);
-    const [poolInfo, setPoolInfo] = useState<PoolInfo | null>(null);
+    const { data: pools = [] } = usePools(network);
+    const { data: balanceManager = null } = useBalanceManager(network);
+    // Refetched in the background and invalidated after orders are placed or canceled
+    const ordersQuery = useOrders(poolName || null, balanceManager, network);
+    const orders = ordersQuery.data ?? [];
+    const isLoadingOrders = ordersQuery.isLoading;
+    const ordersError = ordersQuery.error;
+    const invalidateAfterTransaction = useInvalidateAfterTransaction(network);
+    const poolInfo = pools.find((p) => p.poolName === poolName) ?? null;
     const [cancelingOrderId, setCancelingOrderId] = useState<string | null>(null);
 
     // Open orders are those that are still placed (not filled/cancelled)
@@ -33,56 +38,6 @@ export function AccountPanel({ poolName, refreshTrigger }: AccountPanelProps) {
         { id: 'orderHistory', label: 'Order History' },
     ] as const;
 
-    // Fetch pool info and balance manager
-    useEffect(() => {
-        const fetchData = async () => {
-            if (!currentAccount?.address) {
-                setBalanceManager(null);
-                return;
-            }
-
-            try {
-                const network = currentNetwork as 'mainnet' | 'testnet' | 'devnet';
-                const pools = await getAllPools(network);
-                const pool = pools.find(p => p.poolName === poolName);
-                setPoolInfo(pool || null);
-
-                const bm = await getBalanceManager(client, currentAccount.address, network);
-                setBalanceManager(bm);
-            } catch (error) {
-                console.error('Error fetching pool info or balance manager:', error);
-            }
-        };
-
-        fetchData();
-    }, [currentAccount?.address, poolName, client, currentNetwork]);
-
-    // Shared fetchOrders function so we can reuse it after actions like cancel
-    const fetchOrders = useCallback(async () => {
-        if (!balanceManager || !poolName) return;
-
-        setIsLoadingOrders(true);
-        try {
-            const network = currentNetwork as 'mainnet' | 'testnet' | 'devnet';
-            const fetchedOrders = await getOrders(poolName, balanceManager, network);
-            setOrders(fetchedOrders);
-        } catch (error) {
-            console.error('Error fetching orders:', error);
-            toast.error('Failed to fetch orders', {
-                description: error instanceof Error ? error.message : 'Unknown error',
-            });
-        } finally {
-            setIsLoadingOrders(false);
-        }
-    }, [balanceManager, poolName, currentNetwork]);
-
-    // Fetch orders when balance manager / pool become available, or when refreshTrigger changes (e.g. after placing an order)
-    useEffect(() => {
-        if (balanceManager && poolName) {
-            fetchOrders();
-        }
-    }, [balanceManager, poolName, refreshTrigger, fetchOrders]);
-
     // Handle order cancellation
     const handleCancelOrder = async (order: Order) => {
         if (!currentAccount?.address || !poolInfo || !balanceManager) {
@@ -96,7 +51,6 @@ export function AccountPanel({ poolName, refreshTrigger }: AccountPanelProps) {
         try {
             const tx = new Transaction();
             tx.setSender(currentAccount.address);
-            const network = currentNetwork as 'mainnet' | 'testnet' | 'devnet';
 
             cancelOrder(tx, client, currentAccount.address, poolInfo, balanceManager, order.order_id, network);
 
@@ -112,8 +66,7 @@ export function AccountPanel({ poolName, refreshTrigger }: AccountPanelProps) {
                 description: `Order ${order.order_id.slice(0, 8)}... has been canceled`,
             });
 
-            // Refresh orders
-            await fetchOrders();
+            invalidateAfterTransaction(poolName);
         } catch (error) {
             console.error('Error canceling order:', error);
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -170,6 +123,11 @@ export function AccountPanel({ poolName, refreshTrigger }: AccountPanelProps) {
                             <div className="flex items-center justify-center py-8">
                                 <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
                             </div>
+                        ) : ordersError && orders.length === 0 ? (
+                            <div className="flex flex-col items-center justify-center py-8 text-muted-foreground space-y-2">
+                                <p className="text-sm">Couldn't load orders</p>
+                                <p className="text-xs italic">{ordersError.message}</p>
+                            </div>
                         ) : openOrders.length === 0 ? (
                             <div className="flex flex-col items-center justify-center py-8 text-muted-foreground space-y-2">
                                 <p className="text-sm">No open orders</p>
@@ -245,6 +203,11 @@ export function AccountPanel({ poolName, refreshTrigger }: AccountPanelProps) {
                             <div className="flex items-center justify-center py-8">
                                 <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
                             </div>
+                        ) : ordersError && orders.length === 0 ? (
+                            <div className="flex flex-col items-center justify-center py-8 text-muted-foreground space-y-2">
+                                <p className="text-sm">Couldn't load orders</p>
+                                <p className="text-xs italic">{ordersError.message}</p>
+                            </div>
                         ) : orders.length === 0 ? (
                             <div className="flex flex-col items-center justify-center py-8 text-muted-foreground space-y-2">
                                 <p className="text-sm">No order history</p>
@@ -0,0 +1,549 @@
+import { useEffect, useMemo, useState } from "react";
+import { useCurrentAccount, useCurrentClient, useCurrentNetwork, useDAppKit } from "@mysten/dapp-kit-react";
+import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import { ChevronDown, RefreshCw, Vault } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { cn } from "../lib/utils";
+import { RPC_URLS, getBalanceManager, getOrderBook, type OrderBookData, type PoolInfo } from "../lib/deepbook";
+import {
+    getOptionTokenPools,
+    getOwnerTokens,
+    getPoolSettlement,
+    type OptionPool,
+    type OwnerTokenInfo,
+    type PoolSettlement,
+} from "../lib/options";
+import { formatGreek, type PricingModel } from "../lib/pricing";
+import {
+    DEFAULT_VAULT_POLICY,
+    buildVaultRoll,
+    estimateVaultClaim,
+    getVaultHistory,
+    saveVaultCycle,
+    selectVaultStrike,
+    sizeVaultCycle,
+    summarizeVault,
+    vaultCandidates,
+    vaultCycleResult,
+    type VaultCycle,
+    type VaultPolicy,
+    type VaultRoll,
+} from "../lib/vault";
+import { simulateClaim } from "../lib/exercise";
+import { previewMintAndSell } from "../lib/writing";
+
+interface CoveredCallVaultProps {
+    options: OptionPool[];
+    selectedOption: OptionPool | null;
+    /** DeepBook mid per underlying pool name */
+    spotPrices: Record<string, number>;
+    pricingModel: PricingModel;
+    formatDate: (timestamp: number) => string;
+    /** DeepBook pool IDs by name, for settling pools discovery didn't resolve */
+    deepbookPools: Map<string, string>;
+    /** Called after a roll so balances can refresh */
+    onExecuted?: () => void;
+}
+
+/** SUI left in the wallet for gas when SUI is the underlying */
+const GAS_RESERVE_MIST = 200_000_000n;
+
+export function CoveredCallVault({
+    options,
+    selectedOption,
+    spotPrices,
+    pricingModel,
+    formatDate,
+    deepbookPools,
+    onExecuted,
+}: CoveredCallVaultProps) {
+    const currentAccount = useCurrentAccount();
+    const currentNetwork = useCurrentNetwork();
+    const client = useCurrentClient();
+    const dAppKit = useDAppKit();
+    const [isOpen, setIsOpen] = useState(false);
+    const [policy, setPolicy] = useState<VaultPolicy>(DEFAULT_VAULT_POLICY);
+    const [history, setHistory] = useState<VaultCycle[]>([]);
+    const [balanceManager, setBalanceManager] = useState<string | null>(null);
+    const [walletBase, setWalletBase] = useState<bigint | null>(null);
+    const [ownerTokens, setOwnerTokens] = useState<OwnerTokenInfo[]>([]);
+    const [settlement, setSettlement] = useState<PoolSettlement | null>(null);
+    const [market, setMarket] = useState<PoolInfo | null>(null);
+    const [book, setBook] = useState<OrderBookData | null>(null);
+    const [version, setVersion] = useState(0);
+    const [isRolling, setIsRolling] = useState(false);
+
+    const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+    const address = currentAccount?.address;
+    const byId = useMemo(() => new Map(options.map((o) => [o.id, o])), [options]);
+
+    // The vault runs on the pair of the open cycle, else of the selected option
+    const openCycle = history.find((c) => c.closedAt === undefined) ?? null;
+    const openOption = openCycle ? byId.get(openCycle.optionId) ?? null : null;
+    const pair = openOption ?? selectedOption ?? options.find((o) => o.type === "CALL") ?? null;
+    const spot = pair ? spotPrices[pair.deepbookPoolName] ?? 0 : 0;
+    const isExpired = openCycle ? openCycle.expiry <= Date.now() : false;
+
+    const candidates = useMemo(
+        () => (pair ? vaultCandidates(options, pair, spot, policy, pricingModel) : []),
+        [options, pair?.baseAssetType, pair?.quoteAssetType, spot, policy, pricingModel]
+    );
+    const chosen = selectVaultStrike(candidates, policy);
+
+    useEffect(() => {
+        if (!isOpen || !address) {
+            setHistory([]);
+            return;
+        }
+        setHistory(getVaultHistory(address, network));
+    }, [isOpen, address, network, version]);
+
+    useEffect(() => {
+        if (!isOpen || !address) {
+            setBalanceManager(null);
+            return;
+        }
+        getBalanceManager(client, address, network)
+            .then(setBalanceManager)
+            .catch((error) => {
+                console.error("Error fetching BalanceManager:", error);
+                setBalanceManager(null);
+            });
+    }, [isOpen, address, client, network]);
+
+    // Underlying available to write, less gas when the underlying is SUI
+    useEffect(() => {
+        if (!isOpen || !address || !pair) {
+            setWalletBase(null);
+            return;
+        }
+        const jsonRpcClient = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+        jsonRpcClient
+            .getBalance({ owner: address, coinType: pair.baseAssetType })
+            .then((balance) => {
+                const total = BigInt(balance.totalBalance);
+                const isSui = normalizeStructTag(pair.baseAssetType) === normalizeStructTag("0x2::sui::SUI");
+                const reserve = isSui ? GAS_RESERVE_MIST : 0n;
+                setWalletBase(total > reserve ? total - reserve : 0n);
+            })
+            .catch((error) => {
+                console.error("Error fetching underlying balance:", error);
+                setWalletBase(null);
+            });
+    }, [isOpen, address, pair?.baseAssetType, network, version]);
+
+    // OwnerTokens and settlement of the expired cycle's pool
+    useEffect(() => {
+        setOwnerTokens([]);
+        setSettlement(null);
+        if (!isOpen || !address || !openOption || !isExpired) return;
+        let cancelled = false;
+        Promise.all([getOwnerTokens(address, openOption, network), getPoolSettlement(openOption.id, network)])
+            .then(([tokens, state]) => {
+                if (cancelled) return;
+                setOwnerTokens(tokens);
+                setSettlement(state);
+            })
+            .catch((error) => console.error("Error loading vault cycle:", error));
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, address, openOption?.id, isExpired, network, version]);
+
+    // Market and book for the next call's option token
+    useEffect(() => {
+        setMarket(null);
+        setBook(null);
+        if (!isOpen || !chosen) return;
+        let cancelled = false;
+        getOptionTokenPools([chosen.option], network)
+            .then(async (pools) => {
+                const pool = pools[chosen.option.id] ?? null;
+                // Without a book the market (and its lot sizes) is still known
+                const data = pool
+                    ? await getOrderBook(pool.poolName, network).catch((error) => {
+                        console.error("Error fetching vault call book:", error);
+                        return null;
+                    })
+                    : null;
+                if (!cancelled) {
+                    setMarket(pool);
+                    setBook(data);
+                }
+            })
+            .catch((error) => console.error("Error loading vault market:", error));
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, chosen?.option.id, network, version]);
+
+    const ownerTokenAmount = ownerTokens.reduce((sum, t) => sum + t.amount, 0n);
+    const claim = openOption && settlement && ownerTokenAmount > 0n
+        ? estimateVaultClaim(openOption, ownerTokenAmount, settlement)
+        : null;
+    const available = walletBase !== null ? walletBase + (claim?.base ?? 0n) : null;
+    const quantity = chosen && market && available !== null ? sizeVaultCycle(available, policy, chosen.option, market) : 0;
+    const preview = chosen && quantity > 0
+        ? previewMintAndSell(chosen.option, { quantity, orderType: policy.orderType, price: chosen.fairValue }, book)
+        : null;
+
+    const closeBlock = !openCycle || !isExpired
+        ? null
+        : (!openOption ? "The open cycle's pool is no longer discovered" : null)
+            ?? (ownerTokens.length === 0 ? "No OwnerTokens for the open cycle (already claimed?)" : null)
+            ?? (!claim
+                ? settlement?.isSettled
+                    ? "The pool was settled without a settlement price, so its claims abort"
+                    : "The pool has no oracle price to settle at"
+                : null);
+    const openBlock = (!chosen ? "No out-of-the-money call matches the policy" : null)
+        ?? (!market ? `No DeepBook market for ${chosen?.option.name}` : null)
+        ?? (quantity <= 0 ? `Not enough ${pair?.baseAsset ?? "underlying"} for the market's minimum size` : null)
+        ?? (policy.orderType === "market" && preview && preview.filled < quantity ? "Not enough bids to sell the full size" : null);
+    const blockReason = (!address ? "Connect your wallet" : null)
+        ?? (!balanceManager ? "No BalanceManager found. Create one from the Trade page first." : null)
+        ?? (openCycle && !isExpired ? `The open cycle rolls after ${formatDate(openCycle.expiry)}` : null)
+        ?? closeBlock
+        ?? openBlock;
+
+    const pairHistory = pair
+        ? history.filter((c) => c.baseAssetType === pair.baseAssetType && c.quoteAssetType === pair.quoteAssetType)
+        : [];
+    const stats = summarizeVault(pairHistory);
+
+    const executeRoll = async (withNext: boolean) => {
+        if (!address || !balanceManager) return;
+        setIsRolling(true);
+        try {
+            const roll: VaultRoll = {};
+            if (openCycle && openOption && claim) {
+                const deepbookPoolId = openOption.deepbookPoolId ?? deepbookPools.get(openOption.deepbookPoolName);
+                if (!deepbookPoolId) throw new Error(`DeepBook pool ${openOption.deepbookPoolName} not found`);
+                roll.expiring = {
+                    option: openOption,
+                    ownerTokenIds: ownerTokens.map((t) => t.id),
+                    deepbookPoolId,
+                    isSettled: settlement?.isSettled ?? false,
+                    claimBase: claim.base,
+                };
+            }
+            if (withNext && chosen && market) {
+                roll.next = {
+                    option: chosen.option,
+                    market,
+                    order: { quantity, orderType: policy.orderType, price: chosen.fairValue },
+                };
+            }
+
+            const tx = new Transaction();
+            buildVaultRoll(tx, client, address, roll, balanceManager, network);
+            // Settling and claiming abort on pools whose settle_pool doesn't record a price
+            if (roll.expiring) {
+                const failure = await simulateClaim(tx, address, network);
+                if (failure) {
+                    toast.error("Vault roll would fail", { description: failure });
+                    return;
+                }
+            }
+            const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+            if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
+            const digest = result.Transaction.digest;
+
+            if (openCycle && claim) {
+                saveVaultCycle(address, {
+                    ...openCycle,
+                    closedAt: Date.now(),
+                    closeDigest: digest,
+                    settlementPrice: claim.settlementPrice,
+                    assigned: claim.settlementPrice > openCycle.strike,
+                }, network);
+            }
+            if (roll.next && chosen && preview) {
+                saveVaultCycle(address, {
+                    id: digest,
+                    optionId: chosen.option.id,
+                    optionName: chosen.option.name,
+                    baseAssetType: chosen.option.baseAssetType,
+                    quoteAssetType: chosen.option.quoteAssetType,
+                    strike: chosen.option.strikePrice,
+                    expiry: chosen.option.expirationDate,
+                    quantity,
+                    spotAtOpen: spot,
+                    premium: preview.premium,
+                    openedAt: Date.now(),
+                }, network);
+            }
+            toast.success(roll.next ? (roll.expiring ? "Vault rolled" : "Vault cycle started") : "Vault cycle closed", {
+                description: roll.next ? `Wrote ${quantity} ${chosen?.option.name}` : undefined,
+            });
+            setVersion((v) => v + 1);
+            onExecuted?.();
+        } catch (error) {
+            console.error("Vault roll failed:", error);
+            toast.error("Vault roll failed", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            setIsRolling(false);
+        }
+    };
+
+    const quoteAsset = pair?.quoteAsset ?? "";
+    const formatQuote = (v: number) => `${formatGreek("fairValue", v)} ${quoteAsset}`;
+    const formatPercent = (v: number) => `${(v * 100).toFixed(2)}%`;
+    const inputClass = "w-full px-2 py-1 rounded-md border bg-input text-foreground text-xs focus:ring-1 focus:ring-primary outline-none";
+    const updatePolicy = (patch: Partial<VaultPolicy>) => setPolicy((p) => ({ ...p, ...patch }));
+
+    return (
+        <div className="border-t bg-card/95 text-[11px] sm:text-[12px]">
+            <div className="flex items-center justify-between gap-2 px-4 py-2 bg-muted/20 border-b">
+                <button
+                    type="button"
+                    onClick={() => setIsOpen((v) => !v)}
+                    className="font-semibold text-sm flex items-center gap-2 min-w-0"
+                    aria-expanded={isOpen}
+                >
+                    <Vault className="h-4 w-4 shrink-0" />
+                    <span className="truncate">Covered-Call Vault{pair ? ` · ${pair.baseAsset}/${pair.quoteAsset}` : ""}</span>
+                    <ChevronDown className={cn("h-4 w-4 text-muted-foreground transition-transform", isOpen && "rotate-180")} />
+                </button>
+                {isOpen && (
+                    <button
+                        type="button"
+                        onClick={() => setVersion((v) => v + 1)}
+                        className="p-1 rounded hover:bg-muted text-muted-foreground"
+                        title="Refresh"
+                    >
+                        <RefreshCw className="h-3.5 w-3.5" />
+                    </button>
+                )}
+            </div>
+
+            {isOpen && (
+                <div className="px-4 py-2 space-y-3">
+                    <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+                        <label className="space-y-1">
+                            <span className="text-muted-foreground">Strike by</span>
+                            <select
+                                value={policy.strikeMode}
+                                onChange={(e) => updatePolicy({ strikeMode: e.target.value as VaultPolicy["strikeMode"] })}
+                                className={inputClass}
+                            >
+                                <option value="delta">Delta</option>
+                                <option value="otm">% OTM</option>
+                            </select>
+                        </label>
+                        {policy.strikeMode === "delta" ? (
+                            <label className="space-y-1">
+                                <span className="text-muted-foreground">Target Δ</span>
+                                <input
+                                    type="number"
+                                    step="0.05"
+                                    min="0.01"
+                                    max="0.99"
+                                    value={policy.targetDelta}
+                                    onChange={(e) => updatePolicy({ targetDelta: parseFloat(e.target.value) || 0 })}
+                                    className={inputClass}
+                                />
+                            </label>
+                        ) : (
+                            <label className="space-y-1">
+                                <span className="text-muted-foreground">% above spot</span>
+                                <input
+                                    type="number"
+                                    step="1"
+                                    min="0"
+                                    value={Math.round(policy.otmPercent * 100)}
+                                    onChange={(e) => updatePolicy({ otmPercent: (parseFloat(e.target.value) || 0) / 100 })}
+                                    className={inputClass}
+                                />
+                            </label>
+                        )}
+                        <label className="space-y-1">
+                            <span className="text-muted-foreground">Allocation %</span>
+                            <input
+                                type="number"
+                                step="5"
+                                min="1"
+                                max="100"
+                                value={Math.round(policy.allocation * 100)}
+                                onChange={(e) => updatePolicy({ allocation: (parseFloat(e.target.value) || 0) / 100 })}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className="space-y-1">
+                            <span className="text-muted-foreground">Min days</span>
+                            <input
+                                type="number"
+                                step="1"
+                                min="0"
+                                value={policy.minDaysToExpiry}
+                                onChange={(e) => updatePolicy({ minDaysToExpiry: parseFloat(e.target.value) || 0 })}
+                                className={inputClass}
+                            />
+                        </label>
+                        <label className="space-y-1">
+                            <span className="text-muted-foreground">Sell</span>
+                            <select
+                                value={policy.orderType}
+                                onChange={(e) => updatePolicy({ orderType: e.target.value as VaultPolicy["orderType"] })}
+                                className={inputClass}
+                            >
+                                <option value="market">Into the bids</option>
+                                <option value="limit">Limit at fair value</option>
+                            </select>
+                        </label>
+                    </div>
+
+                    <div className="grid sm:grid-cols-2 gap-3">
+                        <div className="space-y-1 rounded-md border bg-muted/20 px-2 py-1.5 text-xs">
+                            <div className="font-medium">Current cycle</div>
+                            {openCycle ? (
+                                <>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-muted-foreground">Call</span>
+                                        <span className="font-medium">{openCycle.optionName}</span>
+                                    </div>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-muted-foreground">Written</span>
+                                        <span className="font-medium">{openCycle.quantity} @ {formatQuote(openCycle.strike)}</span>
+                                    </div>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-muted-foreground">Expiry</span>
+                                        <span className={cn("font-medium", isExpired && "text-amber-500")}>
+                                            {formatDate(openCycle.expiry)}{isExpired ? " (expired)" : ""}
+                                        </span>
+                                    </div>
+                                    {claim && (
+                                        <div className="flex items-center justify-between">
+                                            <span className="text-muted-foreground">
+                                                {settlement?.isSettled ? "Settled at" : "Settles at"} {formatQuote(claim.settlementPrice)}
+                                            </span>
+                                            <span className={cn("font-medium", claim.base > 0n ? "text-buy" : "text-amber-500")}>
+                                                {claim.base > 0n ? "Expired worthless" : "Assigned"}
+                                            </span>
+                                        </div>
+                                    )}
+                                </>
+                            ) : (
+                                <p className="text-muted-foreground">No open cycle. Start one below.</p>
+                            )}
+                        </div>
+
+                        <div className="space-y-1 rounded-md border bg-muted/20 px-2 py-1.5 text-xs">
+                            <div className="font-medium">Next call</div>
+                            {chosen ? (
+                                <>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-muted-foreground">Call</span>
+                                        <span className="font-medium">{chosen.option.name}</span>
+                                    </div>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-muted-foreground">Δ / OTM</span>
+                                        <span className="font-medium">
+                                            {formatGreek("delta", chosen.delta)} / {formatPercent(chosen.otmPercent)}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-muted-foreground">Size</span>
+                                        <span className="font-medium">
+                                            {quantity > 0 ? `${quantity.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${pair?.baseAsset}` : "—"}
+                                        </span>
+                                    </div>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-muted-foreground">Premium (est.)</span>
+                                        <span className="font-medium text-buy">
+                                            {preview ? `${formatQuote(preview.premium)} (${formatPercent(spot > 0 ? preview.premium / (quantity * spot) : 0)})` : "—"}
+                                        </span>
+                                    </div>
+                                </>
+                            ) : (
+                                <p className="text-muted-foreground">No out-of-the-money call matches the policy.</p>
+                            )}
+                        </div>
+                    </div>
+
+                    {blockReason && <p className="text-amber-500">{blockReason}</p>}
+                    <div className="flex gap-2">
+                        <Button
+                            onClick={() => executeRoll(true)}
+                            disabled={!!blockReason || isRolling}
+                            loading={isRolling}
+                            className="flex-1"
+                        >
+                            {openCycle ? "Settle, claim & roll" : "Start cycle"}
+                        </Button>
+                        {openCycle && isExpired && (
+                            <Button
+                                variant="outline"
+                                onClick={() => executeRoll(false)}
+                                disabled={!address || !balanceManager || !!closeBlock || isRolling}
+                            >
+                                Close without rolling
+                            </Button>
+                        )}
+                    </div>
+
+                    <div className="space-y-1">
+                        <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                            <span className="font-medium">History</span>
+                            <span className="text-muted-foreground">
+                                {stats.cycles} closed · premium <span className="text-buy">{formatQuote(stats.totalPremium)}</span>
+                                {" · "}assigned {formatPercent(stats.assignmentRate)}
+                                {" · "}realized yield <span className={stats.annualizedReturn >= 0 ? "text-buy" : "text-sell"}>
+                                    {formatPercent(stats.annualizedReturn)}
+                                </span> APR
+                            </span>
+                        </div>
+                        {pairHistory.length > 0 ? (
+                            <table className="w-full text-left">
+                                <thead className="text-muted-foreground">
+                                    <tr>
+                                        <th className="py-1 font-normal">Opened</th>
+                                        <th className="py-1 font-normal">Call</th>
+                                        <th className="py-1 font-normal text-right">Size</th>
+                                        <th className="py-1 font-normal text-right">Premium</th>
+                                        <th className="py-1 font-normal text-right">Outcome</th>
+                                        <th className="py-1 font-normal text-right">Return</th>
+                                        <th className="py-1 font-normal text-right">APR</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {[...pairHistory].reverse().map((cycle) => {
+                                        const result = vaultCycleResult(cycle);
+                                        return (
+                                            <tr key={cycle.id} className="border-t">
+                                                <td className="py-1">{formatDate(cycle.openedAt)}</td>
+                                                <td className="py-1">{cycle.optionName}</td>
+                                                <td className="py-1 text-right">{cycle.quantity}</td>
+                                                <td className="py-1 text-right">{formatQuote(cycle.premium)}</td>
+                                                <td className="py-1 text-right">
+                                                    {cycle.closedAt === undefined
+                                                        ? "Open"
+                                                        : `${cycle.assigned ? "Assigned" : "OTM"} @ ${formatGreek("fairValue", cycle.settlementPrice ?? 0)}`}
+                                                </td>
+                                                <td className={cn("py-1 text-right", result && (result.realizedReturn >= 0 ? "text-buy" : "text-sell"))}>
+                                                    {result ? formatPercent(result.realizedReturn) : "—"}
+                                                </td>
+                                                <td className="py-1 text-right">{result ? formatPercent(result.annualizedReturn) : "—"}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        ) : (
+                            <p className="text-muted-foreground">No cycles yet.</p>
+                        )}
+                        <p className="text-muted-foreground">
+                            Return is premium less upside given up on assignment, over the notional at open. Premiums are the
+                            estimates at open; fees not included.
+                        </p>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,13 +1,13 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { TradingChart, CandlestickData, Interval } from './TradingChart';
 import {
-  getAllPools,
+  estimatedPrice,
   getOHLCVData,
-  getRecentTrades,
-  getOrderBook,
-  PoolInfo,
+  priceFromOrderBook,
   MarketPrice,
+  Trade,
 } from '../lib/deepbook';
+import { useCandles, useMarketStream, useOrderBook, usePools, useTrades } from '../hooks/deepbook';
 import { RefreshCw } from 'lucide-react';
 import { cn } from '../lib/utils';
 import deepLogo from '../assets/deep-logo.png';
@@ -27,17 +27,15 @@ import { OrderPanel } from './OrderPanel';
 import { AccountPanel } from './AccountPanel';
 import { TradingHeader } from './TradingHeader';
 import { PoolSelectorPopup } from './PoolSelectorPopup';
+import { HedgePanel } from './HedgePanel';
 import { BottomSheet } from './ui/bottom-sheet';
 import { useCurrentNetwork, useCurrentAccount, ConnectButton } from '@mysten/dapp-kit-react';
 
 export function DeepBookTrading() {
-  const [pools, setPools] = useState<PoolInfo[]>([]);
   const [selectedPool, setSelectedPool] = useState<string | null>(null);
-  const [marketPrice, setMarketPrice] = useState<MarketPrice | null>(null);
   const [chartData, setChartData] = useState<CandlestickData[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [isSelectorOpen, setIsSelectorOpen] = useState(false);
+  const [isHedgeOpen, setIsHedgeOpen] = useState(false);
   const [interval, setInterval] = useState<Interval>('1h');
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const network = useCurrentNetwork();
@@ -45,48 +43,34 @@ export function DeepBookTrading() {
   const [selectedPriceFromOrderBook, setSelectedPriceFromOrderBook] = useState<number | null>(null);
   const [tradeDrawerOpen, setTradeDrawerOpen] = useState(false);
   const [tradeDrawerSide, setTradeDrawerSide] = useState<'buy' | 'sell'>('buy');
-  const [ordersRefreshTrigger, setOrdersRefreshTrigger] = useState(0);
 
+  const poolsQuery = usePools(network);
+  const pools = poolsQuery.data ?? [];
+  const loading = poolsQuery.isPending;
+  const selectedPoolInfo = pools.find((p) => p.poolName === selectedPool);
+  // The chart and live price share their cache entries with the order book and other panels
+  const candlesQuery = useCandles(selectedPool, interval, network, { limit: 500 });
+  const tradesQuery = useTrades(selectedPool, network);
+  const orderBookQuery = useOrderBook(selectedPool, network);
+  // Pushes book and trade updates from chain events into those same cache entries
+  useMarketStream(selectedPoolInfo, network);
+
+  // Select the preferred pool once pools load, and again when the selection isn't on this network
   useEffect(() => {
-    const loadPools = async () => {
-      try {
-        setLoading(true);
-        const availablePools = await getAllPools(network);
-        setPools(availablePools);
-
-        if (availablePools.length > 0) {
-          const preferredPoolName = network === 'mainnet' ? 'SUI_USDC' : 'DEEP_SUI';
-          const preferredPool = availablePools.find(p => p.poolName === preferredPoolName);
-          setSelectedPool(preferredPool?.poolName || availablePools[0].poolName);
-        }
-      } catch (error) {
-        console.error('Error loading pools:', error);
-        setError('Failed to load pools');
-      } finally {
-        setLoading(false);
-      }
-    };
+    const availablePools = poolsQuery.data;
+    if (!availablePools || availablePools.length === 0) return;
+    if (selectedPool && availablePools.some((p) => p.poolName === selectedPool)) return;
 
-    loadPools();
-  }, [network]);
+    const preferredPoolName = network === 'mainnet' ? 'SUI_USDC' : 'DEEP_SUI';
+    const preferredPool = availablePools.find(p => p.poolName === preferredPoolName);
+    setSelectedPool(preferredPool?.poolName || availablePools[0].poolName);
+  }, [poolsQuery.data, selectedPool, network]);
 
-  // Helper function to update market price and chart from recent trades
-  const updatePriceFromTrades = useCallback((recentTrades: any[]) => {
+  // Keep the last candle of the chart on the most recent trade
+  const updateChartFromTrades = useCallback((recentTrades: Trade[]) => {
     if (recentTrades.length === 0) return;
 
-    const mostRecentTrade = recentTrades[0];
-    const tradePrice = mostRecentTrade.price;
-
-    // Update market price from the most recent trade
-    const spread = tradePrice * 0.001; // Estimate bid/ask spread (typically 0.1% for liquid pairs)
-    const bestBid = tradePrice - spread / 2;
-    const bestAsk = tradePrice + spread / 2;
-
-    setMarketPrice({
-      bestBidPrice: bestBid,
-      bestAskPrice: bestAsk,
-      midPrice: tradePrice,
-    });
+    const tradePrice = recentTrades[0].price;
 
     // Update chart data with the most recent trade price
     setChartData(prevData => {
@@ -121,87 +105,40 @@ export function DeepBookTrading() {
   // Clear chart data when network changes so we don't show stale data from the previous network
   useEffect(() => {
     setChartData([]);
-    setMarketPrice(null);
-    setError(null);
   }, [network]);
 
+  // Replace the chart when the latest candles change; refetches that return the same candles
+  // keep the same data reference, so load-more history survives them
   useEffect(() => {
-    if (!selectedPool) return;
-
-    const abortController = new AbortController();
-    const loadPoolData = async () => {
-      const poolForFetch = selectedPool;
-      const networkForFetch = network;
-      try {
-        setError(null);
-
-        // Load OHLCV data for the chart
-        const limit = 500;
-        const ohlcvData = await getOHLCVData(poolForFetch, interval, limit, undefined, undefined, networkForFetch);
-
-        // Ignore response if effect was cleaned up (network/pool changed)
-        if (abortController.signal.aborted) return;
-
-        if (ohlcvData.length > 0) {
-          setChartData(ohlcvData);
-        } else {
-          setError('No historical data available for this pool.');
-          setChartData([]);
-        }
-
-        // Fetch recent trades to update price
-        const recentTrades = await getRecentTrades(poolForFetch, networkForFetch, 1);
-        if (abortController.signal.aborted) return;
+    if (candlesQuery.data) {
+      setChartData(candlesQuery.data);
+    }
+  }, [candlesQuery.data]);
 
-        if (recentTrades.length > 0) {
-          updatePriceFromTrades(recentTrades);
-        } else {
-          setError('Unable to fetch price data. Pool may not have recent trades.');
-          setMarketPrice(null);
-        }
-      } catch (error) {
-        if (abortController.signal.aborted) return;
-        console.error('Error loading pool data:', error);
-        setError(error instanceof Error ? error.message : 'Failed to load pool data');
-      }
-    };
-
-    loadPoolData();
-    const refreshTimer = window.setInterval(loadPoolData, 15000);
-    return () => {
-      abortController.abort();
-      window.clearInterval(refreshTimer);
-    };
-  }, [selectedPool, network, interval, updatePriceFromTrades]);
-
-  // Update live price from recent trades (more frequently)
-  // Fetch both order book and trades together to ensure they're synchronized
-  // This matches what OrderBook component does to keep everything in sync
   useEffect(() => {
-    if (!selectedPool) return;
-
-    const updateLivePrice = async () => {
-      try {
-        // Fetch both trades and order book together using Promise.all()
-        // This ensures order book and trades are fetched at the exact same time
-        // Even though we don't use the order book here, fetching it ensures synchronization
-        const [recentTrades] = await Promise.all([
-          getRecentTrades(selectedPool, network, 1),
-          getOrderBook(selectedPool, network) // Fetch together for synchronization
-        ]);
-
-        updatePriceFromTrades(recentTrades);
-      } catch (error) {
-        console.error('Error updating live price:', error);
-      }
-    };
-
-    // Update more frequently for live price (every 5 seconds)
-    // This matches the OrderBook refresh interval to keep them synchronized
-    updateLivePrice();
-    const livePriceTimer = window.setInterval(updateLivePrice, 5000);
-    return () => window.clearInterval(livePriceTimer);
-  }, [selectedPool, network, updatePriceFromTrades]);
+    if (tradesQuery.data) {
+      updateChartFromTrades(tradesQuery.data);
+    }
+  }, [tradesQuery.data, updateChartFromTrades]);
+
+  // Best bid / ask of the live book; the last trade only stands in when the book is empty
+  const marketPrice = useMemo((): MarketPrice | null => {
+    const book = orderBookQuery.data;
+    const fromBook = book ? priceFromOrderBook(book, book.timestamp ?? orderBookQuery.dataUpdatedAt) : null;
+    if (fromBook) return fromBook;
+    const lastTrade = tradesQuery.data?.[0];
+    return lastTrade ? estimatedPrice(lastTrade.price, lastTrade.time * 1000, 'trades') : null;
+  }, [orderBookQuery.data, orderBookQuery.dataUpdatedAt, tradesQuery.data]);
+
+  const error = poolsQuery.isError
+    ? 'Failed to load pools'
+    : candlesQuery.error
+      ? candlesQuery.error.message
+      : candlesQuery.data?.length === 0
+        ? 'No historical data available for this pool.'
+        : !marketPrice && tradesQuery.data?.length === 0
+          ? 'Unable to fetch price data. Pool may not have recent trades.'
+          : null;
 
   // Handle loading more historical data when scrolling back
   const handleLoadMore = async (oldestTimestamp: number) => {
@@ -300,8 +237,6 @@ export function DeepBookTrading() {
     );
   }
 
-  const selectedPoolInfo = pools.find((p) => p.poolName === selectedPool);
-
   return (
     <div className="flex flex-col h-full min-h-0 overflow-hidden selection:bg-primary/30 relative">
       {/* Main Layout Container */}
@@ -318,6 +253,10 @@ export function DeepBookTrading() {
                 network={network}
                 onOpenSelector={() => setIsSelectorOpen(!isSelectorOpen)}
                 isSelectorOpen={isSelectorOpen}
+                onOpenHedge={() => {
+                  setIsSelectorOpen(false);
+                  setIsHedgeOpen(!isHedgeOpen);
+                }}
               />
               <PoolSelectorPopup
                 isOpen={isSelectorOpen}
@@ -329,6 +268,12 @@ export function DeepBookTrading() {
                 }}
                 selectedPoolName={selectedPool}
               />
+              <HedgePanel
+                isOpen={isHedgeOpen}
+                onClose={() => setIsHedgeOpen(false)}
+                poolInfo={selectedPoolInfo}
+                spotPrice={marketPrice?.midPrice || 0}
+              />
             </div>
           )}
 
@@ -353,7 +298,7 @@ export function DeepBookTrading() {
 
           {/* Account Panel — Desktop: orders below chart, scrolls when many orders */}
           <div className="hidden lg:block h-[220px] xl:h-[260px] border-t-2 border-border overflow-hidden bg-card/80 backdrop-blur-sm shrink-0">
-            <AccountPanel poolName={selectedPool || ''} refreshTrigger={ordersRefreshTrigger} />
+            <AccountPanel poolName={selectedPool || ''} />
           </div>
         </div>
 
@@ -394,7 +339,6 @@ export function DeepBookTrading() {
             poolInfo={selectedPoolInfo || null}
             currentPrice={marketPrice?.midPrice || 0}
             selectedPriceFromOrderBook={selectedPriceFromOrderBook}
-            onOrderPlaced={() => setTimeout(() => setOrdersRefreshTrigger((t) => t + 1), 2000)}
           />
         </div>
       </div>
@@ -439,11 +383,10 @@ export function DeepBookTrading() {
                 selectedPriceFromOrderBook={selectedPriceFromOrderBook}
                 initialSide={tradeDrawerSide}
                 compact
-                onOrderPlaced={() => setTimeout(() => setOrdersRefreshTrigger((t) => t + 1), 2000)}
               />
             </div>
             <div className="flex-1 min-h-[240px] overflow-hidden">
-              <AccountPanel poolName={selectedPool || ''} refreshTrigger={ordersRefreshTrigger} />
+              <AccountPanel poolName={selectedPool || ''} />
             </div>
           </div>
           {!currentAccount && (
@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { useCurrentNetwork } from "@mysten/dapp-kit-react";
+import { Loader2 } from "lucide-react";
+import { getOrderBook, type OrderBookData } from "../lib/deepbook";
+import { simulateExercise, type ExerciseQuote } from "../lib/exercise";
+import { getOptionTokenPools, type OptionPool } from "../lib/options";
+
+interface ExercisePreviewProps {
+    option: OptionPool;
+    /** Options to exercise, as typed */
+    amount: string;
+    sender: string;
+    /** Receives the latest simulation (null while it's pending or the amount is empty) */
+    onQuoteChange?: (quote: ExerciseQuote | null) => void;
+}
+
+/** Wait for typing to settle before simulating */
+const SIMULATE_DEBOUNCE_MS = 600;
+
+export function ExercisePreview({ option, amount, sender, onQuoteChange }: ExercisePreviewProps) {
+    const currentNetwork = useCurrentNetwork();
+    const [book, setBook] = useState<OrderBookData | null>(null);
+    const [quote, setQuote] = useState<ExerciseQuote | null>(null);
+    const [isSimulating, setIsSimulating] = useState(false);
+
+    const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+    const qty = parseFloat(amount) || 0;
+
+    // Bids for the option token, to compare exercising with selling
+    useEffect(() => {
+        let cancelled = false;
+        setBook(null);
+        getOptionTokenPools([option], network)
+            .then(async (pools) => {
+                const pool = pools[option.id];
+                const data = pool ? await getOrderBook(pool.poolName, network) : null;
+                if (!cancelled) setBook(data);
+            })
+            .catch((error) => console.error("Error loading option token book:", error));
+        return () => {
+            cancelled = true;
+        };
+    }, [option.id, network]);
+
+    useEffect(() => {
+        setQuote(null);
+        onQuoteChange?.(null);
+        if (qty <= 0 || !option.deepbookPoolId) return;
+        const deepbookPoolId = option.deepbookPoolId;
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            setIsSimulating(true);
+            try {
+                const amountRaw = BigInt(Math.floor(qty * Math.pow(10, option.optionTokenDecimals ?? 9)));
+                const result = await simulateExercise(option, amountRaw, { sender, deepbookPoolId, book }, network);
+                if (!cancelled) {
+                    setQuote(result);
+                    onQuoteChange?.(result);
+                }
+            } catch (error) {
+                console.error("Exercise simulation failed:", error);
+            } finally {
+                if (!cancelled) setIsSimulating(false);
+            }
+        }, SIMULATE_DEBOUNCE_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [option.id, qty, sender, network, book]);
+
+    if (qty <= 0) return null;
+    if (isSimulating && !quote) {
+        return (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Simulating exercise...
+            </div>
+        );
+    }
+    if (!quote) return null;
+
+    const baseScale = Math.pow(10, option.baseAssetDecimals ?? 9);
+    const quoteScale = Math.pow(10, option.quoteAssetDecimals ?? 9);
+    const [payAsset, payScale, receiveAsset, receiveScale] = option.type === "CALL"
+        ? [option.quoteAsset, quoteScale, option.baseAsset, baseScale]
+        : [option.baseAsset, baseScale, option.quoteAsset, quoteScale];
+    const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+    return (
+        <div className="space-y-1 rounded-md border bg-muted/20 px-2 py-1.5 text-xs">
+            <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Oracle price after update</span>
+                <span className="font-medium">
+                    {quote.oraclePrice !== null ? `${format(quote.oraclePrice)} ${option.quoteAsset}` : "—"}
+                </span>
+            </div>
+            <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">You pay</span>
+                <span className="font-medium">{format(Number(quote.payment) / payScale)} {payAsset}</span>
+            </div>
+            <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">You receive</span>
+                <span className="font-medium">
+                    {quote.payout !== null ? `${format(Number(quote.payout) / receiveScale)} ${receiveAsset}` : "—"}
+                </span>
+            </div>
+            <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Net intrinsic value</span>
+                <span className={`font-medium ${quote.intrinsicValue !== null && quote.intrinsicValue > 0 ? "text-buy" : "text-sell"}`}>
+                    {quote.intrinsicValue !== null ? `${format(quote.intrinsicValue)} ${option.quoteAsset}` : "—"}
+                </span>
+            </div>
+            <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Sell on DeepBook instead</span>
+                <span className="font-medium">
+                    {quote.marketValue !== null
+                        ? `${format(quote.marketValue)} ${option.quoteAsset}${quote.marketFilled < qty ? ` (${format(quote.marketFilled)} fill)` : ""}`
+                        : "No bids"}
+                </span>
+            </div>
+            {quote.gasCost !== null && (
+                <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Est. gas</span>
+                    <span className="font-medium">{format(Number(quote.gasCost) / 1e9)} SUI</span>
+                </div>
+            )}
+            {quote.verdict === "blocked" && (
+                <p className="text-sell">Exercise would fail: {quote.error}</p>
+            )}
+            {quote.verdict === "sell" && quote.marketValue !== null && (
+                <p className="text-amber-500">
+                    Selling on DeepBook returns {format(quote.marketValue - (quote.intrinsicValue ?? 0))} {option.quoteAsset} more than exercising (fees not included).
+                </p>
+            )}
+        </div>
+    );
+}
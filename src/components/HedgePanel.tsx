@@ -0,0 +1,368 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useCurrentAccount, useCurrentClient, useCurrentNetwork, useDAppKit } from '@mysten/dapp-kit-react';
+import { SuiJsonRpcClient } from '@mysten/sui/jsonRpc';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { ShieldCheck, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { cn } from '../lib/utils';
+import {
+    RPC_URLS,
+    getBalanceManager,
+    getMarketPrice,
+    getOrderBook,
+    type OrderBookData,
+    type PoolInfo,
+} from '../lib/deepbook';
+import {
+    findHedgeOptions,
+    hedgeExpiries,
+    suggestHedge,
+    summarizeHedge,
+    type HedgeKind,
+    type HedgeParams,
+} from '../lib/hedge';
+import { isAbortError } from '../lib/indexer';
+import { discoverOptionPools, getOptionTokenPools, type OptionPool } from '../lib/options';
+import { DEFAULT_RISK_FREE_RATE, DEFAULT_VOLATILITY, formatGreek, priceOptionPool } from '../lib/pricing';
+import { buildStrategy, estimateLegFill } from '../lib/strategy';
+
+interface HedgePanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** Spot pool on screen; its base asset is what gets hedged */
+    poolInfo: PoolInfo;
+    /** Mid price of `poolInfo` */
+    spotPrice: number;
+}
+
+/** SUI left in the wallet for gas when SUI is the underlying */
+const GAS_RESERVE_MIST = 200_000_000n;
+
+export function HedgePanel({ isOpen, onClose, poolInfo, spotPrice }: HedgePanelProps) {
+    const currentAccount = useCurrentAccount();
+    const currentNetwork = useCurrentNetwork();
+    const client = useCurrentClient();
+    const dAppKit = useDAppKit();
+    const [options, setOptions] = useState<OptionPool[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [kind, setKind] = useState<HedgeKind>('protective-put');
+    const [expiry, setExpiry] = useState<number | null>(null);
+    const [floorPercent, setFloorPercent] = useState('90');
+    const [capPercent, setCapPercent] = useState('115');
+    const [coveragePercent, setCoveragePercent] = useState('100');
+    const [holding, setHolding] = useState<number | null>(null);
+    const [oracleSpot, setOracleSpot] = useState<number | null>(null);
+    const [markets, setMarkets] = useState<Record<string, PoolInfo>>({});
+    const [books, setBooks] = useState<Record<string, OrderBookData | null>>({});
+    const [balanceManager, setBalanceManager] = useState<string | null>(null);
+    const [isExecuting, setIsExecuting] = useState(false);
+
+    const network = currentNetwork as 'mainnet' | 'testnet' | 'devnet';
+    const address = currentAccount?.address;
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleEscape = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onClose();
+        };
+        document.addEventListener('keydown', handleEscape);
+        return () => document.removeEventListener('keydown', handleEscape);
+    }, [isOpen, onClose]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        setIsLoading(true);
+        discoverOptionPools(network)
+            .then((pools) => {
+                if (!cancelled) setOptions(pools);
+            })
+            .catch((error) => console.error('Error discovering option pools:', error))
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, network]);
+
+    const hedgeOptions = useMemo(
+        () => findHedgeOptions(options, { type: poolInfo.baseAssetType, symbol: poolInfo.baseCoin }),
+        [options, poolInfo.baseAssetType, poolInfo.baseCoin]
+    );
+    const expiries = hedgeExpiries(hedgeOptions);
+    const selectedExpiry = expiry !== null && expiries.includes(expiry) ? expiry : expiries[0] ?? null;
+    const oraclePoolName = hedgeOptions.find((o) => o.type === 'PUT' && o.expirationDate === selectedExpiry)?.deepbookPoolName;
+
+    // Options are struck in their oracle pool's quote, which need not be this pool's quote
+    useEffect(() => {
+        setOracleSpot(null);
+        if (!isOpen || !oraclePoolName || oraclePoolName === poolInfo.poolName) return;
+        const controller = new AbortController();
+        getMarketPrice(oraclePoolName, network === 'devnet' ? 'testnet' : network, { signal: controller.signal })
+            .then((price) => setOracleSpot(price?.midPrice ?? null))
+            .catch((error) => {
+                if (!isAbortError(error)) console.error('Error fetching oracle price:', error);
+            });
+        return () => controller.abort();
+    }, [isOpen, oraclePoolName, poolInfo.poolName, network]);
+    const spot = oraclePoolName === poolInfo.poolName ? spotPrice : oracleSpot ?? 0;
+
+    const baseType = hedgeOptions[0]?.baseAssetType ?? poolInfo.baseAssetType;
+    useEffect(() => {
+        setHolding(null);
+        if (!isOpen || !address || !baseType) return;
+        const jsonRpcClient = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+        jsonRpcClient
+            .getBalance({ owner: address, coinType: baseType })
+            .then((balance) => {
+                const total = BigInt(balance.totalBalance);
+                const isSui = normalizeStructTag(baseType) === normalizeStructTag('0x2::sui::SUI');
+                const available = isSui ? (total > GAS_RESERVE_MIST ? total - GAS_RESERVE_MIST : 0n) : total;
+                setHolding(Number(available) / Math.pow(10, poolInfo.baseAssetDecimals));
+            })
+            .catch((error) => console.error('Error fetching balance:', error));
+    }, [isOpen, address, baseType, network, poolInfo.baseAssetDecimals]);
+
+    useEffect(() => {
+        if (!isOpen || !address) {
+            setBalanceManager(null);
+            return;
+        }
+        getBalanceManager(client, address, network)
+            .then(setBalanceManager)
+            .catch((error) => {
+                console.error('Error fetching BalanceManager:', error);
+                setBalanceManager(null);
+            });
+    }, [isOpen, address, client, network]);
+
+    const params: HedgeParams | null = selectedExpiry !== null && holding !== null
+        ? {
+            kind,
+            holding,
+            coverage: (parseFloat(coveragePercent) || 0) / 100,
+            floor: (parseFloat(floorPercent) || 0) / 100,
+            cap: (parseFloat(capPercent) || 0) / 100,
+            expiry: selectedExpiry,
+        }
+        : null;
+    const draft = params ? suggestHedge(hedgeOptions, spot, params) : null;
+    const legOptionIds = draft ? draft.legs.map((l) => l.option.id).join(',') : '';
+
+    // Markets and books for the suggested legs
+    useEffect(() => {
+        if (!isOpen || !draft) return;
+        let cancelled = false;
+        (async () => {
+            const pools = await getOptionTokenPools(draft.legs.map((l) => l.option), network);
+            const entries = await Promise.all(
+                // A failing book only leaves its leg without a fill estimate
+                Object.entries(pools).map(async ([id, pool]) => {
+                    const book = await getOrderBook(pool.poolName, network).catch((error) => {
+                        console.error('Error fetching hedge leg book for', id, ':', error);
+                        return null;
+                    });
+                    return [id, book] as const;
+                })
+            );
+            if (!cancelled) {
+                setMarkets(pools);
+                setBooks(Object.fromEntries(entries));
+            }
+        })().catch((error) => console.error('Error loading hedge books:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, legOptionIds, network]);
+
+    // Round to the put market's lot once it is known
+    const putMarket = draft ? markets[draft.put.id] : undefined;
+    const suggestion = params && putMarket
+        ? suggestHedge(hedgeOptions, spot, { ...params, lot: putMarket.lotSize / Math.pow(10, putMarket.baseAssetDecimals) })
+        : draft;
+
+    const model = { volatility: DEFAULT_VOLATILITY, riskFreeRate: DEFAULT_RISK_FREE_RATE };
+    const rows = (suggestion?.legs ?? []).map((leg) => {
+        const fill = estimateLegFill(leg, books[leg.option.id] ?? null);
+        const fromBook = fill.filled > 0;
+        const premium = fromBook ? fill.averagePrice : priceOptionPool(leg.option, spot, model).fairValue;
+        return { leg: { ...leg, premium }, fromBook, fillable: fill.filled >= leg.quantity && leg.quantity > 0 };
+    });
+    const legs = rows.map((r) => r.leg);
+    const summary = suggestion && legs.length > 0 && spot > 0 ? summarizeHedge(legs, suggestion.quantity, spot) : null;
+
+    const quoteAsset = suggestion?.put.quoteAsset ?? poolInfo.quoteCoin;
+    const unfillable = rows.filter((r) => !markets[r.leg.option.id] || !r.fillable);
+    const blockReason = (!address ? 'Connect your wallet' : null)
+        ?? (hedgeOptions.length === 0 ? `No live options on ${poolInfo.baseCoin}` : null)
+        ?? (!suggestion ? `No puts on ${poolInfo.baseCoin} for this expiry` : null)
+        ?? (spot <= 0 ? 'No spot price for the options\' oracle pool' : null)
+        ?? (suggestion && suggestion.quantity <= 0 ? `No ${poolInfo.baseCoin} to hedge` : null)
+        ?? (kind === 'collar' && !suggestion?.call ? 'No call above spot at this expiry to finance the put' : null)
+        ?? (!balanceManager ? 'No BalanceManager found. Create one from the Trade page first.' : null)
+        ?? (unfillable.length > 0 ? `Not enough liquidity for ${unfillable.map((r) => r.leg.option.name).join(', ')}` : null);
+
+    const handleExecute = async () => {
+        if (!address || !balanceManager || blockReason) return;
+        setIsExecuting(true);
+        try {
+            const tx = new Transaction();
+            buildStrategy(tx, client, address, legs, markets, balanceManager, network);
+            const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+            if (result.$kind === 'FailedTransaction') throw new Error('Transaction failed');
+            toast.success(kind === 'collar' ? 'Collar placed' : 'Protective put bought', {
+                description: `${suggestion?.quantity} ${poolInfo.baseCoin} covered until ${new Date(suggestion?.expiry ?? 0).toLocaleDateString()}`,
+            });
+            onClose();
+        } catch (error) {
+            console.error('Hedge failed:', error);
+            toast.error('Hedge failed', {
+                description: error instanceof Error ? error.message : 'Unknown error',
+            });
+        } finally {
+            setIsExecuting(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const formatQuote = (v: number) => (Number.isFinite(v) ? `${formatGreek('fairValue', v)} ${quoteAsset}` : 'Unlimited');
+    const inputClass = 'w-full px-2 py-1 rounded-md border bg-input text-foreground text-xs focus:ring-1 focus:ring-primary outline-none';
+
+    return (
+        <div
+            className="absolute top-full right-0 mt-1 z-50 w-[calc(100vw-16px)] max-w-[420px] bg-card border border-border rounded-xl shadow-clay-lg overflow-hidden flex flex-col max-h-[70vh] text-xs"
+        >
+            <div className="flex items-center justify-between px-4 py-2 border-b border-border bg-muted/20">
+                <div className="flex items-center gap-2 font-semibold text-sm">
+                    <ShieldCheck className="h-4 w-4" />
+                    Hedge {poolInfo.baseCoin}
+                </div>
+                <button type="button" onClick={onClose} className="p-1 rounded hover:bg-muted text-muted-foreground" aria-label="Close">
+                    <X className="h-4 w-4" />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar px-4 py-3 space-y-3">
+                <div className="flex gap-1">
+                    {([['protective-put', 'Protective put'], ['collar', 'Collar']] as const).map(([value, label]) => (
+                        <button
+                            key={value}
+                            type="button"
+                            onClick={() => setKind(value)}
+                            className={cn(
+                                'flex-1 rounded-md border px-2 py-1.5',
+                                kind === value ? 'bg-primary/10 text-primary border-primary' : 'text-muted-foreground hover:bg-muted/50'
+                            )}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Holding</span>
+                    <span className="font-medium">
+                        {holding !== null ? `${holding.toLocaleString(undefined, { maximumFractionDigits: 4 })} ${poolInfo.baseCoin}` : '—'}
+                    </span>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="space-y-1 col-span-2">
+                        <span className="text-muted-foreground">Expiry</span>
+                        <select
+                            value={selectedExpiry ?? ''}
+                            onChange={(e) => setExpiry(Number(e.target.value))}
+                            className={inputClass}
+                            disabled={expiries.length === 0}
+                        >
+                            {expiries.length === 0 && <option value="">{isLoading ? 'Loading options...' : 'No puts listed'}</option>}
+                            {expiries.map((e) => (
+                                <option key={e} value={e}>
+                                    {new Date(e).toLocaleString()}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="space-y-1">
+                        <span className="text-muted-foreground">Protect below (% of spot)</span>
+                        <input type="number" min="1" max="100" value={floorPercent} onChange={(e) => setFloorPercent(e.target.value)} className={inputClass} />
+                    </label>
+                    <label className="space-y-1">
+                        <span className="text-muted-foreground">Cover (% of holding)</span>
+                        <input type="number" min="1" max="100" value={coveragePercent} onChange={(e) => setCoveragePercent(e.target.value)} className={inputClass} />
+                    </label>
+                    {kind === 'collar' && (
+                        <label className="space-y-1 col-span-2">
+                            <span className="text-muted-foreground">Cap upside at (% of spot)</span>
+                            <input type="number" min="100" value={capPercent} onChange={(e) => setCapPercent(e.target.value)} className={inputClass} />
+                        </label>
+                    )}
+                </div>
+
+                {rows.length > 0 && (
+                    <div className="space-y-1 rounded-md border bg-muted/20 px-2 py-1.5">
+                        {rows.map(({ leg, fromBook }) => (
+                            <div key={leg.option.id} className="flex items-center justify-between">
+                                <span>
+                                    <span className={leg.action === 'buy' ? 'text-buy' : 'text-sell'}>
+                                        {leg.action === 'buy' ? 'Buy' : 'Write'}
+                                    </span>{' '}
+                                    {leg.quantity.toLocaleString(undefined, { maximumFractionDigits: 4 })} {leg.option.name}
+                                </span>
+                                <span className="text-muted-foreground">
+                                    @ {formatGreek('fairValue', leg.premium)}{fromBook ? '' : ' (model)'}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {summary && (
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <span className="text-muted-foreground">{summary.netCost >= 0 ? 'Net cost' : 'Net credit'}</span>
+                            <span className="font-medium">
+                                {formatQuote(Math.abs(summary.netCost))} ({(Math.abs(summary.costPercent) * 100).toFixed(2)}%)
+                            </span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <span className="text-muted-foreground">Floor / cap</span>
+                            <span className="font-medium">
+                                {formatGreek('fairValue', summary.floorPrice)} / {summary.capPrice !== null ? formatGreek('fairValue', summary.capPrice) : '—'}
+                            </span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <span className="text-muted-foreground">Worst / best at expiry</span>
+                            <span className="font-medium">
+                                <span className="text-sell">{formatQuote(-summary.maxLoss)}</span>
+                                {' / '}
+                                <span className="text-buy">{formatQuote(summary.maxGain)}</span>
+                            </span>
+                        </div>
+                        <p className="text-muted-foreground">
+                            On the covered {poolInfo.baseCoin} from today's spot, hedge cost included. Fees not included.
+                            {kind === 'collar' && ` The call locks ${suggestion?.quantity} ${poolInfo.baseCoin} as collateral until expiry.`}
+                        </p>
+                    </div>
+                )}
+
+                {blockReason && !isLoading && <p className="text-amber-500">{blockReason}</p>}
+            </div>
+
+            <div className="px-4 py-2 border-t border-border">
+                <Button
+                    onClick={handleExecute}
+                    disabled={!!blockReason || isExecuting}
+                    loading={isExecuting}
+                    className="w-full"
+                >
+                    {kind === 'collar' ? 'Place collar' : 'Buy protective put'}
+                </Button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,358 @@
+import { useEffect, useState } from "react";
+import { useCurrentAccount, useCurrentClient, useCurrentNetwork, useDAppKit } from "@mysten/dapp-kit-react";
+import { Transaction } from "@mysten/sui/transactions";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { cn } from "../lib/utils";
+import {
+    getOrderBook,
+    getBalanceManager,
+    placeLimitOrder,
+    placeMarketOrder,
+    depositIntoBalanceManager,
+    estimateMarketFill,
+    type OrderBookData,
+    type PoolInfo,
+} from "../lib/deepbook";
+import { getOptionTokenPools, type OptionPool } from "../lib/options";
+import { buildMintAndSell, previewMintAndSell } from "../lib/writing";
+
+interface OptionOrderTicketProps {
+    option: OptionPool;
+    /** Called after an order lands so the parent can refresh token balances */
+    onOrderPlaced?: () => void;
+}
+
+/** Extra quote deposited on buys to cover taker fees */
+const FEE_BUFFER = 1.01;
+/** Levels shown per side */
+const BOOK_DEPTH = 5;
+
+export function OptionOrderTicket({ option, onOrderPlaced }: OptionOrderTicketProps) {
+    const currentAccount = useCurrentAccount();
+    const currentNetwork = useCurrentNetwork();
+    const client = useCurrentClient();
+    const dAppKit = useDAppKit();
+    const [pool, setPool] = useState<PoolInfo | null>(null);
+    const [isResolving, setIsResolving] = useState(true);
+    const [resolveError, setResolveError] = useState<string | null>(null);
+    const [book, setBook] = useState<OrderBookData | null>(null);
+    const [balanceManager, setBalanceManager] = useState<string | null>(null);
+    const [side, setSide] = useState<"buy" | "sell">("buy");
+    const [orderType, setOrderType] = useState<"limit" | "market">("limit");
+    const [price, setPrice] = useState("");
+    const [quantity, setQuantity] = useState("");
+    const [fundFromWallet, setFundFromWallet] = useState(true);
+    /** Sell freshly minted options: mint, deposit and sell in one transaction */
+    const [mintToSell, setMintToSell] = useState(false);
+    const [isPlacing, setIsPlacing] = useState(false);
+
+    const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+
+    // Resolve the option token's DeepBook pool
+    useEffect(() => {
+        let cancelled = false;
+        setIsResolving(true);
+        setResolveError(null);
+        setPool(null);
+        setBook(null);
+        getOptionTokenPools([option], network)
+            .then((pools) => {
+                if (!cancelled) setPool(pools[option.id] ?? null);
+            })
+            .catch((error) => {
+                console.error("Error resolving option token pool:", error);
+                if (!cancelled) setResolveError(error instanceof Error ? error.message : "Unknown error");
+            })
+            .finally(() => {
+                if (!cancelled) setIsResolving(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [option.id, network]);
+
+    // Poll the book like OrderBook does
+    useEffect(() => {
+        if (!pool) return;
+        const fetchBook = async () => {
+            try {
+                // The indexer's depth counts both sides
+                setBook(await getOrderBook(pool.poolName, network, 2, BOOK_DEPTH * 2));
+            } catch (error) {
+                console.error("Error fetching option token book:", error);
+            }
+        };
+        fetchBook();
+        const interval = setInterval(fetchBook, 5000);
+        return () => clearInterval(interval);
+    }, [pool?.poolId, network]);
+
+    useEffect(() => {
+        if (!currentAccount?.address) {
+            setBalanceManager(null);
+            return;
+        }
+        getBalanceManager(client, currentAccount.address, network)
+            .then(setBalanceManager)
+            .catch((error) => {
+                console.error("Error fetching BalanceManager:", error);
+                setBalanceManager(null);
+            });
+    }, [currentAccount?.address, client, network]);
+
+    const qty = parseFloat(quantity) || 0;
+    const limitPrice = parseFloat(price) || 0;
+    const marketFill = book && orderType === "market" && qty > 0 ? estimateMarketFill(book, side, qty) : null;
+    const estimatedTotal = orderType === "limit" ? limitPrice * qty : marketFill?.total ?? 0;
+    const writing = side === "sell" && mintToSell;
+    const writePreview = writing && qty > 0
+        ? previewMintAndSell(option, { quantity: qty, orderType, price: limitPrice }, book)
+        : null;
+
+    const asks = book ? [...book.asks].sort((a, b) => a.price - b.price).slice(0, BOOK_DEPTH).reverse() : [];
+    const bids = book ? [...book.bids].sort((a, b) => b.price - a.price).slice(0, BOOK_DEPTH) : [];
+
+    const handlePlaceOrder = async () => {
+        if (!currentAccount?.address || !pool) return;
+        if (!balanceManager) {
+            toast.error("No BalanceManager", { description: "Create one from the Trade page first" });
+            return;
+        }
+        if (qty <= 0) {
+            toast.error("Invalid quantity", { description: "Enter how many options to trade" });
+            return;
+        }
+        if (orderType === "limit" && limitPrice <= 0) {
+            toast.error("Invalid price", { description: "Enter a limit price" });
+            return;
+        }
+        const baseScalar = Math.pow(10, pool.baseAssetDecimals);
+        const rawQuantity = Math.round(qty * baseScalar);
+        if (rawQuantity < pool.minSize || rawQuantity % pool.lotSize !== 0) {
+            toast.error("Invalid quantity", {
+                description: `Minimum ${pool.minSize / baseScalar}, in steps of ${pool.lotSize / baseScalar}`,
+            });
+            return;
+        }
+        if (marketFill && marketFill.filled < qty && !writing) {
+            toast.error("Not enough liquidity", {
+                description: `The book can fill ${marketFill.filled} of ${qty}`,
+            });
+            return;
+        }
+
+        setIsPlacing(true);
+        try {
+            const tx = new Transaction();
+            tx.setSender(currentAccount.address);
+
+            if (writing) {
+                buildMintAndSell(tx, client, currentAccount.address, option, pool, balanceManager, {
+                    quantity: qty,
+                    orderType,
+                    price: limitPrice,
+                }, network);
+            } else {
+                if (fundFromWallet) {
+                    if (side === "buy") {
+                        const quoteType = pool.quoteAssetType ?? option.quoteAssetType;
+                        const rawCost = Math.ceil(estimatedTotal * FEE_BUFFER * Math.pow(10, pool.quoteAssetDecimals));
+                        depositIntoBalanceManager(tx, balanceManager, quoteType, BigInt(rawCost), network);
+                    } else {
+                        depositIntoBalanceManager(tx, balanceManager, option.optionTokenType, BigInt(rawQuantity), network);
+                    }
+                }
+                if (orderType === "limit") {
+                    placeLimitOrder(tx, client, currentAccount.address, pool, balanceManager, side, limitPrice, qty, network);
+                } else {
+                    placeMarketOrder(tx, client, currentAccount.address, pool, balanceManager, side, qty, network);
+                }
+            }
+
+            const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+            if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
+
+            toast.success(writing ? "Options written and listed" : `${orderType === "limit" ? "Limit" : "Market"} order placed`, {
+                description: `${side === "buy" ? "Buy" : "Sell"} ${quantity} ${option.name} ${orderType === "limit" ? `at ${price} ${option.quoteAsset}` : "at market"}`,
+            });
+            setQuantity("");
+            onOrderPlaced?.();
+        } catch (error) {
+            console.error("Option order failed:", error);
+            toast.error("Order failed", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            setIsPlacing(false);
+        }
+    };
+
+    if (isResolving) {
+        return <p className="text-xs text-muted-foreground">Looking up DeepBook pool...</p>;
+    }
+    if (resolveError) {
+        return <p className="text-xs text-destructive">Couldn't look up the DeepBook pool: {resolveError}</p>;
+    }
+    if (!pool) {
+        return (
+            <p className="text-xs text-muted-foreground">
+                This option token has no {option.quoteAsset} pool on DeepBook yet. Create one below to trade it.
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {/* Compact book: asks above, bids below; click a level to use its price */}
+            <div className="rounded-md border text-[11px] tabular-nums">
+                <div className="grid grid-cols-2 px-2 py-1 text-muted-foreground border-b">
+                    <span>Price ({option.quoteAsset})</span>
+                    <span className="text-right">Size</span>
+                </div>
+                {asks.length === 0 && bids.length === 0 ? (
+                    <p className="px-2 py-2 text-muted-foreground">Empty book</p>
+                ) : (
+                    <>
+                        {asks.map((level) => (
+                            <button
+                                key={`ask-${level.price}`}
+                                type="button"
+                                onClick={() => {
+                                    setOrderType("limit");
+                                    setPrice(level.price.toString());
+                                }}
+                                className="grid w-full grid-cols-2 px-2 py-0.5 hover:bg-muted/40"
+                            >
+                                <span className="text-left text-sell">{level.price}</span>
+                                <span className="text-right">{level.quantity}</span>
+                            </button>
+                        ))}
+                        <div className="border-t" />
+                        {bids.map((level) => (
+                            <button
+                                key={`bid-${level.price}`}
+                                type="button"
+                                onClick={() => {
+                                    setOrderType("limit");
+                                    setPrice(level.price.toString());
+                                }}
+                                className="grid w-full grid-cols-2 px-2 py-0.5 hover:bg-muted/40"
+                            >
+                                <span className="text-left text-buy">{level.price}</span>
+                                <span className="text-right">{level.quantity}</span>
+                            </button>
+                        ))}
+                    </>
+                )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-1">
+                {(["buy", "sell"] as const).map((s) => (
+                    <button
+                        key={s}
+                        type="button"
+                        onClick={() => setSide(s)}
+                        className={cn(
+                            "rounded-md py-1.5 text-xs font-bold uppercase transition-colors",
+                            side === s
+                                ? s === "buy" ? "bg-buy text-buy-foreground" : "bg-sell text-sell-foreground"
+                                : "bg-muted text-muted-foreground hover:text-foreground"
+                        )}
+                    >
+                        {s}
+                    </button>
+                ))}
+            </div>
+            <div className="flex text-xs border-b">
+                {(["limit", "market"] as const).map((t) => (
+                    <button
+                        key={t}
+                        type="button"
+                        onClick={() => setOrderType(t)}
+                        className={cn(
+                            "flex-1 py-1.5 font-bold uppercase border-b-2 transition-colors",
+                            orderType === t ? "border-primary text-primary -mb-px" : "border-transparent text-muted-foreground"
+                        )}
+                    >
+                        {t}
+                    </button>
+                ))}
+            </div>
+
+            {orderType === "limit" && (
+                <input
+                    type="number"
+                    value={price}
+                    onChange={(e) => setPrice(e.target.value)}
+                    placeholder={`Price (${option.quoteAsset})`}
+                    className="w-full px-3 py-2 rounded-md border bg-input text-sm focus:ring-1 focus:ring-primary outline-none"
+                />
+            )}
+            <input
+                type="number"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder="Quantity (options)"
+                className="w-full px-3 py-2 rounded-md border bg-input text-sm focus:ring-1 focus:ring-primary outline-none"
+            />
+            {side === "sell" && (
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <input type="checkbox" checked={mintToSell} onChange={(e) => setMintToSell(e.target.checked)} />
+                    Mint the options first (lock {option.type === "CALL" ? option.baseAsset : option.quoteAsset} collateral)
+                </label>
+            )}
+            {!writing && (
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <input type="checkbox" checked={fundFromWallet} onChange={(e) => setFundFromWallet(e.target.checked)} />
+                    Deposit {side === "buy" ? option.quoteAsset : "option tokens"} from wallet into BalanceManager
+                </label>
+            )}
+            {writePreview ? (
+                <div className="space-y-1 rounded-md border bg-muted/20 px-2 py-1.5 text-xs">
+                    <div className="flex items-center justify-between">
+                        <span className="text-muted-foreground">Collateral locked</span>
+                        <span className="font-medium">
+                            {writePreview.collateral.toLocaleString(undefined, { maximumFractionDigits: 6 })} {writePreview.collateralAsset}
+                        </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <span className="text-muted-foreground">
+                            {orderType === "limit" ? "Premium if filled" : "Premium received"}
+                        </span>
+                        <span className="font-medium text-buy">
+                            {writePreview.premium.toLocaleString(undefined, { maximumFractionDigits: 6 })} {option.quoteAsset}
+                        </span>
+                    </div>
+                    {orderType === "market" && writePreview.filled < qty && (
+                        <p className="text-amber-500">
+                            The book only absorbs {writePreview.filled} of {qty}; the rest would stay unsold in your BalanceManager.
+                        </p>
+                    )}
+                    <p className="text-muted-foreground">
+                        You keep the OwnerToken to claim collateral after expiry. Fees not included.
+                    </p>
+                </div>
+            ) : qty > 0 && estimatedTotal > 0 && (
+                <div className="flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">{side === "buy" ? "Est. cost" : "Est. proceeds"}</span>
+                    <span className="font-medium">
+                        {estimatedTotal.toLocaleString(undefined, { maximumFractionDigits: 6 })} {option.quoteAsset}
+                    </span>
+                </div>
+            )}
+            {!balanceManager && currentAccount && (
+                <p className="text-xs text-amber-500">No BalanceManager found. Create one from the Trade page first.</p>
+            )}
+            <Button
+                className={cn("w-full", side === "buy" ? "bg-buy text-buy-foreground hover:bg-buy/90" : "bg-sell text-sell-foreground hover:bg-sell/90")}
+                size="sm"
+                onClick={handlePlaceOrder}
+                disabled={isPlacing || !currentAccount || !balanceManager || qty <= 0}
+                loading={isPlacing}
+            >
+                {writing ? "Write & Sell" : side === "buy" ? "Buy" : "Sell"} {option.type === "CALL" ? "Calls" : "Puts"}
+            </Button>
+        </div>
+    );
+}
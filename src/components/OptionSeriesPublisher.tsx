@@ -0,0 +1,363 @@
+import { useEffect, useMemo, useState } from "react";
+import { useCurrentAccount, useCurrentNetwork, useDAppKit } from "@mysten/dapp-kit-react";
+import { Transaction } from "@mysten/sui/transactions";
+import { ChevronDown, Copy, Download, FilePlus2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { cn } from "../lib/utils";
+import { getAllPools, type PoolInfo } from "../lib/deepbook";
+import { registerOptionPackage } from "../lib/options";
+import {
+    MOVE_BUILD_COMMAND,
+    createOptionsPool,
+    generateOptionModule,
+    getPublishedOptionPackage,
+    parseCompiledPackage,
+    publishOptionPackage,
+    validateOptionModuleSpec,
+    type OptionModuleSpec,
+} from "../lib/publish";
+
+interface OptionSeriesPublisherProps {
+    /** Called once the new pool is registered, so the chain can be refreshed */
+    onPublished: () => void;
+}
+
+type Step = "generate" | "publish" | "create";
+
+const STEPS: { key: Step; label: string }[] = [
+    { key: "generate", label: "1. Generate" },
+    { key: "publish", label: "2. Publish" },
+    { key: "create", label: "3. Create Pool" },
+];
+
+/** Default expiry input: 30 days out, as YYYY-MM-DD */
+function defaultExpiry(): string {
+    return new Date(Date.now() + 30 * 86_400_000).toISOString().slice(0, 10);
+}
+
+export function OptionSeriesPublisher({ onPublished }: OptionSeriesPublisherProps) {
+    const currentAccount = useCurrentAccount();
+    const currentNetwork = useCurrentNetwork();
+    const dAppKit = useDAppKit();
+    const [isOpen, setIsOpen] = useState(false);
+    const [step, setStep] = useState<Step>("generate");
+    const [pools, setPools] = useState<PoolInfo[]>([]);
+    const [poolId, setPoolId] = useState("");
+    const [type, setType] = useState<"CALL" | "PUT">("CALL");
+    const [strike, setStrike] = useState("");
+    const [expiry, setExpiry] = useState(defaultExpiry);
+    const [buildOutput, setBuildOutput] = useState("");
+    const [packageId, setPackageId] = useState("");
+    const [treasuryCapId, setTreasuryCapId] = useState("");
+    const [isPublishing, setIsPublishing] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+
+    const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+
+    useEffect(() => {
+        if (!isOpen) return;
+        getAllPools(network)
+            .then((all) => {
+                // create_pool needs the coin types, which only come from the indexer
+                const usable = all.filter((p) => p.baseAssetType && p.quoteAssetType);
+                setPools(usable);
+                setPoolId((prev) => (usable.some((p) => p.poolId === prev) ? prev : usable[0]?.poolId ?? ""));
+            })
+            .catch((error) => {
+                console.error("Error loading DeepBook pools:", error);
+                toast.error("Failed to load DeepBook pools", {
+                    description: error instanceof Error ? error.message : "Unknown error",
+                });
+            });
+    }, [isOpen, network]);
+
+    const pool = pools.find((p) => p.poolId === poolId) ?? null;
+    const spec: OptionModuleSpec | null = pool
+        ? {
+              type,
+              baseSymbol: pool.baseCoin,
+              quoteSymbol: pool.quoteCoin,
+              strikePrice: parseFloat(strike),
+              // Expire at 00:00 UTC on the chosen day, like the example modules
+              expirationDate: Date.parse(`${expiry}T00:00:00Z`),
+              decimals: pool.baseAssetDecimals,
+          }
+        : null;
+    const specError = spec ? validateOptionModuleSpec(spec) : "Select a DeepBook pool";
+    const generated = useMemo(
+        () => (spec && !specError ? generateOptionModule(spec) : null),
+        [spec?.type, spec?.baseSymbol, spec?.quoteSymbol, spec?.strikePrice, spec?.expirationDate, spec?.decimals, specError]
+    );
+
+    const copy = (text: string, what: string) => {
+        navigator.clipboard.writeText(text);
+        toast.success(`${what} copied`);
+    };
+
+    const downloadSource = () => {
+        if (!generated) return;
+        const url = URL.createObjectURL(new Blob([generated.source], { type: "text/plain" }));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `${generated.moduleName}.move`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handlePublish = async () => {
+        if (!currentAccount?.address) {
+            toast.error("Please connect your wallet");
+            return;
+        }
+        setIsPublishing(true);
+        try {
+            const compiled = parseCompiledPackage(buildOutput);
+            const tx = new Transaction();
+            tx.setSender(currentAccount.address);
+            publishOptionPackage(tx, compiled, currentAccount.address);
+
+            const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+            if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
+
+            const published = await getPublishedOptionPackage(result.Transaction.digest, network);
+            setPackageId(published.packageId);
+            setTreasuryCapId(generated ? published.treasuryCaps[generated.moduleName] ?? "" : "");
+            setStep("create");
+            toast.success("Package published", { description: published.packageId });
+        } catch (error) {
+            console.error("Error publishing option package:", error);
+            toast.error("Publish failed", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            setIsPublishing(false);
+        }
+    };
+
+    const handleCreatePool = async () => {
+        if (!currentAccount?.address || !generated || !pool?.baseAssetType || !pool.quoteAssetType) return;
+        if (!packageId || !treasuryCapId) {
+            toast.error("Missing IDs", { description: "Package ID and TreasuryCap ID are required" });
+            return;
+        }
+        setIsCreating(true);
+        try {
+            const tx = new Transaction();
+            tx.setSender(currentAccount.address);
+            createOptionsPool(tx, {
+                packageId,
+                moduleName: generated.moduleName,
+                treasuryCapId,
+                baseAssetType: pool.baseAssetType,
+                quoteAssetType: pool.quoteAssetType,
+                deepbookPoolId: pool.poolId,
+            });
+
+            const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+            if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
+
+            registerOptionPackage(packageId, network);
+            toast.success("Options pool created", {
+                description: `${generated.symbol} is now listed in the chain`,
+            });
+            setStep("generate");
+            setBuildOutput("");
+            setPackageId("");
+            setTreasuryCapId("");
+            onPublished();
+        } catch (error) {
+            console.error("Error creating options pool:", error);
+            toast.error("Create pool failed", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const inputClass = "w-full px-2 py-1 rounded-md border bg-input text-foreground text-xs focus:ring-1 focus:ring-primary outline-none";
+
+    return (
+        <div className="border-t bg-card/95 text-[11px] sm:text-[12px]">
+            <div className="flex items-center justify-between gap-2 px-4 py-2 bg-muted/20 border-b">
+                <button
+                    type="button"
+                    onClick={() => setIsOpen((v) => !v)}
+                    className="font-semibold text-sm flex items-center gap-2 min-w-0"
+                    aria-expanded={isOpen}
+                >
+                    <FilePlus2 className="h-4 w-4 shrink-0" />
+                    <span className="truncate">New Option Series</span>
+                    <ChevronDown className={cn("h-4 w-4 text-muted-foreground transition-transform", isOpen && "rotate-180")} />
+                </button>
+            </div>
+
+            {isOpen && (
+                <div className="px-4 py-2 space-y-3">
+                    <div className="flex gap-1">
+                        {STEPS.map((s) => (
+                            <button
+                                key={s.key}
+                                type="button"
+                                onClick={() => setStep(s.key)}
+                                disabled={!generated}
+                                className={cn(
+                                    "flex-1 rounded-md border px-2 py-1 text-xs transition-colors disabled:opacity-50",
+                                    step === s.key
+                                        ? "border-primary/50 bg-primary/10 text-foreground"
+                                        : "text-muted-foreground hover:bg-muted/50"
+                                )}
+                            >
+                                {s.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {step === "generate" && (
+                        <div className="space-y-2">
+                            <div className="grid grid-cols-2 gap-2">
+                                <label className="space-y-1 text-muted-foreground col-span-2">
+                                    <span>DeepBook pool (underlying / quote)</span>
+                                    <select value={poolId} onChange={(e) => setPoolId(e.target.value)} className={inputClass}>
+                                        {pools.map((p) => (
+                                            <option key={p.poolId} value={p.poolId}>
+                                                {p.poolName}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="space-y-1 text-muted-foreground">
+                                    <span>Type</span>
+                                    <select value={type} onChange={(e) => setType(e.target.value as "CALL" | "PUT")} className={inputClass}>
+                                        <option value="CALL">CALL</option>
+                                        <option value="PUT">PUT</option>
+                                    </select>
+                                </label>
+                                <label className="space-y-1 text-muted-foreground">
+                                    <span>Strike ({pool?.quoteCoin ?? "quote"})</span>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={strike}
+                                        onChange={(e) => setStrike(e.target.value)}
+                                        className={inputClass}
+                                    />
+                                </label>
+                                <label className="space-y-1 text-muted-foreground col-span-2">
+                                    <span>Expiry (00:00 UTC)</span>
+                                    <input type="date" value={expiry} onChange={(e) => setExpiry(e.target.value)} className={inputClass} />
+                                </label>
+                            </div>
+                            {specError && strike !== "" && <p className="text-amber-500">{specError}</p>}
+                            {generated && (
+                                <>
+                                    <div className="flex items-center justify-between gap-2">
+                                        <code className="truncate text-muted-foreground">{generated.fileName}</code>
+                                        <div className="flex shrink-0 gap-1">
+                                            <button
+                                                type="button"
+                                                onClick={() => copy(generated.source, "Module source")}
+                                                className="rounded-lg p-1.5 text-muted-foreground hover:bg-muted/50 hover:text-foreground"
+                                                title="Copy source"
+                                            >
+                                                <Copy className="h-3.5 w-3.5" />
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={downloadSource}
+                                                className="rounded-lg p-1.5 text-muted-foreground hover:bg-muted/50 hover:text-foreground"
+                                                title="Download .move file"
+                                            >
+                                                <Download className="h-3.5 w-3.5" />
+                                            </button>
+                                        </div>
+                                    </div>
+                                    <pre className="max-h-48 overflow-auto rounded-md border bg-muted/20 p-2 text-[10px] leading-snug">
+                                        {generated.source}
+                                    </pre>
+                                    <Button size="sm" variant="outline" className="w-full" onClick={() => setStep("publish")}>
+                                        Next: Publish
+                                    </Button>
+                                </>
+                            )}
+                        </div>
+                    )}
+
+                    {step === "publish" && generated && (
+                        <div className="space-y-2">
+                            <p className="text-muted-foreground">
+                                Save the module as <code>{generated.fileName}</code>, then build the package and paste its
+                                output below.
+                            </p>
+                            <div className="flex items-center justify-between gap-2 rounded-md border bg-muted/20 px-2 py-1">
+                                <code className="truncate">{MOVE_BUILD_COMMAND}</code>
+                                <button
+                                    type="button"
+                                    onClick={() => copy(MOVE_BUILD_COMMAND, "Build command")}
+                                    className="rounded-lg p-1 text-muted-foreground hover:text-foreground"
+                                    title="Copy command"
+                                >
+                                    <Copy className="h-3.5 w-3.5" />
+                                </button>
+                            </div>
+                            <textarea
+                                value={buildOutput}
+                                onChange={(e) => setBuildOutput(e.target.value)}
+                                placeholder='{"modules": [...], "dependencies": [...], "digest": [...]}'
+                                rows={4}
+                                className={cn(inputClass, "font-mono")}
+                            />
+                            <Button
+                                size="sm"
+                                className="w-full"
+                                onClick={handlePublish}
+                                disabled={!currentAccount || !buildOutput.trim()}
+                                loading={isPublishing}
+                            >
+                                Publish Package
+                            </Button>
+                            <button
+                                type="button"
+                                onClick={() => setStep("create")}
+                                className="w-full text-xs text-primary hover:underline"
+                            >
+                                Already published? Enter the IDs
+                            </button>
+                        </div>
+                    )}
+
+                    {step === "create" && generated && pool && (
+                        <div className="space-y-2">
+                            <label className="space-y-1 text-muted-foreground block">
+                                <span>Package ID</span>
+                                <input value={packageId} onChange={(e) => setPackageId(e.target.value.trim())} className={inputClass} />
+                            </label>
+                            <label className="space-y-1 text-muted-foreground block">
+                                <span>TreasuryCap&lt;{generated.witnessName}&gt;</span>
+                                <input
+                                    value={treasuryCapId}
+                                    onChange={(e) => setTreasuryCapId(e.target.value.trim())}
+                                    className={inputClass}
+                                />
+                            </label>
+                            <p className="text-muted-foreground">
+                                Calls <code>{generated.moduleName}::create_pool</code> with {pool.poolName} as the price
+                                oracle, then adds the package to this browser's option registry.
+                            </p>
+                            <Button
+                                size="sm"
+                                className="w-full"
+                                onClick={handleCreatePool}
+                                disabled={!currentAccount || !packageId || !treasuryCapId}
+                                loading={isCreating}
+                            >
+                                Create Options Pool
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
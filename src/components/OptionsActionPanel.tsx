@@ -1,7 +1,13 @@
+import { useState } from "react";
 import { Button } from "./ui/button";
 import { ConnectButton } from "@mysten/dapp-kit-react";
-import { Loader2, Calendar, DollarSign, RefreshCw, Zap, Database } from "lucide-react";
-import type { OptionPool } from "./OptionsChain";
+import { Loader2, Calendar, DollarSign, RefreshCw, Zap, Database, Gavel, Coins, Activity, AlertTriangle, Sigma, ChevronDown, LineChart, ArrowLeftRight } from "lucide-react";
+import { isPriceStale, type OptionPool, type PoolState } from "../lib/options";
+import { GREEK_COLUMNS, formatGreek, type OptionGreeks, type PricingModel } from "../lib/pricing";
+import { PayoffChart } from "./PayoffChart";
+import { OptionOrderTicket } from "./OptionOrderTicket";
+import { ExercisePreview } from "./ExercisePreview";
+import type { ExerciseQuote } from "../lib/exercise";
 
 interface CreatePoolForm {
     baseAssetType: string;
@@ -34,6 +40,23 @@ interface OptionsActionPanelProps {
     onCreatePool: () => void;
     creatingPool: boolean;
     publishedOptions: OptionPool[];
+    /** Live on-chain pool state (open interest, collateral, oracle price, settlement) */
+    poolState: PoolState | null;
+    ownerTokenAmount?: string;
+    claimAmount: string;
+    onClaimAmountChange: (value: string) => void;
+    onSettle: (option: OptionPool) => void;
+    onClaimCollateral: (option: OptionPool) => void;
+    onClaimWithOptions: (option: OptionPool) => void;
+    isSettling: boolean;
+    isClaiming: boolean;
+    /** Fair value and Greeks for the selected option */
+    greeks: OptionGreeks | null;
+    /** DeepBook mid price of the underlying */
+    spotPrice: number | null;
+    pricingModel: PricingModel;
+    /** Called after an option token order is placed on DeepBook */
+    onOrderPlaced?: () => void;
 }
 
 export function OptionsActionPanel({
@@ -58,8 +81,48 @@ export function OptionsActionPanel({
     onCreatePool,
     creatingPool,
     publishedOptions,
+    poolState,
+    ownerTokenAmount,
+    claimAmount,
+    onClaimAmountChange,
+    onSettle,
+    onClaimCollateral,
+    onClaimWithOptions,
+    isSettling,
+    isClaiming,
+    greeks,
+    spotPrice,
+    pricingModel,
+    onOrderPlaced,
 }: OptionsActionPanelProps) {
+    const [showGreeks, setShowGreeks] = useState(true);
+    const [showPayoff, setShowPayoff] = useState(false);
+    const [showTrade, setShowTrade] = useState(false);
+    const [exerciseQuote, setExerciseQuote] = useState<ExerciseQuote | null>(null);
     const expired = selectedOption ? isExpired(selectedOption.expirationDate) : false;
+    // Only a recorded settlement price is one: claims read it, and pools settled by packages whose
+    // settle_pool predates recording it have none. The last oracle price only previews the outcome.
+    const settlementPrice = poolState?.settlementPrice ?? null;
+    const outcomePrice = settlementPrice ?? poolState?.lastOraclePrice ?? null;
+    const claimsBlocked = !!poolState?.isSettled && settlementPrice === null;
+    const priceStale = poolState ? isPriceStale(poolState) : false;
+    const payoffSpot = spotPrice ?? poolState?.lastOraclePrice ?? null;
+
+    const formatUnits = (raw: bigint, decimals: number) =>
+        (Number(raw) / Math.pow(10, decimals)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+    const formatAge = (timestamp: number) => {
+        const minutes = Math.floor((Date.now() - timestamp) / 60000);
+        if (minutes < 1) return "just now";
+        if (minutes < 60) return `${minutes}m ago`;
+        if (minutes < 1440) return `${Math.floor(minutes / 60)}h ago`;
+        return `${Math.floor(minutes / 1440)}d ago`;
+    };
+    const inTheMoney = selectedOption && outcomePrice !== null
+        ? selectedOption.type === "CALL"
+            ? outcomePrice > selectedOption.strikePrice
+            : outcomePrice < selectedOption.strikePrice
+        : false;
 
     return (
         <div className="flex flex-col flex-1 min-h-0 bg-card/95 overflow-hidden w-full">
@@ -115,10 +178,262 @@ export function OptionsActionPanel({
                                     <span className="font-medium">{userBalance}</span>
                                 </div>
                             )}
+                            {currentAccount && poolState?.ownerTokenAmount !== undefined && poolState.ownerTokenAmount > 0n && (
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="text-muted-foreground flex items-center gap-1">
+                                        <Coins className="h-3 w-3" />
+                                        You Wrote
+                                    </span>
+                                    <span className="font-medium">
+                                        {formatUnits(poolState.ownerTokenAmount, selectedOption.optionTokenDecimals ?? 9)}
+                                    </span>
+                                </div>
+                            )}
                         </div>
 
+                        {poolState && (
+                            <div className="space-y-1 pt-2 border-t">
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="text-muted-foreground flex items-center gap-1">
+                                        <Activity className="h-3 w-3" />
+                                        Open Interest
+                                    </span>
+                                    <span className="font-medium">
+                                        {formatUnits(poolState.optionSupply, selectedOption.optionTokenDecimals ?? 9)}
+                                    </span>
+                                </div>
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="text-muted-foreground">Minted / Exercised</span>
+                                    <span className="font-medium">
+                                        {formatUnits(poolState.optionsMinted, selectedOption.optionTokenDecimals ?? 9)}
+                                        {" / "}
+                                        {formatUnits(poolState.optionsExercised, selectedOption.optionTokenDecimals ?? 9)}
+                                    </span>
+                                </div>
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="text-muted-foreground">Collateral Locked</span>
+                                    <span className="font-medium text-right">
+                                        {poolState.collateralBase > 0n &&
+                                            `${formatUnits(poolState.collateralBase, selectedOption.baseAssetDecimals ?? 9)} ${selectedOption.baseAsset}`}
+                                        {poolState.collateralBase > 0n && poolState.collateralQuote > 0n && " + "}
+                                        {poolState.collateralQuote > 0n &&
+                                            `${formatUnits(poolState.collateralQuote, selectedOption.quoteAssetDecimals ?? 9)} ${selectedOption.quoteAsset}`}
+                                        {poolState.collateralBase === 0n && poolState.collateralQuote === 0n && "0"}
+                                    </span>
+                                </div>
+                                {!expired && (
+                                    <div className="flex items-center justify-between text-sm">
+                                        <span className="text-muted-foreground">Oracle Price</span>
+                                        <span
+                                            className={`font-medium flex items-center gap-1 ${priceStale ? "text-amber-500" : ""}`}
+                                            title={priceStale ? "Older than 5 minutes; exercising refreshes it first" : undefined}
+                                        >
+                                            {priceStale && <AlertTriangle className="h-3 w-3" />}
+                                            {poolState.lastOraclePrice !== null
+                                                ? `${poolState.lastOraclePrice} ${selectedOption.quoteAsset} (${formatAge(poolState.lastPriceUpdate)})`
+                                                : "Not set"}
+                                        </span>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {greeks && !expired && (
+                            <div className="space-y-1 pt-2 border-t">
+                                <button
+                                    type="button"
+                                    onClick={() => setShowGreeks((v) => !v)}
+                                    className="w-full flex items-center justify-between text-sm"
+                                    aria-expanded={showGreeks}
+                                >
+                                    <span className="text-muted-foreground flex items-center gap-1">
+                                        <Sigma className="h-3 w-3" />
+                                        Fair Value & Greeks
+                                    </span>
+                                    <ChevronDown
+                                        className={`h-4 w-4 text-muted-foreground transition-transform ${showGreeks ? "rotate-180" : ""}`}
+                                    />
+                                </button>
+                                {showGreeks && (
+                                    <>
+                                        {GREEK_COLUMNS.map((c) => (
+                                            <div key={c.key} className="flex items-center justify-between text-sm">
+                                                <span className="text-muted-foreground">{c.title}</span>
+                                                <span className="font-medium tabular-nums">
+                                                    {formatGreek(c.key, greeks[c.key])}
+                                                    {c.key === "fairValue" && ` ${selectedOption.quoteAsset}`}
+                                                </span>
+                                            </div>
+                                        ))}
+                                        <p className="text-[11px] text-muted-foreground pt-1">
+                                            Spot {spotPrice !== null ? formatGreek("fairValue", spotPrice) : "oracle price"}
+                                            {" • "}σ {Math.round(pricingModel.volatility * 100)}%
+                                            {" • "}r {Math.round(pricingModel.riskFreeRate * 1000) / 10}%
+                                        </p>
+                                    </>
+                                )}
+                            </div>
+                        )}
+
+                        {payoffSpot !== null && !expired && (
+                            <div className="space-y-2 pt-2 border-t">
+                                <button
+                                    type="button"
+                                    onClick={() => setShowPayoff((v) => !v)}
+                                    className="w-full flex items-center justify-between text-sm"
+                                    aria-expanded={showPayoff}
+                                >
+                                    <span className="text-muted-foreground flex items-center gap-1">
+                                        <LineChart className="h-3 w-3" />
+                                        Payoff
+                                    </span>
+                                    <ChevronDown
+                                        className={`h-4 w-4 text-muted-foreground transition-transform ${showPayoff ? "rotate-180" : ""}`}
+                                    />
+                                </button>
+                                {showPayoff && (
+                                    <PayoffChart
+                                        option={selectedOption}
+                                        spotPrice={payoffSpot}
+                                        pricingModel={pricingModel}
+                                        fairValue={greeks?.fairValue}
+                                    />
+                                )}
+                            </div>
+                        )}
+
+                        {!expired && (
+                            <div className="space-y-2 pt-2 border-t">
+                                <button
+                                    type="button"
+                                    onClick={() => setShowTrade((v) => !v)}
+                                    className="w-full flex items-center justify-between text-sm"
+                                    aria-expanded={showTrade}
+                                >
+                                    <span className="text-muted-foreground flex items-center gap-1">
+                                        <ArrowLeftRight className="h-3 w-3" />
+                                        Trade on DeepBook
+                                    </span>
+                                    <ChevronDown
+                                        className={`h-4 w-4 text-muted-foreground transition-transform ${showTrade ? "rotate-180" : ""}`}
+                                    />
+                                </button>
+                                {showTrade && <OptionOrderTicket option={selectedOption} onOrderPlaced={onOrderPlaced} />}
+                            </div>
+                        )}
+
                         {currentAccount ? (
                             <div className="space-y-3 pt-2 border-t">
+                                {expired && (
+                                    <div className="space-y-3 pb-3 border-b">
+                                        <h4 className="font-semibold text-sm flex items-center gap-2">
+                                            <Gavel className="h-4 w-4" />
+                                            Settlement
+                                        </h4>
+                                        <div className="space-y-1">
+                                            <div className="flex items-center justify-between text-sm">
+                                                <span className="text-muted-foreground">Pool</span>
+                                                <span className={`font-medium ${poolState?.isSettled ? "text-primary" : "text-sell"}`}>
+                                                    {poolState ? (poolState.isSettled ? "Settled" : "Not settled") : "—"}
+                                                </span>
+                                            </div>
+                                            <div className="flex items-center justify-between text-sm">
+                                                <span className="text-muted-foreground">
+                                                    {settlementPrice !== null ? "Settlement Price" : "Last Oracle Price"}
+                                                </span>
+                                                <span className="font-medium">
+                                                    {outcomePrice !== null
+                                                        ? `${outcomePrice} ${selectedOption.quoteAsset}`
+                                                        : "—"}
+                                                </span>
+                                            </div>
+                                            {outcomePrice !== null && (
+                                                <div className="flex items-center justify-between text-sm">
+                                                    <span className="text-muted-foreground">Outcome</span>
+                                                    <span className={`font-medium ${inTheMoney ? "text-primary" : "text-muted-foreground"}`}>
+                                                        {inTheMoney ? "In the money" : "Out of the money"}
+                                                    </span>
+                                                </div>
+                                            )}
+                                        </div>
+
+                                        {poolState && !poolState.isSettled && (
+                                            <>
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() => onSettle(selectedOption)}
+                                                    disabled={isSettling || outcomePrice === null}
+                                                    className="w-full"
+                                                    loading={isSettling}
+                                                >
+                                                    {isSettling ? "Settling..." : "Settle Pool"}
+                                                </Button>
+                                                {outcomePrice === null && (
+                                                    <p className="text-xs text-muted-foreground">
+                                                        No oracle price was recorded before expiry, so this pool cannot be settled.
+                                                    </p>
+                                                )}
+                                            </>
+                                        )}
+
+                                        {poolState?.isSettled && (
+                                            <>
+                                                <div className="flex items-center justify-between text-sm">
+                                                    <span className="text-muted-foreground flex items-center gap-1">
+                                                        <Coins className="h-3 w-3" />
+                                                        Owner Tokens
+                                                    </span>
+                                                    <span className="font-medium">{ownerTokenAmount ?? "0"}</span>
+                                                </div>
+                                                {claimsBlocked && (
+                                                    <p className="text-xs text-destructive">
+                                                        This pool was settled without recording a settlement price, so its claims abort on-chain.
+                                                    </p>
+                                                )}
+                                                <Button
+                                                    onClick={() => onClaimCollateral(selectedOption)}
+                                                    disabled={isClaiming || !ownerTokenAmount || claimsBlocked}
+                                                    className="w-full"
+                                                    size="sm"
+                                                    loading={isClaiming}
+                                                >
+                                                    {isClaiming ? "Claiming..." : "Claim Collateral"}
+                                                </Button>
+
+                                                {inTheMoney && !claimsBlocked && (
+                                                    <div className="space-y-1.5">
+                                                        <label className="text-xs text-muted-foreground uppercase font-bold">
+                                                            Claim with Options (
+                                                            {selectedOption.type === "CALL"
+                                                                ? `Pay ${selectedOption.quoteAsset}, get ${selectedOption.baseAsset}`
+                                                                : `Sell ${selectedOption.baseAsset}, get ${selectedOption.quoteAsset}`}
+                                                            )
+                                                        </label>
+                                                        <input
+                                                            type="number"
+                                                            value={claimAmount}
+                                                            onChange={(e) => onClaimAmountChange(e.target.value)}
+                                                            placeholder="Amount to claim"
+                                                            className="w-full px-3 py-2 rounded-md border bg-input text-sm focus:ring-1 focus:ring-primary outline-none"
+                                                            disabled={isClaiming}
+                                                        />
+                                                        <Button
+                                                            variant="secondary"
+                                                            onClick={() => onClaimWithOptions(selectedOption)}
+                                                            disabled={isClaiming || !claimAmount || parseFloat(claimAmount) <= 0}
+                                                            className="w-full"
+                                                            loading={isClaiming}
+                                                        >
+                                                            {isClaiming ? "Claiming..." : "Claim with Options"}
+                                                        </Button>
+                                                    </div>
+                                                )}
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+
                                 <Button
                                     variant="outline"
                                     size="sm"
@@ -186,6 +501,14 @@ export function OptionsActionPanel({
                                         className="w-full px-3 py-2 rounded-md border bg-input text-sm focus:ring-1 focus:ring-primary outline-none"
                                         disabled={isExercising || expired}
                                     />
+                                    {!expired && (
+                                        <ExercisePreview
+                                            option={selectedOption}
+                                            amount={exerciseAmount}
+                                            sender={currentAccount.address}
+                                            onQuoteChange={setExerciseQuote}
+                                        />
+                                    )}
                                     <Button
                                         variant="secondary"
                                         onClick={() => onExercise(selectedOption)}
@@ -193,7 +516,8 @@ export function OptionsActionPanel({
                                             isExercising ||
                                             expired ||
                                             !exerciseAmount ||
-                                            parseFloat(exerciseAmount) <= 0
+                                            parseFloat(exerciseAmount) <= 0 ||
+                                            exerciseQuote?.verdict === "blocked"
                                         }
                                         className="w-full"
                                         loading={isExercising}
@@ -201,7 +525,7 @@ export function OptionsActionPanel({
                                         {isExercising ? "Exercising..." : (
                                             <>
                                                 <Zap className="h-4 w-4" />
-                                                Exercise Options
+                                                {exerciseQuote?.verdict === "sell" ? "Exercise Anyway" : "Exercise Options"}
                                             </>
                                         )}
                                     </Button>
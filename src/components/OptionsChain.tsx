@@ -1,30 +1,27 @@
 import { useState } from "react";
-import { ChevronRight, ChevronLeft, ChevronDown } from "lucide-react";
+import { ChevronRight, ChevronLeft, ChevronDown, RefreshCw, Sigma } from "lucide-react";
 import { cn } from "../lib/utils";
-
-export interface OptionPool {
-    id: string;
-    name: string;
-    type: "CALL" | "PUT";
-    strikePrice: number;
-    expirationDate: number;
-    baseAsset: string;
-    quoteAsset: string;
-    optionTokenType: string;
-    baseAssetType: string;
-    quoteAssetType: string;
-    packageId: string;
-    deepbookPoolName: string;
-    optionTokenDecimals?: number;
-}
+import { isPriceStale, type OptionPool, type PoolState } from "../lib/options";
+import { GREEK_COLUMNS, formatGreek, type GreekKey, type OptionGreeks, type PricingModel } from "../lib/pricing";
 
 interface OptionsChainProps {
     options: OptionPool[];
     selectedOption: OptionPool | null;
     onSelectOption: (option: OptionPool | null) => void;
     userTokenBalances: Record<string, string>;
+    /** Live on-chain state per option id, for open interest and price staleness */
+    poolStates?: Record<string, PoolState>;
+    /** Fair value and Greeks per option id */
+    greeks?: Record<string, OptionGreeks>;
+    /** Underlying DeepBook mid price per deepbookPoolName */
+    spotPrices?: Record<string, number>;
+    pricingModel?: PricingModel;
+    onPricingModelChange?: (model: PricingModel) => void;
     formatDate: (timestamp: number) => string;
     isExpired: (expirationDate: number) => boolean;
+    /** Re-run on-chain pool discovery, bypassing the cache */
+    onRefresh?: () => void;
+    isRefreshing?: boolean;
 }
 
 type PoolKey = string;
@@ -38,8 +35,15 @@ export function OptionsChain({
     selectedOption,
     onSelectOption,
     userTokenBalances,
+    poolStates = {},
+    greeks = {},
+    spotPrices = {},
+    pricingModel,
+    onPricingModelChange,
     formatDate,
     isExpired,
+    onRefresh,
+    isRefreshing = false,
 }: OptionsChainProps) {
     // Unique pools: first option per deepbookPoolName
     const poolMap = new Map<PoolKey, OptionPool>();
@@ -50,6 +54,8 @@ export function OptionsChain({
     const pools = Array.from(poolMap.entries());
 
     const [activePool, setActivePool] = useState<PoolKey | null>(null);
+    const [showGreeks, setShowGreeks] = useState(false);
+    const [visibleGreeks, setVisibleGreeks] = useState<GreekKey[]>(["fairValue", "delta", "theta"]);
     const effectivePool = activePool ?? pools[0]?.[0] ?? null;
 
     const optionsForPool = effectivePool ? options.filter((o) => getPoolKey(o) === effectivePool) : [];
@@ -80,6 +86,18 @@ export function OptionsChain({
 
     const formatStrike = (s: number) => s.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 4 });
 
+    const greekColumns = showGreeks ? GREEK_COLUMNS.filter((c) => visibleGreeks.includes(c.key)) : [];
+    const greekKeys = greekColumns.map((c) => c.key);
+    const spot = effectivePool ? spotPrices[effectivePool] : undefined;
+    const toggleGreek = (key: GreekKey) =>
+        setVisibleGreeks((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+    const greekHeaders = (align: "text-left" | "text-right") =>
+        greekColumns.map((c) => (
+            <th key={c.key} className={cn(align, "py-2 px-2 text-muted-foreground font-medium")} title={c.title}>
+                {c.label}
+            </th>
+        ));
+
     return (
         <div className="flex flex-col h-full bg-card/95 text-[11px] sm:text-[12px] overflow-hidden">
             {/* Header: on mobile, pool + expiry only; on desktop, Calls | Pool + Expiration | Puts */}
@@ -135,8 +153,91 @@ export function OptionsChain({
                     <ChevronLeft className="h-4 w-4 text-muted-foreground" />
                     <span className="font-semibold text-sell">Puts</span>
                 </div>
+
+                <button
+                    type="button"
+                    onClick={() => setShowGreeks((v) => !v)}
+                    className={cn(
+                        "ml-2 shrink-0 rounded-lg p-2 text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors touch-manipulation",
+                        showGreeks && "bg-muted/50 text-foreground"
+                    )}
+                    title={showGreeks ? "Hide fair value and Greeks" : "Show fair value and Greeks"}
+                    aria-label="Toggle Greeks"
+                    aria-pressed={showGreeks}
+                >
+                    <Sigma className="h-4 w-4" />
+                </button>
+
+                {onRefresh && (
+                    <button
+                        type="button"
+                        onClick={onRefresh}
+                        disabled={isRefreshing}
+                        className="ml-2 shrink-0 rounded-lg p-2 text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors disabled:opacity-50 touch-manipulation"
+                        title="Refresh options from chain"
+                        aria-label="Refresh options"
+                    >
+                        <RefreshCw className={cn("h-4 w-4", isRefreshing && "animate-spin")} />
+                    </button>
+                )}
             </div>
 
+            {/* Greeks toolbar: column toggles and model inputs */}
+            {showGreeks && (
+                <div className="flex flex-wrap items-center gap-2 border-b px-4 py-2 shrink-0">
+                    {GREEK_COLUMNS.map((c) => (
+                        <button
+                            key={c.key}
+                            type="button"
+                            onClick={() => toggleGreek(c.key)}
+                            title={c.title}
+                            className={cn(
+                                "rounded-md border px-2 py-1 text-xs transition-colors",
+                                visibleGreeks.includes(c.key)
+                                    ? "border-primary/50 bg-primary/10 text-foreground"
+                                    : "text-muted-foreground hover:bg-muted/50"
+                            )}
+                        >
+                            {c.label}
+                        </button>
+                    ))}
+                    {pricingModel && onPricingModelChange && (
+                        <div className="flex items-center gap-2 ml-auto text-xs text-muted-foreground">
+                            <label className="flex items-center gap-1">
+                                σ %
+                                <input
+                                    type="number"
+                                    min={1}
+                                    step={1}
+                                    value={Math.round(pricingModel.volatility * 100)}
+                                    onChange={(e) => {
+                                        const v = parseFloat(e.target.value);
+                                        if (v > 0) onPricingModelChange({ ...pricingModel, volatility: v / 100 });
+                                    }}
+                                    className="w-16 px-2 py-1 rounded-md border bg-input text-foreground focus:ring-1 focus:ring-primary outline-none"
+                                />
+                            </label>
+                            <label className="flex items-center gap-1">
+                                r %
+                                <input
+                                    type="number"
+                                    step={0.5}
+                                    value={Math.round(pricingModel.riskFreeRate * 1000) / 10}
+                                    onChange={(e) => {
+                                        const v = parseFloat(e.target.value);
+                                        if (!Number.isNaN(v)) onPricingModelChange({ ...pricingModel, riskFreeRate: v / 100 });
+                                    }}
+                                    className="w-16 px-2 py-1 rounded-md border bg-input text-foreground focus:ring-1 focus:ring-primary outline-none"
+                                />
+                            </label>
+                            <span title="DeepBook mid price of the underlying">
+                                Spot {spot !== undefined ? formatGreek("fairValue", spot) : "—"}
+                            </span>
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Options chain table */}
             {strikes.length > 0 ? (
                 <div className="flex-1 overflow-auto min-h-0">
@@ -153,6 +254,8 @@ export function OptionsChain({
                                         <th className="text-left py-2 px-2 text-muted-foreground font-medium">Bid</th>
                                         <th className="text-left py-2 px-2 text-muted-foreground font-medium">Ask</th>
                                         <th className="text-left py-2 px-2 text-muted-foreground font-medium">Last</th>
+                                        <th className="text-left py-2 px-2 text-muted-foreground font-medium">OI</th>
+                                        {greekHeaders("text-left")}
                                     </tr>
                                 </thead>
                                 <tbody>
@@ -176,6 +279,9 @@ export function OptionsChain({
                                                     selectedOption={selectedOption}
                                                     onSelect={onSelectOption}
                                                     userBalance={call ? userTokenBalances[call.id] : undefined}
+                                                    poolState={call ? poolStates[call.id] : undefined}
+                                                    greeks={call ? greeks[call.id] : undefined}
+                                                    greekColumns={greekKeys}
                                                     isExpired={call ? isExpired(call.expirationDate) : false}
                                                     mobile
                                                     selectionOnRow
@@ -197,6 +303,8 @@ export function OptionsChain({
                                         <th className="text-left py-2 px-2 text-muted-foreground font-medium">Bid</th>
                                         <th className="text-left py-2 px-2 text-muted-foreground font-medium">Ask</th>
                                         <th className="text-left py-2 px-2 text-muted-foreground font-medium">Last</th>
+                                        <th className="text-left py-2 px-2 text-muted-foreground font-medium">OI</th>
+                                        {greekHeaders("text-left")}
                                     </tr>
                                 </thead>
                                 <tbody>
@@ -220,6 +328,9 @@ export function OptionsChain({
                                                     selectedOption={selectedOption}
                                                     onSelect={onSelectOption}
                                                     userBalance={put ? userTokenBalances[put.id] : undefined}
+                                                    poolState={put ? poolStates[put.id] : undefined}
+                                                    greeks={put ? greeks[put.id] : undefined}
+                                                    greekColumns={greekKeys}
                                                     isExpired={put ? isExpired(put.expirationDate) : false}
                                                     mobile
                                                     selectionOnRow
@@ -241,12 +352,16 @@ export function OptionsChain({
                                 <th className="text-left py-2 px-2 text-muted-foreground font-medium">Last</th>
                                 <th className="text-left py-2 px-2 text-muted-foreground font-medium">Change</th>
                                 <th className="text-left py-2 px-2 text-muted-foreground font-medium">Close</th>
+                                <th className="text-left py-2 px-2 text-muted-foreground font-medium">OI</th>
+                                {greekHeaders("text-left")}
                                 <th className="py-2 px-3 font-semibold bg-muted/30 text-center">Strike</th>
                                 <th className="text-right py-2 px-2 text-muted-foreground font-medium">Bid</th>
                                 <th className="text-right py-2 px-2 text-muted-foreground font-medium">Ask</th>
                                 <th className="text-right py-2 px-2 text-muted-foreground font-medium">Last</th>
                                 <th className="text-right py-2 px-2 text-muted-foreground font-medium">Change</th>
                                 <th className="text-right py-2 px-2 text-muted-foreground font-medium">Close</th>
+                                <th className="text-right py-2 px-2 text-muted-foreground font-medium">OI</th>
+                                {greekHeaders("text-right")}
                             </tr>
                         </thead>
                         <tbody>
@@ -265,6 +380,9 @@ export function OptionsChain({
                                             selectedOption={selectedOption}
                                             onSelect={onSelectOption}
                                             userBalance={call ? userTokenBalances[call.id] : undefined}
+                                            poolState={call ? poolStates[call.id] : undefined}
+                                            greeks={call ? greeks[call.id] : undefined}
+                                            greekColumns={greekKeys}
                                             isExpired={call ? isExpired(call.expirationDate) : false}
                                         />
                                         <td className="py-2 px-3 text-center font-semibold bg-muted/20">
@@ -276,6 +394,9 @@ export function OptionsChain({
                                             selectedOption={selectedOption}
                                             onSelect={onSelectOption}
                                             userBalance={put ? userTokenBalances[put.id] : undefined}
+                                            poolState={put ? poolStates[put.id] : undefined}
+                                            greeks={put ? greeks[put.id] : undefined}
+                                            greekColumns={greekKeys}
                                             isExpired={put ? isExpired(put.expirationDate) : false}
                                         />
                                     </tr>
@@ -302,6 +423,9 @@ function CallPutCells({
     selectedOption,
     onSelect,
     userBalance,
+    poolState,
+    greeks,
+    greekColumns,
     isExpired,
     mobile = false,
     selectionOnRow = false,
@@ -311,6 +435,9 @@ function CallPutCells({
     selectedOption: OptionPool | null;
     onSelect: (o: OptionPool) => void;
     userBalance?: string;
+    poolState?: PoolState;
+    greeks?: OptionGreeks;
+    greekColumns: GreekKey[];
     isExpired: boolean;
     mobile?: boolean;
     selectionOnRow?: boolean;
@@ -324,7 +451,7 @@ function CallPutCells({
         isExpired && option && "text-sell"
     );
     const alignClass = isCall ? "text-left" : "text-right";
-    const colCount = mobile ? 3 : 5;
+    const colCount = (mobile ? 4 : 6) + greekColumns.length;
 
     if (!option) {
         return (
@@ -340,12 +467,36 @@ function CallPutCells({
 
     const handleClick = selectionOnRow ? undefined : () => onSelect(option);
 
+    // Open interest = outstanding option supply; flag a stale oracle price on live options
+    const decimals = option.optionTokenDecimals ?? 9;
+    const openInterest = poolState
+        ? (Number(poolState.optionSupply) / Math.pow(10, decimals)).toLocaleString(undefined, { maximumFractionDigits: 2 })
+        : PLACEHOLDER;
+    const stale = poolState && !isExpired && isPriceStale(poolState);
+    const oiCell = (
+        <td
+            onClick={handleClick}
+            className={cn(cellClass, alignClass)}
+            title={stale ? "Oracle price is stale (older than 5 minutes)" : undefined}
+        >
+            {openInterest}
+            {stale && <span className="ml-1 inline-block h-1.5 w-1.5 rounded-full bg-amber-500 align-middle" />}
+        </td>
+    );
+    const greekCells = greekColumns.map((key) => (
+        <td key={key} onClick={handleClick} className={cn(cellClass, alignClass, "tabular-nums")}>
+            {greeks ? formatGreek(key, greeks[key]) : PLACEHOLDER}
+        </td>
+    ));
+
     if (mobile) {
         return (
             <>
                 <td onClick={handleClick} className={cn(cellClass, alignClass)}>{PLACEHOLDER}</td>
                 <td onClick={handleClick} className={cn(cellClass, alignClass)}>{PLACEHOLDER}</td>
                 <td onClick={handleClick} className={cn(cellClass, alignClass)}>{userBalance ?? PLACEHOLDER}</td>
+                {oiCell}
+                {greekCells}
             </>
         );
     }
@@ -357,6 +508,8 @@ function CallPutCells({
             <td onClick={handleClick} className={cn(cellClass, alignClass)}>{userBalance ?? PLACEHOLDER}</td>
             <td onClick={handleClick} className={cn(cellClass, alignClass)}>{PLACEHOLDER}</td>
             <td onClick={handleClick} className={cn(cellClass, alignClass)}>{PLACEHOLDER}</td>
+            {oiCell}
+            {greekCells}
         </>
     );
 }
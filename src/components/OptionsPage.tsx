@@ -1,87 +1,53 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { Loader2 } from "lucide-react";
 import { useCurrentAccount, useDAppKit, useCurrentNetwork } from "@mysten/dapp-kit-react";
-import { Transaction } from "@mysten/sui/transactions";
+import { Transaction, coinWithBalance } from "@mysten/sui/transactions";
 import { SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
+import { SUI_TYPE_ARG, normalizeStructTag } from "@mysten/sui/utils";
 import { ConnectButton } from "@mysten/dapp-kit-react";
 import { toast } from "sonner";
 import { BottomSheet } from "./ui/bottom-sheet";
-import { VARUNA_CALL_OPTIONS_PACKAGE_ID, VARUNA_PUT_OPTIONS_PACKAGE_ID } from "../constants";
-import { getAllPools, createPermissionlessPool, POOL_CREATION_FEE_DEEP, DEEP_COIN_TYPE } from "../lib/deepbook";
-import { OptionsChain, type OptionPool } from "./OptionsChain";
+import { getAllPools, getMarketPrice, createPermissionlessPool, POOL_CREATION_FEE_DEEP, DEEP_COIN_TYPE, RPC_URLS } from "../lib/deepbook";
+import {
+    discoverOptionPools,
+    getPoolState,
+    getPoolStates,
+    getOwnerTokens,
+    type OptionPool,
+    type OwnerTokenInfo,
+    type PoolState,
+} from "../lib/options";
+import {
+    mintOptions,
+    updatePrice,
+    settlePool,
+    claimCollateral,
+    claimWithOptions,
+} from "../lib/varuna";
+import {
+    priceOptionPool,
+    DEFAULT_VOLATILITY,
+    DEFAULT_RISK_FREE_RATE,
+    type OptionGreeks,
+    type PricingModel,
+} from "../lib/pricing";
+import { buildExercise, exercisePayment, simulateClaim, simulateExercise } from "../lib/exercise";
+import { OptionsChain } from "./OptionsChain";
 import { OptionsActionPanel } from "./OptionsActionPanel";
-
-// Example option pools - in production, these would be fetched from on-chain
-const PUBLISHED_OPTIONS: OptionPool[] = [
-    // {
-    //     id: "0x7410d17a4d65707149a919737faf0925423e4d517759d5b212b8878fb4c39af0",
-    //     packageId: "0xc89c88f32b562e349c15f1c1e9c2c37eb64135e9730b8f8b75492ac72886f55e",
-    //     name: "CALL DEEP/SUI Strike 0.10",
-    //     type: "CALL",
-    //     strikePrice: 0.1,
-    //     expirationDate: 1798761600000, // Jan 1, 2027
-    //     baseAsset: "DEEP",
-    //     quoteAsset: "SUI",
-    //     // optionTokenType: "0x36dbef866a1d62bf7328989a10fb2f07d769f4ee587c0de4a0a256e57e0a58a8::deep::DEEP", // testnet
-    //     optionTokenType: "0xc89c88f32b562e349c15f1c1e9c2c37eb64135e9730b8f8b75492ac72886f55e::call_deep_sui_100000000_exp20270101::CALL_DEEP_SUI_100000000_EXP20270101",
-    //     baseAssetType: "0x36dbef866a1d62bf7328989a10fb2f07d769f4ee587c0de4a0a256e57e0a58a8::deep::DEEP", // testnet
-    //     quoteAssetType: "0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI", // testnet
-    //     deepbookPoolName: "DEEP_SUI",
-    //     optionTokenDecimals: 6,
-    // },
-    // {
-    //     id: "0xfdc1eeb2d3737062be9bc050bb5080957f0f99169e6c11edf08a023fa4c1a7c8",
-    //     packageId: "0xa924a8a13285caf94e162ee7bceb87ee407c8e645058ff6c7e0c4afc8dd55e29",
-    //     name: "CALL DEEP/SUI Strike 0.03",
-    //     type: "CALL",
-    //     strikePrice: 0.03,
-    //     expirationDate: 1798761600000, // Jan 1, 2027
-    //     baseAsset: "DEEP",
-    //     quoteAsset: "SUI",
-    //     // optionTokenType: "0x36dbef866a1d62bf7328989a10fb2f07d769f4ee587c0de4a0a256e57e0a58a8::deep::DEEP", // testnet
-    //     optionTokenType: "0xa924a8a13285caf94e162ee7bceb87ee407c8e645058ff6c7e0c4afc8dd55e29::call_deep_sui_30000000_exp20270101::CALL_DEEP_SUI_30000000_EXP20270101",
-    //     baseAssetType: "0x36dbef866a1d62bf7328989a10fb2f07d769f4ee587c0de4a0a256e57e0a58a8::deep::DEEP", // testnet
-    //     quoteAssetType: "0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI", // testnet
-    //     deepbookPoolName: "DEEP_SUI",
-    //     optionTokenDecimals: 6,
-    // },
-    {
-        id: "0x48dec36157e3073bb5b0a41f9628a26a2b63929f70858271fc0698cee83545ec",
-        packageId: "0x33083f7f56ad45645c8f17c6b92af2ccc38dda29202a52d86de3daaa137aec86",
-        name: "CALL DEEP/SUI Strike 0.02",
-        type: "CALL",
-        strikePrice: 0.02,
-        expirationDate: 1798761600000, // Jan 1, 2027
-        baseAsset: "DEEP",
-        quoteAsset: "SUI",
-        optionTokenType: "0x33083f7f56ad45645c8f17c6b92af2ccc38dda29202a52d86de3daaa137aec86::call_deep_sui_20000000_exp20270101::CALL_DEEP_SUI_20000000_EXP20270101",
-        baseAssetType: "0x36dbef866a1d62bf7328989a10fb2f07d769f4ee587c0de4a0a256e57e0a58a8::deep::DEEP", // testnet
-        quoteAssetType: "0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI", // testnet
-        deepbookPoolName: "DEEP_SUI",
-        optionTokenDecimals: 6,
-    },
-    {
-        id: "0x4cec5d3862ce4d9cd868e31d5afe48c16ad7345cf923c4bcd817e7672deb8b4c",
-        packageId: "0x1c33e5c040eb0d23fe7a8f42724beaaeaa1c901f8b5f2047ef74d5c84b8b4427",
-        name: "PUT DEEP/SUI Strike 0.03",
-        type: "PUT",
-        strikePrice: 0.03,
-        expirationDate: 1798761600000, // Jan 1, 2027
-        baseAsset: "DEEP",
-        quoteAsset: "SUI",
-        optionTokenType: "0x1c33e5c040eb0d23fe7a8f42724beaaeaa1c901f8b5f2047ef74d5c84b8b4427::put_deep_sui_30000000_exp20270101::PUT_DEEP_SUI_30000000_EXP20270101",
-        baseAssetType: "0x36dbef866a1d62bf7328989a10fb2f07d769f4ee587c0de4a0a256e57e0a58a8::deep::DEEP", // testnet
-        quoteAssetType: "0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI", // testnet
-        deepbookPoolName: "DEEP_SUI",
-        optionTokenDecimals: 9,
-    },
-];
-
-const PRICE_DECIMALS = 1_000_000_000;
+import { OwnerTokenInventory } from "./OwnerTokenInventory";
+import { VolatilityCone } from "./VolatilityCone";
+import { VolatilitySmile } from "./VolatilitySmile";
+import { OptionSeriesPublisher } from "./OptionSeriesPublisher";
+import { SeriesPlanner } from "./SeriesPlanner";
+import { StrategyBuilder } from "./StrategyBuilder";
+import { CoveredCallVault } from "./CoveredCallVault";
 
 export function OptionsPage() {
     const currentAccount = useCurrentAccount();
     const dAppKit = useDAppKit();
     const currentNetwork = useCurrentNetwork();
+    const [options, setOptions] = useState<OptionPool[]>([]);
+    const [isLoadingOptions, setIsLoadingOptions] = useState(true);
     const [selectedOption, setSelectedOption] = useState<OptionPool | null>(null);
     const [mintingPool, setMintingPool] = useState<string | null>(null);
     const [collateralAmounts, setCollateralAmounts] = useState<Record<string, string>>({});
@@ -92,6 +58,17 @@ export function OptionsPage() {
     const [deepbookPools, setDeepbookPools] = useState<Map<string, string>>(new Map());
     const [userTokenBalances, setUserTokenBalances] = useState<Record<string, string>>({});
     const [creatingPool, setCreatingPool] = useState(false);
+    const [poolStates, setPoolStates] = useState<Record<string, PoolState>>({});
+    const [ownerTokens, setOwnerTokens] = useState<OwnerTokenInfo[]>([]);
+    const [settlingPool, setSettlingPool] = useState<string | null>(null);
+    const [claimingPool, setClaimingPool] = useState<string | null>(null);
+    const [claimAmounts, setClaimAmounts] = useState<Record<string, string>>({});
+    const [ownerTokensVersion, setOwnerTokensVersion] = useState(0);
+    const [spotPrices, setSpotPrices] = useState<Record<string, number>>({});
+    const [pricingModel, setPricingModel] = useState<PricingModel>({
+        volatility: DEFAULT_VOLATILITY,
+        riskFreeRate: DEFAULT_RISK_FREE_RATE,
+    });
     const [createPoolForm, setCreatePoolForm] = useState({
         baseAssetType: "",
         quoteAssetType: "0x0000000000000000000000000000000000000000000000000000000000000002::sui::SUI",
@@ -102,16 +79,45 @@ export function OptionsPage() {
 
     const loadDeepbookPools = async () => {
         const network = currentNetwork as "mainnet" | "testnet" | "devnet";
-        const pools = await getAllPools(network);
-        const map = new Map<string, string>();
-        pools.forEach((p) => map.set(p.poolName, p.poolId));
-        setDeepbookPools(map);
+        try {
+            const pools = await getAllPools(network);
+            const map = new Map<string, string>();
+            pools.forEach((p) => map.set(p.poolName, p.poolId));
+            setDeepbookPools(map);
+        } catch (error) {
+            console.error("Error loading DeepBook pools:", error);
+            toast.error("Failed to load DeepBook pools", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        }
     };
 
     useEffect(() => {
         loadDeepbookPools();
     }, [currentNetwork]);
 
+    // Discover options pools on-chain (cached per network unless forceRefresh)
+    const loadOptions = async (forceRefresh = false) => {
+        const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+        setIsLoadingOptions(true);
+        try {
+            const discovered = await discoverOptionPools(network, { forceRefresh });
+            setOptions(discovered);
+            setSelectedOption((prev) => (prev ? discovered.find((o) => o.id === prev.id) ?? null : null));
+        } catch (error) {
+            console.error("Error discovering options pools:", error);
+            toast.error("Failed to load options", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            setIsLoadingOptions(false);
+        }
+    };
+
+    useEffect(() => {
+        loadOptions();
+    }, [currentNetwork]);
+
     // Auto-select option token in Create Pool form when user clicks an option in the chain
     useEffect(() => {
         if (selectedOption) {
@@ -129,14 +135,9 @@ export function OptionsPage() {
             return;
         }
         const network = currentNetwork as "mainnet" | "testnet" | "devnet";
-        const rpcUrl = network === "mainnet"
-            ? "https://fullnode.mainnet.sui.io:443"
-            : network === "testnet"
-                ? "https://fullnode.testnet.sui.io:443"
-                : "https://fullnode.devnet.sui.io:443";
-        const jsonRpcClient = new SuiJsonRpcClient({ network, url: rpcUrl });
+        const jsonRpcClient = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
         const balances: Record<string, string> = {};
-        for (const option of PUBLISHED_OPTIONS) {
+        for (const option of options) {
             const decimals = option.optionTokenDecimals ?? 9;
             const div = Math.pow(10, decimals);
             const optionCoins = await jsonRpcClient.getCoins({
@@ -151,7 +152,84 @@ export function OptionsPage() {
 
     useEffect(() => {
         loadUserTokenBalances();
-    }, [currentAccount?.address, currentNetwork]);
+    }, [currentAccount?.address, currentNetwork, options]);
+
+    // Live pool state (open interest, collateral, oracle price) for every option in the chain
+    const loadPoolStates = async () => {
+        const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+        setPoolStates(await getPoolStates(options, network));
+    };
+
+    useEffect(() => {
+        loadPoolStates();
+    }, [options, currentNetwork]);
+
+    // DeepBook mid price of each underlying pool, used as spot for pricing
+    const loadSpotPrices = async () => {
+        const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+        const networkKey = network === "devnet" ? "testnet" : network;
+        const poolNames = Array.from(new Set(options.map((o) => o.deepbookPoolName)));
+        // A pool whose price can't be fetched is left out, so its options price off the oracle instead
+        const prices = await Promise.all(
+            poolNames.map((name) =>
+                getMarketPrice(name, networkKey).catch((error) => {
+                    console.error("Error fetching spot price for", name, ":", error);
+                    return null;
+                })
+            )
+        );
+        const next: Record<string, number> = {};
+        poolNames.forEach((name, i) => {
+            const mid = prices[i]?.midPrice;
+            if (mid) next[name] = mid;
+        });
+        setSpotPrices(next);
+    };
+
+    useEffect(() => {
+        loadSpotPrices();
+    }, [options, currentNetwork]);
+
+    // Fair value and Greeks per option; falls back to the pool's oracle price when DeepBook has no mid
+    const greeks = useMemo(() => {
+        const now = Date.now();
+        const result: Record<string, OptionGreeks> = {};
+        for (const option of options) {
+            const spot = spotPrices[option.deepbookPoolName] ?? poolStates[option.id]?.lastOraclePrice;
+            if (!spot) continue;
+            result[option.id] = priceOptionPool(option, spot, pricingModel, now);
+        }
+        return result;
+    }, [options, spotPrices, poolStates, pricingModel]);
+
+    // Live options on the selected (or first) underlying, for the IV smile
+    const smileOptions = useMemo(() => {
+        const poolName = (selectedOption ?? options[0])?.deepbookPoolName;
+        const now = Date.now();
+        return options.filter((o) => o.deepbookPoolName === poolName && o.expirationDate > now);
+    }, [options, selectedOption?.deepbookPoolName]);
+
+    // Refresh the selected pool's state together with the user's OwnerTokens for it
+    const loadSelectedPoolState = async () => {
+        if (!selectedOption) {
+            setOwnerTokens([]);
+            return;
+        }
+        const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+        const tokens = currentAccount?.address
+            ? await getOwnerTokens(currentAccount.address, selectedOption, network)
+            : [];
+        const state = await getPoolState(selectedOption, network, {
+            ownerTokenIds: tokens.map((t) => t.id),
+            sender: currentAccount?.address,
+        });
+        setOwnerTokens(tokens);
+        if (state) setPoolStates((prev) => ({ ...prev, [selectedOption.id]: state }));
+    };
+
+    useEffect(() => {
+        loadSelectedPoolState();
+    }, [selectedOption?.id, currentAccount?.address, currentNetwork]);
 
     const handleMintOptions = async (option: OptionPool) => {
         if (!currentAccount?.address) {
@@ -175,28 +253,12 @@ export function OptionsPage() {
             return;
         }
 
-        const network = currentNetwork as "mainnet" | "testnet" | "devnet";
-        const packageId = option.type === "CALL" ? VARUNA_CALL_OPTIONS_PACKAGE_ID[network] : VARUNA_PUT_OPTIONS_PACKAGE_ID[network];
-
-        if (!packageId) {
-            toast.error("Package not deployed", {
-                description: `Varuna options package is not deployed on ${network}`,
-            });
-            return;
-        }
-
         setMintingPool(option.id);
 
         try {
             const network = currentNetwork as "mainnet" | "testnet" | "devnet";
-            const rpcUrl = network === "mainnet"
-                ? "https://fullnode.mainnet.sui.io:443"
-                : network === "testnet"
-                    ? "https://fullnode.testnet.sui.io:443"
-                    : "https://fullnode.devnet.sui.io:443";
-
             // Get user's coins of the base asset type using JSON RPC client
-            const jsonRpcClient = new SuiJsonRpcClient({ network, url: rpcUrl });
+            const jsonRpcClient = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
             const coins = await jsonRpcClient.getCoins({
                 owner: currentAccount.address,
                 coinType: option.type === "CALL" ? option.baseAssetType : option.quoteAssetType,
@@ -212,8 +274,8 @@ export function OptionsPage() {
             }
 
             // Convert collateral amount to base units
-            const amountInBaseUnits = BigInt(Math.floor(parseFloat(collateralAmount) * Math.pow(10, 6)));
-            const amountInQuoteUnits = BigInt(Math.floor(parseFloat(collateralAmount) * Math.pow(10, 9)));
+            const amountInBaseUnits = BigInt(Math.floor(parseFloat(collateralAmount) * Math.pow(10, option.baseAssetDecimals ?? 6)));
+            const amountInQuoteUnits = BigInt(Math.floor(parseFloat(collateralAmount) * Math.pow(10, option.quoteAssetDecimals ?? 9)));
 
             const tx = new Transaction();
             tx.setSender(currentAccount.address);
@@ -263,26 +325,13 @@ export function OptionsPage() {
                 includeRemainder = false; // No remainder to transfer - gas coin handled by wallet
             }
 
-            const optionArguments = option.type === "CALL" ? [
-                tx.object(poolIdToUse), // pool: &mut OptionsPool
-                collateralCoin, // collateral: Coin<BaseAsset>
-                tx.object.clock(), // clock: &Clock
-            ] : [
-                tx.object(poolIdToUse), // pool: &mut OptionsPool
-                collateralCoin, // collateral: Coin<QuoteAsset>
-                tx.pure.u64(amountToMint), // amount: u64 (wrapped with tx.pure)
-                tx.object.clock(), // clock: &Clock
-            ];
-            // Call mint_call_options - returns (option_coins, owner_token)
-            const [optionCoins, ownerToken] = tx.moveCall({
-                target: option.type === "CALL" ? `${option.packageId}::options_pool::mint_call_options` : `${option.packageId}::options_pool::mint_put_options`,
-                typeArguments: [
-                    option.optionTokenType,
-                    option.baseAssetType,
-                    option.quoteAssetType,
-                ],
-                arguments: optionArguments as any,
-            });
+            // Returns (option_coins, owner_token)
+            const [optionCoins, ownerToken] = mintOptions(
+                tx,
+                { ...option, id: poolIdToUse },
+                collateralCoin,
+                option.type === "PUT" ? amountToMint : undefined
+            );
 
             // Transfer objects to the user: option coins, owner token, and remainder (for CALL only - PUT uses tx.gas)
             const toTransfer: Parameters<typeof tx.transferObjects>[0] = [
@@ -304,6 +353,8 @@ export function OptionsPage() {
                 description: `Minted options with ${collateralAmount} ${collateralAsset} collateral`,
             });
             loadUserTokenBalances();
+            loadSelectedPoolState();
+            setOwnerTokensVersion((v) => v + 1);
 
             // Clear form for this option
             setCollateralAmounts((prev) => {
@@ -345,18 +396,11 @@ export function OptionsPage() {
         try {
             const tx = new Transaction();
             tx.setSender(currentAccount.address);
-            tx.moveCall({
-                target: `${option.packageId}::options_pool::update_price`,
-                typeArguments: [option.optionTokenType, option.baseAssetType, option.quoteAssetType],
-                arguments: [
-                    tx.object(poolIdToUse),
-                    tx.object(deepbookPoolId),
-                    tx.object.clock(),
-                ],
-            });
+            updatePrice(tx, { ...option, id: poolIdToUse }, deepbookPoolId);
             const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
             if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
             toast.success("Price updated successfully");
+            loadSelectedPoolState();
         } catch (error) {
             console.error("Update price failed:", error);
             toast.error("Update price failed", {
@@ -387,153 +431,225 @@ export function OptionsPage() {
 
         setExercisingPool(option.id);
         try {
-            const rpcUrl = network === "mainnet"
-                ? "https://fullnode.mainnet.sui.io:443"
-                : network === "testnet"
-                    ? "https://fullnode.testnet.sui.io:443"
-                    : "https://fullnode.devnet.sui.io:443";
-            const jsonRpcClient = new SuiJsonRpcClient({ network, url: rpcUrl });
+            const jsonRpcClient = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
 
             const deepbookPoolId = deepbookPools.get(option.deepbookPoolName);
             if (!deepbookPoolId) {
                 toast.error("DeepBook pool not found", {
                     description: `Could not find pool ${option.deepbookPoolName}. Update price first or ensure you're on the correct network.`,
                 });
-                setExercisingPool(null);
+                return;
+            }
+
+            const target = { ...option, id: poolIdToUse };
+            const optionDecimals = option.optionTokenDecimals ?? 9;
+            const amountInBaseUnits = BigInt(Math.floor(amount * Math.pow(10, optionDecimals)));
+            const requiredPayment = exercisePayment(option, amountInBaseUnits);
+
+            const [optionBalance, counterBalance] = await Promise.all([
+                jsonRpcClient.getBalance({ owner: currentAccount.address, coinType: option.optionTokenType }),
+                jsonRpcClient.getBalance({
+                    owner: currentAccount.address,
+                    coinType: option.type === "CALL" ? option.quoteAssetType : option.baseAssetType,
+                }),
+            ]);
+            if (BigInt(optionBalance.totalBalance) < amountInBaseUnits) {
+                toast.error("Insufficient option tokens", { description: `You need at least ${amount} options` });
+                return;
+            }
+            if (option.type === "CALL") {
+                // A SUI payment is split from gas, so then leave enough SUI to pay for the transaction
+                const paysInSui = normalizeStructTag(option.quoteAssetType) === normalizeStructTag(SUI_TYPE_ARG);
+                const gasReserve = paysInSui ? 200_000_000n : 0n;
+                if (BigInt(counterBalance.totalBalance) < requiredPayment + gasReserve) {
+                    const payment = (Number(requiredPayment) / Math.pow(10, option.quoteAssetDecimals ?? 9)).toFixed(4);
+                    toast.error(`Insufficient ${option.quoteAsset}${paysInSui ? " for payment + gas" : ""}`, {
+                        description: `Need ${payment} ${option.quoteAsset} for strike${paysInSui ? " + ~0.2 SUI for gas" : ""}`,
+                    });
+                    return;
+                }
+            } else if (BigInt(counterBalance.totalBalance) < amountInBaseUnits) {
+                toast.error("Insufficient base asset", {
+                    description: `You need ${amount} ${option.baseAsset} to exercise`,
+                });
+                return;
+            }
+
+            // Dry-run the exact exercise first so an OTM or stale exercise never reaches the wallet
+            const quote = await simulateExercise(
+                target,
+                amountInBaseUnits,
+                { sender: currentAccount.address, deepbookPoolId },
+                network
+            );
+            if (quote.error) {
+                toast.error("Exercise would fail", { description: quote.error });
                 return;
             }
 
             const tx = new Transaction();
             tx.setSender(currentAccount.address);
+            buildExercise(tx, target, amountInBaseUnits, { owner: currentAccount.address, deepbookPoolId });
 
-            // Refresh price from DeepBook before exercise (required: price must be < 5 min old)
-            tx.moveCall({
-                target: `${option.packageId}::options_pool::update_price`,
-                typeArguments: [option.optionTokenType, option.baseAssetType, option.quoteAssetType],
-                arguments: [
-                    tx.object(poolIdToUse),
-                    tx.object(deepbookPoolId),
-                    tx.object.clock(),
-                ],
+            const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+            if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
+            toast.success("Options exercised successfully");
+            loadUserTokenBalances();
+            loadSelectedPoolState();
+            setExerciseAmounts((prev) => {
+                const next = { ...prev };
+                delete next[option.id];
+                return next;
             });
+        } catch (error) {
+            console.error("Exercise failed:", error);
+            toast.error("Exercise failed", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            setExercisingPool(null);
+        }
+    };
 
-            const optionDecimals = option.optionTokenDecimals ?? 9;
-            const amountInBaseUnits = BigInt(Math.floor(amount * Math.pow(10, optionDecimals)));
+    const handleSettlePool = async (option: OptionPool) => {
+        if (!currentAccount?.address) {
+            toast.error("Please connect your wallet");
+            return;
+        }
+        const deepbookPoolId = option.deepbookPoolId ?? deepbookPools.get(option.deepbookPoolName);
+        if (!deepbookPoolId) {
+            toast.error("DeepBook pool not found", {
+                description: `Could not find pool ${option.deepbookPoolName}. Ensure you're on the correct network.`,
+            });
+            return;
+        }
 
-            if (option.type === "CALL") {
-                const strikePriceInBaseUnits = BigInt(Math.floor(option.strikePrice * PRICE_DECIMALS));
-                const requiredPayment = (strikePriceInBaseUnits * amountInBaseUnits) / BigInt(PRICE_DECIMALS);
+        setSettlingPool(option.id);
+        try {
+            const tx = new Transaction();
+            tx.setSender(currentAccount.address);
+            settlePool(tx, option, deepbookPoolId);
+            const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+            if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
+            toast.success("Pool settled successfully");
+            loadSelectedPoolState();
+        } catch (error) {
+            console.error("Settle pool failed:", error);
+            toast.error("Settle pool failed", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            setSettlingPool(null);
+        }
+    };
 
-                const GAS_RESERVE_MIST = 200_000_000n; // 0.2 SUI - must leave enough for gas
-                const totalRequired = requiredPayment + GAS_RESERVE_MIST;
+    // Burn every OwnerToken the user holds for this pool and return their share of the collateral
+    const handleClaimCollateral = async (option: OptionPool) => {
+        if (!currentAccount?.address) {
+            toast.error("Please connect your wallet");
+            return;
+        }
+        if (ownerTokens.length === 0) {
+            toast.error("No owner tokens", { description: "You didn't write any options in this pool" });
+            return;
+        }
 
-                const optionCoins = await jsonRpcClient.getCoins({
-                    owner: currentAccount.address,
-                    coinType: option.optionTokenType,
-                });
-                const paymentCoins = await jsonRpcClient.getCoins({
-                    owner: currentAccount.address,
-                    coinType: option.quoteAssetType,
-                });
-                if (optionCoins.data.length === 0) {
-                    toast.error("No option coins", { description: "You don't have any option tokens to exercise" });
-                    return;
-                }
-                if (paymentCoins.data.length === 0) {
-                    toast.error("No payment coins", { description: "You don't have any payment coins to exercise" });
-                    return;
-                }
+        setClaimingPool(option.id);
+        try {
+            const tx = new Transaction();
+            tx.setSender(currentAccount.address);
+            const claimed = ownerTokens.flatMap((token) => {
+                const [baseCoin, quoteCoin] = claimCollateral(tx, option, token.id);
+                return [baseCoin, quoteCoin];
+            });
+            tx.transferObjects(claimed, currentAccount.address);
 
-                const totalPaymentBalance = paymentCoins.data.reduce((s, c) => s + BigInt(c.balance), 0n);
-                if (totalPaymentBalance < totalRequired) {
-                    toast.error("Insufficient SUI for payment + gas", {
-                        description: `Need ${(Number(requiredPayment) / 1e9).toFixed(4)} ${option.quoteAsset} for strike + ~0.2 SUI for gas`,
-                    });
-                    setExercisingPool(null);
-                    return;
-                }
+            const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+            const failure = await simulateClaim(tx, currentAccount.address, network);
+            if (failure) {
+                toast.error("Claim would fail", { description: failure });
+                return;
+            }
 
-                const totalOptionBalance = optionCoins.data.reduce((s, c) => s + BigInt(c.balance), 0n);
-                if (totalOptionBalance < amountInBaseUnits) {
-                    toast.error("Insufficient option tokens", { description: `You need at least ${amount} options` });
-                    return;
-                }
+            const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+            if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
+            toast.success("Collateral claimed successfully");
+            loadSelectedPoolState();
+            setOwnerTokensVersion((v) => v + 1);
+        } catch (error) {
+            console.error("Claim collateral failed:", error);
+            toast.error("Claim collateral failed", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            setClaimingPool(null);
+        }
+    };
 
-                // Split payment from tx.gas - wallet picks a coin for gas, we split payment from it
-                // Keeps our coins unused so wallet can select one for gas; remainder pays gas and returns to user
-                const [paymentCoin] = tx.splitCoins(tx.gas, [Number(requiredPayment)]);
+    // Settle in-the-money option coins against the settled pool (same coin handling as exercise)
+    const handleClaimWithOptions = async (option: OptionPool) => {
+        if (!currentAccount?.address) {
+            toast.error("Please connect your wallet");
+            return;
+        }
+        const claimAmount = claimAmounts[option.id] ?? "";
+        const amount = parseFloat(claimAmount);
+        if (!claimAmount || amount <= 0) {
+            toast.error("Invalid amount", { description: "Enter amount of options to claim with" });
+            return;
+        }
+        const network = currentNetwork as "mainnet" | "testnet" | "devnet";
 
-                // Merge option tokens first, then split the needed amount, then send rest back to owner
-                const optionCoinIds = optionCoins.data.map((c) => c.coinObjectId);
-                if (optionCoinIds.length > 1) {
-                    tx.mergeCoins(
-                        tx.object(optionCoinIds[0]),
-                        optionCoinIds.slice(1).map((id) => tx.object(id))
-                    );
-                }
-                const primaryOptionCoinId = optionCoinIds[0];
-                const [optionCoin] = tx.splitCoins(tx.object(primaryOptionCoinId), [Number(amountInBaseUnits)]);
-
-                const [payoutCoin] = tx.moveCall({
-                    target: `${option.packageId}::options_pool::exercise_call_options`,
-                    typeArguments: [option.optionTokenType, option.baseAssetType, option.quoteAssetType],
-                    arguments: [
-                        tx.object(poolIdToUse),
-                        optionCoin,
-                        paymentCoin,
-                        tx.object.clock(),
-                    ],
-                });
-                // Return payout and remainder of option coin; gas coin remainder is returned by wallet
-                tx.transferObjects(
-                    [payoutCoin, tx.object(primaryOptionCoinId)],
-                    currentAccount.address
+        setClaimingPool(option.id);
+        try {
+            const jsonRpcClient = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+            const optionDecimals = option.optionTokenDecimals ?? 9;
+            const amountInBaseUnits = BigInt(Math.floor(amount * Math.pow(10, optionDecimals)));
+
+            const optionCoins = await jsonRpcClient.getCoins({
+                owner: currentAccount.address,
+                coinType: option.optionTokenType,
+            });
+            const totalOptionBalance = optionCoins.data.reduce((s, c) => s + BigInt(c.balance), 0n);
+            if (optionCoins.data.length === 0 || totalOptionBalance < amountInBaseUnits) {
+                toast.error("Insufficient option tokens", { description: `You need at least ${amount} options` });
+                return;
+            }
+
+            const tx = new Transaction();
+            tx.setSender(currentAccount.address);
+
+            const optionCoinIds = optionCoins.data.map((c) => c.coinObjectId);
+            if (optionCoinIds.length > 1) {
+                tx.mergeCoins(
+                    tx.object(optionCoinIds[0]),
+                    optionCoinIds.slice(1).map((id) => tx.object(id))
                 );
-            } else {
-                const optionCoins = await jsonRpcClient.getCoins({
-                    owner: currentAccount.address,
-                    coinType: option.optionTokenType,
+            }
+            const primaryOptionCoinId = optionCoinIds[0];
+            const [optionCoin] = tx.splitCoins(tx.object(primaryOptionCoinId), [Number(amountInBaseUnits)]);
+
+            if (option.type === "CALL") {
+                // Pay strike * amount in QuoteAsset, whatever coin that is (not only SUI)
+                const paymentCoin = coinWithBalance({
+                    type: option.quoteAssetType,
+                    balance: exercisePayment(option, amountInBaseUnits),
                 });
+                const [payoutCoin] = claimWithOptions(tx, option, optionCoin, paymentCoin);
+                tx.transferObjects([payoutCoin, tx.object(primaryOptionCoinId)], currentAccount.address);
+            } else {
                 const baseCoins = await jsonRpcClient.getCoins({
                     owner: currentAccount.address,
                     coinType: option.baseAssetType,
                 });
-                if (optionCoins.data.length === 0) {
-                    toast.error("No option coins", { description: "You don't have any option tokens to exercise" });
-                    return;
-                }
                 const totalBaseBalance = baseCoins.data.reduce((s, c) => s + BigInt(c.balance), 0n);
-                const totalOptionBalance = optionCoins.data.reduce((s, c) => s + BigInt(c.balance), 0n);
                 if (baseCoins.data.length === 0 || totalBaseBalance < amountInBaseUnits) {
-                    console.log("Insufficient base asset", {
-                        amountInBaseUnits,
-                        baseCoins: baseCoins.data.map((c) => ({
-                            balance: BigInt(c.balance),
-                            coinObjectId: c.coinObjectId,
-                        })),
-                    });
                     toast.error("Insufficient base asset", {
-                        description: `You need ${amount} ${option.baseAsset} to exercise`,
+                        description: `You need ${amount} ${option.baseAsset} to claim`,
                     });
                     return;
                 }
-                if (totalOptionBalance < amountInBaseUnits) {
-                    toast.error("Insufficient option tokens", { description: `You need at least ${amount} options` });
-                    return;
-                }
 
-                // Merge option tokens first, then split the needed amount, then send rest back to owner
-                const optionCoinIds = optionCoins.data.map((c) => c.coinObjectId);
-                if (optionCoinIds.length > 1) {
-                    tx.mergeCoins(
-                        tx.object(optionCoinIds[0]),
-                        optionCoinIds.slice(1).map((id) => tx.object(id))
-                    );
-                }
-                const primaryOptionCoinId = optionCoinIds[0];
-                const [optionCoin] = tx.splitCoins(tx.object(primaryOptionCoinId), [Number(amountInBaseUnits)]);
-
-                // Merge base asset coins if needed, then split
                 const baseCoinIds = baseCoins.data.map((c) => c.coinObjectId);
                 if (baseCoinIds.length > 1) {
                     tx.mergeCoins(
@@ -543,39 +659,36 @@ export function OptionsPage() {
                 }
                 const primaryBaseCoinId = baseCoinIds[0];
                 const [baseCoin] = tx.splitCoins(tx.object(primaryBaseCoinId), [Number(amountInBaseUnits)]);
-
-                const [payoutCoin] = tx.moveCall({
-                    target: `${option.packageId}::options_pool::exercise_put_options`,
-                    typeArguments: [option.optionTokenType, option.baseAssetType, option.quoteAssetType],
-                    arguments: [
-                        tx.object(poolIdToUse),
-                        optionCoin,
-                        baseCoin,
-                        tx.object.clock(),
-                    ],
-                });
+                const [payoutCoin] = claimWithOptions(tx, option, optionCoin, baseCoin);
                 tx.transferObjects(
                     [payoutCoin, tx.object(primaryOptionCoinId), tx.object(primaryBaseCoinId)],
                     currentAccount.address
                 );
             }
 
+            const failure = await simulateClaim(tx, currentAccount.address, network);
+            if (failure) {
+                toast.error("Claim would fail", { description: failure });
+                return;
+            }
+
             const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
             if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
-            toast.success("Options exercised successfully");
+            toast.success("Options claimed successfully");
             loadUserTokenBalances();
-            setExerciseAmounts((prev) => {
+            loadSelectedPoolState();
+            setClaimAmounts((prev) => {
                 const next = { ...prev };
                 delete next[option.id];
                 return next;
             });
         } catch (error) {
-            console.error("Exercise failed:", error);
-            toast.error("Exercise failed", {
+            console.error("Claim with options failed:", error);
+            toast.error("Claim with options failed", {
                 description: error instanceof Error ? error.message : "Unknown error",
             });
         } finally {
-            setExercisingPool(null);
+            setClaimingPool(null);
         }
     };
 
@@ -600,12 +713,7 @@ export function OptionsPage() {
 
         setCreatingPool(true);
         try {
-            const rpcUrl = network === "mainnet"
-                ? "https://fullnode.mainnet.sui.io:443"
-                : network === "testnet"
-                    ? "https://fullnode.testnet.sui.io:443"
-                    : "https://fullnode.devnet.sui.io:443";
-            const jsonRpcClient = new SuiJsonRpcClient({ network, url: rpcUrl });
+            const jsonRpcClient = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
 
             const deepCoins = await jsonRpcClient.getCoins({
                 owner: currentAccount.address,
@@ -666,6 +774,11 @@ export function OptionsPage() {
         return Date.now() >= expirationDate;
     };
 
+    const ownerTokenAmount = selectedOption && ownerTokens.length > 0
+        ? (Number(ownerTokens.reduce((s, t) => s + t.amount, 0n)) / Math.pow(10, selectedOption.optionTokenDecimals ?? 9))
+            .toLocaleString(undefined, { maximumFractionDigits: selectedOption.optionTokenDecimals ?? 9 })
+        : undefined;
+
     return (
         <div className="flex flex-col h-full min-h-0 overflow-hidden selection:bg-primary/30">
             {/* Header */}
@@ -683,20 +796,97 @@ export function OptionsPage() {
             <div className="flex-1 flex flex-col lg:flex-row overflow-hidden min-h-svh">
                 {/* Options Chain */}
                 <div className="flex-1 min-w-0 flex flex-col overflow-hidden border-r border-border">
-                    {PUBLISHED_OPTIONS.length > 0 ? (
+                    {options.length > 0 ? (
                         <OptionsChain
-                            options={PUBLISHED_OPTIONS}
+                            options={options}
                             selectedOption={selectedOption}
                             onSelectOption={setSelectedOption}
                             userTokenBalances={userTokenBalances}
+                            poolStates={poolStates}
+                            greeks={greeks}
+                            spotPrices={spotPrices}
+                            pricingModel={pricingModel}
+                            onPricingModelChange={setPricingModel}
                             formatDate={formatDate}
                             isExpired={isExpired}
+                            onRefresh={() => loadOptions(true)}
+                            isRefreshing={isLoadingOptions}
                         />
+                    ) : isLoadingOptions ? (
+                        <div className="flex-1 flex items-center justify-center gap-2 text-muted-foreground p-8">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            <p>Discovering options on-chain...</p>
+                        </div>
                     ) : (
-                        <div className="flex-1 flex items-center justify-center text-muted-foreground p-8">
+                        <div className="flex-1 flex flex-col items-center justify-center gap-3 text-muted-foreground p-8">
                             <p>No options available</p>
+                            <button
+                                type="button"
+                                onClick={() => loadOptions(true)}
+                                className="text-xs text-primary hover:underline"
+                            >
+                                Refresh
+                            </button>
                         </div>
                     )}
+                    <div className="shrink-0 max-h-[40%] overflow-auto">
+                        {options.length > 0 && (
+                            <VolatilityCone
+                                poolName={(selectedOption ?? options[0]).deepbookPoolName}
+                                pricingVolatility={pricingModel.volatility}
+                                onUseVolatility={(volatility) => setPricingModel((prev) => ({ ...prev, volatility }))}
+                            />
+                        )}
+                        {options.length > 0 && (
+                            <VolatilitySmile
+                                options={smileOptions}
+                                spotPrices={spotPrices}
+                                riskFreeRate={pricingModel.riskFreeRate}
+                                pricingVolatility={pricingModel.volatility}
+                                formatDate={formatDate}
+                            />
+                        )}
+                        {options.length > 0 && (
+                            <StrategyBuilder
+                                options={options}
+                                selectedOption={selectedOption}
+                                spotPrices={spotPrices}
+                                greeks={greeks}
+                                pricingModel={pricingModel}
+                                formatDate={formatDate}
+                                onExecuted={() => {
+                                    loadUserTokenBalances();
+                                    setOwnerTokensVersion((v) => v + 1);
+                                }}
+                            />
+                        )}
+                        {options.length > 0 && (
+                            <CoveredCallVault
+                                options={options}
+                                selectedOption={selectedOption}
+                                spotPrices={spotPrices}
+                                pricingModel={pricingModel}
+                                formatDate={formatDate}
+                                deepbookPools={deepbookPools}
+                                onExecuted={() => {
+                                    loadUserTokenBalances();
+                                    setOwnerTokensVersion((v) => v + 1);
+                                }}
+                            />
+                        )}
+                        <OwnerTokenInventory
+                            options={options}
+                            formatDate={formatDate}
+                            refreshKey={ownerTokensVersion}
+                            onChanged={loadSelectedPoolState}
+                        />
+                        <OptionSeriesPublisher onPublished={() => loadOptions(true)} />
+                        <SeriesPlanner
+                            pricingModel={pricingModel}
+                            formatDate={formatDate}
+                            onPublished={() => loadOptions(true)}
+                        />
+                    </div>
                 </div>
 
                 {/* Action Panel (right) — desktop only; mobile uses bottom sheet */}
@@ -726,7 +916,22 @@ export function OptionsPage() {
                         onCreatePoolFormChange={setCreatePoolForm}
                         onCreatePool={handleCreatePermissionlessPool}
                         creatingPool={creatingPool}
-                        publishedOptions={PUBLISHED_OPTIONS}
+                        publishedOptions={options}
+                        poolState={selectedOption ? poolStates[selectedOption.id] ?? null : null}
+                        greeks={selectedOption ? greeks[selectedOption.id] ?? null : null}
+                        spotPrice={selectedOption ? spotPrices[selectedOption.deepbookPoolName] ?? null : null}
+                        pricingModel={pricingModel}
+                        onOrderPlaced={loadUserTokenBalances}
+                        ownerTokenAmount={ownerTokenAmount}
+                        claimAmount={selectedOption ? (claimAmounts[selectedOption.id] ?? "") : ""}
+                        onClaimAmountChange={(v) =>
+                            selectedOption && setClaimAmounts((prev) => ({ ...prev, [selectedOption.id]: v }))
+                        }
+                        onSettle={handleSettlePool}
+                        onClaimCollateral={handleClaimCollateral}
+                        onClaimWithOptions={handleClaimWithOptions}
+                        isSettling={selectedOption ? settlingPool === selectedOption.id : false}
+                        isClaiming={selectedOption ? claimingPool === selectedOption.id : false}
                     />
                 </div>
             </div>
@@ -766,7 +971,22 @@ export function OptionsPage() {
                             onCreatePoolFormChange={setCreatePoolForm}
                             onCreatePool={handleCreatePermissionlessPool}
                             creatingPool={creatingPool}
-                            publishedOptions={PUBLISHED_OPTIONS}
+                            publishedOptions={options}
+                            poolState={selectedOption ? poolStates[selectedOption.id] ?? null : null}
+                            greeks={selectedOption ? greeks[selectedOption.id] ?? null : null}
+                            spotPrice={selectedOption ? spotPrices[selectedOption.deepbookPoolName] ?? null : null}
+                            pricingModel={pricingModel}
+                            onOrderPlaced={loadUserTokenBalances}
+                            ownerTokenAmount={ownerTokenAmount}
+                            claimAmount={selectedOption ? (claimAmounts[selectedOption.id] ?? "") : ""}
+                            onClaimAmountChange={(v) =>
+                                selectedOption && setClaimAmounts((prev) => ({ ...prev, [selectedOption.id]: v }))
+                            }
+                            onSettle={handleSettlePool}
+                            onClaimCollateral={handleClaimCollateral}
+                            onClaimWithOptions={handleClaimWithOptions}
+                            isSettling={selectedOption ? settlingPool === selectedOption.id : false}
+                            isClaiming={selectedOption ? claimingPool === selectedOption.id : false}
                         />
                     </div>
                     {!currentAccount && (
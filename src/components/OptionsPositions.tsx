@@ -0,0 +1,287 @@
+import { useEffect, useState } from "react";
+import { useCurrentAccount, useCurrentClient, useCurrentNetwork, useDAppKit } from "@mysten/dapp-kit-react";
+import { Transaction } from "@mysten/sui/transactions";
+import { Layers, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Card, CardContent } from "./ui/card";
+import { cn } from "../lib/utils";
+import { getAllPools, getMarketPrice } from "../lib/deepbook";
+import { buildClaimWithOptions, buildExercise, describeExerciseError, simulateClaim } from "../lib/exercise";
+import { discoverOptionPools } from "../lib/options";
+import { addCollateralClaim, getOptionPositions, positionPnl, type OptionPosition } from "../lib/positions";
+import { DEFAULT_RISK_FREE_RATE, DEFAULT_VOLATILITY } from "../lib/pricing";
+
+interface OptionsPositionsProps {
+  /** The account's BalanceManager; option tokens held there count as long positions */
+  balanceManagerId: string | null;
+}
+
+type PositionAction = "exercise" | "claim" | "claim-collateral";
+
+const positionKey = (position: OptionPosition) => `${position.option.id}:${position.side}`;
+
+const formatValue = (value: number | null) =>
+  value === null ? "—" : value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+/** What one click does for a position, if anything */
+function positionAction(position: OptionPosition): PositionAction | null {
+  const expired = position.daysToExpiry <= 0;
+  if (position.side === "written") return expired ? "claim-collateral" : null;
+  if (position.walletAmount === 0n || !position.intrinsic || position.intrinsic <= 0) return null;
+  return expired ? "claim" : "exercise";
+}
+
+const ACTION_LABELS: Record<PositionAction, string> = {
+  exercise: "Exercise",
+  claim: "Claim",
+  "claim-collateral": "Claim collateral",
+};
+
+export function OptionsPositions({ balanceManagerId }: OptionsPositionsProps) {
+  const currentAccount = useCurrentAccount();
+  const currentNetwork = useCurrentNetwork();
+  const dAppKit = useDAppKit();
+  const client = useCurrentClient();
+
+  const [positions, setPositions] = useState<OptionPosition[]>([]);
+  const [deepbookPools, setDeepbookPools] = useState<Map<string, string>>(new Map());
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const loadPositions = async () => {
+    if (!currentAccount?.address) {
+      setPositions([]);
+      return;
+    }
+    const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+    const networkKey = network === "devnet" ? "testnet" : network;
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      // The pool list only fills in DeepBook pool IDs for settling, so an indexer outage doesn't hide positions
+      const [options, pools] = await Promise.all([
+        discoverOptionPools(network),
+        getAllPools(network).catch((error) => {
+          console.error("Error loading DeepBook pools:", error);
+          return [];
+        }),
+      ]);
+      setDeepbookPools(new Map(pools.map((pool) => [pool.poolName, pool.poolId])));
+
+      const poolNames = Array.from(new Set(options.map((o) => o.deepbookPoolName)));
+      // Spot only feeds intrinsic value and model marks, so a pool without a price is left out
+      const prices = await Promise.all(
+        poolNames.map((name) =>
+          getMarketPrice(name, networkKey).catch((error) => {
+            console.error("Error fetching spot price for", name, ":", error);
+            return null;
+          }),
+        ),
+      );
+      const spotPrices: Record<string, number> = {};
+      poolNames.forEach((name, i) => {
+        const mid = prices[i]?.midPrice;
+        if (mid) spotPrices[name] = mid;
+      });
+
+      const next = await getOptionPositions(
+        client,
+        currentAccount.address,
+        options,
+        {
+          balanceManagerId,
+          spotPrices,
+          model: { volatility: DEFAULT_VOLATILITY, riskFreeRate: DEFAULT_RISK_FREE_RATE },
+        },
+        network,
+      );
+      setPositions(next.sort((a, b) => a.option.expirationDate - b.option.expirationDate));
+    } catch (error) {
+      console.error("Error loading options positions:", error);
+      setPositions([]);
+      setLoadError(error instanceof Error ? error.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPositions();
+  }, [currentAccount?.address, balanceManagerId, client, currentNetwork]);
+
+  const handleAction = async (position: OptionPosition, action: PositionAction) => {
+    if (!currentAccount?.address) return;
+    const { option, settlement } = position;
+    const owner = currentAccount.address;
+    const deepbookPoolId = option.deepbookPoolId ?? deepbookPools.get(option.deepbookPoolName);
+    const needsSettle = action !== "exercise" && !settlement?.isSettled;
+
+    setBusyKey(positionKey(position));
+    try {
+      if ((action === "exercise" || needsSettle) && !deepbookPoolId) {
+        throw new Error(`DeepBook pool ${option.deepbookPoolName} not found`);
+      }
+      const tx = new Transaction();
+      tx.setSender(owner);
+      if (action === "exercise") {
+        buildExercise(tx, option, position.walletAmount, { owner, deepbookPoolId: deepbookPoolId! });
+      } else if (action === "claim") {
+        buildClaimWithOptions(tx, option, position.walletAmount, {
+          owner,
+          settleWith: needsSettle ? deepbookPoolId : undefined,
+        });
+      } else {
+        const [baseCoin, quoteCoin] = addCollateralClaim(
+          tx,
+          option,
+          position.ownerTokens.map((t) => t.id),
+          { settle: needsSettle, deepbookPoolId },
+        );
+        tx.transferObjects([baseCoin, quoteCoin], owner);
+      }
+
+      // Claims abort on pools whose settle_pool doesn't record a settlement price
+      if (action !== "exercise") {
+        const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+        const failure = await simulateClaim(tx, owner, network);
+        if (failure) {
+          toast.error(`${ACTION_LABELS[action]} would fail`, { description: failure });
+          return;
+        }
+      }
+
+      const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+      if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
+      toast.success(`${ACTION_LABELS[action]} succeeded`, { description: option.name });
+      loadPositions();
+    } catch (error) {
+      console.error(`${ACTION_LABELS[action]} failed:`, error);
+      toast.error(`${ACTION_LABELS[action]} failed`, {
+        description: error instanceof Error ? describeExerciseError(error.message) : "Unknown error",
+      });
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <div className="pt-2">
+      <div className="flex items-center justify-between px-1 mb-3">
+        <h3 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+          <Layers className="h-4 w-4" />
+          Options positions
+        </h3>
+        <button
+          type="button"
+          onClick={loadPositions}
+          disabled={isLoading}
+          className="text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+          title="Refresh positions"
+        >
+          <RefreshCw className={cn("h-3.5 w-3.5", isLoading && "animate-spin")} />
+        </button>
+      </div>
+
+      <Card className="bg-card/30 overflow-hidden">
+        <CardContent className="p-0">
+          {isLoading && positions.length === 0 ? (
+            <div className="px-4 py-6 text-xs text-muted-foreground text-center">Loading positions…</div>
+          ) : loadError ? (
+            <div className="px-4 py-6 text-xs text-sell text-center">Couldn't load positions: {loadError}</div>
+          ) : positions.length === 0 ? (
+            <div className="px-4 py-6 text-xs text-muted-foreground text-center">
+              No option tokens or OwnerTokens in this wallet
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs tabular-nums">
+                <thead>
+                  <tr className="text-muted-foreground border-b border-border">
+                    <th className="text-left font-medium px-4 py-2">Option</th>
+                    <th className="text-left font-medium px-2 py-2">Side</th>
+                    <th className="text-right font-medium px-2 py-2">Qty</th>
+                    <th className="text-right font-medium px-2 py-2">Cost</th>
+                    <th className="text-right font-medium px-2 py-2">Mark</th>
+                    <th className="text-right font-medium px-2 py-2">Intrinsic</th>
+                    <th className="text-right font-medium px-2 py-2">Expiry</th>
+                    <th className="text-right font-medium px-2 py-2">P&L</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {positions.map((position) => {
+                    const { option } = position;
+                    const key = positionKey(position);
+                    const quantity = Number(position.amount) / Math.pow(10, option.optionTokenDecimals ?? 9);
+                    const pnl = positionPnl(position);
+                    const action = positionAction(position);
+                    const inManager = position.side === "long" && position.walletAmount < position.amount;
+                    return (
+                      <tr key={key} className="border-b border-border last:border-0">
+                        <td className="px-4 py-2">
+                          <div className="font-medium">{option.name}</div>
+                          <div className="text-[10px] text-muted-foreground">
+                            {option.type} {option.strikePrice} {option.quoteAsset}
+                          </div>
+                        </td>
+                        <td className={cn("px-2 py-2 capitalize", position.side === "long" ? "text-buy" : "text-sell")}>
+                          {position.side}
+                        </td>
+                        <td className="px-2 py-2 text-right">
+                          {formatValue(quantity)}
+                          {inManager && (
+                            <div className="text-[10px] text-muted-foreground" title="Held in the BalanceManager">
+                              {formatValue(Number(position.amount - position.walletAmount) / Math.pow(10, option.optionTokenDecimals ?? 9))} in BM
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-2 py-2 text-right">{formatValue(position.costBasis)}</td>
+                        <td className="px-2 py-2 text-right">
+                          {formatValue(position.mark)}
+                          {position.markSource && (
+                            <div className="text-[10px] text-muted-foreground">{position.markSource}</div>
+                          )}
+                        </td>
+                        <td className="px-2 py-2 text-right">{formatValue(position.intrinsic)}</td>
+                        <td className="px-2 py-2 text-right">
+                          {position.daysToExpiry > 0 ? `${position.daysToExpiry.toFixed(1)}d` : "Expired"}
+                        </td>
+                        <td
+                          className={cn(
+                            "px-2 py-2 text-right",
+                            pnl !== null && (pnl >= 0 ? "text-buy" : "text-sell"),
+                          )}
+                        >
+                          {pnl === null ? "—" : `${pnl >= 0 ? "+" : ""}${formatValue(pnl)}`}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {action && (
+                            <Button
+                              size="sm"
+                              variant={action === "exercise" ? "default" : "secondary"}
+                              loading={busyKey === key}
+                              disabled={busyKey !== null}
+                              onClick={() => handleAction(position, action)}
+                            >
+                              {ACTION_LABELS[action]}
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      <p className="text-[10px] text-muted-foreground px-1 mt-2">
+        Values per option in the quote asset. Cost is the average fill price on DeepBook; marks are the book mid,
+        or the pricing model when the book is one-sided. Exercise and claim use the tokens in your wallet.
+      </p>
+    </div>
+  );
+}
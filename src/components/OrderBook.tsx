@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { getOrderBook, OrderBookData, getRecentTrades, Trade } from '../lib/deepbook';
+import { useState } from 'react';
+import { useOrderBook, useStreamStatus, useTrades } from '../hooks/deepbook';
 
 interface OrderBookProps {
     poolName: string;
@@ -11,32 +11,10 @@ type TabType = 'orderbook' | 'trades';
 
 export function OrderBook({ poolName, network, onSelectPrice }: OrderBookProps) {
     const [activeTab, setActiveTab] = useState<TabType>('orderbook');
-    const [orderBookData, setOrderBookData] = useState<OrderBookData | null>(null);
-    const [trades, setTrades] = useState<Trade[]>([]);
-
-    useEffect(() => {
-        // Fetch order book and trades together to ensure they're synchronized
-        const fetchBookAndTrades = async () => {
-            try {
-                // Fetch both simultaneously using Promise.all to ensure they're in sync
-                const [book, recentTrades] = await Promise.all([
-                    getOrderBook(poolName, network),
-                    getRecentTrades(poolName, network)
-                ]);
-
-                setOrderBookData(book);
-                setTrades(recentTrades);
-            } catch (error) {
-                console.error('Error fetching order book and trades:', error);
-            }
-        };
-
-        fetchBookAndTrades();
-
-        const interval = setInterval(fetchBookAndTrades, 5000);
-
-        return () => clearInterval(interval);
-    }, [poolName, network]);
+    // Shared with the rest of the trading screen through react-query, so polling happens once per pool
+    const { data: orderBookData = null } = useOrderBook(poolName || null, network);
+    const { data: trades = [] } = useTrades(poolName || null, network);
+    const live = useStreamStatus(poolName || null, network) === 'live';
 
     const maxTotal = orderBookData ? Math.max(
         ...orderBookData.asks.map(a => a.price * a.quantity),
@@ -65,6 +43,9 @@ export function OrderBook({ poolName, network, onSelectPrice }: OrderBookProps)
                         }`}
                 >
                     Order Book
+                    {live && (
+                        <span className="ml-1.5 inline-block h-1.5 w-1.5 rounded-full bg-buy align-middle" title="Streaming live" />
+                    )}
                 </button>
                 <button
                     onClick={() => setActiveTab('trades')}
@@ -1,12 +1,15 @@
-import { useState, useEffect, useCallback } from 'react';
-import { useCurrentAccount, ConnectButton, useCurrentClient, useDAppKit, useCurrentNetwork } from '@mysten/dapp-kit-react';
+import { useState, useEffect } from 'react';
+import { useCurrentAccount, ConnectButton, useDAppKit, useCurrentNetwork } from '@mysten/dapp-kit-react';
 import { Transaction } from '@mysten/sui/transactions';
 import { Button } from './ui/button';
-import { getDeepBookPackageId, getBalanceManager, getRegistryId, getBalanceForCoin, PoolInfo } from '../lib/deepbook';
+import { getDeepBookPackageId, getRegistryId, PoolInfo } from '../lib/deepbook';
+import { useBalanceManager, useBalanceManagerBalances, useInvalidateAfterTransaction } from '../hooks/deepbook';
 import { Loader2, ChevronDown, ChevronUp } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '../lib/utils';
 
+const SUI_TYPE = '0x2::sui::SUI';
+
 const COIN_TYPE_MAP: Record<'mainnet' | 'testnet', Record<string, string>> = {
     mainnet: {
         SUI: '0x2::sui::SUI',
@@ -68,7 +71,6 @@ interface OrderPanelProps {
 
 export function OrderPanel({ poolInfo, currentPrice, selectedPriceFromOrderBook, initialSide, compact = false, onOrderPlaced }: OrderPanelProps) {
     const currentAccount = useCurrentAccount();
-    const client = useCurrentClient();
     const dAppKit = useDAppKit();
     const currentNetwork = useCurrentNetwork();
 
@@ -77,13 +79,29 @@ export function OrderPanel({ poolInfo, currentPrice, selectedPriceFromOrderBook,
     const [price, setPrice] = useState(currentPrice.toString());
     const [size, setSize] = useState('10');
 
-    // BalanceManager state
-    const [balanceManager, setBalanceManager] = useState<string | null>(null);
-    const [balance, setBalance] = useState<number | null>(0); // SUI balance in BalanceManager
-    const [baseBalance, setBaseBalance] = useState<number | null>(null);
-    const [quoteBalance, setQuoteBalance] = useState<number | null>(null);
-
-    const [isLoadingBalanceManager, setIsLoadingBalanceManager] = useState(false);
+    // BalanceManager and its balances: SUI (always available for deposit / withdraw UI) and the
+    // pool's base and quote for the Available display. No polling; refreshed after transactions.
+    const queryNetwork = currentNetwork as 'mainnet' | 'testnet' | 'devnet';
+    const coinTypeMap = currentNetwork === 'mainnet' || currentNetwork === 'testnet' ? COIN_TYPE_MAP[currentNetwork] : null;
+    const baseType = poolInfo ? coinTypeMap?.[poolInfo.baseCoin] : undefined;
+    const quoteType = poolInfo ? coinTypeMap?.[poolInfo.quoteCoin] : undefined;
+    const balanceManagerQuery = useBalanceManager(queryNetwork);
+    const balanceManager = balanceManagerQuery.data ?? null;
+    const balancesQuery = useBalanceManagerBalances(
+        balanceManager,
+        Array.from(new Set([SUI_TYPE, baseType, quoteType].filter((type): type is string => !!type))),
+        queryNetwork,
+    );
+    const balances = balancesQuery.data;
+    const balance = balances ? Number(balances[SUI_TYPE] ?? 0n) / 1_000_000_000 : 0; // SUI balance in BalanceManager
+    const baseBalance = balances && baseType && poolInfo
+        ? Number(balances[baseType] ?? 0n) / Math.pow(10, poolInfo.baseAssetDecimals)
+        : null;
+    const quoteBalance = balances && quoteType && poolInfo
+        ? Number(balances[quoteType] ?? 0n) / Math.pow(10, poolInfo.quoteAssetDecimals)
+        : null;
+    const isLoadingBalanceManager = balanceManagerQuery.isLoading || balancesQuery.isLoading;
+    const invalidateAfterTransaction = useInvalidateAfterTransaction(queryNetwork);
     const [depositAmount, setDepositAmount] = useState('');
     const [withdrawAmount, setWithdrawAmount] = useState('');
     const [isDepositing, setIsDepositing] = useState(false);
@@ -111,91 +129,6 @@ export function OrderPanel({ poolInfo, currentPrice, selectedPriceFromOrderBook,
         if (initialSide) setSide(initialSide);
     }, [initialSide]);
 
-    // Fetch BalanceManager when account/pool/network changes. No polling — balance only updates on transaction.
-    const fetchBalanceManager = useCallback(async () => {
-        if (!currentAccount?.address) {
-            setBalanceManager(null);
-            return;
-        }
-
-        setIsLoadingBalanceManager(true);
-        try {
-            const network = currentNetwork as 'mainnet' | 'testnet' | 'devnet';
-            const bm = await getBalanceManager(client, currentAccount.address, network);
-
-            let suiBalance = 0;
-            if (bm) {
-                // SUI balance (always available for deposit / withdraw UI)
-                suiBalance = Number(
-                    await getBalanceForCoin(
-                        client,
-                        currentAccount.address,
-                        bm,
-                        '0x2::sui::SUI',
-                        network,
-                    ),
-                ) / 1_000_000_000;
-
-                // Pool-specific balances for Available display
-                if (poolInfo && (currentNetwork === 'mainnet' || currentNetwork === 'testnet')) {
-                    const networkKey = currentNetwork as 'mainnet' | 'testnet';
-                    const baseType = COIN_TYPE_MAP[networkKey]?.[poolInfo.baseCoin];
-                    const quoteType = COIN_TYPE_MAP[networkKey]?.[poolInfo.quoteCoin];
-
-                    if (baseType) {
-                        const rawBase = await getBalanceForCoin(
-                            client,
-                            currentAccount.address,
-                            bm,
-                            baseType,
-                            network,
-                        );
-                        setBaseBalance(
-                            Number(rawBase) / Math.pow(10, poolInfo.baseAssetDecimals),
-                        );
-                    } else {
-                        setBaseBalance(null);
-                    }
-
-                    if (quoteType) {
-                        const rawQuote = await getBalanceForCoin(
-                            client,
-                            currentAccount.address,
-                            bm,
-                            quoteType,
-                            network,
-                        );
-                        setQuoteBalance(
-                            Number(rawQuote) / Math.pow(10, poolInfo.quoteAssetDecimals),
-                        );
-                    } else {
-                        setQuoteBalance(null);
-                    }
-                } else {
-                    setBaseBalance(null);
-                    setQuoteBalance(null);
-                }
-            } else {
-                setBaseBalance(null);
-                setQuoteBalance(null);
-            }
-
-            setBalanceManager(bm);
-            setBalance(suiBalance);
-        } catch (error) {
-            console.error('Error fetching BalanceManager:', error);
-            setBalanceManager(null);
-            setBaseBalance(null);
-            setQuoteBalance(null);
-        } finally {
-            setIsLoadingBalanceManager(false);
-        }
-    }, [currentAccount?.address, client, currentNetwork, poolInfo]);
-
-    useEffect(() => {
-        fetchBalanceManager();
-    }, [fetchBalanceManager]);
-
     // Handle deposit with BalanceManager creation if needed
     const handleDeposit = async () => {
         if (!currentAccount?.address || !depositAmount) return false;
@@ -277,7 +210,7 @@ export function OrderPanel({ poolInfo, currentPrice, selectedPriceFromOrderBook,
             });
 
             // Refresh balance after transaction confirms
-            setTimeout(() => fetchBalanceManager(), 2000);
+            invalidateAfterTransaction();
             return true;
         } catch (error) {
             console.error('Deposit failed:', error);
@@ -330,7 +263,7 @@ export function OrderPanel({ poolInfo, currentPrice, selectedPriceFromOrderBook,
             });
 
             // Refresh balance after transaction confirms
-            setTimeout(() => fetchBalanceManager(), 2000);
+            invalidateAfterTransaction();
             return true;
         } catch (error) {
             console.error('Withdrawal failed:', error);
@@ -499,8 +432,8 @@ export function OrderPanel({ poolInfo, currentPrice, selectedPriceFromOrderBook,
                 setPrice(currentPrice.toString());
             }
 
-            // Refresh balance after transaction confirms
-            setTimeout(() => fetchBalanceManager(), 2000);
+            // Refresh balance, book and orders after transaction confirms
+            invalidateAfterTransaction(poolInfo.poolName);
         } catch (error) {
             console.error('Order placement failed:', error);
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
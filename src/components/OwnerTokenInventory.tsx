@@ -0,0 +1,333 @@
+import { useEffect, useState } from "react";
+import { useCurrentAccount, useCurrentNetwork, useDAppKit } from "@mysten/dapp-kit-react";
+import { Transaction } from "@mysten/sui/transactions";
+import { isValidSuiAddress } from "@mysten/sui/utils";
+import { Coins, Merge, RefreshCw, Split } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { cn } from "../lib/utils";
+import {
+    getAllOwnerTokens,
+    getPoolSettlement,
+    estimateOwnerTokenClaim,
+    type OptionPool,
+    type OwnerTokenInfo,
+    type PoolSettlement,
+} from "../lib/options";
+import { claimCollateral, mergeOwnerTokens, splitOwnerToken } from "../lib/varuna";
+import { simulateClaim } from "../lib/exercise";
+
+interface OwnerTokenInventoryProps {
+    options: OptionPool[];
+    formatDate: (timestamp: number) => string;
+    /** Bump to reload after the parent mints or claims */
+    refreshKey?: number;
+    /** Called after a merge or split lands so the parent can refresh its own OwnerToken state */
+    onChanged?: () => void;
+}
+
+/** OwnerTokens held for one pool, with the pool's settlement state for claim valuation */
+interface OwnerTokenPosition {
+    option: OptionPool;
+    tokens: OwnerTokenInfo[];
+    total: bigint;
+    settlement: PoolSettlement | null;
+    /** Why claiming would abort, from a dry-run once the pool is settled */
+    claimError: string | null;
+}
+
+/** Dry-run claiming with every token of a settled pool; the abort reason, or null if it would succeed */
+async function dryRunClaim(
+    option: OptionPool,
+    tokens: OwnerTokenInfo[],
+    owner: string,
+    network: "mainnet" | "testnet" | "devnet"
+): Promise<string | null> {
+    const tx = new Transaction();
+    tx.setSender(owner);
+    const claimed = tokens.flatMap((token) => {
+        const [baseCoin, quoteCoin] = claimCollateral(tx, option, token.id);
+        return [baseCoin, quoteCoin];
+    });
+    tx.transferObjects(claimed, owner);
+    return simulateClaim(tx, owner, network);
+}
+
+export function OwnerTokenInventory({ options, formatDate, refreshKey, onChanged }: OwnerTokenInventoryProps) {
+    const currentAccount = useCurrentAccount();
+    const currentNetwork = useCurrentNetwork();
+    const dAppKit = useDAppKit();
+    const [positions, setPositions] = useState<OwnerTokenPosition[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [busyPool, setBusyPool] = useState<string | null>(null);
+    const [expandedPool, setExpandedPool] = useState<string | null>(null);
+    const [splitAmount, setSplitAmount] = useState("");
+    const [splitRecipient, setSplitRecipient] = useState("");
+
+    const loadPositions = async () => {
+        if (!currentAccount?.address || options.length === 0) {
+            setPositions([]);
+            return;
+        }
+        const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+        setIsLoading(true);
+        try {
+            const tokens = await getAllOwnerTokens(currentAccount.address, options, network);
+            const byPool = new Map<string, OwnerTokenInfo[]>();
+            for (const token of tokens) {
+                const list = byPool.get(token.poolId) ?? [];
+                list.push(token);
+                byPool.set(token.poolId, list);
+            }
+
+            const next = await Promise.all(
+                options
+                    .filter((option) => byPool.has(option.id))
+                    .map(async (option) => {
+                        const poolTokens = byPool.get(option.id) ?? [];
+                        const settlement = await getPoolSettlement(option.id, network);
+                        return {
+                            option,
+                            tokens: poolTokens,
+                            total: poolTokens.reduce((s, t) => s + t.amount, 0n),
+                            settlement,
+                            claimError: settlement?.isSettled
+                                ? await dryRunClaim(option, poolTokens, currentAccount.address, network)
+                                : null,
+                        };
+                    })
+            );
+            setPositions(next);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadPositions();
+    }, [currentAccount?.address, currentNetwork, options, refreshKey]);
+
+    const formatUnits = (raw: bigint, decimals: number) =>
+        (Number(raw) / Math.pow(10, decimals)).toLocaleString(undefined, { maximumFractionDigits: decimals });
+
+    const formatClaimValue = (position: OwnerTokenPosition) => {
+        const { option, total, settlement, claimError } = position;
+        if (claimError) return "Not claimable";
+        // Unsettled pools settle at the last oracle price; a settled one only ever at its recorded price
+        const price = settlement?.settlementPrice ?? (settlement?.isSettled ? null : settlement?.lastOraclePrice) ?? null;
+        if (price === null) return "—";
+        const { base, quote } = estimateOwnerTokenClaim(option, total, price);
+        return base > 0n
+            ? `${formatUnits(base, option.baseAssetDecimals ?? 9)} ${option.baseAsset}`
+            : `${formatUnits(quote, option.quoteAssetDecimals ?? 9)} ${option.quoteAsset}`;
+    };
+
+    const handleMerge = async (position: OwnerTokenPosition) => {
+        if (!currentAccount?.address) {
+            toast.error("Please connect your wallet");
+            return;
+        }
+        const [primary, ...others] = position.tokens;
+        if (!primary || others.length === 0) return;
+
+        setBusyPool(position.option.id);
+        try {
+            const tx = new Transaction();
+            tx.setSender(currentAccount.address);
+            mergeOwnerTokens(tx, position.option, primary.id, others.map((t) => t.id));
+            const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+            if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
+            toast.success("Owner tokens merged", {
+                description: `Merged ${position.tokens.length} tokens into one`,
+            });
+            loadPositions();
+            onChanged?.();
+        } catch (error) {
+            console.error("Merge owner tokens failed:", error);
+            toast.error("Merge failed", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            setBusyPool(null);
+        }
+    };
+
+    // Split from the largest token; the new token goes to the recipient (or back to the wallet)
+    const handleSplit = async (position: OwnerTokenPosition) => {
+        if (!currentAccount?.address) {
+            toast.error("Please connect your wallet");
+            return;
+        }
+        const decimals = position.option.optionTokenDecimals ?? 9;
+        const amount = parseFloat(splitAmount);
+        if (!splitAmount || amount <= 0) {
+            toast.error("Invalid amount", { description: "Enter an amount to split off" });
+            return;
+        }
+        const recipient = splitRecipient.trim() || currentAccount.address;
+        if (!isValidSuiAddress(recipient)) {
+            toast.error("Invalid recipient", { description: "Enter a valid Sui address" });
+            return;
+        }
+        const amountInBaseUnits = BigInt(Math.floor(amount * Math.pow(10, decimals)));
+        const source = position.tokens.reduce((a, b) => (b.amount > a.amount ? b : a));
+        if (amountInBaseUnits > source.amount) {
+            toast.error("Amount too large", {
+                description: `Largest token holds ${formatUnits(source.amount, decimals)}. Merge first to split more.`,
+            });
+            return;
+        }
+
+        setBusyPool(position.option.id);
+        try {
+            const tx = new Transaction();
+            tx.setSender(currentAccount.address);
+            const newToken = splitOwnerToken(tx, position.option, source.id, amountInBaseUnits);
+            tx.transferObjects([newToken], recipient);
+            const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+            if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
+            toast.success("Owner token split", {
+                description: recipient === currentAccount.address
+                    ? `Split off ${splitAmount}`
+                    : `Sent ${splitAmount} to ${recipient.slice(0, 6)}...${recipient.slice(-4)}`,
+            });
+            setSplitAmount("");
+            setSplitRecipient("");
+            loadPositions();
+            onChanged?.();
+        } catch (error) {
+            console.error("Split owner token failed:", error);
+            toast.error("Split failed", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            setBusyPool(null);
+        }
+    };
+
+    if (!currentAccount) return null;
+
+    return (
+        <div className="border-t bg-card/95 text-[11px] sm:text-[12px]">
+            <div className="flex items-center justify-between px-4 py-2 bg-muted/20 border-b">
+                <span className="font-semibold text-sm flex items-center gap-2">
+                    <Coins className="h-4 w-4" />
+                    Written Positions (Owner Tokens)
+                </span>
+                <button
+                    type="button"
+                    onClick={loadPositions}
+                    disabled={isLoading}
+                    className="shrink-0 rounded-lg p-2 text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors disabled:opacity-50 touch-manipulation"
+                    title="Refresh owner tokens"
+                    aria-label="Refresh owner tokens"
+                >
+                    <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+                </button>
+            </div>
+
+            {positions.length === 0 ? (
+                <p className="px-4 py-3 text-muted-foreground">
+                    {isLoading ? "Loading owner tokens..." : "You haven't written any options yet."}
+                </p>
+            ) : (
+                <div className="divide-y">
+                    <div className="grid grid-cols-[2fr_1fr_1fr_1.5fr_auto] gap-2 px-4 py-1.5 text-muted-foreground uppercase text-[10px] font-bold">
+                        <span>Pool</span>
+                        <span>Expiry</span>
+                        <span className="text-right">Amount</span>
+                        <span className="text-right">Claim Value</span>
+                        <span className="w-16" />
+                    </div>
+                    {positions.map((position) => {
+                        const { option } = position;
+                        const decimals = option.optionTokenDecimals ?? 9;
+                        const isBusy = busyPool === option.id;
+                        const isExpanded = expandedPool === option.id;
+                        return (
+                            <div key={option.id}>
+                                <div className="grid grid-cols-[2fr_1fr_1fr_1.5fr_auto] gap-2 items-center px-4 py-2">
+                                    <span className="font-medium truncate" title={option.id}>{option.name}</span>
+                                    <span>{formatDate(option.expirationDate)}</span>
+                                    <span className="text-right tabular-nums">
+                                        {formatUnits(position.total, decimals)}
+                                        {position.tokens.length > 1 && (
+                                            <span className="text-muted-foreground"> ({position.tokens.length})</span>
+                                        )}
+                                    </span>
+                                    <span
+                                        className="text-right tabular-nums"
+                                        title={position.claimError
+                                            ?? (position.settlement?.isSettled ? "At settlement price" : "At last oracle price")}
+                                    >
+                                        {formatClaimValue(position)}
+                                    </span>
+                                    <div className="flex items-center gap-1 w-16 justify-end">
+                                        {position.tokens.length > 1 && (
+                                            <button
+                                                type="button"
+                                                onClick={() => handleMerge(position)}
+                                                disabled={isBusy}
+                                                className="rounded p-1 text-muted-foreground hover:bg-muted/50 hover:text-foreground disabled:opacity-50"
+                                                title="Merge into one token"
+                                                aria-label="Merge owner tokens"
+                                            >
+                                                <Merge className="h-3.5 w-3.5" />
+                                            </button>
+                                        )}
+                                        <button
+                                            type="button"
+                                            onClick={() => {
+                                                setExpandedPool(isExpanded ? null : option.id);
+                                                setSplitAmount("");
+                                                setSplitRecipient("");
+                                            }}
+                                            disabled={isBusy}
+                                            className={cn(
+                                                "rounded p-1 text-muted-foreground hover:bg-muted/50 hover:text-foreground disabled:opacity-50",
+                                                isExpanded && "bg-muted/50 text-foreground"
+                                            )}
+                                            title="Split or transfer part of this position"
+                                            aria-label="Split owner token"
+                                        >
+                                            <Split className="h-3.5 w-3.5" />
+                                        </button>
+                                    </div>
+                                </div>
+                                {isExpanded && (
+                                    <div className="flex flex-col sm:flex-row gap-2 px-4 pb-3">
+                                        <input
+                                            type="number"
+                                            value={splitAmount}
+                                            onChange={(e) => setSplitAmount(e.target.value)}
+                                            placeholder="Amount"
+                                            className="sm:w-28 px-3 py-1.5 rounded-md border bg-input text-xs focus:ring-1 focus:ring-primary outline-none"
+                                            disabled={isBusy}
+                                        />
+                                        <input
+                                            type="text"
+                                            value={splitRecipient}
+                                            onChange={(e) => setSplitRecipient(e.target.value)}
+                                            placeholder="Recipient (optional, defaults to you)"
+                                            className="flex-1 px-3 py-1.5 rounded-md border bg-input text-xs font-mono focus:ring-1 focus:ring-primary outline-none"
+                                            disabled={isBusy}
+                                        />
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => handleSplit(position)}
+                                            disabled={isBusy || !splitAmount || parseFloat(splitAmount) <= 0}
+                                            loading={isBusy}
+                                        >
+                                            Split
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useCurrentNetwork } from "@mysten/dapp-kit-react";
+import {
+    createOptionsChart,
+    createSeriesMarkers,
+    BaselineSeries,
+    ColorType,
+    LineSeries,
+    LineStyle,
+    type IChartApiBase,
+    type ISeriesApi,
+    type ISeriesMarkersPluginApi,
+} from "lightweight-charts";
+import { cn } from "../lib/utils";
+import { getOrderBook } from "../lib/deepbook";
+import { getOptionTokenPools, type OptionPool } from "../lib/options";
+import { buildPayoffCurve, payoffRange, summarizePayoff, type PayoffPoint, type PositionSide } from "../lib/payoff";
+import { formatGreek, type PricingModel } from "../lib/pricing";
+
+interface PayoffChartProps {
+    option: OptionPool;
+    /** Underlying price the curve is centred on */
+    spotPrice: number;
+    pricingModel: PricingModel;
+    /** Model fair value, used as the premium when the option token has no DeepBook quote */
+    fairValue?: number;
+}
+
+/** A vertical reference on the payoff curve, e.g. a strike or the spot */
+export interface PayoffMarker {
+    price: number;
+    text: string;
+    /** Drawn above the curve in amber (the spot); otherwise below in grey (strikes) */
+    highlight?: boolean;
+}
+
+interface PayoffCurveChartProps {
+    curve: PayoffPoint[];
+    markers: PayoffMarker[];
+    precision: number;
+}
+
+/** Best bid/ask of the option token's DeepBook pool */
+interface OptionQuote {
+    bid: number | null;
+    ask: number | null;
+}
+
+export function PayoffChart({ option, spotPrice, pricingModel, fairValue }: PayoffChartProps) {
+    const currentNetwork = useCurrentNetwork();
+    const [side, setSide] = useState<PositionSide>("holder");
+    const [quantity, setQuantity] = useState("1");
+    const [premiumInput, setPremiumInput] = useState("");
+    const [quote, setQuote] = useState<OptionQuote | null>(null);
+
+    // Premium from the option token's book: holders buy at the ask, writers sell at the bid
+    useEffect(() => {
+        let cancelled = false;
+        const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+        setQuote(null);
+        setPremiumInput("");
+        (async () => {
+            const pools = await getOptionTokenPools([option], network);
+            const pool = pools[option.id];
+            // depth counts both sides, so 2 is the best level of each
+            const book = pool ? await getOrderBook(pool.poolName, network, 2, 2) : null;
+            if (!cancelled) {
+                setQuote({ bid: book?.bids[0]?.price ?? null, ask: book?.asks[0]?.price ?? null });
+            }
+        })().catch((error) => console.error("Error loading option token book:", error));
+        return () => {
+            cancelled = true;
+        };
+    }, [option.id, currentNetwork]);
+
+    const marketPremium = side === "holder" ? quote?.ask ?? null : quote?.bid ?? null;
+    const defaultPremium = marketPremium ?? fairValue ?? 0;
+    const premium = premiumInput !== "" ? parseFloat(premiumInput) || 0 : defaultPremium;
+    const qty = parseFloat(quantity) || 0;
+
+    const position = useMemo(
+        () => ({ side, quantity: qty, premium, entrySpot: spotPrice }),
+        [side, qty, premium, spotPrice]
+    );
+    const curve = useMemo(
+        () => buildPayoffCurve(option, position, pricingModel, { range: payoffRange(option.strikePrice, spotPrice) }),
+        [option, position, pricingModel, spotPrice]
+    );
+    const summary = useMemo(() => summarizePayoff(option, position), [option, position]);
+    const markers = useMemo(
+        () => [
+            { price: option.strikePrice, text: "K" },
+            { price: spotPrice, text: "Spot", highlight: true },
+        ],
+        [option.strikePrice, spotPrice]
+    );
+
+    const formatPnl = (v: number) =>
+        Number.isFinite(v) ? `${formatGreek("fairValue", v)} ${option.quoteAsset}` : "Unlimited";
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-1">
+                {(["holder", "writer"] as const).map((s) => (
+                    <button
+                        key={s}
+                        type="button"
+                        onClick={() => {
+                            setSide(s);
+                            setPremiumInput("");
+                        }}
+                        className={cn(
+                            "flex-1 rounded-md border px-2 py-1 text-xs capitalize transition-colors",
+                            side === s
+                                ? "border-primary/50 bg-primary/10 text-foreground"
+                                : "text-muted-foreground hover:bg-muted/50"
+                        )}
+                    >
+                        {s}
+                    </button>
+                ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                <label className="space-y-1 text-xs text-muted-foreground">
+                    <span>Quantity</span>
+                    <input
+                        type="number"
+                        min={0}
+                        value={quantity}
+                        onChange={(e) => setQuantity(e.target.value)}
+                        className="w-full px-2 py-1 rounded-md border bg-input text-foreground text-xs focus:ring-1 focus:ring-primary outline-none"
+                    />
+                </label>
+                <label className="space-y-1 text-xs text-muted-foreground">
+                    <span title={marketPremium !== null ? `DeepBook ${side === "holder" ? "ask" : "bid"}` : "Model fair value"}>
+                        Premium ({marketPremium !== null ? (side === "holder" ? "ask" : "bid") : "model"})
+                    </span>
+                    <input
+                        type="number"
+                        min={0}
+                        value={premiumInput}
+                        placeholder={formatGreek("fairValue", defaultPremium)}
+                        onChange={(e) => setPremiumInput(e.target.value)}
+                        className="w-full px-2 py-1 rounded-md border bg-input text-foreground text-xs focus:ring-1 focus:ring-primary outline-none"
+                    />
+                </label>
+            </div>
+            <PayoffCurveChart curve={curve} markers={markers} precision={option.strikePrice < 1 ? 4 : 2} />
+            <div className="flex flex-wrap gap-x-3 text-[10px] text-muted-foreground">
+                <span className="text-buy">— At expiry</span>
+                <span className="text-amber-500">- - Today</span>
+                {side === "writer" && (
+                    <span>Includes {option.type === "CALL" ? option.baseAsset : option.quoteAsset} collateral</span>
+                )}
+            </div>
+            <div className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Break-even</span>
+                    <span className="font-medium">
+                        {summary.breakevens.length > 0
+                            ? summary.breakevens.map((b) => formatGreek("fairValue", b)).join(" / ")
+                            : "—"}
+                    </span>
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Max Profit</span>
+                    <span className="font-medium text-buy">{formatPnl(summary.maxProfit)}</span>
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Max Loss</span>
+                    <span className="font-medium text-sell">{formatPnl(-summary.maxLoss)}</span>
+                </div>
+            </div>
+        </div>
+    );
+}
+
+/**
+ * P&L at expiry (baseline, green above zero and red below) and today (dashed) across underlying
+ * prices; the x axis is the underlying price
+ */
+export function PayoffCurveChart({ curve, markers, precision }: PayoffCurveChartProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const chartRef = useRef<IChartApiBase<number> | null>(null);
+    const expirySeriesRef = useRef<ISeriesApi<"Baseline", number> | null>(null);
+    const todaySeriesRef = useRef<ISeriesApi<"Line", number> | null>(null);
+    const markersRef = useRef<ISeriesMarkersPluginApi<number> | null>(null);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const chart = createOptionsChart(container, {
+            autoSize: true,
+            layout: {
+                background: { type: ColorType.Solid, color: "transparent" },
+                textColor: "#94a3b8",
+                fontSize: 10,
+            },
+            grid: {
+                vertLines: { color: "#1e293b" },
+                horzLines: { color: "#1e293b" },
+            },
+            rightPriceScale: { borderColor: "#334155" },
+            timeScale: { borderColor: "#334155", fixLeftEdge: true, fixRightEdge: true },
+            handleScroll: false,
+            handleScale: false,
+            localization: { precision },
+        });
+
+        const expirySeries = chart.addSeries(BaselineSeries, {
+            baseValue: { type: "price", price: 0 },
+            topLineColor: "#34d399",
+            topFillColor1: "rgba(52, 211, 153, 0.25)",
+            topFillColor2: "rgba(52, 211, 153, 0.02)",
+            bottomLineColor: "#f87171",
+            bottomFillColor1: "rgba(248, 113, 113, 0.02)",
+            bottomFillColor2: "rgba(248, 113, 113, 0.25)",
+            lineWidth: 2,
+            priceLineVisible: false,
+            lastValueVisible: false,
+        });
+        expirySeries.createPriceLine({
+            price: 0,
+            color: "#475569",
+            lineWidth: 1,
+            lineStyle: LineStyle.Dotted,
+            axisLabelVisible: false,
+        });
+        const todaySeries = chart.addSeries(LineSeries, {
+            color: "#f59e0b",
+            lineWidth: 1,
+            lineStyle: LineStyle.Dashed,
+            priceLineVisible: false,
+            lastValueVisible: false,
+        });
+
+        chartRef.current = chart;
+        expirySeriesRef.current = expirySeries;
+        todaySeriesRef.current = todaySeries;
+        markersRef.current = createSeriesMarkers(expirySeries, []);
+
+        return () => {
+            chart.remove();
+            chartRef.current = null;
+            expirySeriesRef.current = null;
+            todaySeriesRef.current = null;
+            markersRef.current = null;
+        };
+    }, [precision]);
+
+    useEffect(() => {
+        const chart = chartRef.current;
+        if (!chart || curve.length === 0) return;
+        expirySeriesRef.current?.setData(curve.map((p) => ({ time: p.price, value: p.expiry })));
+        todaySeriesRef.current?.setData(curve.map((p) => ({ time: p.price, value: p.today })));
+
+        // Markers snap to the nearest sampled price
+        const nearest = (price: number) =>
+            curve.reduce((a, b) => (Math.abs(b.price - price) < Math.abs(a.price - price) ? b : a)).price;
+        const seriesMarkers = markers
+            .map((m) => ({
+                time: nearest(m.price),
+                position: m.highlight ? ("aboveBar" as const) : ("belowBar" as const),
+                shape: m.highlight ? ("arrowDown" as const) : ("arrowUp" as const),
+                color: m.highlight ? "#f59e0b" : "#94a3b8",
+                text: m.text,
+            }))
+            .sort((a, b) => a.time - b.time);
+        markersRef.current?.setMarkers(seriesMarkers);
+        chart.timeScale().fitContent();
+    }, [curve, precision, markers]);
+
+    return <div ref={containerRef} className="w-full h-[180px]" />;
+}
@@ -0,0 +1,460 @@
+import { useEffect, useMemo, useState } from "react";
+import { useCurrentAccount, useCurrentNetwork, useDAppKit } from "@mysten/dapp-kit-react";
+import { Transaction } from "@mysten/sui/transactions";
+import { ChevronDown, Copy, Download, Grid3x3 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { cn } from "../lib/utils";
+import { getAllPools, getMarketPrice, POOL_CREATION_FEE_DEEP, type PoolInfo } from "../lib/deepbook";
+import { isAbortError } from "../lib/indexer";
+import { registerOptionPackage } from "../lib/options";
+import { formatGreek, type PricingModel } from "../lib/pricing";
+import {
+    MOVE_BUILD_COMMAND,
+    getPublishedOptionPackage,
+    parseCompiledPackage,
+    publishOptionPackage,
+    type PublishedOptionPackage,
+} from "../lib/publish";
+import {
+    SERIES_BATCH_SIZE,
+    buildExpiries,
+    buildSeriesPools,
+    buildStrikeLadder,
+    planSeries,
+    suggestMarketParams,
+    tickToPrice,
+    validateMarketParams,
+    type MarketParams,
+    type SeriesAssets,
+    type StrikeStepMode,
+} from "../lib/series";
+
+interface SeriesPlannerProps {
+    pricingModel: PricingModel;
+    formatDate: (timestamp: number) => string;
+    /** Called once pools are created and the package registered */
+    onPublished: () => void;
+}
+
+type OptionTypes = "both" | "CALL" | "PUT";
+
+export function SeriesPlanner({ pricingModel, formatDate, onPublished }: SeriesPlannerProps) {
+    const currentAccount = useCurrentAccount();
+    const currentNetwork = useCurrentNetwork();
+    const dAppKit = useDAppKit();
+    const [isOpen, setIsOpen] = useState(false);
+    const [pools, setPools] = useState<PoolInfo[]>([]);
+    const [poolId, setPoolId] = useState("");
+    const [mid, setMid] = useState<number | null>(null);
+    const [stepMode, setStepMode] = useState<StrikeStepMode>("percent");
+    const [step, setStep] = useState("10");
+    const [count, setCount] = useState("3");
+    const [weekly, setWeekly] = useState("2");
+    const [monthly, setMonthly] = useState("2");
+    const [optionTypes, setOptionTypes] = useState<OptionTypes>("both");
+    const [listOnDeepBook, setListOnDeepBook] = useState(true);
+    const [marketOverride, setMarketOverride] = useState<Partial<Record<keyof MarketParams, string>>>({});
+    const [buildOutput, setBuildOutput] = useState("");
+    const [published, setPublished] = useState<PublishedOptionPackage | null>(null);
+    /** Batches already created for the published package */
+    const [createdBatches, setCreatedBatches] = useState(0);
+    const [isPublishing, setIsPublishing] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+
+    const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+
+    useEffect(() => {
+        if (!isOpen) return;
+        getAllPools(network)
+            .then((all) => {
+                const usable = all.filter((p) => p.baseAssetType && p.quoteAssetType);
+                setPools(usable);
+                setPoolId((prev) => (usable.some((p) => p.poolId === prev) ? prev : usable[0]?.poolId ?? ""));
+            })
+            .catch((error) => {
+                console.error("Error loading DeepBook pools:", error);
+                toast.error("Failed to load DeepBook pools", {
+                    description: error instanceof Error ? error.message : "Unknown error",
+                });
+            });
+    }, [isOpen, network]);
+
+    const pool = pools.find((p) => p.poolId === poolId) ?? null;
+
+    useEffect(() => {
+        setMid(null);
+        if (!pool) return;
+        const controller = new AbortController();
+        getMarketPrice(pool.poolName, network === "devnet" ? "testnet" : network, { signal: controller.signal })
+            .then((price) => setMid(price?.midPrice ?? null))
+            .catch((error) => {
+                if (!isAbortError(error)) console.error("Error fetching mid price:", error);
+            });
+        return () => controller.abort();
+    }, [pool?.poolName, network]);
+
+    const assets: SeriesAssets | null = pool?.baseAssetType && pool.quoteAssetType
+        ? {
+              baseSymbol: pool.baseCoin,
+              quoteSymbol: pool.quoteCoin,
+              baseAssetType: pool.baseAssetType,
+              quoteAssetType: pool.quoteAssetType,
+              baseDecimals: pool.baseAssetDecimals,
+              quoteDecimals: pool.quoteAssetDecimals,
+          }
+        : null;
+
+    const strikes = useMemo(
+        () =>
+            mid
+                ? buildStrikeLadder(mid, {
+                      mode: stepMode,
+                      step: stepMode === "percent" ? (parseFloat(step) || 0) / 100 : parseFloat(step) || 0,
+                      count: Math.max(0, Math.floor(parseFloat(count) || 0)),
+                  })
+                : [],
+        [mid, stepMode, step, count]
+    );
+    const expiries = useMemo(
+        () =>
+            buildExpiries({
+                weekly: Math.max(0, Math.floor(parseFloat(weekly) || 0)),
+                monthly: Math.max(0, Math.floor(parseFloat(monthly) || 0)),
+            }),
+        [weekly, monthly]
+    );
+    const plan = useMemo(
+        () =>
+            assets && mid
+                ? planSeries(assets, {
+                      types: optionTypes === "both" ? ["CALL", "PUT"] : [optionTypes],
+                      strikes,
+                      expiries,
+                      spot: mid,
+                      model: pricingModel,
+                  })
+                : [],
+        [assets?.baseAssetType, assets?.quoteAssetType, mid, optionTypes, strikes, expiries, pricingModel]
+    );
+
+    // Market params: suggested from the cheapest premium, each field overridable
+    const minPremium = plan.reduce((min, item) => (item.fairValue > 0 ? Math.min(min, item.fairValue) : min), Infinity);
+    const suggested = assets ? suggestMarketParams(minPremium, assets.baseDecimals, assets.quoteDecimals) : null;
+    const market: MarketParams | null = suggested
+        ? {
+              tickSize: Number(marketOverride.tickSize ?? suggested.tickSize),
+              lotSize: Number(marketOverride.lotSize ?? suggested.lotSize),
+              minSize: Number(marketOverride.minSize ?? suggested.minSize),
+          }
+        : null;
+    const marketCheck = market && assets
+        ? validateMarketParams(market, {
+              minPremium: Number.isFinite(minPremium) ? minPremium : 0,
+              baseDecimals: assets.baseDecimals,
+              quoteDecimals: assets.quoteDecimals,
+          })
+        : null;
+
+    const batches = Math.ceil(plan.length / SERIES_BATCH_SIZE);
+    const deepFee = listOnDeepBook ? (Number(POOL_CREATION_FEE_DEEP) / 1e6) * plan.length : 0;
+
+    const copy = (text: string, what: string) => {
+        navigator.clipboard.writeText(text);
+        toast.success(`${what} copied`);
+    };
+
+    const downloadModules = () => {
+        // One file per module; browsers may ask once to allow multiple downloads
+        for (const item of plan) {
+            const url = URL.createObjectURL(new Blob([item.module.source], { type: "text/plain" }));
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = `${item.module.moduleName}.move`;
+            link.click();
+            URL.revokeObjectURL(url);
+        }
+    };
+
+    const handlePublish = async () => {
+        if (!currentAccount?.address) {
+            toast.error("Please connect your wallet");
+            return;
+        }
+        setIsPublishing(true);
+        try {
+            const tx = new Transaction();
+            tx.setSender(currentAccount.address);
+            publishOptionPackage(tx, parseCompiledPackage(buildOutput), currentAccount.address);
+
+            const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+            if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
+
+            const pkg = await getPublishedOptionPackage(result.Transaction.digest, network);
+            const missing = plan.filter((item) => !pkg.treasuryCaps[item.module.moduleName]);
+            if (missing.length > 0) {
+                toast.warning("Some modules are missing from the package", {
+                    description: missing.map((item) => item.module.moduleName).join(", "),
+                });
+            }
+            setPublished(pkg);
+            setCreatedBatches(0);
+            toast.success("Series package published", { description: pkg.packageId });
+        } catch (error) {
+            console.error("Error publishing series:", error);
+            toast.error("Publish failed", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            setIsPublishing(false);
+        }
+    };
+
+    const handleCreateBatch = async () => {
+        if (!currentAccount?.address || !published || !assets || !pool) return;
+        if (listOnDeepBook && marketCheck && marketCheck.errors.length > 0) {
+            toast.error("Invalid DeepBook params", { description: marketCheck.errors[0] });
+            return;
+        }
+        const batch = plan
+            .filter((item) => published.treasuryCaps[item.module.moduleName])
+            .slice(createdBatches * SERIES_BATCH_SIZE, (createdBatches + 1) * SERIES_BATCH_SIZE);
+        if (batch.length === 0) return;
+
+        setIsCreating(true);
+        try {
+            const tx = new Transaction();
+            tx.setSender(currentAccount.address);
+            buildSeriesPools(tx, batch, {
+                packageId: published.packageId,
+                treasuryCaps: published.treasuryCaps,
+                assets,
+                deepbookPoolId: pool.poolId,
+                market: listOnDeepBook && market ? market : undefined,
+            }, network);
+
+            const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+            if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
+
+            registerOptionPackage(published.packageId, network);
+            const done = createdBatches + 1;
+            setCreatedBatches(done);
+            toast.success(`Batch ${done} of ${batches} created`, {
+                description: `${batch.length} options pools${listOnDeepBook ? " and DeepBook markets" : ""}`,
+            });
+            onPublished();
+        } catch (error) {
+            console.error("Error creating series pools:", error);
+            toast.error("Create pools failed", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const inputClass = "w-full px-2 py-1 rounded-md border bg-input text-foreground text-xs focus:ring-1 focus:ring-primary outline-none";
+
+    return (
+        <div className="border-t bg-card/95 text-[11px] sm:text-[12px]">
+            <div className="flex items-center justify-between gap-2 px-4 py-2 bg-muted/20 border-b">
+                <button
+                    type="button"
+                    onClick={() => setIsOpen((v) => !v)}
+                    className="font-semibold text-sm flex items-center gap-2 min-w-0"
+                    aria-expanded={isOpen}
+                >
+                    <Grid3x3 className="h-4 w-4 shrink-0" />
+                    <span className="truncate">Series Planner</span>
+                    <ChevronDown className={cn("h-4 w-4 text-muted-foreground transition-transform", isOpen && "rotate-180")} />
+                </button>
+            </div>
+
+            {isOpen && (
+                <div className="px-4 py-2 space-y-3">
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="space-y-1 text-muted-foreground col-span-2">
+                            <span>Underlying pool {mid !== null && <>· mid {mid}</>}</span>
+                            <select value={poolId} onChange={(e) => setPoolId(e.target.value)} className={inputClass}>
+                                {pools.map((p) => (
+                                    <option key={p.poolId} value={p.poolId}>
+                                        {p.poolName}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="space-y-1 text-muted-foreground">
+                            <span>Strike step</span>
+                            <div className="flex gap-1">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={step}
+                                    onChange={(e) => setStep(e.target.value)}
+                                    className={inputClass}
+                                />
+                                <select
+                                    value={stepMode}
+                                    onChange={(e) => setStepMode(e.target.value as StrikeStepMode)}
+                                    className="bg-input border rounded-md px-1 text-xs"
+                                >
+                                    <option value="percent">%</option>
+                                    <option value="fixed">{pool?.quoteCoin ?? "fixed"}</option>
+                                </select>
+                            </div>
+                        </label>
+                        <label className="space-y-1 text-muted-foreground">
+                            <span>Strikes each side</span>
+                            <input type="number" min={0} value={count} onChange={(e) => setCount(e.target.value)} className={inputClass} />
+                        </label>
+                        <label className="space-y-1 text-muted-foreground">
+                            <span>Weekly expiries</span>
+                            <input type="number" min={0} value={weekly} onChange={(e) => setWeekly(e.target.value)} className={inputClass} />
+                        </label>
+                        <label className="space-y-1 text-muted-foreground">
+                            <span>Monthly expiries</span>
+                            <input type="number" min={0} value={monthly} onChange={(e) => setMonthly(e.target.value)} className={inputClass} />
+                        </label>
+                        <label className="space-y-1 text-muted-foreground col-span-2">
+                            <span>Types</span>
+                            <select value={optionTypes} onChange={(e) => setOptionTypes(e.target.value as OptionTypes)} className={inputClass}>
+                                <option value="both">Calls and puts</option>
+                                <option value="CALL">Calls only</option>
+                                <option value="PUT">Puts only</option>
+                            </select>
+                        </label>
+                    </div>
+
+                    {mid === null ? (
+                        <p className="text-muted-foreground">{pool ? "Loading mid price..." : "Select a DeepBook pool."}</p>
+                    ) : (
+                        <>
+                            <div className="space-y-1">
+                                <p className="text-muted-foreground">
+                                    {strikes.length} strikes × {expiries.length} expiries = {plan.length} options in {batches}{" "}
+                                    {batches === 1 ? "transaction" : "transactions"}
+                                </p>
+                                <div className="flex flex-wrap gap-1">
+                                    {strikes.map((s) => (
+                                        <span key={s} className="rounded border px-1.5 py-0.5 tabular-nums">
+                                            {s}
+                                        </span>
+                                    ))}
+                                </div>
+                                <div className="flex flex-wrap gap-1">
+                                    {expiries.map((e) => (
+                                        <span key={e} className="rounded border px-1.5 py-0.5 text-muted-foreground">
+                                            {formatDate(e)}
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="space-y-1 pt-2 border-t">
+                                <label className="flex items-center gap-2 text-muted-foreground">
+                                    <input
+                                        type="checkbox"
+                                        checked={listOnDeepBook}
+                                        onChange={(e) => setListOnDeepBook(e.target.checked)}
+                                    />
+                                    List each option on DeepBook ({deepFee.toLocaleString()} DEEP in fees)
+                                </label>
+                                {listOnDeepBook && market && assets && (
+                                    <>
+                                        <div className="grid grid-cols-3 gap-2">
+                                            {(["tickSize", "lotSize", "minSize"] as const).map((key) => (
+                                                <label key={key} className="space-y-1 text-muted-foreground">
+                                                    <span>{key === "tickSize" ? "Tick" : key === "lotSize" ? "Lot" : "Min size"}</span>
+                                                    <input
+                                                        type="number"
+                                                        value={marketOverride[key] ?? market[key]}
+                                                        onChange={(e) => setMarketOverride((prev) => ({ ...prev, [key]: e.target.value }))}
+                                                        className={inputClass}
+                                                    />
+                                                </label>
+                                            ))}
+                                        </div>
+                                        <p className="text-muted-foreground">
+                                            Tick {tickToPrice(market.tickSize, assets.baseDecimals, assets.quoteDecimals)} {assets.quoteSymbol}
+                                            {" • "}cheapest premium {Number.isFinite(minPremium) ? formatGreek("fairValue", minPremium) : "—"}
+                                        </p>
+                                        {marketCheck?.errors.map((e) => (
+                                            <p key={e} className="text-sell">{e}</p>
+                                        ))}
+                                        {marketCheck?.warnings.map((w) => (
+                                            <p key={w} className="text-amber-500">{w}</p>
+                                        ))}
+                                    </>
+                                )}
+                            </div>
+
+                            {plan.length > 0 && (
+                                <div className="space-y-2 pt-2 border-t">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="text-muted-foreground">
+                                            Save {plan.length} modules into move/varuna/sources, then build
+                                        </span>
+                                        <button
+                                            type="button"
+                                            onClick={downloadModules}
+                                            className="rounded-lg p-1.5 text-muted-foreground hover:bg-muted/50 hover:text-foreground"
+                                            title="Download all .move files"
+                                        >
+                                            <Download className="h-3.5 w-3.5" />
+                                        </button>
+                                    </div>
+                                    <div className="flex items-center justify-between gap-2 rounded-md border bg-muted/20 px-2 py-1">
+                                        <code className="truncate">{MOVE_BUILD_COMMAND}</code>
+                                        <button
+                                            type="button"
+                                            onClick={() => copy(MOVE_BUILD_COMMAND, "Build command")}
+                                            className="rounded-lg p-1 text-muted-foreground hover:text-foreground"
+                                            title="Copy command"
+                                        >
+                                            <Copy className="h-3.5 w-3.5" />
+                                        </button>
+                                    </div>
+                                    {!published ? (
+                                        <>
+                                            <textarea
+                                                value={buildOutput}
+                                                onChange={(e) => setBuildOutput(e.target.value)}
+                                                placeholder='{"modules": [...], "dependencies": [...], "digest": [...]}'
+                                                rows={3}
+                                                className={cn(inputClass, "font-mono")}
+                                            />
+                                            <Button
+                                                size="sm"
+                                                className="w-full"
+                                                onClick={handlePublish}
+                                                disabled={!currentAccount || !buildOutput.trim()}
+                                                loading={isPublishing}
+                                            >
+                                                Publish Series Package
+                                            </Button>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <p className="text-muted-foreground truncate">Package {published.packageId}</p>
+                                            <Button
+                                                size="sm"
+                                                className="w-full"
+                                                onClick={handleCreateBatch}
+                                                disabled={!currentAccount || createdBatches >= batches}
+                                                loading={isCreating}
+                                            >
+                                                {createdBatches >= batches
+                                                    ? "All pools created"
+                                                    : `Create Pools (batch ${createdBatches + 1} of ${batches})`}
+                                            </Button>
+                                        </>
+                                    )}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
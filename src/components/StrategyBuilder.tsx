@@ -0,0 +1,411 @@
+import { useEffect, useMemo, useState } from "react";
+import { useCurrentAccount, useCurrentClient, useCurrentNetwork, useDAppKit } from "@mysten/dapp-kit-react";
+import { Transaction } from "@mysten/sui/transactions";
+import { ChevronDown, Layers, Plus, RefreshCw, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { cn } from "../lib/utils";
+import { getBalanceManager, getOrderBook, type OrderBookData, type PoolInfo } from "../lib/deepbook";
+import { getOptionTokenPools, type OptionPool } from "../lib/options";
+import { formatGreek, type OptionGreeks, type PricingModel } from "../lib/pricing";
+import {
+    STRATEGY_TEMPLATES,
+    buildStrategy,
+    buildStrategyCurve,
+    buildTemplateLegs,
+    estimateLegFill,
+    strategyRange,
+    summarizeStrategy,
+    validateStrategy,
+    type LegAction,
+    type StrategyLeg,
+    type StrategyTemplate,
+} from "../lib/strategy";
+import { PayoffCurveChart } from "./PayoffChart";
+
+interface StrategyBuilderProps {
+    options: OptionPool[];
+    selectedOption: OptionPool | null;
+    /** DeepBook mid per underlying pool name */
+    spotPrices: Record<string, number>;
+    greeks: Record<string, OptionGreeks>;
+    pricingModel: PricingModel;
+    formatDate: (timestamp: number) => string;
+    /** Called after the strategy executes so balances can refresh */
+    onExecuted?: () => void;
+}
+
+interface LegInput {
+    optionId: string;
+    action: LegAction;
+    quantity: string;
+}
+
+export function StrategyBuilder({
+    options,
+    selectedOption,
+    spotPrices,
+    greeks,
+    pricingModel,
+    formatDate,
+    onExecuted,
+}: StrategyBuilderProps) {
+    const currentAccount = useCurrentAccount();
+    const currentNetwork = useCurrentNetwork();
+    const client = useCurrentClient();
+    const dAppKit = useDAppKit();
+    const [isOpen, setIsOpen] = useState(false);
+    const [legInputs, setLegInputs] = useState<LegInput[]>([]);
+    const [markets, setMarkets] = useState<Record<string, PoolInfo>>({});
+    const [books, setBooks] = useState<Record<string, OrderBookData | null>>({});
+    const [booksVersion, setBooksVersion] = useState(0);
+    const [balanceManager, setBalanceManager] = useState<string | null>(null);
+    const [isExecuting, setIsExecuting] = useState(false);
+    /** Expiry used by the templates */
+    const [expiry, setExpiry] = useState<number | null>(null);
+    /** Value short legs with their collateral, as for a collar on held base */
+    const [covered, setCovered] = useState(false);
+
+    const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+    const byId = useMemo(() => new Map(options.map((o) => [o.id, o])), [options]);
+    const anchor = (legInputs[0] && byId.get(legInputs[0].optionId)) ?? selectedOption ?? options[0] ?? null;
+    const spot = anchor ? spotPrices[anchor.deepbookPoolName] ?? 0 : 0;
+    const legOptionIds = legInputs.map((l) => l.optionId).join(",");
+
+    // Markets and books for the legs' option tokens
+    useEffect(() => {
+        if (!isOpen || legInputs.length === 0) return;
+        let cancelled = false;
+        const legOptions = legInputs.map((l) => byId.get(l.optionId)).filter((o): o is OptionPool => !!o);
+        (async () => {
+            const pools = await getOptionTokenPools(legOptions, network);
+            const entries = await Promise.all(
+                // A failing book only leaves its leg without a fill estimate
+                Object.entries(pools).map(async ([id, pool]) => {
+                    const book = await getOrderBook(pool.poolName, network).catch((error) => {
+                        console.error("Error fetching strategy leg book for", id, ":", error);
+                        return null;
+                    });
+                    return [id, book] as const;
+                })
+            );
+            if (!cancelled) {
+                setMarkets(pools);
+                setBooks(Object.fromEntries(entries));
+            }
+        })().catch((error) => console.error("Error loading strategy books:", error));
+        return () => {
+            cancelled = true;
+        };
+    }, [isOpen, legOptionIds, network, booksVersion]);
+
+    useEffect(() => {
+        if (!isOpen || !currentAccount?.address) {
+            setBalanceManager(null);
+            return;
+        }
+        getBalanceManager(client, currentAccount.address, network)
+            .then(setBalanceManager)
+            .catch((error) => {
+                console.error("Error fetching BalanceManager:", error);
+                setBalanceManager(null);
+            });
+    }, [isOpen, currentAccount?.address, client, network]);
+
+    // Premiums come from the books at market; without a book the model value stands in for the payoff
+    const rows = legInputs.flatMap((input, index) => {
+        const option = byId.get(input.optionId);
+        if (!option) return [];
+        const quantity = parseFloat(input.quantity) || 0;
+        const draft: StrategyLeg = { option, action: input.action, quantity, premium: 0 };
+        const fill = estimateLegFill(draft, books[option.id] ?? null);
+        const fillable = fill.filled >= quantity && quantity > 0;
+        const premium = fill.filled > 0 ? fill.averagePrice : greeks[option.id]?.fairValue ?? 0;
+        return [{ index, leg: { ...draft, premium }, fillable, fromBook: fill.filled > 0 }];
+    });
+    const legs = rows.map((r) => r.leg);
+    const validation = validateStrategy(legs);
+    const legsKey = legs.map((l) => `${l.option.id}:${l.action}:${l.quantity}:${l.premium}`).join("|");
+
+    const curve = useMemo(
+        () => (legs.length > 0 && spot > 0
+            ? buildStrategyCurve(legs, spot, pricingModel, { range: strategyRange(legs, spot), covered })
+            : []),
+        [legsKey, spot, pricingModel, covered]
+    );
+    const summary = legs.length > 0 && !validation ? summarizeStrategy(legs, spot, covered) : null;
+    const markers = useMemo(
+        () => [
+            ...Array.from(new Set(legs.map((l) => l.option.strikePrice))).map((price) => ({ price, text: "K" })),
+            { price: spot, text: "Spot", highlight: true },
+        ],
+        [legOptionIds, spot]
+    );
+
+    const expiries = anchor
+        ? Array.from(new Set(options
+            .filter((o) => o.baseAssetType === anchor.baseAssetType && o.quoteAssetType === anchor.quoteAssetType && o.expirationDate > Date.now())
+            .map((o) => o.expirationDate)))
+            .sort((a, b) => a - b)
+        : [];
+    const templateExpiry = expiry && expiries.includes(expiry) ? expiry : expiries[0] ?? null;
+
+    const applyTemplate = (template: StrategyTemplate) => {
+        if (!anchor || !templateExpiry) return;
+        const chain = options.filter(
+            (o) => o.expirationDate === templateExpiry && o.baseAssetType === anchor.baseAssetType && o.quoteAssetType === anchor.quoteAssetType
+        );
+        const templateLegs = buildTemplateLegs(template, chain, spot);
+        if (!templateLegs) {
+            toast.error("Not enough strikes", { description: `The ${formatDate(templateExpiry)} expiry lacks the strikes for this strategy` });
+            return;
+        }
+        setLegInputs(templateLegs.map((l) => ({ optionId: l.option.id, action: l.action, quantity: String(l.quantity) })));
+        setCovered(STRATEGY_TEMPLATES.find((t) => t.id === template)?.covered ?? false);
+    };
+
+    const addSelected = (action: LegAction) => {
+        if (!selectedOption) return;
+        setLegInputs((prev) => [...prev, { optionId: selectedOption.id, action, quantity: "1" }]);
+    };
+
+    const updateLeg = (index: number, patch: Partial<LegInput>) =>
+        setLegInputs((prev) => prev.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+
+    const unfillable = rows.filter((r) => !markets[r.leg.option.id] || !r.fillable);
+    const blockReason = validation
+        ?? (!currentAccount ? "Connect your wallet" : null)
+        ?? (!balanceManager ? "No BalanceManager found. Create one from the Trade page first." : null)
+        ?? (unfillable.length > 0 ? `Not enough liquidity for ${unfillable.map((r) => r.leg.option.name).join(", ")}` : null);
+
+    const handleExecute = async () => {
+        if (!currentAccount?.address || !balanceManager || blockReason) return;
+        setIsExecuting(true);
+        try {
+            const tx = new Transaction();
+            buildStrategy(tx, client, currentAccount.address, legs, markets, balanceManager, network);
+            const result = await dAppKit.signAndExecuteTransaction({ transaction: tx });
+            if (result.$kind === "FailedTransaction") throw new Error("Transaction failed");
+            toast.success("Strategy executed", {
+                description: `${legs.length} legs in one transaction`,
+            });
+            setBooksVersion((v) => v + 1);
+            onExecuted?.();
+        } catch (error) {
+            console.error("Strategy execution failed:", error);
+            toast.error("Strategy failed", {
+                description: error instanceof Error ? error.message : "Unknown error",
+            });
+        } finally {
+            setIsExecuting(false);
+        }
+    };
+
+    const quoteAsset = anchor?.quoteAsset ?? "";
+    const formatPnl = (v: number) => (Number.isFinite(v) ? `${formatGreek("fairValue", v)} ${quoteAsset}` : "Unlimited");
+    const inputClass = "w-full px-2 py-1 rounded-md border bg-input text-foreground text-xs focus:ring-1 focus:ring-primary outline-none";
+
+    return (
+        <div className="border-t bg-card/95 text-[11px] sm:text-[12px]">
+            <div className="flex items-center justify-between gap-2 px-4 py-2 bg-muted/20 border-b">
+                <button
+                    type="button"
+                    onClick={() => setIsOpen((v) => !v)}
+                    className="font-semibold text-sm flex items-center gap-2 min-w-0"
+                    aria-expanded={isOpen}
+                >
+                    <Layers className="h-4 w-4 shrink-0" />
+                    <span className="truncate">Strategy Builder</span>
+                    <ChevronDown className={cn("h-4 w-4 text-muted-foreground transition-transform", isOpen && "rotate-180")} />
+                </button>
+                {isOpen && legInputs.length > 0 && (
+                    <button
+                        type="button"
+                        onClick={() => setBooksVersion((v) => v + 1)}
+                        className="p-1 rounded hover:bg-muted text-muted-foreground"
+                        title="Refresh books"
+                    >
+                        <RefreshCw className="h-3.5 w-3.5" />
+                    </button>
+                )}
+            </div>
+
+            {isOpen && (
+                <div className="px-4 py-2 space-y-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <select
+                            value={templateExpiry ?? ""}
+                            onChange={(e) => setExpiry(Number(e.target.value))}
+                            className={cn(inputClass, "w-auto")}
+                        >
+                            {expiries.map((e) => (
+                                <option key={e} value={e}>
+                                    {formatDate(e)}
+                                </option>
+                            ))}
+                        </select>
+                        {STRATEGY_TEMPLATES.map((t) => (
+                            <button
+                                key={t.id}
+                                type="button"
+                                title={t.description}
+                                onClick={() => applyTemplate(t.id)}
+                                disabled={!templateExpiry || spot <= 0}
+                                className="rounded-md border px-2 py-1 text-muted-foreground hover:bg-muted/50 disabled:opacity-50"
+                            >
+                                {t.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                        <span className="text-muted-foreground truncate">
+                            {selectedOption ? `Selected: ${selectedOption.name}` : "Select an option in the chain to add it"}
+                        </span>
+                        {(["buy", "sell"] as const).map((action) => (
+                            <button
+                                key={action}
+                                type="button"
+                                onClick={() => addSelected(action)}
+                                disabled={!selectedOption}
+                                className={cn(
+                                    "shrink-0 flex items-center gap-1 rounded-md border px-2 py-1 capitalize disabled:opacity-50",
+                                    action === "buy" ? "text-buy" : "text-sell"
+                                )}
+                            >
+                                <Plus className="h-3 w-3" />
+                                {action}
+                            </button>
+                        ))}
+                    </div>
+
+                    {rows.length > 0 && (
+                        <table className="w-full tabular-nums">
+                            <thead>
+                                <tr className="text-muted-foreground text-left">
+                                    <th className="font-normal py-1">Side</th>
+                                    <th className="font-normal">Option</th>
+                                    <th className="font-normal w-16">Qty</th>
+                                    <th className="font-normal text-right">Premium</th>
+                                    <th />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(({ index, leg, fillable, fromBook }) => (
+                                    <tr key={index} className="border-t">
+                                        <td className="py-1">
+                                            <button
+                                                type="button"
+                                                onClick={() => updateLeg(index, { action: leg.action === "buy" ? "sell" : "buy" })}
+                                                className={cn("uppercase font-semibold", leg.action === "buy" ? "text-buy" : "text-sell")}
+                                                title={leg.action === "sell" ? "Writes (mints) and sells; collateral is locked" : "Buys at the ask"}
+                                            >
+                                                {leg.action}
+                                            </button>
+                                        </td>
+                                        <td className="truncate max-w-[10rem]">
+                                            {leg.option.type} {leg.option.strikePrice}
+                                        </td>
+                                        <td>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                value={legInputs[index].quantity}
+                                                onChange={(e) => updateLeg(index, { quantity: e.target.value })}
+                                                className={inputClass}
+                                            />
+                                        </td>
+                                        <td className={cn("text-right", !fillable && "text-amber-500")}>
+                                            <span title={fromBook ? "Average fill on DeepBook" : "Model fair value; no liquidity on DeepBook"}>
+                                                {formatGreek("fairValue", leg.premium)}
+                                                {!fromBook && " (model)"}
+                                            </span>
+                                        </td>
+                                        <td className="text-right">
+                                            <button
+                                                type="button"
+                                                onClick={() => setLegInputs((prev) => prev.filter((_, i) => i !== index))}
+                                                className="p-0.5 rounded hover:bg-muted text-muted-foreground"
+                                                aria-label="Remove leg"
+                                            >
+                                                <X className="h-3 w-3" />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+
+                    {legs.some((l) => l.action === "sell") && (
+                        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                            <input type="checkbox" checked={covered} onChange={(e) => setCovered(e.target.checked)} />
+                            Include locked collateral in P&L
+                        </label>
+                    )}
+
+                    {curve.length > 0 && (
+                        <PayoffCurveChart curve={curve} markers={markers} precision={spot < 1 ? 4 : 2} />
+                    )}
+
+                    {summary && (
+                        <div className="space-y-1">
+                            <div className="flex items-center justify-between">
+                                <span className="text-muted-foreground">Net premium</span>
+                                <span className={cn("font-medium", summary.netPremium >= 0 ? "text-buy" : "text-sell")}>
+                                    {formatPnl(summary.netPremium)} {summary.netPremium >= 0 ? "credit" : "debit"}
+                                </span>
+                            </div>
+                            <div className="flex items-center justify-between">
+                                <span className="text-muted-foreground">Max profit / loss</span>
+                                <span className="font-medium">
+                                    <span className="text-buy">{formatPnl(summary.maxProfit)}</span>
+                                    {" / "}
+                                    <span className="text-sell">{formatPnl(-summary.maxLoss)}</span>
+                                </span>
+                            </div>
+                            <div className="flex items-center justify-between">
+                                <span className="text-muted-foreground">Break-even</span>
+                                <span className="font-medium">
+                                    {summary.breakevens.length > 0
+                                        ? summary.breakevens.map((b) => formatGreek("fairValue", b)).join(" / ")
+                                        : "—"}
+                                </span>
+                            </div>
+                            <div className="flex items-center justify-between">
+                                <span className="text-muted-foreground">Collateral locked</span>
+                                <span className="font-medium">
+                                    {summary.collateral.length > 0
+                                        ? summary.collateral
+                                            .map((c) => `${c.amount.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${c.asset}`)
+                                            .join(" + ")
+                                        : "—"}
+                                </span>
+                            </div>
+                            <p className="text-muted-foreground">
+                                {covered
+                                    ? "P&L includes the collateral's change in value since entry."
+                                    : "P&L is for the options only; collateral is returned (or exercised against) at expiry."}{" "}
+                                Fees not included.
+                            </p>
+                        </div>
+                    )}
+
+                    {legInputs.length > 0 && (
+                        <>
+                            {blockReason && <p className="text-amber-500">{blockReason}</p>}
+                            <Button
+                                onClick={handleExecute}
+                                disabled={!!blockReason || isExecuting}
+                                loading={isExecuting}
+                                className="w-full"
+                            >
+                                {isExecuting ? "Executing..." : `Execute ${legs.length}-leg strategy`}
+                            </Button>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,6 +1,6 @@
-import { MarketPrice, PoolInfo } from '../lib/deepbook';
+import { MarketPrice, MarketPriceSource, PoolInfo } from '../lib/deepbook';
 
-import { ChevronDown, ChevronUp } from 'lucide-react';
+import { ChevronDown, ChevronUp, ShieldCheck } from 'lucide-react';
 import { cn } from '../lib/utils';
 
 import deepLogo from '../assets/deep-logo.png';
@@ -22,9 +22,25 @@ interface TradingHeaderProps {
     network: string;
     onOpenSelector: () => void;
     isSelectorOpen: boolean;
+    /** Opens the hedge panel (protective puts / collars on the base asset) */
+    onOpenHedge?: () => void;
 }
 
-export function TradingHeader({ poolInfo, marketPrice, network, onOpenSelector, isSelectorOpen }: TradingHeaderProps) {
+const PRICE_SOURCE_LABELS: Record<MarketPriceSource, string> = {
+    orderbook: 'order book',
+    onchain: 'on-chain book',
+    trades: 'last trade',
+    candles: 'last candle',
+};
+
+export function TradingHeader({ poolInfo, marketPrice, network, onOpenSelector, isSelectorOpen, onOpenHedge }: TradingHeaderProps) {
+    const spread = marketPrice && marketPrice.bestBidPrice !== null && marketPrice.bestAskPrice !== null
+        ? marketPrice.bestAskPrice - marketPrice.bestBidPrice
+        : null;
+    const priceTitle = marketPrice
+        ? `${marketPrice.estimated ? 'Estimated from ' : 'Mid of '}${PRICE_SOURCE_LABELS[marketPrice.source]} at ${new Date(marketPrice.timestamp).toLocaleTimeString()}`
+        : undefined;
+
     return (
         <div className="flex items-center justify-between p-2 sm:p-2 bg-card/90 backdrop-blur-sm border-b border-border text-[11px] sm:text-[12px] font-display">
             <div className="flex items-center space-x-3 sm:space-x-6 pl-1 sm:pl-2 min-w-0 flex-1">
@@ -49,13 +65,23 @@ export function TradingHeader({ poolInfo, marketPrice, network, onOpenSelector,
                     </div>
                 </div>
 
-                <div className="flex flex-col border-l-2 border-border pl-4">
+                <div className="flex flex-col border-l-2 border-border pl-4" title={priceTitle}>
                     <span className="text-muted-foreground text-[9px] uppercase font-bold tracking-tighter">Mark Price</span>
                     <span className={`font-bold tabular-nums ${marketPrice ? 'text-primary' : ''}`}>
                         {marketPrice ? marketPrice.midPrice.toFixed(4) : '---'}
+                        {marketPrice?.estimated && (
+                            <span className="ml-1 text-[9px] font-medium uppercase text-muted-foreground">est.</span>
+                        )}
                     </span >
                 </div>
 
+                <div className="hidden sm:flex flex-col border-l-2 border-border pl-4">
+                    <span className="text-muted-foreground text-[9px] uppercase font-bold tracking-tighter">Spread</span>
+                    <span className="font-medium text-foreground tabular-nums">
+                        {spread !== null ? spread.toFixed(4) : '---'}
+                    </span>
+                </div>
+
                 <div className="hidden md:flex flex-col border-l-2 border-border pl-4">
                     <span className="text-muted-foreground text-[9px] uppercase font-bold tracking-tighter">24h Change</span>
                     <span className="font-medium text-primary tabular-nums">+2.45%</span>
@@ -72,6 +98,16 @@ export function TradingHeader({ poolInfo, marketPrice, network, onOpenSelector,
                 </div>
             </div>
 
+            {onOpenHedge && (
+                <button
+                    onClick={onOpenHedge}
+                    className="flex items-center gap-1.5 px-3 py-1.5 mr-1 rounded-lg border border-border font-bold uppercase tracking-tighter text-muted-foreground hover:text-primary hover:bg-primary/10 transition-colors min-h-[36px] touch-manipulation shrink-0"
+                    title={`Hedge ${poolInfo.baseCoin} with options`}
+                >
+                    <ShieldCheck className="w-3.5 h-3.5" />
+                    Hedge
+                </button>
+            )}
 
         </div>
     );
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { useCurrentNetwork } from "@mysten/dapp-kit-react";
+import { ChevronDown, LineChart, RefreshCw } from "lucide-react";
+import { cn } from "../lib/utils";
+import {
+    getVolCone,
+    VOL_ESTIMATORS,
+    DEFAULT_CONE_WINDOWS,
+    type VolConeWindow,
+    type VolEstimator,
+} from "../lib/volatility";
+
+interface VolatilityConeProps {
+    /** DeepBook pool of the underlying (OptionPool.deepbookPoolName) */
+    poolName: string;
+    windows?: number[];
+    /** Volatility currently used for pricing, highlighted on the cone */
+    pricingVolatility?: number;
+    /** Use a window's current realized vol as the pricing volatility */
+    onUseVolatility?: (volatility: number) => void;
+}
+
+export function VolatilityCone({
+    poolName,
+    windows = DEFAULT_CONE_WINDOWS,
+    pricingVolatility,
+    onUseVolatility,
+}: VolatilityConeProps) {
+    const currentNetwork = useCurrentNetwork();
+    const [estimator, setEstimator] = useState<VolEstimator>("closeToClose");
+    const [cone, setCone] = useState<VolConeWindow[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [isOpen, setIsOpen] = useState(false);
+
+    const loadCone = async () => {
+        const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+        setIsLoading(true);
+        setLoadError(null);
+        try {
+            setCone(await getVolCone(poolName, { windows, estimator }, network));
+        } catch (error) {
+            console.error("Error loading vol cone:", error);
+            setCone([]);
+            setLoadError(error instanceof Error ? error.message : "Unknown error");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen) loadCone();
+    }, [poolName, estimator, currentNetwork, isOpen, windows.join(",")]);
+
+    const formatVol = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+    // Shared horizontal scale across windows so the cone shape is visible
+    const scaleMax = Math.max(...cone.map((w) => w.max), pricingVolatility ?? 0, 0.01) * 1.05;
+    const pos = (v: number) => `${Math.min((v / scaleMax) * 100, 100)}%`;
+
+    return (
+        <div className="border-t bg-card/95 text-[11px] sm:text-[12px]">
+            <div className="flex items-center justify-between gap-2 px-4 py-2 bg-muted/20 border-b">
+                <button
+                    type="button"
+                    onClick={() => setIsOpen((v) => !v)}
+                    className="font-semibold text-sm flex items-center gap-2 min-w-0"
+                    aria-expanded={isOpen}
+                >
+                    <LineChart className="h-4 w-4 shrink-0" />
+                    <span className="truncate">Volatility Cone · {poolName}</span>
+                    <ChevronDown className={cn("h-4 w-4 text-muted-foreground transition-transform", isOpen && "rotate-180")} />
+                </button>
+                {isOpen && (
+                    <div className="flex items-center gap-1 shrink-0">
+                        <select
+                            value={estimator}
+                            onChange={(e) => setEstimator(e.target.value as VolEstimator)}
+                            className="bg-input border rounded-md px-2 py-1 text-xs focus:ring-1 focus:ring-primary outline-none"
+                        >
+                            {VOL_ESTIMATORS.map((e) => (
+                                <option key={e.key} value={e.key}>
+                                    {e.label}
+                                </option>
+                            ))}
+                        </select>
+                        <button
+                            type="button"
+                            onClick={loadCone}
+                            disabled={isLoading}
+                            className="rounded-lg p-2 text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors disabled:opacity-50 touch-manipulation"
+                            title="Refresh volatility"
+                            aria-label="Refresh volatility"
+                        >
+                            <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {isOpen && (
+                cone.length === 0 ? (
+                    <p className="px-4 py-3 text-muted-foreground">
+                        {isLoading
+                            ? "Loading candles..."
+                            : loadError
+                                ? `Couldn't load candles: ${loadError}`
+                                : "Not enough daily candles to build a cone."}
+                    </p>
+                ) : (
+                    <div className="px-4 py-2 space-y-2">
+                        <div className="grid grid-cols-[2.5rem_1fr_4rem_4rem_auto] gap-2 text-muted-foreground uppercase text-[10px] font-bold">
+                            <span>Window</span>
+                            <span>Min · 25–75% · Max</span>
+                            <span className="text-right">Median</span>
+                            <span className="text-right">Current</span>
+                            <span className="w-10" />
+                        </div>
+                        {cone.map((w) => (
+                            <div
+                                key={w.window}
+                                className="grid grid-cols-[2.5rem_1fr_4rem_4rem_auto] gap-2 items-center"
+                                title={`Min ${formatVol(w.min)} · 25% ${formatVol(w.p25)} · 75% ${formatVol(w.p75)} · Max ${formatVol(w.max)}`}
+                            >
+                                <span className="font-medium">{w.window}d</span>
+                                <div className="relative h-3">
+                                    <div
+                                        className="absolute top-1/2 h-px bg-muted-foreground/40"
+                                        style={{ left: pos(w.min), right: `calc(100% - ${pos(w.max)})` }}
+                                    />
+                                    <div
+                                        className="absolute top-0 h-3 rounded-sm bg-primary/20"
+                                        style={{ left: pos(w.p25), right: `calc(100% - ${pos(w.p75)})` }}
+                                    />
+                                    <div className="absolute top-0 h-3 w-px bg-primary" style={{ left: pos(w.median) }} />
+                                    <div
+                                        className="absolute top-1/2 h-2 w-2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-amber-500"
+                                        style={{ left: pos(w.current) }}
+                                    />
+                                    {pricingVolatility !== undefined && (
+                                        <div
+                                            className="absolute -top-0.5 h-4 w-px bg-foreground/60"
+                                            style={{ left: pos(pricingVolatility) }}
+                                        />
+                                    )}
+                                </div>
+                                <span className="text-right tabular-nums">{formatVol(w.median)}</span>
+                                <span className="text-right tabular-nums text-amber-500">{formatVol(w.current)}</span>
+                                {onUseVolatility ? (
+                                    <button
+                                        type="button"
+                                        onClick={() => onUseVolatility(w.current)}
+                                        className="w-10 rounded px-1 py-0.5 text-[10px] text-muted-foreground hover:bg-muted/50 hover:text-foreground"
+                                        title={`Price options with the current ${w.window}-day realized vol`}
+                                    >
+                                        Use
+                                    </button>
+                                ) : (
+                                    <span className="w-10" />
+                                )}
+                            </div>
+                        ))}
+                        {pricingVolatility !== undefined && (
+                            <p className="text-muted-foreground text-[10px]">
+                                Pricing σ {formatVol(pricingVolatility)} (vertical line) · current realized vol in amber
+                            </p>
+                        )}
+                    </div>
+                )
+            )}
+        </div>
+    );
+}
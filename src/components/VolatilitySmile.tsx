@@ -0,0 +1,266 @@
+import { useEffect, useState } from "react";
+import { useCurrentNetwork } from "@mysten/dapp-kit-react";
+import { ChevronDown, RefreshCw, TrendingUp } from "lucide-react";
+import { cn } from "../lib/utils";
+import { getOptionTokenPools, type OptionPool } from "../lib/options";
+import { getImpliedVols, type OptionImpliedVol, type ThinBookReason } from "../lib/volatility";
+
+interface VolatilitySmileProps {
+    /** Options on one underlying (same deepbookPoolName) */
+    options: OptionPool[];
+    /** Underlying DeepBook mid price per deepbookPoolName */
+    spotPrices: Record<string, number>;
+    riskFreeRate: number;
+    /** Volatility currently used for pricing, drawn as a reference line */
+    pricingVolatility?: number;
+    formatDate: (timestamp: number) => string;
+}
+
+const THIN_BOOK_LABELS: Record<ThinBookReason, string> = {
+    "no-market": "no DeepBook pool",
+    "no-bid": "no bid",
+    "no-ask": "no ask",
+    "wide-spread": "spread too wide",
+    "no-solution": "price outside model range",
+    "error": "book unavailable",
+};
+
+// SVG plot area
+const WIDTH = 320;
+const HEIGHT = 140;
+const PAD = { top: 8, right: 8, bottom: 20, left: 36 };
+
+export function VolatilitySmile({
+    options,
+    spotPrices,
+    riskFreeRate,
+    pricingVolatility,
+    formatDate,
+}: VolatilitySmileProps) {
+    const currentNetwork = useCurrentNetwork();
+    const [impliedVols, setImpliedVols] = useState<Record<string, OptionImpliedVol>>({});
+    const [isLoading, setIsLoading] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [isOpen, setIsOpen] = useState(false);
+    const [activeExpiration, setActiveExpiration] = useState<number | null>(null);
+
+    const expirations = Array.from(new Set(options.map((o) => o.expirationDate))).sort((a, b) => a - b);
+    const expiration = activeExpiration !== null && expirations.includes(activeExpiration)
+        ? activeExpiration
+        : expirations[0] ?? null;
+    const poolName = options[0]?.deepbookPoolName;
+
+    const loadImpliedVols = async () => {
+        const network = currentNetwork as "mainnet" | "testnet" | "devnet";
+        setIsLoading(true);
+        setLoadError(null);
+        try {
+            const marketPools = await getOptionTokenPools(options, network);
+            setImpliedVols(await getImpliedVols(options, marketPools, spotPrices, { riskFreeRate }, network));
+        } catch (error) {
+            console.error("Error loading implied vols:", error);
+            setImpliedVols({});
+            setLoadError(error instanceof Error ? error.message : "Unknown error");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen) loadImpliedVols();
+    }, [isOpen, options, spotPrices, riskFreeRate, currentNetwork]);
+
+    const points = Object.values(impliedVols)
+        .filter((iv) => iv.expirationDate === expiration)
+        .sort((a, b) => a.strike - b.strike);
+    const solved = points.filter((p) => p.midIv !== null);
+    const thin = points.filter((p) => p.thin !== null);
+
+    const formatVol = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+    // Axes: strikes on x, IV on y (bid/ask IVs included so the error bars fit)
+    const strikes = points.map((p) => p.strike);
+    const ivs = solved.flatMap((p) => [p.midIv, p.bidIv, p.askIv]).filter((v): v is number => v !== null);
+    if (pricingVolatility !== undefined) ivs.push(pricingVolatility);
+    const minStrike = Math.min(...strikes);
+    const maxStrike = Math.max(...strikes);
+    const maxIv = Math.max(...ivs, 0.1) * 1.1;
+    const x = (strike: number) =>
+        maxStrike === minStrike
+            ? (PAD.left + WIDTH - PAD.right) / 2
+            : PAD.left + ((strike - minStrike) / (maxStrike - minStrike)) * (WIDTH - PAD.left - PAD.right);
+    const y = (iv: number) => HEIGHT - PAD.bottom - (iv / maxIv) * (HEIGHT - PAD.top - PAD.bottom);
+    const spot = poolName ? spotPrices[poolName] : undefined;
+
+    const smilePath = (type: OptionPool["type"]) =>
+        solved
+            .filter((p) => p.type === type)
+            .map((p, i) => `${i === 0 ? "M" : "L"}${x(p.strike)},${y(p.midIv as number)}`)
+            .join(" ");
+
+    return (
+        <div className="border-t bg-card/95 text-[11px] sm:text-[12px]">
+            <div className="flex items-center justify-between gap-2 px-4 py-2 bg-muted/20 border-b">
+                <button
+                    type="button"
+                    onClick={() => setIsOpen((v) => !v)}
+                    className="font-semibold text-sm flex items-center gap-2 min-w-0"
+                    aria-expanded={isOpen}
+                >
+                    <TrendingUp className="h-4 w-4 shrink-0" />
+                    <span className="truncate">IV Smile{poolName ? ` · ${poolName}` : ""}</span>
+                    <ChevronDown className={cn("h-4 w-4 text-muted-foreground transition-transform", isOpen && "rotate-180")} />
+                </button>
+                {isOpen && (
+                    <div className="flex items-center gap-1 shrink-0">
+                        <select
+                            value={expiration ?? ""}
+                            onChange={(e) => setActiveExpiration(Number(e.target.value) || null)}
+                            className="bg-input border rounded-md px-2 py-1 text-xs focus:ring-1 focus:ring-primary outline-none"
+                        >
+                            {expirations.map((exp) => (
+                                <option key={exp} value={exp}>
+                                    {formatDate(exp)}
+                                </option>
+                            ))}
+                        </select>
+                        <button
+                            type="button"
+                            onClick={loadImpliedVols}
+                            disabled={isLoading}
+                            className="rounded-lg p-2 text-muted-foreground hover:bg-muted/50 hover:text-foreground transition-colors disabled:opacity-50 touch-manipulation"
+                            title="Refresh order books"
+                            aria-label="Refresh implied volatility"
+                        >
+                            <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {isOpen && (
+                <div className="px-4 py-2 space-y-2">
+                    {points.length === 0 ? (
+                        <p className="text-muted-foreground">
+                            {isLoading
+                                ? "Reading option token order books..."
+                                : loadError
+                                    ? `Couldn't read the order books: ${loadError}`
+                                    : spot === undefined
+                                    ? "No underlying price to solve against."
+                                    : "No options for this expiration."}
+                        </p>
+                    ) : (
+                        <>
+                            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+                                {/* y axis labels */}
+                                {[0, 0.5, 1].map((f) => (
+                                    <g key={f}>
+                                        <line
+                                            x1={PAD.left}
+                                            x2={WIDTH - PAD.right}
+                                            y1={y(maxIv * f)}
+                                            y2={y(maxIv * f)}
+                                            className="stroke-border"
+                                            strokeWidth={0.5}
+                                        />
+                                        <text x={PAD.left - 4} y={y(maxIv * f) + 3} textAnchor="end" className="fill-muted-foreground text-[8px]">
+                                            {formatVol(maxIv * f)}
+                                        </text>
+                                    </g>
+                                ))}
+                                {/* x axis: strikes */}
+                                {points.map((p) => (
+                                    <text
+                                        key={`label-${p.optionId}`}
+                                        x={x(p.strike)}
+                                        y={HEIGHT - 6}
+                                        textAnchor="middle"
+                                        className="fill-muted-foreground text-[8px]"
+                                    >
+                                        {p.strike}
+                                    </text>
+                                ))}
+                                {pricingVolatility !== undefined && (
+                                    <line
+                                        x1={PAD.left}
+                                        x2={WIDTH - PAD.right}
+                                        y1={y(pricingVolatility)}
+                                        y2={y(pricingVolatility)}
+                                        className="stroke-foreground/50"
+                                        strokeDasharray="3 3"
+                                        strokeWidth={0.75}
+                                    />
+                                )}
+                                {spot !== undefined && spot >= minStrike && spot <= maxStrike && (
+                                    <line
+                                        x1={x(spot)}
+                                        x2={x(spot)}
+                                        y1={PAD.top}
+                                        y2={HEIGHT - PAD.bottom}
+                                        className="stroke-amber-500/60"
+                                        strokeDasharray="2 2"
+                                        strokeWidth={0.75}
+                                    />
+                                )}
+                                <path d={smilePath("CALL")} fill="none" className="stroke-buy" strokeWidth={1.25} />
+                                <path d={smilePath("PUT")} fill="none" className="stroke-sell" strokeWidth={1.25} />
+                                {solved.map((p) => (
+                                    <g key={p.optionId}>
+                                        {p.bidIv !== null && p.askIv !== null && (
+                                            <line
+                                                x1={x(p.strike)}
+                                                x2={x(p.strike)}
+                                                y1={y(p.bidIv)}
+                                                y2={y(p.askIv)}
+                                                className={p.type === "CALL" ? "stroke-buy/50" : "stroke-sell/50"}
+                                                strokeWidth={2}
+                                            />
+                                        )}
+                                        <circle
+                                            cx={x(p.strike)}
+                                            cy={y(p.midIv as number)}
+                                            r={2.5}
+                                            className={p.type === "CALL" ? "fill-buy" : "fill-sell"}
+                                        >
+                                            <title>
+                                                {`${p.type} ${p.strike}: ${formatVol(p.midIv as number)} (bid ${p.bidIv !== null ? formatVol(p.bidIv) : "—"}, ask ${p.askIv !== null ? formatVol(p.askIv) : "—"})`}
+                                            </title>
+                                        </circle>
+                                    </g>
+                                ))}
+                                {thin.map((p) => (
+                                    <circle
+                                        key={`thin-${p.optionId}`}
+                                        cx={x(p.strike)}
+                                        cy={HEIGHT - PAD.bottom}
+                                        r={2.5}
+                                        fill="none"
+                                        className="stroke-muted-foreground"
+                                    >
+                                        <title>{`${p.type} ${p.strike}: ${THIN_BOOK_LABELS[p.thin as ThinBookReason]}`}</title>
+                                    </circle>
+                                ))}
+                            </svg>
+                            <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-muted-foreground">
+                                <span className="text-buy">● Calls</span>
+                                <span className="text-sell">● Puts</span>
+                                {pricingVolatility !== undefined && <span>- - Pricing σ {formatVol(pricingVolatility)}</span>}
+                                {spot !== undefined && <span className="text-amber-500">Spot {spot}</span>}
+                            </div>
+                            {thin.length > 0 && (
+                                <ul className="space-y-0.5 text-[10px] text-muted-foreground">
+                                    {thin.map((p) => (
+                                        <li key={p.optionId}>
+                                            ○ {p.type} {p.strike}: thin book ({THIN_BOOK_LABELS[p.thin as ThinBookReason]})
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
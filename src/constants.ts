@@ -1,17 +1,10 @@
-// TODO: Update these with your deployed package IDs after running `sui client publish`
-export const DEVNET_COUNTER_PACKAGE_ID: string | undefined = undefined;
-export const TESTNET_COUNTER_PACKAGE_ID: string | undefined = undefined;
-export const MAINNET_COUNTER_PACKAGE_ID: string | undefined = undefined;
-
-// Varuna Options Pool Package IDs
-export const VARUNA_CALL_OPTIONS_PACKAGE_ID: Record<'mainnet' | 'testnet' | 'devnet', string | undefined> = {
-    mainnet: undefined,
-    testnet: '0x90ebb5c0022ffe4c504f122bc3035b7fda9858464be430a58a41695ca146aae8',
-    devnet: undefined,
-};
-
-export const VARUNA_PUT_OPTIONS_PACKAGE_ID: Record<'mainnet' | 'testnet' | 'devnet', string | undefined> = {
-    mainnet: undefined,
-    testnet: '0x1c33e5c040eb0d23fe7a8f42724beaaeaa1c901f8b5f2047ef74d5c84b8b4427',
-    devnet: undefined,
+// Every published option package bundles its own copy of `options_pool`, so pool
+// discovery queries `options_pool::PoolCreated` events for each package listed here.
+export const VARUNA_OPTIONS_PACKAGE_IDS: Record<'mainnet' | 'testnet' | 'devnet', string[]> = {
+    mainnet: [],
+    testnet: [
+        '0x33083f7f56ad45645c8f17c6b92af2ccc38dda29202a52d86de3daaa137aec86', // CALL DEEP/SUI
+        '0x1c33e5c040eb0d23fe7a8f42724beaaeaa1c901f8b5f2047ef74d5c84b8b4427', // PUT DEEP/SUI
+    ],
+    devnet: [],
 };
@@ -1,96 +0,0 @@
-/**************************************************************
- * THIS FILE IS GENERATED AND SHOULD NOT BE MANUALLY MODIFIED *
- **************************************************************/
-
-/**
- * This example demonstrates a basic use of a shared object. Rules:
- *
- * - anyone can create and share a counter
- * - everyone can increment a counter by 1
- * - the owner of the counter can reset it to any value
- */
-
-import {
-  MoveStruct,
-  normalizeMoveArguments,
-  type RawTransactionArgument,
-} from "../utils/index.js";
-import { bcs } from "@mysten/sui/bcs";
-import { type Transaction } from "@mysten/sui/transactions";
-const $moduleName = "@local-pkg/counter::counter";
-export const Counter = new MoveStruct({
-  name: `${$moduleName}::Counter`,
-  fields: {
-    id: bcs.Address,
-    owner: bcs.Address,
-    value: bcs.u64(),
-  },
-});
-export interface CreateOptions {
-  package?: string;
-  arguments?: [];
-}
-/** Create and share a Counter object. */
-export function create(options: CreateOptions = {}) {
-  const packageAddress = options.package ?? "@local-pkg/counter";
-  return (tx: Transaction) =>
-    tx.moveCall({
-      package: packageAddress,
-      module: "counter",
-      function: "create",
-    });
-}
-export interface IncrementArguments {
-  counter: RawTransactionArgument<string>;
-}
-export interface IncrementOptions {
-  package?: string;
-  arguments: IncrementArguments | [counter: RawTransactionArgument<string>];
-}
-/** Increment a counter by 1. */
-export function increment(options: IncrementOptions) {
-  const packageAddress = options.package ?? "@local-pkg/counter";
-  const argumentsTypes = [null] satisfies (string | null)[];
-  const parameterNames = ["counter"];
-  return (tx: Transaction) =>
-    tx.moveCall({
-      package: packageAddress,
-      module: "counter",
-      function: "increment",
-      arguments: normalizeMoveArguments(
-        options.arguments,
-        argumentsTypes,
-        parameterNames,
-      ),
-    });
-}
-export interface SetValueArguments {
-  counter: RawTransactionArgument<string>;
-  value: RawTransactionArgument<number | bigint>;
-}
-export interface SetValueOptions {
-  package?: string;
-  arguments:
-    | SetValueArguments
-    | [
-        counter: RawTransactionArgument<string>,
-        value: RawTransactionArgument<number | bigint>,
-      ];
-}
-/** Set value (only runnable by the Counter owner) */
-export function setValue(options: SetValueOptions) {
-  const packageAddress = options.package ?? "@local-pkg/counter";
-  const argumentsTypes = [null, "u64"] satisfies (string | null)[];
-  const parameterNames = ["counter", "value"];
-  return (tx: Transaction) =>
-    tx.moveCall({
-      package: packageAddress,
-      module: "counter",
-      function: "set_value",
-      arguments: normalizeMoveArguments(
-        options.arguments,
-        argumentsTypes,
-        parameterNames,
-      ),
-    });
-}
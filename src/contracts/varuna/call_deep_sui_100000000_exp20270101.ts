@@ -0,0 +1,62 @@
+/**************************************************************
+ * THIS FILE IS GENERATED AND SHOULD NOT BE MANUALLY MODIFIED *
+ **************************************************************/
+
+import {
+  MoveStruct,
+  normalizeMoveArguments,
+  type RawTransactionArgument,
+} from "../utils/index.js";
+import { bcs } from "@mysten/sui/bcs";
+import { type Transaction } from "@mysten/sui/transactions";
+const $moduleName = "@local-pkg/varuna::call_deep_sui_100000000_exp20270101";
+/**
+ * One-Time Witness for this specific option token Must be named after the module
+ * in all uppercase
+ */
+export const CALL_DEEP_SUI_100000000_EXP20270101 = new MoveStruct({
+  name: `${$moduleName}::CALL_DEEP_SUI_100000000_EXP20270101`,
+  fields: {
+    dummy_field: bcs.bool(),
+  },
+});
+export interface CreatePoolArguments {
+  treasuryCap: RawTransactionArgument<string>;
+  deepbookPoolId: RawTransactionArgument<string>;
+}
+export interface CreatePoolOptions {
+  package?: string;
+  arguments:
+    | CreatePoolArguments
+    | [
+        treasuryCap: RawTransactionArgument<string>,
+        deepbookPoolId: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string];
+}
+/**
+ * Helper function to create the pool (must be called after init by the
+ * treasury_cap holder) This should be called in a separate transaction after
+ * publishing the module
+ */
+export function createPool(options: CreatePoolOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [
+    null,
+    "0x2::object::ID",
+    "0x2::clock::Clock",
+  ] satisfies (string | null)[];
+  const parameterNames = ["treasuryCap", "deepbookPoolId"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "call_deep_sui_100000000_exp20270101",
+      function: "create_pool",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
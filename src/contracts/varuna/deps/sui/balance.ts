@@ -0,0 +1,25 @@
+/**************************************************************
+ * THIS FILE IS GENERATED AND SHOULD NOT BE MANUALLY MODIFIED *
+ **************************************************************/
+
+/**
+ * A storable handler for Balances in general. Is used in the `Coin` module to
+ * allow balance operations and can be used to implement custom coins with `Supply`
+ * and `Balance`s.
+ */
+
+import { MoveStruct } from "../../../utils/index.js";
+import { bcs } from "@mysten/sui/bcs";
+const $moduleName = "0x2::balance";
+export const Supply = new MoveStruct({
+  name: `${$moduleName}::Supply<phantom T>`,
+  fields: {
+    value: bcs.u64(),
+  },
+});
+export const Balance = new MoveStruct({
+  name: `${$moduleName}::Balance<phantom T>`,
+  fields: {
+    value: bcs.u64(),
+  },
+});
@@ -0,0 +1,872 @@
+/**************************************************************
+ * THIS FILE IS GENERATED AND SHOULD NOT BE MANUALLY MODIFIED *
+ **************************************************************/
+
+import {
+  MoveStruct,
+  normalizeMoveArguments,
+  type RawTransactionArgument,
+} from "../utils/index.js";
+import { bcs } from "@mysten/sui/bcs";
+import { type Transaction } from "@mysten/sui/transactions";
+import * as coin from "./deps/sui/coin.js";
+import * as balance from "./deps/sui/balance.js";
+const $moduleName = "@local-pkg/varuna::options_pool";
+/** One-time witness for module initialization */
+export const OPTIONS_POOL = new MoveStruct({
+  name: `${$moduleName}::OPTIONS_POOL`,
+  fields: {
+    dummy_field: bcs.bool(),
+  },
+});
+/** Admin capability for pool management */
+export const AdminCap = new MoveStruct({
+  name: `${$moduleName}::AdminCap`,
+  fields: {
+    id: bcs.Address,
+  },
+});
+/**
+ * Represents an options pool for a specific strike/expiry combination The option
+ * tokens are standard Coin<OptionToken> that can be traded on DeepBook
+ *
+ * Type Parameters:
+ *
+ * - OptionToken: The specific option token type (must have drop ability for OTW
+ *   pattern)
+ * - BaseAsset: The underlying asset
+ * - QuoteAsset: The quote/payment asset
+ *
+ * For Call Options:
+ *
+ * - Seller deposits BaseAsset as collateral
+ * - Mints OptionToken coins (supply increases)
+ * - Option holders can exercise by paying QuoteAsset to receive BaseAsset
+ *
+ * For Put Options:
+ *
+ * - Seller deposits QuoteAsset as collateral (strike_price \* amount in
+ *   QuoteAsset units)
+ * - Mints OptionToken coins (supply increases)
+ * - Option holders can exercise by providing BaseAsset to receive QuoteAsset
+ */
+export const OptionsPool = new MoveStruct({
+  name: `${$moduleName}::OptionsPool<phantom OptionToken, phantom BaseAsset, phantom QuoteAsset>`,
+  fields: {
+    id: bcs.Address,
+    option_type: bcs.u8(),
+    strike_price: bcs.u64(),
+    expiration_date: bcs.u64(),
+    total_options_minted: bcs.u64(),
+    treasury_cap: coin.TreasuryCap,
+    collateral_balance_base: balance.Balance,
+    collateral_balance_quote: balance.Balance,
+    underlying_asset_price: bcs.option(bcs.u64()),
+    last_price_update: bcs.u64(),
+    deepbook_pool_id: bcs.Address,
+    is_settled: bcs.bool(),
+    settlement_price: bcs.option(bcs.u64()),
+    total_options_exercised: bcs.u64(),
+  },
+});
+/**
+ * Owner token - represents claim to residual collateral after settlement Minted
+ * 1:1 with option tokens when collateral is deposited This is NOT a Coin type as
+ * it doesn't need to be traded
+ */
+export const OwnerToken = new MoveStruct({
+  name: `${$moduleName}::OwnerToken<phantom OptionToken, phantom BaseAsset, phantom QuoteAsset>`,
+  fields: {
+    id: bcs.Address,
+    amount: bcs.u64(),
+    pool_id: bcs.Address,
+  },
+});
+export const PoolCreated = new MoveStruct({
+  name: `${$moduleName}::PoolCreated`,
+  fields: {
+    pool_id: bcs.Address,
+    option_type: bcs.u8(),
+    strike_price: bcs.u64(),
+    expiration_date: bcs.u64(),
+    deepbook_pool_id: bcs.Address,
+  },
+});
+export const OptionsMinted = new MoveStruct({
+  name: `${$moduleName}::OptionsMinted`,
+  fields: {
+    pool_id: bcs.Address,
+    amount: bcs.u64(),
+    collateral_type: bcs.u8(),
+    collateral_amount: bcs.u64(),
+    minter: bcs.Address,
+    total_supply: bcs.u64(),
+  },
+});
+export const OptionsExercised = new MoveStruct({
+  name: `${$moduleName}::OptionsExercised`,
+  fields: {
+    pool_id: bcs.Address,
+    amount: bcs.u64(),
+    exerciser: bcs.Address,
+    payout_base: bcs.u64(),
+    payout_quote: bcs.u64(),
+    total_supply: bcs.u64(),
+  },
+});
+export const PriceUpdated = new MoveStruct({
+  name: `${$moduleName}::PriceUpdated`,
+  fields: {
+    pool_id: bcs.Address,
+    new_price: bcs.u64(),
+    timestamp: bcs.u64(),
+  },
+});
+export const PoolSettled = new MoveStruct({
+  name: `${$moduleName}::PoolSettled`,
+  fields: {
+    pool_id: bcs.Address,
+    settlement_price: bcs.u64(),
+    timestamp: bcs.u64(),
+  },
+});
+export const CollateralClaimed = new MoveStruct({
+  name: `${$moduleName}::CollateralClaimed`,
+  fields: {
+    pool_id: bcs.Address,
+    owner_tokens_burned: bcs.u64(),
+    collateral_claimed_base: bcs.u64(),
+    collateral_claimed_quote: bcs.u64(),
+    claimer: bcs.Address,
+  },
+});
+export interface CreatePoolArguments {
+  treasuryCap: RawTransactionArgument<string>;
+  optionType: RawTransactionArgument<number>;
+  strikePrice: RawTransactionArgument<number | bigint>;
+  expirationDate: RawTransactionArgument<number | bigint>;
+  deepbookPoolId: RawTransactionArgument<string>;
+}
+export interface CreatePoolOptions {
+  package?: string;
+  arguments:
+    | CreatePoolArguments
+    | [
+        treasuryCap: RawTransactionArgument<string>,
+        optionType: RawTransactionArgument<number>,
+        strikePrice: RawTransactionArgument<number | bigint>,
+        expirationDate: RawTransactionArgument<number | bigint>,
+        deepbookPoolId: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string, string];
+}
+/**
+ * Create a new options pool with a specific option token type The option token
+ * must be created separately using the One-Time Witness pattern
+ *
+ * IMPORTANT: The TreasuryCap must have zero supply - no tokens should be
+ * pre-minted before collateral is deposited. This ensures all options are fully
+ * collateralized.
+ *
+ * Parameters:
+ *
+ * - treasury_cap: TreasuryCap for the option token (obtained from init function)
+ * - option_type: OPTION_TYPE_CALL (0) or OPTION_TYPE_PUT (1)
+ * - strike_price: Strike price in QuoteAsset per BaseAsset with PRICE_DECIMALS
+ *   precision
+ * - expiration_date: Unix timestamp in milliseconds
+ * - deepbook_pool_id: ID of the DeepBook pool for price oracle
+ *
+ * Example:
+ *
+ * ```
+ * // In your option token module:
+ * fun init(witness: MY_OPTION_TOKEN, ctx: &mut TxContext) {
+ *     let (treasury_cap, metadata) = coin::create_currency(
+ *         witness, 9, b"CALL-SUI-USDC-2000", ...
+ *     );
+ *     transfer::public_freeze_object(metadata);
+ *     // Pass treasury_cap to create_pool (no pre-minting!)
+ * }
+ * ```
+ */
+export function createPool(options: CreatePoolOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [
+    null,
+    "u8",
+    "u64",
+    "u64",
+    "0x2::object::ID",
+    "0x2::clock::Clock",
+  ] satisfies (string | null)[];
+  const parameterNames = [
+    "treasuryCap",
+    "optionType",
+    "strikePrice",
+    "expirationDate",
+    "deepbookPoolId",
+  ];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "create_pool",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface MintCallOptionsArguments {
+  pool: RawTransactionArgument<string>;
+  collateral: RawTransactionArgument<string>;
+}
+export interface MintCallOptionsOptions {
+  package?: string;
+  arguments:
+    | MintCallOptionsArguments
+    | [
+        pool: RawTransactionArgument<string>,
+        collateral: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string, string];
+}
+/**
+ * Mint call options by depositing BaseAsset as collateral This INCREASES the
+ * total supply of option tokens Returns: (option_coins: Coin<OptionToken>,
+ * owner_token: OwnerToken)
+ */
+export function mintCallOptions(options: MintCallOptionsOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [
+    null,
+    null,
+    "0x2::clock::Clock",
+  ] satisfies (string | null)[];
+  const parameterNames = ["pool", "collateral"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "mint_call_options",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface MintPutOptionsArguments {
+  pool: RawTransactionArgument<string>;
+  collateral: RawTransactionArgument<string>;
+  amount: RawTransactionArgument<number | bigint>;
+}
+export interface MintPutOptionsOptions {
+  package?: string;
+  arguments:
+    | MintPutOptionsArguments
+    | [
+        pool: RawTransactionArgument<string>,
+        collateral: RawTransactionArgument<string>,
+        amount: RawTransactionArgument<number | bigint>,
+      ];
+  typeArguments: [string, string, string];
+}
+/**
+ * Mint put options by depositing QuoteAsset as collateral This INCREASES the
+ * total supply of option tokens
+ *
+ * Parameters:
+ *
+ * - collateral: QuoteAsset coins to deposit
+ * - amount: Number of put options to mint (in BaseAsset units)
+ */
+export function mintPutOptions(options: MintPutOptionsOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [
+    null,
+    null,
+    "u64",
+    "0x2::clock::Clock",
+  ] satisfies (string | null)[];
+  const parameterNames = ["pool", "collateral", "amount"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "mint_put_options",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface UpdatePriceArguments {
+  pool: RawTransactionArgument<string>;
+  deepbookPool: RawTransactionArgument<string>;
+}
+export interface UpdatePriceOptions {
+  package?: string;
+  arguments:
+    | UpdatePriceArguments
+    | [
+        pool: RawTransactionArgument<string>,
+        deepbookPool: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string, string];
+}
+/**
+ * Update the underlying asset price from DeepBook Fetches the mid-price from the
+ * DeepBook pool Anyone can call this to keep the price updated
+ */
+export function updatePrice(options: UpdatePriceOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [
+    null,
+    null,
+    "0x2::clock::Clock",
+  ] satisfies (string | null)[];
+  const parameterNames = ["pool", "deepbookPool"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "update_price",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface UpdatePriceManualArguments {
+  admin: RawTransactionArgument<string>;
+  pool: RawTransactionArgument<string>;
+  price: RawTransactionArgument<number | bigint>;
+}
+export interface UpdatePriceManualOptions {
+  package?: string;
+  arguments:
+    | UpdatePriceManualArguments
+    | [
+        admin: RawTransactionArgument<string>,
+        pool: RawTransactionArgument<string>,
+        price: RawTransactionArgument<number | bigint>,
+      ];
+  typeArguments: [string, string, string];
+}
+/** Manual price update (for testing or emergency use with admin cap) */
+export function updatePriceManual(options: UpdatePriceManualOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [
+    null,
+    null,
+    "u64",
+    "0x2::clock::Clock",
+  ] satisfies (string | null)[];
+  const parameterNames = ["admin", "pool", "price"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "update_price_manual",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface ExerciseCallOptionsArguments {
+  pool: RawTransactionArgument<string>;
+  optionCoins: RawTransactionArgument<string>;
+  payment: RawTransactionArgument<string>;
+}
+export interface ExerciseCallOptionsOptions {
+  package?: string;
+  arguments:
+    | ExerciseCallOptionsArguments
+    | [
+        pool: RawTransactionArgument<string>,
+        optionCoins: RawTransactionArgument<string>,
+        payment: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string, string];
+}
+/**
+ * Exercise call options before expiration Burns option coins (DECREASES SUPPLY)
+ * and returns BaseAsset
+ *
+ * Parameters:
+ *
+ * - option_coins: OptionToken coins to exercise
+ * - payment: QuoteAsset payment at strike price
+ */
+export function exerciseCallOptions(options: ExerciseCallOptionsOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [
+    null,
+    null,
+    null,
+    "0x2::clock::Clock",
+  ] satisfies (string | null)[];
+  const parameterNames = ["pool", "optionCoins", "payment"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "exercise_call_options",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface ExercisePutOptionsArguments {
+  pool: RawTransactionArgument<string>;
+  optionCoins: RawTransactionArgument<string>;
+  baseAsset: RawTransactionArgument<string>;
+}
+export interface ExercisePutOptionsOptions {
+  package?: string;
+  arguments:
+    | ExercisePutOptionsArguments
+    | [
+        pool: RawTransactionArgument<string>,
+        optionCoins: RawTransactionArgument<string>,
+        baseAsset: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string, string];
+}
+/**
+ * Exercise put options before expiration Burns option coins (DECREASES SUPPLY)
+ * and returns QuoteAsset
+ *
+ * Parameters:
+ *
+ * - option_coins: OptionToken coins to exercise
+ * - base_asset: BaseAsset to sell at strike price
+ */
+export function exercisePutOptions(options: ExercisePutOptionsOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [
+    null,
+    null,
+    null,
+    "0x2::clock::Clock",
+  ] satisfies (string | null)[];
+  const parameterNames = ["pool", "optionCoins", "baseAsset"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "exercise_put_options",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface SettlePoolArguments {
+  pool: RawTransactionArgument<string>;
+  deepbookPool: RawTransactionArgument<string>;
+}
+export interface SettlePoolOptions {
+  package?: string;
+  arguments:
+    | SettlePoolArguments
+    | [
+        pool: RawTransactionArgument<string>,
+        deepbookPool: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string, string];
+}
+/**
+ * Settle the pool after expiration Fetches final price from DeepBook and locks in
+ * settlement Anyone can call this after expiration
+ */
+export function settlePool(options: SettlePoolOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [
+    null,
+    null,
+    "0x2::clock::Clock",
+  ] satisfies (string | null)[];
+  const parameterNames = ["pool", "deepbookPool"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "settle_pool",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface ClaimCollateralCallArguments {
+  pool: RawTransactionArgument<string>;
+  ownerToken: RawTransactionArgument<string>;
+}
+export interface ClaimCollateralCallOptions {
+  package?: string;
+  arguments:
+    | ClaimCollateralCallArguments
+    | [
+        pool: RawTransactionArgument<string>,
+        ownerToken: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string, string];
+}
+/**
+ * Claim collateral with owner tokens after settlement (for call options) Call
+ * option writers receive:
+ *
+ * - BaseAsset if out of the money (settlement_price <= strike)
+ * - QuoteAsset if in the money (settlement_price > strike) from exercises
+ */
+export function claimCollateralCall(options: ClaimCollateralCallOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [null, null] satisfies (string | null)[];
+  const parameterNames = ["pool", "ownerToken"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "claim_collateral_call",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface ClaimCollateralPutArguments {
+  pool: RawTransactionArgument<string>;
+  ownerToken: RawTransactionArgument<string>;
+}
+export interface ClaimCollateralPutOptions {
+  package?: string;
+  arguments:
+    | ClaimCollateralPutArguments
+    | [
+        pool: RawTransactionArgument<string>,
+        ownerToken: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string, string];
+}
+/**
+ * Claim collateral with owner tokens after settlement (for put options) Put option
+ * writers receive:
+ *
+ * - QuoteAsset if out of the money (settlement_price >= strike)
+ * - BaseAsset if in the money (settlement_price < strike) from exercises
+ */
+export function claimCollateralPut(options: ClaimCollateralPutOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [null, null] satisfies (string | null)[];
+  const parameterNames = ["pool", "ownerToken"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "claim_collateral_put",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface ClaimWithCallOptionsArguments {
+  pool: RawTransactionArgument<string>;
+  optionCoins: RawTransactionArgument<string>;
+  payment: RawTransactionArgument<string>;
+}
+export interface ClaimWithCallOptionsOptions {
+  package?: string;
+  arguments:
+    | ClaimWithCallOptionsArguments
+    | [
+        pool: RawTransactionArgument<string>,
+        optionCoins: RawTransactionArgument<string>,
+        payment: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string, string];
+}
+/**
+ * Claim with call option coins after settlement (if in the money) Burns option
+ * coins (DECREASES SUPPLY) and returns BaseAsset
+ */
+export function claimWithCallOptions(options: ClaimWithCallOptionsOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [null, null, null] satisfies (string | null)[];
+  const parameterNames = ["pool", "optionCoins", "payment"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "claim_with_call_options",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface ClaimWithPutOptionsArguments {
+  pool: RawTransactionArgument<string>;
+  optionCoins: RawTransactionArgument<string>;
+  baseAsset: RawTransactionArgument<string>;
+}
+export interface ClaimWithPutOptionsOptions {
+  package?: string;
+  arguments:
+    | ClaimWithPutOptionsArguments
+    | [
+        pool: RawTransactionArgument<string>,
+        optionCoins: RawTransactionArgument<string>,
+        baseAsset: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string, string];
+}
+/**
+ * Claim with put option coins after settlement (if in the money) Burns option
+ * coins (DECREASES SUPPLY) and returns QuoteAsset
+ */
+export function claimWithPutOptions(options: ClaimWithPutOptionsOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [null, null, null] satisfies (string | null)[];
+  const parameterNames = ["pool", "optionCoins", "baseAsset"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "claim_with_put_options",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface GetPoolInfoArguments {
+  pool: RawTransactionArgument<string>;
+}
+export interface GetPoolInfoOptions {
+  package?: string;
+  arguments: GetPoolInfoArguments | [pool: RawTransactionArgument<string>];
+  typeArguments: [string, string, string];
+}
+/** Get comprehensive pool information */
+export function getPoolInfo(options: GetPoolInfoOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [null] satisfies (string | null)[];
+  const parameterNames = ["pool"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "get_pool_info",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface GetCurrentPriceArguments {
+  pool: RawTransactionArgument<string>;
+}
+export interface GetCurrentPriceOptions {
+  package?: string;
+  arguments: GetCurrentPriceArguments | [pool: RawTransactionArgument<string>];
+  typeArguments: [string, string, string];
+}
+/** Get current price and last update time */
+export function getCurrentPrice(options: GetCurrentPriceOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [null] satisfies (string | null)[];
+  const parameterNames = ["pool"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "get_current_price",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface GetOptionSupplyArguments {
+  pool: RawTransactionArgument<string>;
+}
+export interface GetOptionSupplyOptions {
+  package?: string;
+  arguments: GetOptionSupplyArguments | [pool: RawTransactionArgument<string>];
+  typeArguments: [string, string, string];
+}
+/** Get option token supply */
+export function getOptionSupply(options: GetOptionSupplyOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [null] satisfies (string | null)[];
+  const parameterNames = ["pool"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "get_option_supply",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface GetOwnerTokenAmountArguments {
+  token: RawTransactionArgument<string>;
+}
+export interface GetOwnerTokenAmountOptions {
+  package?: string;
+  arguments:
+    | GetOwnerTokenAmountArguments
+    | [
+        token: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string, string];
+}
+/** Get owner token amount */
+export function getOwnerTokenAmount(options: GetOwnerTokenAmountOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [null] satisfies (string | null)[];
+  const parameterNames = ["token"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "get_owner_token_amount",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface GetDeepbookPoolIdArguments {
+  pool: RawTransactionArgument<string>;
+}
+export interface GetDeepbookPoolIdOptions {
+  package?: string;
+  arguments:
+    | GetDeepbookPoolIdArguments
+    | [
+        pool: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string, string];
+}
+/** Get DeepBook pool ID */
+export function getDeepbookPoolId(options: GetDeepbookPoolIdOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [null] satisfies (string | null)[];
+  const parameterNames = ["pool"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "get_deepbook_pool_id",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface MergeOwnerTokensArguments {
+  token1: RawTransactionArgument<string>;
+  token2: RawTransactionArgument<string>;
+}
+export interface MergeOwnerTokensOptions {
+  package?: string;
+  arguments:
+    | MergeOwnerTokensArguments
+    | [
+        token1: RawTransactionArgument<string>,
+        token2: RawTransactionArgument<string>,
+      ];
+  typeArguments: [string, string, string];
+}
+/** Merge two owner tokens from the same pool */
+export function mergeOwnerTokens(options: MergeOwnerTokensOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [null, null] satisfies (string | null)[];
+  const parameterNames = ["token1", "token2"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "merge_owner_tokens",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
+export interface SplitOwnerTokenArguments {
+  token: RawTransactionArgument<string>;
+  splitAmount: RawTransactionArgument<number | bigint>;
+}
+export interface SplitOwnerTokenOptions {
+  package?: string;
+  arguments:
+    | SplitOwnerTokenArguments
+    | [
+        token: RawTransactionArgument<string>,
+        splitAmount: RawTransactionArgument<number | bigint>,
+      ];
+  typeArguments: [string, string, string];
+}
+/** Split an owner token into two */
+export function splitOwnerToken(options: SplitOwnerTokenOptions) {
+  const packageAddress = options.package ?? "@local-pkg/varuna";
+  const argumentsTypes = [null, "u64"] satisfies (string | null)[];
+  const parameterNames = ["token", "splitAmount"];
+  return (tx: Transaction) =>
+    tx.moveCall({
+      package: packageAddress,
+      module: "options_pool",
+      function: "split_owner_token",
+      arguments: normalizeMoveArguments(
+        options.arguments,
+        argumentsTypes,
+        parameterNames,
+      ),
+      typeArguments: options.typeArguments,
+    });
+}
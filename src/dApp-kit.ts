@@ -1,10 +1,5 @@
 import { createDAppKit } from "@mysten/dapp-kit-react";
 import { SuiGrpcClient } from "@mysten/sui/grpc";
-import {
-  DEVNET_COUNTER_PACKAGE_ID,
-  TESTNET_COUNTER_PACKAGE_ID,
-  MAINNET_COUNTER_PACKAGE_ID,
-} from "./constants.ts";
 
 export const NETWORK_STORAGE_KEY = "varuna-selected-network";
 
@@ -14,21 +9,6 @@ const GRPC_URLS = {
   devnet: "https://fullnode.devnet.sui.io:443",
 };
 
-// MVR overrides per network - map local package names to deployed addresses
-const MVR_OVERRIDES = {
-  mainnet: MAINNET_COUNTER_PACKAGE_ID && {
-    packages: {
-      "@local-pkg/counter": MAINNET_COUNTER_PACKAGE_ID,
-    },
-  },
-  testnet: TESTNET_COUNTER_PACKAGE_ID && {
-    packages: { "@local-pkg/counter": TESTNET_COUNTER_PACKAGE_ID },
-  },
-  devnet: DEVNET_COUNTER_PACKAGE_ID && {
-    packages: { "@local-pkg/counter": DEVNET_COUNTER_PACKAGE_ID },
-  },
-} as const;
-
 type NetworkName = keyof typeof GRPC_URLS;
 
 let defaultNetwork: NetworkName = "mainnet";
@@ -47,7 +27,6 @@ export const dAppKit = createDAppKit({
     return new SuiGrpcClient({
       network,
       baseUrl: GRPC_URLS[network],
-      mvr: MVR_OVERRIDES[network] ? { overrides: MVR_OVERRIDES[network] } : {},
     });
   },
 });
@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { useCurrentAccount, useCurrentClient } from '@mysten/dapp-kit-react';
+import { keepPreviousData, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  getAllPools,
+  getBalanceForCoin,
+  getBalanceManager,
+  getOHLCVData,
+  getOrderBook,
+  getOrders,
+  getRecentTrades,
+  type OrderBookData,
+  type PoolInfo,
+  type Trade,
+} from '../lib/deepbook';
+import type { CandleInterval } from '../lib/indexer';
+import { getPoolMarketStream, getStreamStatus, watchStreamStatus, type StreamStatus } from '../lib/stream';
+
+/**
+ * react-query hooks over lib/deepbook.ts. Components that show the same pool share one cache
+ * entry per key, so the order book and trades are fetched once however many panels poll them.
+ * Indexer data refetches in the background; BalanceManager data only changes with a transaction,
+ * so it is refreshed by invalidateAfterTransaction instead of polling. While a pool's market
+ * stream is live (useMarketStream), its book and trades come from the stream instead.
+ */
+
+type Network = 'mainnet' | 'testnet' | 'devnet';
+
+/** How often live market data refetches while mounted */
+export const ORDER_BOOK_REFETCH_MS = 5_000;
+export const TRADES_REFETCH_MS = 5_000;
+export const CANDLES_REFETCH_MS = 15_000;
+export const ORDERS_REFETCH_MS = 15_000;
+
+/** The indexer (and the RPC node reads go to) trail the wallet's node by a checkpoint or two */
+export const INDEXER_LAG_MS = 2_000;
+
+const POOLS_STALE_MS = 5 * 60_000;
+
+// =============== Keys ===============
+
+/**
+ * Query keys, nested so a prefix invalidates everything under it: a network, one pool's market
+ * data, or one owner's account data.
+ */
+export const deepbookKeys = {
+  all: ['deepbook'] as const,
+  network: (network: Network) => [...deepbookKeys.all, network] as const,
+  pools: (network: Network) => [...deepbookKeys.network(network), 'pools'] as const,
+  pool: (network: Network, poolName: string) => [...deepbookKeys.network(network), 'pool', poolName] as const,
+  orderBooks: (network: Network, poolName: string) => [...deepbookKeys.pool(network, poolName), 'orderbook'] as const,
+  orderBook: (network: Network, poolName: string, depth: number) =>
+    [...deepbookKeys.orderBooks(network, poolName), depth] as const,
+  allTrades: (network: Network, poolName: string) => [...deepbookKeys.pool(network, poolName), 'trades'] as const,
+  trades: (network: Network, poolName: string, limit: number) =>
+    [...deepbookKeys.allTrades(network, poolName), limit] as const,
+  candles: (network: Network, poolName: string, interval: CandleInterval, limit: number) =>
+    [...deepbookKeys.pool(network, poolName), 'candles', interval, limit] as const,
+  orders: (network: Network, poolName: string, balanceManagerId: string) =>
+    [...deepbookKeys.pool(network, poolName), 'orders', balanceManagerId] as const,
+  account: (network: Network, owner: string) => [...deepbookKeys.network(network), 'account', owner] as const,
+  balanceManager: (network: Network, owner: string) =>
+    [...deepbookKeys.account(network, owner), 'balance-manager'] as const,
+  balances: (network: Network, owner: string, balanceManagerId: string, coinTypes: string[]) =>
+    [...deepbookKeys.account(network, owner), 'balances', balanceManagerId, coinTypes] as const,
+};
+
+// =============== Market Data ===============
+
+/**
+ * Every pool on the indexer; rarely changes, so it is cached for minutes
+ */
+export function usePools(network: Network) {
+  return useQuery({
+    queryKey: deepbookKeys.pools(network),
+    queryFn: ({ signal }) => getAllPools(network, { signal }),
+    staleTime: POOLS_STALE_MS,
+  });
+}
+
+export function useOrderBook(poolName: string | null | undefined, network: Network, { depth = 30 }: { depth?: number } = {}) {
+  const streaming = useStreamStatus(poolName, network) === 'live';
+  return useQuery({
+    queryKey: deepbookKeys.orderBook(network, poolName ?? '', depth),
+    queryFn: ({ signal }) => getOrderBook(poolName!, network, 2, depth, { signal }),
+    enabled: !!poolName,
+    refetchInterval: streaming ? false : ORDER_BOOK_REFETCH_MS,
+  });
+}
+
+/**
+ * Recent trades, most recent first
+ */
+export function useTrades(poolName: string | null | undefined, network: Network, { limit = 50 }: { limit?: number } = {}) {
+  const streaming = useStreamStatus(poolName, network) === 'live';
+  return useQuery({
+    queryKey: deepbookKeys.trades(network, poolName ?? '', limit),
+    queryFn: ({ signal }) => getRecentTrades(poolName!, network, limit, undefined, undefined, { signal }),
+    enabled: !!poolName,
+    refetchInterval: streaming ? false : TRADES_REFETCH_MS,
+  });
+}
+
+/**
+ * The latest `limit` candles. The previous interval's candles stay visible while a new one loads.
+ */
+export function useCandles(
+  poolName: string | null | undefined,
+  interval: CandleInterval,
+  network: Network,
+  { limit = 500 }: { limit?: number } = {}
+) {
+  return useQuery({
+    queryKey: deepbookKeys.candles(network, poolName ?? '', interval, limit),
+    queryFn: ({ signal }) => getOHLCVData(poolName!, interval, limit, undefined, undefined, network, { signal }),
+    enabled: !!poolName,
+    refetchInterval: CANDLES_REFETCH_MS,
+    placeholderData: keepPreviousData,
+  });
+}
+
+// =============== Streaming ===============
+
+/**
+ * Status of the pool's market stream; 'idle' unless something mounted useMarketStream for it
+ */
+export function useStreamStatus(poolName: string | null | undefined, network: Network): StreamStatus {
+  return useSyncExternalStore(watchStreamStatus, () => (poolName ? getStreamStatus(network, poolName) : 'idle'));
+}
+
+/**
+ * Stream the pool's book and trades into the query cache while mounted. Every cached book depth
+ * and trades limit of the pool is kept current, and their polling pauses while the stream is live.
+ */
+export function useMarketStream(pool: PoolInfo | null | undefined, network: Network): StreamStatus {
+  const client = useCurrentClient();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!pool) return;
+    const queryCache = queryClient.getQueryCache();
+    return getPoolMarketStream(client, pool, network).subscribe(({ book, trades }) => {
+      for (const query of queryCache.findAll({ queryKey: deepbookKeys.orderBooks(network, pool.poolName) })) {
+        // Match what the indexer returns for the key's depth: depth / 2 levels per side
+        const depth = query.queryKey[query.queryKey.length - 1] as number;
+        const levels = Math.floor(depth / 2);
+        queryClient.setQueryData<OrderBookData>(query.queryKey, {
+          bids: depth > 0 ? book.bids.slice(0, levels) : book.bids,
+          asks: depth > 0 ? book.asks.slice(0, levels) : book.asks,
+        });
+      }
+      if (trades.length === 0) return;
+      for (const query of queryCache.findAll({ queryKey: deepbookKeys.allTrades(network, pool.poolName) })) {
+        const limit = query.queryKey[query.queryKey.length - 1] as number;
+        queryClient.setQueryData<Trade[]>(query.queryKey, (previous = []) => [...trades, ...previous].slice(0, limit));
+      }
+    });
+  }, [client, queryClient, pool, network]);
+
+  return useStreamStatus(pool?.poolName, network);
+}
+
+// =============== Account ===============
+
+/**
+ * The connected account's BalanceManager ID, or null when it has none yet
+ */
+export function useBalanceManager(network: Network) {
+  const owner = useCurrentAccount()?.address;
+  const client = useCurrentClient();
+  return useQuery({
+    queryKey: deepbookKeys.balanceManager(network, owner ?? ''),
+    queryFn: () => getBalanceManager(client, owner!, network),
+    enabled: !!owner,
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Raw balances of `coinTypes` held in the BalanceManager, keyed by coin type
+ */
+export function useBalanceManagerBalances(
+  balanceManagerId: string | null | undefined,
+  coinTypes: string[],
+  network: Network
+) {
+  const owner = useCurrentAccount()?.address;
+  const client = useCurrentClient();
+  return useQuery({
+    queryKey: deepbookKeys.balances(network, owner ?? '', balanceManagerId ?? '', coinTypes),
+    queryFn: async () => {
+      const amounts = await Promise.all(
+        coinTypes.map((coinType) => getBalanceForCoin(client, owner!, balanceManagerId!, coinType, network))
+      );
+      return Object.fromEntries(coinTypes.map((coinType, i) => [coinType, amounts[i]])) as Record<string, bigint>;
+    },
+    enabled: !!owner && !!balanceManagerId && coinTypes.length > 0,
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * The BalanceManager's orders in one pool
+ */
+export function useOrders(poolName: string | null | undefined, balanceManagerId: string | null | undefined, network: Network) {
+  return useQuery({
+    queryKey: deepbookKeys.orders(network, poolName ?? '', balanceManagerId ?? ''),
+    queryFn: ({ signal }) => getOrders(poolName!, balanceManagerId!, network, { signal }),
+    enabled: !!poolName && !!balanceManagerId,
+    refetchInterval: ORDERS_REFETCH_MS,
+  });
+}
+
+// =============== Invalidation ===============
+
+/**
+ * Refresh what a transaction may have changed, once the indexer has caught up: the owner's
+ * BalanceManager data, and the pool's book, trades and orders when a pool is given.
+ */
+export function invalidateAfterTransaction(
+  queryClient: QueryClient,
+  { network, owner, poolName }: { network: Network; owner?: string; poolName?: string }
+): void {
+  setTimeout(() => {
+    if (owner) {
+      queryClient.invalidateQueries({ queryKey: deepbookKeys.account(network, owner) });
+    }
+    if (poolName) {
+      queryClient.invalidateQueries({ queryKey: deepbookKeys.pool(network, poolName) });
+    }
+  }, INDEXER_LAG_MS);
+}
+
+/**
+ * invalidateAfterTransaction bound to the current query client and account
+ */
+export function useInvalidateAfterTransaction(network: Network) {
+  const queryClient = useQueryClient();
+  const owner = useCurrentAccount()?.address;
+  return useCallback(
+    (poolName?: string) => invalidateAfterTransaction(queryClient, { network, owner, poolName }),
+    [queryClient, network, owner]
+  );
+}
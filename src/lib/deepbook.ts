@@ -1,18 +1,19 @@
 import { SuiGrpcClient } from '@mysten/sui/grpc';
 
+import { bcs } from '@mysten/sui/bcs';
 import { SuiJsonRpcClient } from '@mysten/sui/jsonRpc';
-import { Transaction, type TransactionArgument } from '@mysten/sui/transactions';
-import { DeepBookClient } from '@mysten/deepbook-v3';
-
-// DeepBook Indexer endpoints
-// Reference: https://docs.sui.io/standards/deepbookv3-indexer
-const INDEXER_URLS = {
-  mainnet: "https://deepbook-indexer.mainnet.mystenlabs.com",
-  testnet: "https://deepbook-indexer.testnet.mystenlabs.com",
-  devnet: "https://deepbook-indexer.devnet.mystenlabs.com",
-};
-
-const RPC_URLS = {
+import { Transaction, coinWithBalance, type TransactionArgument } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { DeepBookClient, mainnetCoins, testnetCoins, type CoinMap } from '@mysten/deepbook-v3';
+import {
+  DeepBookIndexer,
+  getIndexerUrl,
+  isIndexerError,
+  type CandleInterval,
+  type IndexerRequestOptions,
+} from './indexer';
+
+export const RPC_URLS = {
   mainnet: "https://fullnode.mainnet.sui.io:443",
   testnet: "https://fullnode.testnet.sui.io:443",
   devnet: "https://fullnode.devnet.sui.io:443",
@@ -27,12 +28,28 @@ export interface PoolInfo {
   minSize: number;
   lotSize: number;
   tickSize: number;
+  /** Full coin types (indexer base_asset_id / quote_asset_id) */
+  baseAssetType?: string;
+  quoteAssetType?: string;
 }
 
+/**
+ * Where a MarketPrice came from: the indexer's book, the pool object on chain, or (estimates only)
+ * the last trade or candle
+ */
+export type MarketPriceSource = 'orderbook' | 'onchain' | 'trades' | 'candles';
+
 export interface MarketPrice {
-  bestBidPrice: number;
-  bestAskPrice: number;
+  /** Null when that side of the book is empty */
+  bestBidPrice: number | null;
+  bestAskPrice: number | null;
+  /** Mid of best bid and ask; the only side's price for a one-sided book; else the last price */
   midPrice: number;
+  /** Unix milliseconds the price was observed at */
+  timestamp: number;
+  source: MarketPriceSource;
+  /** No two-sided book behind the price */
+  estimated: boolean;
 }
 
 export interface OrderBookLevel {
@@ -41,8 +58,11 @@ export interface OrderBookLevel {
 }
 
 export interface OrderBookData {
+  /** Best first */
   bids: OrderBookLevel[];
   asks: OrderBookLevel[];
+  /** Unix milliseconds of the snapshot, when the indexer reports it */
+  timestamp?: number;
 }
 
 export interface CandleData {
@@ -54,83 +74,156 @@ export interface CandleData {
   volume: number;
 }
 
+const indexers = new Map<string, DeepBookIndexer>();
+const indexerUrlOverrides = new Map<string, string>();
+
+/**
+ * Shared indexer client for the specified network
+ */
+export function getIndexer(network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'): DeepBookIndexer {
+  let indexer = indexers.get(network);
+  if (!indexer) {
+    indexer = new DeepBookIndexer(indexerUrlOverrides.get(network) ?? getIndexerUrl(network));
+    indexers.set(network, indexer);
+  }
+  return indexer;
+}
+
 /**
- * Get the indexer URL for the specified network
+ * Point a network's indexer reads at another base URL at runtime (e.g. a mock indexer in a test);
+ * null goes back to the configured URL (see getIndexerUrl)
  */
-function getIndexerUrl(network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'): string {
-  return INDEXER_URLS[network];
+export function setIndexerUrl(network: 'mainnet' | 'testnet' | 'devnet', url: string | null): void {
+  if (url) indexerUrlOverrides.set(network, url);
+  else indexerUrlOverrides.delete(network);
+  indexers.delete(network);
 }
 
+// The indexer reads below throw IndexerError (see lib/indexer.ts) when the indexer is unreachable,
+// rate limits, errors or answers in an unexpected shape, so an empty result always means no data.
+
 /**
  * Get all available pools from DeepBook Indexer
  * Reference: https://docs.sui.io/standards/deepbookv3-indexer
  */
-export async function getAllPools(network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'): Promise<PoolInfo[]> {
-  try {
-    const indexerUrl = getIndexerUrl(network);
-    const response = await fetch(`${indexerUrl}/get_pools`);
+export async function getAllPools(
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet',
+  options: IndexerRequestOptions = {}
+): Promise<PoolInfo[]> {
+  const pools = await getIndexer(network).getPools(options);
+  return pools.map((pool) => ({
+    poolId: pool.pool_id,
+    poolName: pool.pool_name,
+    baseCoin: pool.base_asset_symbol,
+    quoteCoin: pool.quote_asset_symbol,
+    baseAssetDecimals: pool.base_asset_decimals,
+    quoteAssetDecimals: pool.quote_asset_decimals,
+    minSize: pool.min_size,
+    lotSize: pool.lot_size,
+    tickSize: pool.tick_size,
+    baseAssetType: pool.base_asset_id,
+    quoteAssetType: pool.quote_asset_id,
+  }));
+}
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch pools: ${response.statusText}`);
-    }
+// =============== Market Price ===============
 
-    const pools = await response.json();
-    console.log("get pool:", pools);
-    // Transform the response to our PoolInfo format
-    return pools.map((pool: any) => ({
-      poolId: pool.pool_id,
-      poolName: pool.pool_name,
-      baseCoin: pool.base_asset_symbol,
-      quoteCoin: pool.quote_asset_symbol,
-      baseAssetDecimals: pool.base_asset_decimals,
-      quoteAssetDecimals: pool.quote_asset_decimals,
-      minSize: pool.min_size,
-      lotSize: pool.lot_size,
-      tickSize: pool.tick_size,
-    }));
-  } catch (error) {
-    console.error('Error fetching pools:', error);
-    return [];
-  }
+/**
+ * Price from a book's best bid and ask. A one-sided book is priced at its only side and marked
+ * estimated; an empty book has no price.
+ */
+export function priceFromOrderBook(
+  book: OrderBookData,
+  timestamp: number = book.timestamp ?? Date.now(),
+  source: 'orderbook' | 'onchain' = 'orderbook'
+): MarketPrice | null {
+  const bestBidPrice = book.bids[0]?.price ?? null;
+  const bestAskPrice = book.asks[0]?.price ?? null;
+  if (bestBidPrice === null && bestAskPrice === null) return null;
+  const twoSided = bestBidPrice !== null && bestAskPrice !== null;
+  return {
+    bestBidPrice,
+    bestAskPrice,
+    midPrice: twoSided ? (bestBidPrice + bestAskPrice) / 2 : (bestBidPrice ?? bestAskPrice)!,
+    timestamp,
+    source,
+    estimated: !twoSided,
+  };
+}
+
+/**
+ * Price estimate from the last trade or candle close, for a pool with an empty book
+ */
+export function estimatedPrice(lastPrice: number, timestamp: number, source: 'trades' | 'candles'): MarketPrice {
+  return { bestBidPrice: null, bestAskPrice: null, midPrice: lastPrice, timestamp, source, estimated: true };
 }
 
 /**
- * Get market price from the latest OHLCV data
- * Uses the most recent candle's close price as the current market price
+ * Current market price from the best bid and ask of the indexer's book. Falls back to the
+ * latest 1m candle close (estimated) when the book is empty; null when there are no candles either.
  */
 export async function getMarketPrice(
   poolName: string,
-  network: 'mainnet' | 'testnet' = 'mainnet'
+  network: 'mainnet' | 'testnet' = 'mainnet',
+  options: IndexerRequestOptions = {}
 ): Promise<MarketPrice | null> {
-  try {
-
-    // Get the latest 1-minute candle to get current price
-    const candles = await getOHLCVData(poolName, '1m', 1, undefined, undefined, network);
+  // depth counts both sides, so 2 is the best level of each
+  const book = await getOrderBook(poolName, network, 2, 2, options);
+  const fromBook = priceFromOrderBook(book);
+  if (fromBook) return fromBook;
 
-    if (!candles || candles.length === 0) {
-      console.warn('No candles returned for pool:', poolName);
-      return null;
-    }
-
-    const latestCandle = candles[candles.length - 1];
-    const currentPrice = latestCandle.close;
+  const candles = await getOHLCVData(poolName, '1m', 1, undefined, undefined, network, options);
+  if (candles.length === 0) {
+    return null;
+  }
+  const latest = candles[candles.length - 1];
+  return estimatedPrice(latest.close, latest.time * 1000, 'candles');
+}
 
-    console.log('Current price for', poolName, ':', currentPrice);
+/**
+ * Market price read from the pool object on chain via devInspect, without the indexer's lag.
+ * Reads the best level on each side with `pool::get_level2_ticks_from_mid`, the same orders
+ * `pool::mid_price` averages, except that it also answers for a one-sided book where
+ * `mid_price` aborts. Null when the book is empty.
+ */
+export async function getOnChainMarketPrice(
+  pool: PoolInfo,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<MarketPrice | null> {
+  if (!pool.baseAssetType || !pool.quoteAssetType) {
+    throw new Error(`Coin types of ${pool.poolName} are unknown`);
+  }
 
-    // Estimate bid/ask spread (typically 0.1% for liquid pairs)
-    const spread = currentPrice * 0.001;
-    const bestBid = currentPrice - spread / 2;
-    const bestAsk = currentPrice + spread / 2;
+  const tx = new Transaction();
+  tx.moveCall({
+    target: `${getDeepBookPackageId(network)}::pool::get_level2_ticks_from_mid`,
+    typeArguments: [pool.baseAssetType, pool.quoteAssetType],
+    arguments: [tx.object(pool.poolId), tx.pure.u64(1), tx.object.clock()],
+  });
 
-    return {
-      bestBidPrice: bestBid,
-      bestAskPrice: bestAsk,
-      midPrice: currentPrice,
-    };
-  } catch (error) {
-    console.error('Error fetching market price for', poolName, ':', error);
-    return null;
+  const jsonRpcClient = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+  const result = await jsonRpcClient.devInspectTransactionBlock({
+    transactionBlock: tx,
+    sender: normalizeSuiAddress('0x0'),
+  });
+  if (result.error) {
+    throw new Error(`Reading ${pool.poolName} on chain failed: ${result.error}`);
   }
+
+  // (bid prices, bid quantities, ask prices, ask quantities), raw u64s
+  const returnValues = result.results?.[0]?.returnValues ?? [];
+  const decode = (index: number) =>
+    returnValues[index] ? bcs.vector(bcs.u64()).parse(new Uint8Array(returnValues[index][0])).map(Number) : [];
+  const priceScale = 1e9 * Math.pow(10, pool.quoteAssetDecimals - pool.baseAssetDecimals);
+  const baseScale = Math.pow(10, pool.baseAssetDecimals);
+  const levels = (prices: number[], quantities: number[]) =>
+    prices.map((price, i) => ({ price: price / priceScale, quantity: (quantities[i] ?? 0) / baseScale }));
+
+  return priceFromOrderBook(
+    { bids: levels(decode(0), decode(1)), asks: levels(decode(2), decode(3)) },
+    Date.now(),
+    'onchain'
+  );
 }
 
 /**
@@ -143,83 +236,36 @@ export async function getMarketPrice(
  * @param startTime - Unix timestamp (seconds) - start of time range for pagination
  * @param endTime - Unix timestamp (seconds) - end of time range for pagination
  * @param network - Network to query (mainnet or testnet)
+ * @param options - AbortSignal for the request
  */
 export async function getOHLCVData(
   poolName: string,
-  interval: '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d' | '1w' = '1h',
+  interval: CandleInterval = '1h',
   limit: number = 100,
   startTime?: number,
   endTime?: number,
-  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet',
+  options: IndexerRequestOptions = {}
 ): Promise<CandleData[]> {
-  try {
-    const indexerUrl = getIndexerUrl(network);
-    const params = new URLSearchParams({
-      interval,
-      limit: limit.toString(),
-    });
-
-    // Add start_time parameter if provided (for pagination)
-    if (startTime !== undefined) {
-      params.append('start_time', startTime.toString());
-    }
-
-    // Add end_time parameter if provided (for pagination)
-    if (endTime !== undefined) {
-      params.append('end_time', endTime.toString());
-    }
-
-    const url = `${indexerUrl}/ohclv/${poolName}?${params.toString()}`;
-
-
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OHLCV fetch failed:', response.status, errorText);
-      throw new Error(`Failed to fetch OHLCV data: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-
-
-    // Transform the candles array to our CandleData format
-    // Format: [timestamp, open, high, low, close, volume]
-    // API returns Unix timestamps in seconds, but we need to ensure they're in seconds format
-    const candles = data.candles.map((candle: number[]) => {
-      // Convert timestamp to seconds if it's in milliseconds (13+ digits)
-      // Unix timestamps in seconds are typically 10 digits (before year 2286)
-      // Timestamps >= 10000000000 are likely milliseconds
-      const timestamp = candle[0];
-      const timestampSeconds = timestamp >= 10000000000
-        ? Math.floor(timestamp / 1000)
-        : timestamp;
-
-      return {
-        time: timestampSeconds,
-        open: candle[1],
-        high: candle[2],
-        low: candle[3],
-        close: candle[4],
-        volume: candle[5],
-      };
-    });
-
-    // Sort by time in ascending order (required by lightweight-charts)
-    candles.sort((a: CandleData, b: CandleData) => a.time - b.time);
-
-    return candles;
-  } catch (error) {
-    console.error('Error fetching OHLCV data for', poolName, ':', error);
-    return [];
-  }
-}
+  const data = await getIndexer(network).getCandles(poolName, { interval, limit, startTime, endTime }, options);
+
+  // Transform the candles array to our CandleData format
+  // Format: [timestamp, open, high, low, close, volume]
+  const candles = data.candles.map(([timestamp, open, high, low, close, volume]) => {
+    // Convert timestamp to seconds if it's in milliseconds (13+ digits)
+    // Unix timestamps in seconds are typically 10 digits (before year 2286)
+    // Timestamps >= 10000000000 are likely milliseconds
+    const timestampSeconds = timestamp >= 10000000000
+      ? Math.floor(timestamp / 1000)
+      : timestamp;
+
+    return { time: timestampSeconds, open, high, low, close, volume };
+  });
 
+  // Sort by time in ascending order (required by lightweight-charts)
+  candles.sort((a: CandleData, b: CandleData) => a.time - b.time);
 
-interface DeepBookOrderBookResponse {
-  bids: [string, string][]; // [price, quantity]
-  asks: [string, string][]; // [price, quantity]
-  timestamp: string;
+  return candles;
 }
 
 /**
@@ -228,50 +274,52 @@ interface DeepBookOrderBookResponse {
  * 
  * @param poolName - Pool name (e.g., "SUI_USDC")
  * @param level - Order book level (default: 2)
- * @param depth - Number of price levels to return (0 = all, default: 0)
+ * @param depth - Price levels across both sides, depth / 2 per side; at least 2 (0 = all, default: 30)
  * @param network - Network to query (mainnet or testnet)
+ * @param options - AbortSignal for the request
  */
 export async function getOrderBook(
   poolName: string,
   network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet',
   level: number = 2,
-  depth: number = 30
-): Promise<OrderBookData | null> {
-  try {
-    const indexerUrl = getIndexerUrl(network);
-    const params = new URLSearchParams({
-      level: level.toString(),
-      depth: depth.toString(),
-    });
-
-    const url = `${indexerUrl}/orderbook/${poolName}?${params.toString()}`;
-
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Order book fetch failed:', response.status, errorText);
-      throw new Error(`Failed to fetch order book: ${response.statusText}`);
-    }
-
-    const data: DeepBookOrderBookResponse = await response.json();
-
-    // Transform the order book data to our format
-    const bids: OrderBookLevel[] = data.bids.map(([price, quantity]) => ({
-      price: parseFloat(price),
-      quantity: parseFloat(quantity),
-    }));
+  depth: number = 30,
+  options: IndexerRequestOptions = {}
+): Promise<OrderBookData> {
+  const data = await getIndexer(network).getOrderBook(poolName, { level, depth }, options);
+
+  // Transform the order book data to our format
+  return {
+    bids: data.bids.map(([price, quantity]) => ({ price, quantity })),
+    asks: data.asks.map(([price, quantity]) => ({ price, quantity })),
+    timestamp: data.timestamp,
+  };
+}
 
-    const asks: OrderBookLevel[] = data.asks.map(([price, quantity]) => ({
-      price: parseFloat(price),
-      quantity: parseFloat(quantity),
-    }));
+export interface MarketFill {
+  /** Base quantity the book can fill, up to the requested quantity */
+  filled: number;
+  /** Quote paid (buy) or received (sell) for the filled quantity */
+  total: number;
+  averagePrice: number;
+}
 
-    return { bids, asks };
-  } catch (error) {
-    console.error('Error fetching order book:', error);
-    return null;
+/**
+ * Walk the book to estimate a market order: buys take the asks, sells hit the bids.
+ * Fees are not included.
+ */
+export function estimateMarketFill(book: OrderBookData, side: 'buy' | 'sell', quantity: number): MarketFill {
+  const levels = side === 'buy'
+    ? [...book.asks].sort((a, b) => a.price - b.price)
+    : [...book.bids].sort((a, b) => b.price - a.price);
+  let filled = 0;
+  let total = 0;
+  for (const level of levels) {
+    if (filled >= quantity) break;
+    const take = Math.min(level.quantity, quantity - filled);
+    filled += take;
+    total += take * level.price;
   }
+  return { filled, total, averagePrice: filled > 0 ? total / filled : 0 };
 }
 
 export interface Trade {
@@ -282,28 +330,6 @@ export interface Trade {
   side: 'buy' | 'sell';
 }
 
-interface DeepBookTradeResponse {
-  taker_fee: number;
-  maker_fee_is_deep: boolean;
-  taker_client_order_id: string;
-  digest: string;
-  base_volume: number;
-  taker_is_bid: boolean;
-  timestamp: number;
-  maker_order_id: string;
-  taker_fee_is_deep: boolean;
-  quote_volume: number;
-  type: string;
-  price: number;
-  maker_fee: number;
-  trade_id: string;
-  maker_client_order_id: string;
-  taker_balance_manager_id: string;
-  maker_balance_manager_id: string;
-  event_digest: string;
-  taker_order_id: string;
-}
-
 /**
  * Get recent trade history for a pool from DeepBook Indexer
  * Reference: https://docs.sui.io/standards/deepbookv3-indexer
@@ -313,60 +339,80 @@ interface DeepBookTradeResponse {
  * @param startTime - Unix timestamp in seconds (optional)
  * @param endTime - Unix timestamp in seconds (optional)
  * @param network - Network to query (mainnet or testnet)
+ * @param options - AbortSignal for the request
  */
 export async function getRecentTrades(
   poolName: string,
   network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet',
   limit: number = 50,
   startTime?: number,
-  endTime?: number
+  endTime?: number,
+  options: IndexerRequestOptions = {}
 ): Promise<Trade[]> {
-  try {
-    const indexerUrl = getIndexerUrl(network);
-    const params = new URLSearchParams();
-
-    if (limit) {
-      params.append('limit', limit.toString());
-    }
-
-    if (startTime !== undefined) {
-      params.append('start_time', startTime.toString());
-    }
-
-    if (endTime !== undefined) {
-      params.append('end_time', endTime.toString());
-    }
-
-    const url = `${indexerUrl}/trades/${poolName}${params.toString() ? `?${params.toString()}` : ''}`;
-
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Trades fetch failed:', response.status, errorText);
-      throw new Error(`Failed to fetch trades: ${response.statusText}`);
-    }
-
-    const data: DeepBookTradeResponse[] = await response.json();
+  const data = await getIndexer(network).getTrades(poolName, { limit: limit || undefined, startTime, endTime }, options);
+
+  // Sort by timestamp descending (most recent first) before transforming
+  data.sort((a, b) => b.timestamp - a.timestamp);
+
+  // Transform the trades to our Trade format
+  // Use taker_is_bid to determine side: true = buy, false = sell
+  return data.map((trade) => ({
+    id: trade.trade_id,
+    time: Math.floor(trade.timestamp / 1000), // Convert from milliseconds to seconds
+    price: trade.price,
+    size: trade.base_volume,
+    side: trade.taker_is_bid ? 'buy' : 'sell',
+  }));
+}
 
-    // Sort by timestamp descending (most recent first) before transforming
-    data.sort((a, b) => b.timestamp - a.timestamp);
+export interface Fill {
+  id: string;
+  /** Unix timestamp in milliseconds */
+  time: number;
+  price: number;
+  /** Base quantity */
+  size: number;
+  /** Side of the BalanceManager that the query was for */
+  side: 'buy' | 'sell';
+}
 
-    // Transform the trades to our Trade format
-    // Use taker_is_bid to determine side: true = buy, false = sell
-    const trades: Trade[] = data.map((trade) => ({
+/**
+ * Get the fills of one BalanceManager in a pool, as maker or taker, oldest first.
+ * Uses the indexer's maker_balance_manager_id / taker_balance_manager_id filters on /trades.
+ *
+ * @param poolName - Pool name (e.g., "SUI_USDC")
+ * @param balanceManagerId - BalanceManager ID
+ * @param network - Network to query
+ * @param limit - Trades to fetch per role (default: 500)
+ * @param options - AbortSignal for the requests
+ */
+export async function getBalanceManagerFills(
+  poolName: string,
+  balanceManagerId: string,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet',
+  limit: number = 500,
+  options: IndexerRequestOptions = {}
+): Promise<Fill[]> {
+  const indexer = getIndexer(network);
+  const [asMaker, asTaker] = await Promise.all([
+    indexer.getTrades(poolName, { limit, makerBalanceManagerId: balanceManagerId }, options),
+    indexer.getTrades(poolName, { limit, takerBalanceManagerId: balanceManagerId }, options),
+  ]);
+
+  const fills = new Map<string, Fill>();
+  for (const trade of [...asMaker, ...asTaker]) {
+    const isTaker = trade.taker_balance_manager_id === balanceManagerId;
+    // The maker sits on the other side of the taker
+    const isBuy = isTaker ? trade.taker_is_bid : !trade.taker_is_bid;
+    fills.set(trade.trade_id, {
       id: trade.trade_id,
-      time: Math.floor(trade.timestamp / 1000), // Convert from milliseconds to seconds
+      time: trade.timestamp,
       price: trade.price,
       size: trade.base_volume,
-      side: trade.taker_is_bid ? 'buy' : 'sell',
-    }));
-
-    return trades;
-  } catch (error) {
-    console.error('Error fetching recent trades:', error);
-    return [];
+      side: isBuy ? 'buy' : 'sell',
+    });
   }
+  return Array.from(fills.values()).sort((a, b) => a.time - b.time);
 }
 
 // =============== BalanceManager Functions ===============
@@ -558,6 +604,41 @@ export async function getBalanceForCoin(
 
 // =============== Order Placement Functions ===============
 
+/**
+ * Coin config for the DeepBook SDK. The SDK only knows its built-in coins by symbol, so pools whose
+ * coins are not in that list (e.g. option tokens) are registered from the indexer's coin types.
+ */
+function getDeepBookCoins(poolInfo: PoolInfo, network: 'mainnet' | 'testnet'): CoinMap {
+  const coins: CoinMap = { ...(network === 'mainnet' ? mainnetCoins : testnetCoins) };
+  const register = (symbol: string, type: string | undefined, decimals: number) => {
+    if (coins[symbol] || !type) return;
+    coins[symbol] = { address: type.split('::')[0], type, scalar: Math.pow(10, decimals) };
+  };
+  register(poolInfo.baseCoin, poolInfo.baseAssetType, poolInfo.baseAssetDecimals);
+  register(poolInfo.quoteCoin, poolInfo.quoteAssetType, poolInfo.quoteAssetDecimals);
+  return coins;
+}
+
+/**
+ * Deposit into the sender's BalanceManager: either `funds` raw units taken from the wallet, or a
+ * coin produced earlier in the same transaction (e.g. freshly minted option tokens).
+ * Wallet coins are selected and merged at build time, so the transaction sender must be set.
+ */
+export function depositIntoBalanceManager(
+  tx: Transaction,
+  balanceManagerId: string,
+  coinType: string,
+  funds: bigint | TransactionArgument,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): void {
+  const coin = typeof funds === 'bigint' ? coinWithBalance({ type: coinType, balance: funds }) : funds;
+  tx.moveCall({
+    target: `${getDeepBookPackageId(network)}::balance_manager::deposit`,
+    typeArguments: [coinType],
+    arguments: [tx.object(balanceManagerId), coin],
+  });
+}
+
 /**
  * Place a limit order using DeepBook SDK
  * @param tx - Transaction object to add the order to
@@ -586,11 +667,12 @@ export function placeLimitOrder(
   try {
     // Initialize DeepBookClient with the client and user address
     // Map devnet to testnet since DeepBook SDK may not support devnet directly
-
+    const sdkNetwork = network === 'devnet' ? 'testnet' : network;
     const deepBookClient = new DeepBookClient({
       client,
       address: userAddress,
-      network: network,
+      network: sdkNetwork,
+      coins: getDeepBookCoins(poolInfo, sdkNetwork),
       // Register pool and balance manager using their IDs as keys
       pools: {
         [poolInfo.poolId]: {
@@ -667,6 +749,7 @@ export function placeMarketOrder(
       client,
       address: userAddress,
       network: sdkNetwork,
+      coins: getDeepBookCoins(poolInfo, sdkNetwork),
       // Register pool and balance manager using their IDs as keys
       pools: {
         [poolInfo.poolId]: {
@@ -736,76 +819,63 @@ export interface Order {
  * @param poolName - Pool name (e.g., "SUI_USDC")
  * @param balanceManagerId - BalanceManager ID
  * @param network - Network to query (mainnet or testnet)
- * @param limit - Number of orders to return (default: 100)
- * @param status - Order status filter (e.g., "open", "filled", "canceled")
+ * @param options - AbortSignal for the request
  */
 export async function getOrders(
   poolName: string,
   balanceManagerId: string,
   network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet',
+  options: IndexerRequestOptions = {}
 ): Promise<Order[]> {
+  let data;
   try {
-    const indexerUrl = getIndexerUrl(network);
-
-
-
-    const url = `${indexerUrl}/orders/${poolName}/${balanceManagerId}`;
-    console.log("url:", url);
-    const response = await fetch(url);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Orders fetch failed:', response.status, errorText);
-      // Return empty array if no orders found (404) rather than throwing
-      if (response.status === 404) {
-        return [];
-      }
-      throw new Error(`Failed to fetch orders: ${response.statusText}`);
+    data = await getIndexer(network).getOrders(poolName, balanceManagerId, options);
+  } catch (error) {
+    // The indexer answers 404 when the BalanceManager has no orders in the pool
+    if (isIndexerError(error, 'http') && error.detail.kind === 'http' && error.detail.status === 404) {
+      return [];
     }
+    throw error;
+  }
 
-    const data: any[] = await response.json();
-    console.log("orders:", data);
-    // Transform the orders to our Order format
-    const orders: Order[] = data.map((order: any) => {
-      // Handle timestamp conversion (API may return seconds or milliseconds)
-      let timestamp = order.timestamp || order.created_at || Date.now();
-      // If timestamp is in seconds (less than 13 digits), convert to milliseconds
-      if (timestamp < 1000000000000) {
-        timestamp = timestamp * 1000;
-      }
+  // Transform the orders to our Order format
+  return data.map((order) => {
+    // Handle timestamp conversion (API may return seconds or milliseconds)
+    let timestamp = order.timestamp ?? order.created_at ?? order.placed_at ?? order.last_updated_at ?? Date.now();
+    // If timestamp is in seconds (less than 13 digits), convert to milliseconds
+    if (timestamp < 1000000000000) {
+      timestamp = timestamp * 1000;
+    }
 
-      // Determine side from multiple possible fields
-      let side: 'buy' | 'sell' = 'sell';
-      if (order.is_bid !== undefined) {
-        side = order.is_bid ? 'buy' : 'sell';
-      } else if (order.type) {
-        side = order.type.toLowerCase() === 'buy' ? 'buy' : 'sell';
-      } else if (order.side) {
-        side = order.side.toLowerCase() === 'buy' ? 'buy' : 'sell';
-      }
+    // Determine side from multiple possible fields
+    let side: 'buy' | 'sell' = 'sell';
+    if (order.is_bid !== undefined) {
+      side = order.is_bid ? 'buy' : 'sell';
+    } else if (order.type) {
+      side = order.type.toLowerCase() === 'buy' ? 'buy' : 'sell';
+    } else if (order.side) {
+      side = order.side.toLowerCase() === 'buy' ? 'buy' : 'sell';
+    }
 
-      return {
-        order_id: order.order_id || order.orderId,
-        pool_name: order.pool_name || order.poolName,
-        balance_manager_id: order.balance_manager_id || order.balanceManagerId,
-        client_order_id: order.client_order_id || order.clientOrderId,
-        order_type: order.order_type || order.orderType || 'limit',
-        side,
-        price: parseFloat(order.price || '0'),
-        quantity: parseFloat(order.quantity || order.base_asset_quantity || order.original_quantity || '0'),
-        filled_quantity: parseFloat(order.filled_quantity || order.filledQuantity || '0'),
-        remaining_quantity: parseFloat(order.remaining_quantity || order.remainingQuantity || order.quantity - (order.filled_quantity || order.filledQuantity || 0)),
-        status: order.status || order.current_status || 'open',
-        timestamp: timestamp || order.placed_at || order.last_updated_at || Date.now(),
-        is_bid: side === 'buy',
-      };
-    });
+    const quantity = order.quantity ?? order.original_quantity ?? order.base_asset_quantity ?? 0;
+    const filledQuantity = order.filled_quantity ?? 0;
 
-    return orders;
-  } catch (error) {
-    console.error('Error fetching orders:', error);
-    return [];
-  }
+    return {
+      order_id: order.order_id,
+      pool_name: order.pool_name ?? poolName,
+      balance_manager_id: order.balance_manager_id ?? balanceManagerId,
+      client_order_id: order.client_order_id ?? '',
+      order_type: order.order_type ?? 'limit',
+      side,
+      price: order.price ?? 0,
+      quantity,
+      filled_quantity: filledQuantity,
+      remaining_quantity: order.remaining_quantity ?? quantity - filledQuantity,
+      status: order.status ?? order.current_status ?? 'open',
+      timestamp,
+      is_bid: side === 'buy',
+    };
+  });
 }
 
 /**
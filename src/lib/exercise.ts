@@ -0,0 +1,357 @@
+import { bcs } from '@mysten/sui/bcs';
+import type { Signer } from '@mysten/sui/cryptography';
+import { SuiJsonRpcClient } from '@mysten/sui/jsonRpc';
+import { Transaction, coinWithBalance } from '@mysten/sui/transactions';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { RPC_URLS, estimateMarketFill, type OrderBookData } from './deepbook';
+import { PRICE_DECIMALS, type OptionPool } from './options';
+import { claimWithOptions, exerciseOptions, getCurrentPrice, settlePool, updatePrice } from './varuna';
+
+/**
+ * Pre-exercise simulation: devInspect update_price + exercise with the holder's coins to see
+ * whether the exercise would go through, what it pays out and costs, and whether selling the
+ * tokens on DeepBook would return more than exercising.
+ *
+ * decideAutoExercise / executeExercise reuse the simulation for the headless auto-exercise
+ * service (scripts/auto-exercise.ts).
+ */
+
+export interface ExerciseQuote {
+  /** Options exercised (raw option token units) */
+  amount: bigint;
+  /** Oracle price right after update_price; null if the update itself fails */
+  oraclePrice: number | null;
+  /** Coin returned by exercise (raw BaseAsset for CALL, QuoteAsset for PUT); null if it aborts */
+  payout: bigint | null;
+  /** Coin paid in (raw QuoteAsset for CALL, BaseAsset for PUT) */
+  payment: bigint;
+  /** Payout minus payment at the oracle price, in quote */
+  intrinsicValue: number | null;
+  /** Quote received for selling the same amount into the option token's DeepBook bids */
+  marketValue: number | null;
+  /** Options the bids can absorb, up to the amount */
+  marketFilled: number;
+  /** Net gas of the simulated exercise (MIST) */
+  gasCost: bigint | null;
+  /** Why the exercise would fail, if it would */
+  error: string | null;
+  /** blocked: would abort; sell: DeepBook pays more than exercising */
+  verdict: 'exercise' | 'sell' | 'blocked';
+}
+
+export interface AutoExercisePolicy {
+  /** Exercise once expiry is this close (ms) */
+  windowMs: number;
+  /** Skip positions whose intrinsic value (quote) doesn't beat this, e.g. to cover gas */
+  minIntrinsicValue: number;
+}
+
+export interface AutoExerciseDecision {
+  option: OptionPool;
+  /** Option tokens held (raw) */
+  balance: bigint;
+  action: 'exercise' | 'skip';
+  reason: string;
+  quote?: ExerciseQuote;
+}
+
+/** options_pool abort codes (see "Error Codes Reference" in the README) */
+const OPTIONS_POOL_ERRORS: Record<number, string> = {
+  0: 'Pool has not expired yet',
+  1: 'Pool has expired',
+  2: 'Pool already settled',
+  3: 'Not enough collateral or payment',
+  4: 'Option is out of the money at the oracle price',
+  5: 'Wrong option type',
+  6: 'Amount must be greater than zero',
+  7: 'Oracle price not set',
+  8: 'Strike price must be positive',
+  9: 'Expiration must be in the future',
+  10: "Owner token doesn't match the pool",
+  11: 'Oracle price is older than 5 minutes',
+  12: 'Operation not authorized',
+  13: 'TreasuryCap has pre-minted tokens',
+};
+
+/** std::option EOPTION_NOT_SET */
+const OPTION_NOT_SET = 0x40001;
+
+// =============== Amounts ===============
+
+/** strike * amount in raw QuoteAsset: what a CALL pays in and a PUT pays out */
+function strikeValue(strikePrice: number, amount: bigint): bigint {
+  const strikeRaw = BigInt(Math.floor(strikePrice * PRICE_DECIMALS));
+  return (strikeRaw * amount) / BigInt(PRICE_DECIMALS);
+}
+
+/**
+ * Raw counter asset an exercise takes: strike * amount in QuoteAsset for CALL,
+ * `amount` BaseAsset for PUT (mirrors exercise_call_options / exercise_put_options)
+ */
+export function exercisePayment(option: Pick<OptionPool, 'type' | 'strikePrice'>, amount: bigint): bigint {
+  return option.type === 'CALL' ? strikeValue(option.strikePrice, amount) : amount;
+}
+
+/**
+ * Turn a devInspect / execution error into a readable reason. options_pool aborts are mapped to
+ * their description; anything else (e.g. insufficient balance while building) is returned as is.
+ */
+export function describeExerciseError(error: string): string {
+  const abort = /MoveAbort\(.*?Identifier\("(\w+)"\).*?,\s*(\d+)\)/.exec(error);
+  if (abort && abort[1] === 'options_pool') {
+    return OPTIONS_POOL_ERRORS[Number(abort[2])] ?? `options_pool abort ${abort[2]}`;
+  }
+  // option::borrow on a none: the claim_* functions reading a settlement price settle_pool never
+  // recorded (packages published before settle_pool set it)
+  if (abort && abort[1] === 'option' && abort[2] === String(OPTION_NOT_SET)) {
+    return 'Pool was settled without a settlement price, so its claims cannot go through';
+  }
+  return error;
+}
+
+// =============== Build & Simulate ===============
+
+/**
+ * Refresh the oracle price and exercise `amount` options with coins from the owner's wallet.
+ * The payout goes to the owner. The payment comes from the wallet's coins of the counter asset
+ * (split from gas when that is SUI).
+ */
+export function buildExercise(
+  tx: Transaction,
+  option: OptionPool,
+  amount: bigint,
+  { owner, deepbookPoolId }: { owner: string; deepbookPoolId: string }
+): void {
+  // Exercise aborts on a price older than 5 minutes, so refresh it in the same transaction
+  updatePrice(tx, option, deepbookPoolId);
+  const optionCoin = coinWithBalance({ type: option.optionTokenType, balance: amount });
+  const counterAsset = coinWithBalance({
+    type: option.type === 'CALL' ? option.quoteAssetType : option.baseAssetType,
+    balance: exercisePayment(option, amount),
+  });
+  const [payout] = exerciseOptions(tx, option, optionCoin, counterAsset);
+  tx.transferObjects([payout], owner);
+}
+
+/**
+ * Claim with `amount` in-the-money options after expiry, settling the pool first when
+ * `deepbookPoolId` is given. Pays the same counter asset as an exercise (claim_with_call_options /
+ * claim_with_put_options); the payout goes to the owner.
+ */
+export function buildClaimWithOptions(
+  tx: Transaction,
+  option: OptionPool,
+  amount: bigint,
+  { owner, settleWith }: { owner: string; settleWith?: string }
+): void {
+  if (settleWith) {
+    settlePool(tx, option, settleWith);
+  }
+  const optionCoin = coinWithBalance({ type: option.optionTokenType, balance: amount });
+  const counterAsset = coinWithBalance({
+    type: option.type === 'CALL' ? option.quoteAssetType : option.baseAssetType,
+    balance: exercisePayment(option, amount),
+  });
+  const [payout] = claimWithOptions(tx, option, optionCoin, counterAsset);
+  tx.transferObjects([payout], owner);
+}
+
+/**
+ * devInspect a copy of a settle/claim transaction for `sender` before the wallet is asked to sign
+ * it. Returns why it would abort, or null when it would go through.
+ */
+export async function simulateClaim(
+  tx: Transaction,
+  sender: string,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<string | null> {
+  const client = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+  try {
+    const result = await client.devInspectTransactionBlock({ transactionBlock: Transaction.from(tx), sender });
+    return result.error ? describeExerciseError(result.error) : null;
+  } catch (error) {
+    return describeExerciseError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Simulate an exercise for `sender`. Two devInspects run side by side: update_price +
+ * get_current_price for the oracle price (works without coins), and the full exercise for the
+ * payout. Pass the option token's order book to compare against selling on DeepBook.
+ */
+export async function simulateExercise(
+  option: OptionPool,
+  amount: bigint,
+  {
+    sender,
+    deepbookPoolId,
+    book = null,
+  }: { sender: string; deepbookPoolId: string; book?: OrderBookData | null },
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<ExerciseQuote> {
+  const client = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+  const payment = exercisePayment(option, amount);
+
+  const priceTx = new Transaction();
+  updatePrice(priceTx, option, deepbookPoolId);
+  getCurrentPrice(priceTx, option);
+
+  const exerciseTx = new Transaction();
+  exerciseTx.setSender(sender);
+  buildExercise(exerciseTx, option, amount, { owner: sender, deepbookPoolId });
+
+  const [priceResult, exerciseResult] = await Promise.all([
+    client.devInspectTransactionBlock({ transactionBlock: priceTx, sender }).catch(() => null),
+    client.devInspectTransactionBlock({ transactionBlock: exerciseTx, sender }).catch((error: unknown) => ({
+      error: error instanceof Error ? error.message : String(error),
+      results: undefined,
+      effects: undefined,
+    })),
+  ]);
+
+  let oraclePrice: number | null = null;
+  const priceValue = priceResult?.error ? undefined : priceResult?.results?.[1]?.returnValues?.[0];
+  if (priceValue) {
+    const raw = bcs.option(bcs.u64()).parse(new Uint8Array(priceValue[0]));
+    oraclePrice = raw !== null ? Number(raw) / PRICE_DECIMALS : null;
+  }
+
+  // Coin intents expand into extra commands, so find exercise's result by the payout coin type
+  let payout: bigint | null = null;
+  const payoutType = normalizeStructTag(`0x2::coin::Coin<${option.type === 'CALL' ? option.baseAssetType : option.quoteAssetType}>`);
+  if (!exerciseResult.error) {
+    for (const command of exerciseResult.results ?? []) {
+      const value = command.returnValues?.find(([, type]) => normalizeStructTag(type) === payoutType);
+      if (value) {
+        // Coin { id: UID (32 bytes), balance: u64 }
+        payout = BigInt(bcs.u64().parse(new Uint8Array(value[0].slice(32))));
+        break;
+      }
+    }
+  }
+
+  const gasUsed = exerciseResult.effects?.gasUsed;
+  const gasCost = gasUsed
+    ? BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate)
+    : null;
+
+  // The pool exchanges option tokens 1:1 with raw BaseAsset units, so the base leg is scaled by the
+  // base decimals and only the option count by the option token's
+  const optionScale = Math.pow(10, option.optionTokenDecimals ?? 9);
+  const baseScale = Math.pow(10, option.baseAssetDecimals ?? 9);
+  const quoteScale = Math.pow(10, option.quoteAssetDecimals ?? 9);
+  const options = Number(amount) / optionScale;
+  const baseAmount = Number(amount) / baseScale;
+  let intrinsicValue: number | null = null;
+  if (oraclePrice !== null) {
+    intrinsicValue = option.type === 'CALL'
+      ? baseAmount * oraclePrice - Number(payment) / quoteScale
+      : Number(payout ?? strikeValue(option.strikePrice, amount)) / quoteScale - baseAmount * oraclePrice;
+  }
+
+  const fill = book ? estimateMarketFill(book, 'sell', options) : null;
+  const marketValue = fill && fill.filled > 0 ? fill.total : null;
+  const marketFilled = fill?.filled ?? 0;
+
+  const error = exerciseResult.error ? describeExerciseError(exerciseResult.error) : null;
+  let verdict: ExerciseQuote['verdict'] = 'exercise';
+  if (error) {
+    verdict = 'blocked';
+  } else if (marketValue !== null && marketFilled >= options && marketValue > (intrinsicValue ?? 0)) {
+    verdict = 'sell';
+  }
+
+  return {
+    amount,
+    oraclePrice,
+    payout,
+    payment,
+    intrinsicValue,
+    marketValue,
+    marketFilled,
+    gasCost,
+    error,
+    verdict,
+  };
+}
+
+// =============== Auto-Exercise ===============
+
+/**
+ * Whether a held position is due for auto-exercise, before any simulation: it must be inside
+ * the window before expiry and not expired yet (the pool refuses exercise from expiry on).
+ * Returns the reason to skip, or null if the position should be simulated.
+ */
+export function autoExerciseSkipReason(
+  option: OptionPool,
+  balance: bigint,
+  policy: AutoExercisePolicy,
+  now = Date.now()
+): string | null {
+  if (balance <= 0n) return 'no balance';
+  if (now >= option.expirationDate) return 'expired';
+  const msLeft = option.expirationDate - now;
+  if (msLeft > policy.windowMs) return `outside window (${Math.round(msLeft / 60_000)} min to expiry)`;
+  if (!option.deepbookPoolId) return 'no DeepBook oracle pool';
+  return null;
+}
+
+/**
+ * Decide on one held position: skip it by window/balance, otherwise simulate exercising the whole
+ * balance and exercise only if it would succeed with enough intrinsic value
+ */
+export async function decideAutoExercise(
+  option: OptionPool,
+  balance: bigint,
+  owner: string,
+  policy: AutoExercisePolicy,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<AutoExerciseDecision> {
+  const skip = autoExerciseSkipReason(option, balance, policy);
+  if (skip || !option.deepbookPoolId) {
+    return { option, balance, action: 'skip', reason: skip ?? 'no DeepBook oracle pool' };
+  }
+
+  const quote = await simulateExercise(option, balance, { sender: owner, deepbookPoolId: option.deepbookPoolId }, network);
+  if (quote.error) {
+    return { option, balance, action: 'skip', reason: quote.error, quote };
+  }
+  if (quote.intrinsicValue === null || quote.intrinsicValue <= policy.minIntrinsicValue) {
+    return {
+      option,
+      balance,
+      action: 'skip',
+      reason: `intrinsic value ${quote.intrinsicValue ?? 'unknown'} below ${policy.minIntrinsicValue}`,
+      quote,
+    };
+  }
+  return { option, balance, action: 'exercise', reason: `in the money by ${quote.intrinsicValue}`, quote };
+}
+
+/**
+ * Sign and execute an exercise of `amount` options for the signer; returns the digest
+ */
+export async function executeExercise(
+  option: OptionPool,
+  amount: bigint,
+  signer: Signer,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<string> {
+  if (!option.deepbookPoolId) {
+    throw new Error(`No DeepBook oracle pool for ${option.name}`);
+  }
+  const client = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+  const owner = signer.toSuiAddress();
+  const tx = new Transaction();
+  tx.setSender(owner);
+  buildExercise(tx, option, amount, { owner, deepbookPoolId: option.deepbookPoolId });
+  const result = await client.signAndExecuteTransaction({
+    transaction: tx,
+    signer,
+    options: { showEffects: true },
+  });
+  if (result.effects?.status.status !== 'success') {
+    throw new Error(describeExerciseError(result.effects?.status.error ?? 'Transaction failed'));
+  }
+  return result.digest;
+}
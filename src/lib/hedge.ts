@@ -0,0 +1,158 @@
+import { normalizeStructTag } from '@mysten/sui/utils';
+import type { OptionPool } from './options';
+import { strategyPnlAtExpiry, type StrategyLeg } from './strategy';
+
+/**
+ * Hedges for spot holders: a protective put under the holding, optionally financed by a covered
+ * call above it (a collar). Suggestions are plain strategy legs, so pricing and execution go
+ * through lib/strategy.ts (one transaction, writes first, then buys).
+ *
+ * P&L here is for the hedged position: the covered part of the holding marked from spot, plus
+ * the options. The short call is covered by that same holding, so its collateral isn't counted
+ * twice. Values are in quote units.
+ */
+
+export type HedgeKind = 'protective-put' | 'collar';
+
+export interface HedgeParams {
+  kind: HedgeKind;
+  /** Underlying held (human units) */
+  holding: number;
+  /** Share of the holding to protect (0-1] */
+  coverage: number;
+  /** Put strike as a fraction of spot, e.g. 0.9 protects below -10% */
+  floor: number;
+  /** Call strike as a fraction of spot for collars, e.g. 1.15 */
+  cap: number;
+  /** Expiry to use; the nearest with puts when omitted */
+  expiry?: number;
+  /** Options market lot (human units); quantities are rounded down to it */
+  lot?: number;
+}
+
+export interface HedgeSuggestion {
+  put: OptionPool;
+  /** Null for protective puts, or when no call above spot exists at the expiry */
+  call: OptionPool | null;
+  expiry: number;
+  /** Options per leg (human units), covering this much of the holding */
+  quantity: number;
+  legs: StrategyLeg[];
+}
+
+export interface HedgeSummary {
+  /** Premium paid minus premium received */
+  netCost: number;
+  /** Net cost over the covered notional at spot */
+  costPercent: number;
+  floorPrice: number;
+  capPrice: number | null;
+  /** Worst loss at expiry on the covered holding, hedge cost included */
+  maxLoss: number;
+  /** Best gain at expiry; Infinity without a cap */
+  maxGain: number;
+}
+
+// =============== Discovery ===============
+
+/**
+ * Live options on the given underlying. Matches on coin type when the spot pool reports one, on
+ * the symbol otherwise.
+ */
+export function findHedgeOptions(
+  options: OptionPool[],
+  underlying: { type?: string; symbol: string },
+  now = Date.now()
+): OptionPool[] {
+  const type = underlying.type ? normalizeStructTag(underlying.type) : null;
+  return options.filter(
+    (o) =>
+      o.expirationDate > now &&
+      (type ? normalizeStructTag(o.baseAssetType) === type : o.baseAsset === underlying.symbol)
+  );
+}
+
+/**
+ * Expiries that list at least one put, soonest first
+ */
+export function hedgeExpiries(options: OptionPool[]): number[] {
+  return Array.from(new Set(options.filter((o) => o.type === 'PUT').map((o) => o.expirationDate))).sort(
+    (a, b) => a - b
+  );
+}
+
+function closestStrike(options: OptionPool[], target: number): OptionPool | null {
+  return options.reduce<OptionPool | null>(
+    (best, o) =>
+      best === null || Math.abs(o.strikePrice - target) < Math.abs(best.strikePrice - target) ? o : best,
+    null
+  );
+}
+
+/**
+ * Pick the put (and for collars the call) closest to the requested floor and cap, and size them
+ * to the covered share of the holding. Returns null when the expiry has no put.
+ */
+export function suggestHedge(options: OptionPool[], spot: number, params: HedgeParams): HedgeSuggestion | null {
+  const expiry = params.expiry ?? hedgeExpiries(options)[0];
+  if (expiry === undefined || spot <= 0) return null;
+  const series = options.filter((o) => o.expirationDate === expiry);
+
+  const puts = series.filter((o) => o.type === 'PUT');
+  const protective = puts.filter((o) => o.strikePrice <= spot);
+  const put = closestStrike(protective.length > 0 ? protective : puts, spot * params.floor);
+  if (!put) return null;
+
+  const call = params.kind === 'collar'
+    ? closestStrike(
+      series.filter((o) => o.type === 'CALL' && o.quoteAssetType === put.quoteAssetType && o.strikePrice > spot),
+      spot * params.cap
+    )
+    : null;
+
+  const coverage = Math.min(Math.max(params.coverage, 0), 1);
+  let quantity = params.holding * coverage;
+  if (params.lot && params.lot > 0) {
+    quantity = Math.floor(quantity / params.lot + 1e-9) * params.lot;
+  }
+  const decimals = put.optionTokenDecimals ?? 9;
+  quantity = Math.floor(quantity * Math.pow(10, decimals)) / Math.pow(10, decimals);
+
+  const legs: StrategyLeg[] = [{ option: put, action: 'buy', quantity, premium: 0 }];
+  if (call) legs.push({ option: call, action: 'sell', quantity, premium: 0 });
+  return { put, call, expiry, quantity, legs };
+}
+
+// =============== Payoff ===============
+
+/**
+ * P&L at expiry of `quantity` of the underlying bought at `spot` plus the hedge legs
+ */
+export function hedgedPnlAtExpiry(legs: StrategyLeg[], quantity: number, spot: number, price: number): number {
+  return quantity * (price - spot) + strategyPnlAtExpiry(legs, spot, price);
+}
+
+/**
+ * Cost, floor, cap and worst/best case at expiry of the hedged holding. Like summarizeStrategy,
+ * the payoff is piecewise linear with kinks at the strikes.
+ */
+export function summarizeHedge(legs: StrategyLeg[], quantity: number, spot: number): HedgeSummary {
+  const netCost = legs.reduce((sum, leg) => sum + (leg.action === 'buy' ? 1 : -1) * leg.premium * leg.quantity, 0);
+  const put = legs.find((leg) => leg.option.type === 'PUT' && leg.action === 'buy');
+  const call = legs.find((leg) => leg.option.type === 'CALL' && leg.action === 'sell');
+
+  const kinks = [0, ...legs.map((leg) => leg.option.strikePrice)].sort((a, b) => a - b);
+  const values = kinks.map((price) => hedgedPnlAtExpiry(legs, quantity, spot, price));
+  const top = kinks[kinks.length - 1];
+  const slopeAbove = hedgedPnlAtExpiry(legs, quantity, spot, top + 1) - values[values.length - 1];
+  const notional = quantity * spot;
+
+  return {
+    netCost,
+    costPercent: notional > 0 ? netCost / notional : 0,
+    floorPrice: put?.option.strikePrice ?? 0,
+    capPrice: call?.option.strikePrice ?? null,
+    maxLoss: Math.max(0, -Math.min(...values)),
+    maxGain: slopeAbove > 1e-9 ? Infinity : Math.max(...values),
+  };
+}
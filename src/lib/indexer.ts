@@ -0,0 +1,470 @@
+/**
+ * DeepBook indexer client: typed, runtime-validated responses and structured errors.
+ *
+ * Responses are returned in the indexer's own (snake_case) shape once they pass their schema;
+ * lib/deepbook.ts maps them to the app's types. Failures are thrown as IndexerError, whose
+ * `detail.kind` tells a network failure, an HTTP error, a rate limit and an unexpected response
+ * apart. Network errors, 5xx and 429 are retried with exponential backoff (honoring Retry-After);
+ * every request takes an AbortSignal, and an aborted request rejects with the signal's reason
+ * rather than an IndexerError.
+ * Reference: https://docs.sui.io/standards/deepbookv3-indexer
+ */
+
+// DeepBook Indexer endpoints
+export const INDEXER_URLS = {
+  mainnet: 'https://deepbook-indexer.mainnet.mystenlabs.com',
+  testnet: 'https://deepbook-indexer.testnet.mystenlabs.com',
+  devnet: 'https://deepbook-indexer.devnet.mystenlabs.com',
+};
+
+/**
+ * Indexer base URL for a network. VITE_DEEPBOOK_INDEXER_URL (app) or DEEPBOOK_INDEXER_URL
+ * (scripts) points every network at another server, such as scripts/mock-indexer.ts; the same
+ * name with a _MAINNET / _TESTNET / _DEVNET suffix overrides a single network.
+ */
+export function getIndexerUrl(network: 'mainnet' | 'testnet' | 'devnet'): string {
+  const suffix = `_${network.toUpperCase()}`;
+  const viteEnv = import.meta.env as Record<string, string | undefined> | undefined;
+  const processEnv = typeof process !== 'undefined' ? process.env : undefined;
+  return (
+    viteEnv?.[`VITE_DEEPBOOK_INDEXER_URL${suffix}`] ||
+    viteEnv?.VITE_DEEPBOOK_INDEXER_URL ||
+    processEnv?.[`DEEPBOOK_INDEXER_URL${suffix}`] ||
+    processEnv?.DEEPBOOK_INDEXER_URL ||
+    INDEXER_URLS[network]
+  );
+}
+
+// =============== Errors ===============
+
+export type IndexerErrorDetail =
+  /** fetch itself failed: DNS, connection reset, CORS, offline */
+  | { kind: 'network'; cause: unknown }
+  /** Non-2xx status other than 429 */
+  | { kind: 'http'; status: number; body: string }
+  /** 429; `retryAfterMs` from the Retry-After header when present */
+  | { kind: 'rate-limit'; retryAfterMs: number | null }
+  /** The body is not JSON or does not match the expected schema at `path` */
+  | { kind: 'schema'; path: string; issue: string };
+
+export type IndexerErrorKind = IndexerErrorDetail['kind'];
+
+export class IndexerError extends Error {
+  readonly detail: IndexerErrorDetail;
+  readonly url: string;
+
+  constructor(detail: IndexerErrorDetail, url: string) {
+    super(describeIndexerError(detail, url));
+    this.name = 'IndexerError';
+    this.detail = detail;
+    this.url = url;
+  }
+
+  get kind(): IndexerErrorKind {
+    return this.detail.kind;
+  }
+}
+
+function describeIndexerError(detail: IndexerErrorDetail, url: string): string {
+  switch (detail.kind) {
+    case 'network':
+      return `Indexer unreachable (${url}): ${detail.cause instanceof Error ? detail.cause.message : String(detail.cause)}`;
+    case 'http':
+      return `Indexer returned HTTP ${detail.status} (${url})${detail.body ? `: ${detail.body.slice(0, 200)}` : ''}`;
+    case 'rate-limit':
+      return `Indexer rate limit hit (${url})`;
+    case 'schema':
+      return `Unexpected indexer response at ${detail.path} (${url}): ${detail.issue}`;
+  }
+}
+
+/**
+ * Whether `error` is an IndexerError, optionally of one kind
+ */
+export function isIndexerError(error: unknown, kind?: IndexerErrorKind): error is IndexerError {
+  return error instanceof IndexerError && (kind === undefined || error.kind === kind);
+}
+
+/**
+ * Whether `error` is the rejection of an aborted request, which callers usually ignore
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// =============== Schemas ===============
+
+/** Validates an unknown JSON value and returns it typed, or throws SchemaIssue */
+export type Schema<T> = (value: unknown, path: string) => T;
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+class SchemaIssue extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(message);
+    this.path = path;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function expected(path: string, what: string, value: unknown): never {
+  throw new SchemaIssue(path, `expected ${what}, got ${describeValue(value)}`);
+}
+
+const schema = {
+  string: ((value, path) => (typeof value === 'string' ? value : expected(path, 'string', value))) as Schema<string>,
+
+  number: ((value, path) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : expected(path, 'number', value)) as Schema<number>,
+
+  /** A number, or a numeric string (the order book sends prices as strings) */
+  numeric: ((value, path) => {
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : expected(path, 'numeric', value);
+  }) as Schema<number>,
+
+  /** Object IDs and u128 order IDs, which may arrive as strings or numbers */
+  id: ((value, path) =>
+    typeof value === 'string' || typeof value === 'number' ? String(value) : expected(path, 'ID', value)) as Schema<string>,
+
+  boolean: ((value, path) => (typeof value === 'boolean' ? value : expected(path, 'boolean', value))) as Schema<boolean>,
+
+  array<T>(item: Schema<T>): Schema<T[]> {
+    return (value, path) =>
+      Array.isArray(value) ? value.map((entry, i) => item(entry, `${path}[${i}]`)) : expected(path, 'array', value);
+  },
+
+  /** Fixed-length prefix of an array; extra entries are ignored */
+  tuple<T extends unknown[]>(...items: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+    return (value, path) => {
+      if (!Array.isArray(value)) return expected(path, 'array', value);
+      if (value.length < items.length) {
+        throw new SchemaIssue(path, `expected at least ${items.length} entries, got ${value.length}`);
+      }
+      return items.map((item, i) => item(value[i], `${path}[${i}]`)) as T;
+    };
+  },
+
+  /** Only the listed keys are checked and kept */
+  object<S extends Record<string, Schema<unknown>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+    return (value, path) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return expected(path, 'object', value);
+      const record = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const key of Object.keys(shape)) {
+        result[key] = shape[key](record[key], `${path}.${key}`);
+      }
+      return result as { [K in keyof S]: Infer<S[K]> };
+    };
+  },
+
+  /** Missing and null both read as undefined */
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return (value, path) => (value === undefined || value === null ? undefined : inner(value, path));
+  },
+};
+
+const poolSchema = schema.object({
+  pool_id: schema.string,
+  pool_name: schema.string,
+  base_asset_id: schema.optional(schema.string),
+  base_asset_symbol: schema.string,
+  base_asset_decimals: schema.numeric,
+  quote_asset_id: schema.optional(schema.string),
+  quote_asset_symbol: schema.string,
+  quote_asset_decimals: schema.numeric,
+  min_size: schema.numeric,
+  lot_size: schema.numeric,
+  tick_size: schema.numeric,
+});
+
+/** [timestamp, open, high, low, close, volume]; the timestamp may be seconds or milliseconds */
+const candleSchema = schema.tuple<[number, number, number, number, number, number]>(
+  schema.number,
+  schema.numeric,
+  schema.numeric,
+  schema.numeric,
+  schema.numeric,
+  schema.numeric
+);
+
+const candlesSchema = schema.object({
+  candles: schema.array(candleSchema),
+});
+
+/** [price, quantity] */
+const bookLevelSchema = schema.tuple<[number, number]>(schema.numeric, schema.numeric);
+
+const orderBookSchema = schema.object({
+  bids: schema.array(bookLevelSchema),
+  asks: schema.array(bookLevelSchema),
+  timestamp: schema.optional(schema.numeric),
+});
+
+const tradeSchema = schema.object({
+  trade_id: schema.id,
+  digest: schema.optional(schema.string),
+  price: schema.numeric,
+  base_volume: schema.numeric,
+  quote_volume: schema.numeric,
+  taker_is_bid: schema.boolean,
+  /** Milliseconds */
+  timestamp: schema.number,
+  maker_balance_manager_id: schema.optional(schema.string),
+  taker_balance_manager_id: schema.optional(schema.string),
+  maker_order_id: schema.optional(schema.id),
+  taker_order_id: schema.optional(schema.id),
+});
+
+/**
+ * The indexer has reported orders under more than one set of field names, so everything but the
+ * ID is optional and lib/deepbook.ts picks whichever is present.
+ */
+const orderSchema = schema.object({
+  order_id: schema.id,
+  pool_name: schema.optional(schema.string),
+  balance_manager_id: schema.optional(schema.string),
+  client_order_id: schema.optional(schema.id),
+  order_type: schema.optional(schema.string),
+  type: schema.optional(schema.string),
+  side: schema.optional(schema.string),
+  is_bid: schema.optional(schema.boolean),
+  price: schema.optional(schema.numeric),
+  quantity: schema.optional(schema.numeric),
+  original_quantity: schema.optional(schema.numeric),
+  base_asset_quantity: schema.optional(schema.numeric),
+  filled_quantity: schema.optional(schema.numeric),
+  remaining_quantity: schema.optional(schema.numeric),
+  status: schema.optional(schema.string),
+  current_status: schema.optional(schema.string),
+  timestamp: schema.optional(schema.number),
+  created_at: schema.optional(schema.number),
+  placed_at: schema.optional(schema.number),
+  last_updated_at: schema.optional(schema.number),
+});
+
+export type IndexerPool = Infer<typeof poolSchema>;
+export type IndexerCandles = Infer<typeof candlesSchema>;
+export type IndexerOrderBook = Infer<typeof orderBookSchema>;
+export type IndexerTrade = Infer<typeof tradeSchema>;
+export type IndexerOrder = Infer<typeof orderSchema>;
+
+// =============== Client ===============
+
+export type CandleInterval = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d' | '1w';
+
+export interface IndexerRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface IndexerClientOptions {
+  /** Retries after the first attempt for network errors, 5xx and 429 (default: 3) */
+  retries?: number;
+  /** First backoff delay; doubles per retry, with jitter (default: 300) */
+  baseDelayMs?: number;
+  /** Upper bound on a single backoff delay, Retry-After included (default: 10000) */
+  maxDelayMs?: number;
+  /** fetch implementation, e.g. for tests or a server-side proxy */
+  fetch?: typeof fetch;
+}
+
+type QueryParams = Record<string, string | number | undefined>;
+
+/** Sleep that rejects with the signal's reason as soon as it is aborted */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Retry-After as delta-seconds or an HTTP date */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isRetryable(detail: IndexerErrorDetail): boolean {
+  return detail.kind === 'network' || detail.kind === 'rate-limit' || (detail.kind === 'http' && detail.status >= 500);
+}
+
+export class DeepBookIndexer {
+  readonly baseUrl: string;
+  private readonly retries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(baseUrl: string, options: IndexerClientOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.retries = options.retries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 300;
+    this.maxDelayMs = options.maxDelayMs ?? 10_000;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * All pools the indexer knows about
+   */
+  getPools(options: IndexerRequestOptions = {}): Promise<IndexerPool[]> {
+    return this.request('/get_pools', {}, schema.array(poolSchema), options);
+  }
+
+  /**
+   * OHLCV candles. `startTime` / `endTime` are Unix seconds.
+   */
+  getCandles(
+    poolName: string,
+    query: { interval: CandleInterval; limit?: number; startTime?: number; endTime?: number },
+    options: IndexerRequestOptions = {}
+  ): Promise<IndexerCandles> {
+    return this.request(
+      `/ohclv/${encodeURIComponent(poolName)}`,
+      { interval: query.interval, limit: query.limit, start_time: query.startTime, end_time: query.endTime },
+      candlesSchema,
+      options
+    );
+  }
+
+  /**
+   * Aggregated book; `depth` is split across the sides (depth / 2 levels each, so at least 2)
+   * and 0 returns every level
+   */
+  getOrderBook(
+    poolName: string,
+    query: { level?: number; depth?: number } = {},
+    options: IndexerRequestOptions = {}
+  ): Promise<IndexerOrderBook> {
+    return this.request(
+      `/orderbook/${encodeURIComponent(poolName)}`,
+      { level: query.level, depth: query.depth },
+      orderBookSchema,
+      options
+    );
+  }
+
+  /**
+   * Trades in the pool, optionally only those of one maker or taker BalanceManager.
+   * `startTime` / `endTime` are Unix seconds.
+   */
+  getTrades(
+    poolName: string,
+    query: {
+      limit?: number;
+      startTime?: number;
+      endTime?: number;
+      makerBalanceManagerId?: string;
+      takerBalanceManagerId?: string;
+    } = {},
+    options: IndexerRequestOptions = {}
+  ): Promise<IndexerTrade[]> {
+    return this.request(
+      `/trades/${encodeURIComponent(poolName)}`,
+      {
+        limit: query.limit,
+        start_time: query.startTime,
+        end_time: query.endTime,
+        maker_balance_manager_id: query.makerBalanceManagerId,
+        taker_balance_manager_id: query.takerBalanceManagerId,
+      },
+      schema.array(tradeSchema),
+      options
+    );
+  }
+
+  /**
+   * Orders of one BalanceManager in the pool. The indexer answers 404 when there are none.
+   */
+  getOrders(poolName: string, balanceManagerId: string, options: IndexerRequestOptions = {}): Promise<IndexerOrder[]> {
+    return this.request(
+      `/orders/${encodeURIComponent(poolName)}/${encodeURIComponent(balanceManagerId)}`,
+      {},
+      schema.array(orderSchema),
+      options
+    );
+  }
+
+  private url(path: string, query: QueryParams): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params.append(key, value.toString());
+    }
+    const search = params.toString();
+    return `${this.baseUrl}${path}${search ? `?${search}` : ''}`;
+  }
+
+  private async request<T>(path: string, query: QueryParams, responseSchema: Schema<T>, { signal }: IndexerRequestOptions): Promise<T> {
+    const url = this.url(path, query);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchOnce(url, responseSchema, signal);
+      } catch (error) {
+        if (!(error instanceof IndexerError) || attempt >= this.retries || !isRetryable(error.detail)) {
+          throw error;
+        }
+        await sleep(this.backoff(attempt, error.detail), signal);
+      }
+    }
+  }
+
+  private backoff(attempt: number, detail: IndexerErrorDetail): number {
+    const exponential = this.baseDelayMs * Math.pow(2, attempt);
+    const jittered = exponential / 2 + Math.random() * (exponential / 2);
+    const retryAfter = detail.kind === 'rate-limit' ? detail.retryAfterMs ?? 0 : 0;
+    return Math.min(Math.max(jittered, retryAfter), this.maxDelayMs);
+  }
+
+  private async fetchOnce<T>(url: string, responseSchema: Schema<T>, signal: AbortSignal | undefined): Promise<T> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(url, { signal, headers: { Accept: 'application/json' } });
+    } catch (cause) {
+      if (signal?.aborted) throw cause;
+      throw new IndexerError({ kind: 'network', cause }, url);
+    }
+
+    if (response.status === 429) {
+      throw new IndexerError({ kind: 'rate-limit', retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) }, url);
+    }
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new IndexerError({ kind: 'http', status: response.status, body }, url);
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch (cause) {
+      if (signal?.aborted) throw cause;
+      throw new IndexerError({ kind: 'schema', path: '$', issue: 'response is not JSON' }, url);
+    }
+    try {
+      return responseSchema(body, '$');
+    } catch (error) {
+      if (error instanceof SchemaIssue) {
+        throw new IndexerError({ kind: 'schema', path: error.path, issue: error.message }, url);
+      }
+      throw error;
+    }
+  }
+}
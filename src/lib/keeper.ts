@@ -0,0 +1,174 @@
+import { SuiJsonRpcClient } from '@mysten/sui/jsonRpc';
+import type { Signer } from '@mysten/sui/cryptography';
+import { Transaction } from '@mysten/sui/transactions';
+import { RPC_URLS } from './deepbook';
+import { MAX_PRICE_STALENESS_MS, getPoolStates, type OptionPool, type PoolState } from './options';
+import { updatePrice } from './varuna';
+
+/**
+ * Oracle keeper: keeps each pool's `last_price_update` fresh so exercise never aborts with
+ * EPriceStale / EPriceNotSet.
+ *
+ * planPriceUpdates decides which pools need `update_price`; the rest of the module builds, simulates
+ * (devInspect) and executes those updates. scripts/keeper.ts runs it headlessly on a schedule.
+ */
+
+export interface KeeperPolicy {
+  /** Refresh once the oracle price is older than this; keep it under MAX_PRICE_STALENESS_MS */
+  maxAgeMs: number;
+  /** Also refresh when the DeepBook mid has moved this fraction away from the oracle price */
+  maxDeviation: number;
+}
+
+export type FreshnessReason =
+  | 'never-set'
+  | 'stale'
+  | 'deviation'
+  | 'fresh'
+  | 'expired'
+  | 'settled'
+  | 'no-oracle-pool'
+  | 'unreadable';
+
+export interface PoolFreshness {
+  option: OptionPool;
+  /** ms since the last update_price; null if never set or unreadable */
+  ageMs: number | null;
+  /** |mid - oracle| / oracle, when a mid price was available */
+  deviation: number | null;
+  needsUpdate: boolean;
+  reason: FreshnessReason;
+}
+
+export interface PriceUpdateSimulation {
+  optionId: string;
+  ok: boolean;
+  error?: string;
+}
+
+/** Refresh a minute before exercise would start aborting, or on a 2% move */
+export const DEFAULT_KEEPER_POLICY: KeeperPolicy = {
+  maxAgeMs: MAX_PRICE_STALENESS_MS - 60_000,
+  maxDeviation: 0.02,
+};
+
+// =============== Decisions ===============
+
+/**
+ * Decide for each option whether its pool needs update_price now. Expired and settled pools are
+ * skipped (update_price aborts after expiry), as are pools without a DeepBook oracle pool.
+ * `spotPrices` maps deepbookPoolName to the current DeepBook mid, if known.
+ */
+export function planPriceUpdates(
+  options: OptionPool[],
+  states: Record<string, PoolState>,
+  {
+    policy = DEFAULT_KEEPER_POLICY,
+    spotPrices = {},
+    now = Date.now(),
+  }: { policy?: KeeperPolicy; spotPrices?: Record<string, number>; now?: number } = {}
+): PoolFreshness[] {
+  return options.map((option): PoolFreshness => {
+    const state = states[option.id];
+    const skip = (reason: FreshnessReason): PoolFreshness => ({
+      option,
+      ageMs: null,
+      deviation: null,
+      needsUpdate: false,
+      reason,
+    });
+
+    if (now >= option.expirationDate) return skip('expired');
+    if (!option.deepbookPoolId) return skip('no-oracle-pool');
+    if (!state) return skip('unreadable');
+    if (state.isSettled) return skip('settled');
+    if (state.lastOraclePrice === null || state.lastPriceUpdate === 0) {
+      return { option, ageMs: null, deviation: null, needsUpdate: true, reason: 'never-set' };
+    }
+
+    const ageMs = now - state.lastPriceUpdate;
+    const spot = spotPrices[option.deepbookPoolName];
+    const deviation = spot && state.lastOraclePrice > 0
+      ? Math.abs(spot - state.lastOraclePrice) / state.lastOraclePrice
+      : null;
+
+    if (ageMs > policy.maxAgeMs) return { option, ageMs, deviation, needsUpdate: true, reason: 'stale' };
+    if (deviation !== null && deviation > policy.maxDeviation) {
+      return { option, ageMs, deviation, needsUpdate: true, reason: 'deviation' };
+    }
+    return { option, ageMs, deviation, needsUpdate: false, reason: 'fresh' };
+  });
+}
+
+/**
+ * Read pool states and decide which pools need update_price
+ */
+export async function checkPoolFreshness(
+  options: OptionPool[],
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet',
+  { policy, spotPrices }: { policy?: KeeperPolicy; spotPrices?: Record<string, number> } = {}
+): Promise<PoolFreshness[]> {
+  const live = options.filter((option) => Date.now() < option.expirationDate);
+  const states = await getPoolStates(live, network);
+  return planPriceUpdates(options, states, { policy, spotPrices });
+}
+
+// =============== Updates ===============
+
+/**
+ * Add update_price for each option. Options without a DeepBook oracle pool are skipped.
+ */
+export function addPriceUpdates(tx: Transaction, options: OptionPool[]): void {
+  for (const option of options) {
+    if (option.deepbookPoolId) {
+      updatePrice(tx, option, option.deepbookPoolId);
+    }
+  }
+}
+
+/**
+ * Dry run: devInspect update_price for each option separately, so one failing pool
+ * doesn't hide the others
+ */
+export async function simulatePriceUpdates(
+  options: OptionPool[],
+  sender: string,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<PriceUpdateSimulation[]> {
+  const client = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+  return Promise.all(
+    options.map(async (option): Promise<PriceUpdateSimulation> => {
+      try {
+        const tx = new Transaction();
+        addPriceUpdates(tx, [option]);
+        const result = await client.devInspectTransactionBlock({ transactionBlock: tx, sender });
+        return result.error ? { optionId: option.id, ok: false, error: result.error } : { optionId: option.id, ok: true };
+      } catch (error) {
+        return { optionId: option.id, ok: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    })
+  );
+}
+
+/**
+ * Sign and execute update_price for all `options` in one transaction; returns the digest
+ */
+export async function executePriceUpdates(
+  options: OptionPool[],
+  signer: Signer,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<string> {
+  const client = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+  const tx = new Transaction();
+  tx.setSender(signer.toSuiAddress());
+  addPriceUpdates(tx, options);
+  const result = await client.signAndExecuteTransaction({
+    transaction: tx,
+    signer,
+    options: { showEffects: true },
+  });
+  if (result.effects?.status.status !== 'success') {
+    throw new Error(result.effects?.status.error ?? 'Transaction failed');
+  }
+  return result.digest;
+}
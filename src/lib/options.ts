@@ -0,0 +1,549 @@
+import { SuiJsonRpcClient } from '@mysten/sui/jsonRpc';
+import { normalizeStructTag, normalizeSuiObjectId, parseStructTag } from '@mysten/sui/utils';
+import { VARUNA_OPTIONS_PACKAGE_IDS } from '../constants';
+import { RPC_URLS, getAllPools, type PoolInfo } from './deepbook';
+import { bcs } from '@mysten/sui/bcs';
+import { Transaction } from '@mysten/sui/transactions';
+import {
+  getOptionsPoolObject,
+  getPoolInfo,
+  getCurrentPrice,
+  getOptionSupply,
+  getOwnerTokenAmount,
+} from './varuna';
+
+export interface OptionPool {
+  id: string;
+  name: string;
+  type: 'CALL' | 'PUT';
+  strikePrice: number;
+  expirationDate: number;
+  baseAsset: string;
+  quoteAsset: string;
+  optionTokenType: string;
+  baseAssetType: string;
+  quoteAssetType: string;
+  packageId: string;
+  deepbookPoolName: string;
+  deepbookPoolId?: string;
+  optionTokenDecimals?: number;
+  baseAssetDecimals?: number;
+  quoteAssetDecimals?: number;
+}
+
+/** Strike and oracle prices are stored with 9 decimals on-chain (options_pool::PRICE_DECIMALS) */
+export const PRICE_DECIMALS = 1_000_000_000;
+
+const OPTION_TYPE_CALL = 0;
+
+/** Exercise aborts if the oracle price is older than this (options_pool::MAX_PRICE_STALENESS_MS) */
+export const MAX_PRICE_STALENESS_MS = 300_000;
+
+/** Discovered pools are reused for this long before the chain is queried again */
+const DISCOVERY_CACHE_TTL_MS = 60_000;
+
+/** multiGetObjects accepts at most 50 IDs per request */
+const MULTI_GET_BATCH_SIZE = 50;
+
+interface PoolCreatedEvent {
+  pool_id: string;
+  option_type: number;
+  strike_price: string;
+  expiration_date: string;
+  deepbook_pool_id: string;
+}
+
+interface CoinInfo {
+  symbol: string;
+  decimals: number;
+}
+
+const discoveryCache = new Map<string, { pools: OptionPool[]; fetchedAt: number }>();
+
+/** localStorage key for option packages published from this app, per network */
+const REGISTERED_PACKAGES_STORAGE_KEY = 'varuna:option-packages';
+
+// =============== Package Registry ===============
+
+/**
+ * Option packages published from this app (see lib/publish.ts), in addition to the
+ * VARUNA_OPTIONS_PACKAGE_IDS constants. Kept in localStorage until they are added to constants.ts.
+ */
+export function getRegisteredOptionPackages(network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(`${REGISTERED_PACKAGES_STORAGE_KEY}:${network}`) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Register a published option package so discovery picks up its pools. Clears the discovery cache.
+ */
+export function registerOptionPackage(
+  packageId: string,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): void {
+  const id = normalizeSuiObjectId(packageId);
+  const registered = getRegisteredOptionPackages(network);
+  if (!registered.includes(id)) {
+    window.localStorage.setItem(
+      `${REGISTERED_PACKAGES_STORAGE_KEY}:${network}`,
+      JSON.stringify([...registered, id])
+    );
+  }
+  discoveryCache.delete(network);
+}
+
+/** Configured and registered option packages, without duplicates */
+function getOptionPackageIds(network: 'mainnet' | 'testnet' | 'devnet'): string[] {
+  const ids = [...VARUNA_OPTIONS_PACKAGE_IDS[network], ...getRegisteredOptionPackages(network)];
+  return Array.from(new Set(ids.map((id) => normalizeSuiObjectId(id))));
+}
+
+// =============== Discovery ===============
+
+/**
+ * Get every PoolCreated event emitted by the options_pool module of a Varuna package
+ */
+async function getPoolCreatedEvents(
+  client: SuiJsonRpcClient,
+  packageId: string
+): Promise<PoolCreatedEvent[]> {
+  const events: PoolCreatedEvent[] = [];
+  let cursor: Parameters<SuiJsonRpcClient['queryEvents']>[0]['cursor'] = null;
+
+  do {
+    const page = await client.queryEvents({
+      query: { MoveEventType: `${packageId}::options_pool::PoolCreated` },
+      cursor,
+    });
+    events.push(...page.data.map((event) => event.parsedJson as PoolCreatedEvent));
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return events;
+}
+
+/**
+ * Resolve symbol and decimals for a coin type, falling back to the struct name
+ * when the coin has no CoinMetadata object
+ */
+async function getCoinInfo(
+  client: SuiJsonRpcClient,
+  coinType: string,
+  cache: Map<string, CoinInfo>
+): Promise<CoinInfo> {
+  const cached = cache.get(coinType);
+  if (cached) return cached;
+
+  let info: CoinInfo = { symbol: parseStructTag(coinType).name, decimals: 9 };
+  try {
+    const metadata = await client.getCoinMetadata({ coinType });
+    if (metadata) {
+      info = { symbol: metadata.symbol, decimals: metadata.decimals };
+    }
+  } catch (error) {
+    console.error('Error fetching coin metadata for', coinType, ':', error);
+  }
+
+  cache.set(coinType, info);
+  return info;
+}
+
+/**
+ * Discover all options pools published by the configured and registered Varuna packages.
+ *
+ * Queries `options_pool::PoolCreated` events per package, reads each
+ * `OptionsPool<OptionToken, BaseAsset, QuoteAsset>` object for its type arguments and terms,
+ * and resolves coin metadata and the DeepBook oracle pool name.
+ * Results are cached per network for DISCOVERY_CACHE_TTL_MS unless `forceRefresh` is set.
+ */
+export async function discoverOptionPools(
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet',
+  { forceRefresh = false }: { forceRefresh?: boolean } = {}
+): Promise<OptionPool[]> {
+  const cached = discoveryCache.get(network);
+  if (!forceRefresh && cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_TTL_MS) {
+    return cached.pools;
+  }
+
+  const client = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+  const coinInfoCache = new Map<string, CoinInfo>();
+
+  // DeepBook pool ID -> pool name, used to find the oracle pool for each option. Discovery is
+  // on-chain, so an indexer outage only costs the names (falling back to BASE_QUOTE below).
+  const deepbookPoolNames = new Map<string, string>();
+  try {
+    for (const pool of await getAllPools(network)) {
+      deepbookPoolNames.set(normalizeSuiObjectId(pool.poolId), pool.poolName);
+    }
+  } catch (error) {
+    console.error('Error fetching DeepBook pools for option discovery:', error);
+  }
+
+  const pools: OptionPool[] = [];
+
+  for (const packageId of getOptionPackageIds(network)) {
+    try {
+      const events = await getPoolCreatedEvents(client, packageId);
+      const eventsByPoolId = new Map(events.map((e) => [normalizeSuiObjectId(e.pool_id), e]));
+      const poolIds = Array.from(eventsByPoolId.keys());
+
+      for (let i = 0; i < poolIds.length; i += MULTI_GET_BATCH_SIZE) {
+        const objects = await client.multiGetObjects({
+          ids: poolIds.slice(i, i + MULTI_GET_BATCH_SIZE),
+          options: { showType: true, showContent: true },
+        });
+
+        for (const object of objects) {
+          const content = object.data?.content;
+          if (!object.data || content?.dataType !== 'moveObject') continue;
+
+          const poolId = normalizeSuiObjectId(object.data.objectId);
+          const event = eventsByPoolId.get(poolId);
+          const fields = content.fields as Record<string, unknown>;
+
+          const [optionTokenTag, baseTag, quoteTag] = parseStructTag(content.type).typeParams;
+          const optionTokenType = normalizeStructTag(optionTokenTag);
+          const baseAssetType = normalizeStructTag(baseTag);
+          const quoteAssetType = normalizeStructTag(quoteTag);
+
+          const [optionToken, base, quote] = await Promise.all([
+            getCoinInfo(client, optionTokenType, coinInfoCache),
+            getCoinInfo(client, baseAssetType, coinInfoCache),
+            getCoinInfo(client, quoteAssetType, coinInfoCache),
+          ]);
+
+          const optionType = Number(fields.option_type ?? event?.option_type);
+          const type = optionType === OPTION_TYPE_CALL ? 'CALL' : 'PUT';
+          const strikePrice = Number(fields.strike_price ?? event?.strike_price) / PRICE_DECIMALS;
+          const deepbookPoolId = normalizeSuiObjectId(String(fields.deepbook_pool_id ?? event?.deepbook_pool_id));
+
+          pools.push({
+            id: poolId,
+            packageId,
+            name: `${type} ${base.symbol}/${quote.symbol} Strike ${strikePrice}`,
+            type,
+            strikePrice,
+            expirationDate: Number(fields.expiration_date ?? event?.expiration_date),
+            baseAsset: base.symbol,
+            quoteAsset: quote.symbol,
+            optionTokenType,
+            baseAssetType,
+            quoteAssetType,
+            deepbookPoolId,
+            deepbookPoolName: deepbookPoolNames.get(deepbookPoolId) ?? `${base.symbol}_${quote.symbol}`,
+            optionTokenDecimals: optionToken.decimals,
+            baseAssetDecimals: base.decimals,
+            quoteAssetDecimals: quote.decimals,
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Error discovering options pools for package', packageId, ':', error);
+    }
+  }
+
+  pools.sort((a, b) => a.expirationDate - b.expirationDate || a.strikePrice - b.strikePrice);
+
+  discoveryCache.set(network, { pools, fetchedAt: Date.now() });
+  return pools;
+}
+
+// =============== Settlement & Owner Tokens ===============
+
+export interface PoolSettlement {
+  isSettled: boolean;
+  /** Settlement price in quote units per base unit, if recorded on the pool */
+  settlementPrice: number | null;
+  /** Last oracle price written by update_price, in quote units per base unit */
+  lastOraclePrice: number | null;
+}
+
+export interface OwnerTokenInfo {
+  id: string;
+  /** Raw amount (option token base units) */
+  amount: bigint;
+  poolId: string;
+}
+
+/**
+ * Get the Move type of OwnerToken<OptionToken, BaseAsset, QuoteAsset> for an option
+ */
+export function getOwnerTokenType(option: OptionPool): string {
+  return `${option.packageId}::options_pool::OwnerToken<${option.optionTokenType}, ${option.baseAssetType}, ${option.quoteAssetType}>`;
+}
+
+/**
+ * Read the settlement state of an options pool
+ * Returns null if the pool object cannot be read
+ */
+export async function getPoolSettlement(
+  poolId: string,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<PoolSettlement | null> {
+  try {
+    const client = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+    const pool = await getOptionsPoolObject(client, poolId);
+
+    return {
+      isSettled: pool.is_settled,
+      settlementPrice: pool.settlement_price !== null ? Number(pool.settlement_price) / PRICE_DECIMALS : null,
+      lastOraclePrice: pool.underlying_asset_price !== null ? Number(pool.underlying_asset_price) / PRICE_DECIMALS : null,
+    };
+  } catch (error) {
+    console.error('Error fetching pool settlement for', poolId, ':', error);
+    return null;
+  }
+}
+
+/**
+ * Page through the OwnerTokens an address holds that match a struct type filter.
+ * The filter may omit type arguments to match every pool of a package.
+ */
+async function queryOwnerTokens(
+  client: SuiJsonRpcClient,
+  owner: string,
+  structType: string
+): Promise<OwnerTokenInfo[]> {
+  const tokens: OwnerTokenInfo[] = [];
+  let cursor: string | null | undefined = null;
+
+  do {
+    const page = await client.getOwnedObjects({
+      owner,
+      filter: { StructType: structType },
+      options: { showContent: true },
+      cursor,
+    });
+    for (const object of page.data) {
+      const content = object.data?.content;
+      if (!object.data || content?.dataType !== 'moveObject') continue;
+      const fields = content.fields as Record<string, unknown>;
+      tokens.push({
+        id: object.data.objectId,
+        amount: BigInt(String(fields.amount)),
+        poolId: normalizeSuiObjectId(String(fields.pool_id)),
+      });
+    }
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return tokens;
+}
+
+/**
+ * Get every OwnerToken an address holds for the given option pool
+ */
+export async function getOwnerTokens(
+  owner: string,
+  option: OptionPool,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<OwnerTokenInfo[]> {
+  try {
+    const client = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+    const tokens = await queryOwnerTokens(client, owner, getOwnerTokenType(option));
+    return tokens.filter((token) => token.poolId === normalizeSuiObjectId(option.id));
+  } catch (error) {
+    console.error('Error fetching owner tokens for pool', option.id, ':', error);
+    return [];
+  }
+}
+
+/**
+ * Get every OwnerToken an address holds across the given option pools.
+ * Queries once per package; tokens whose pool is not in `options` are skipped.
+ */
+export async function getAllOwnerTokens(
+  owner: string,
+  options: OptionPool[],
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<OwnerTokenInfo[]> {
+  const client = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+  const poolIds = new Set(options.map((o) => normalizeSuiObjectId(o.id)));
+  const packageIds = Array.from(new Set(options.map((o) => o.packageId)));
+  const tokens: OwnerTokenInfo[] = [];
+
+  for (const packageId of packageIds) {
+    try {
+      const owned = await queryOwnerTokens(client, owner, `${packageId}::options_pool::OwnerToken`);
+      tokens.push(...owned.filter((token) => poolIds.has(token.poolId)));
+    } catch (error) {
+      console.error('Error fetching owner tokens for package', packageId, ':', error);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Estimate what an OwnerToken would pay out at a given settlement price, in raw base/quote units.
+ * Mirrors claim_collateral_call / claim_collateral_put: out of the money the writer gets the
+ * collateral back, in the money they get the proceeds of exercise at the strike.
+ */
+export function estimateOwnerTokenClaim(
+  option: OptionPool,
+  amount: bigint,
+  settlementPrice: number
+): { base: bigint; quote: bigint } {
+  const strike = BigInt(Math.round(option.strikePrice * PRICE_DECIMALS));
+  const price = BigInt(Math.round(settlementPrice * PRICE_DECIMALS));
+  // The contract divides the strike down to whole quote units per option before multiplying
+  const quotePerOption = strike / BigInt(PRICE_DECIMALS);
+
+  const writerKeepsCollateral = option.type === 'CALL' ? price <= strike : price >= strike;
+  if (option.type === 'CALL') {
+    return writerKeepsCollateral ? { base: amount, quote: 0n } : { base: 0n, quote: amount * quotePerOption };
+  }
+  return writerKeepsCollateral ? { base: 0n, quote: amount * quotePerOption } : { base: amount, quote: 0n };
+}
+
+// =============== Live Pool State ===============
+
+export interface PoolState extends PoolSettlement {
+  /** Total options ever minted (raw option token units) */
+  optionsMinted: bigint;
+  /** Outstanding option token supply, i.e. open interest (raw units) */
+  optionSupply: bigint;
+  /** Options burned through exercise or claim (minted - supply) */
+  optionsExercised: bigint;
+  /** Collateral held by the pool, in raw base / quote units */
+  collateralBase: bigint;
+  collateralQuote: bigint;
+  /** Timestamp (ms) of the last update_price; 0 if the price was never set */
+  lastPriceUpdate: number;
+  /** Sum of the OwnerTokens passed to getPoolState, if any */
+  ownerTokenAmount?: bigint;
+}
+
+type ReturnValues = [number[], string][];
+
+function decodeReturn<T>(values: ReturnValues | undefined, index: number, type: { parse: (bytes: Uint8Array) => T }): T {
+  const value = values?.[index];
+  if (!value) throw new Error(`Missing return value ${index}`);
+  return type.parse(new Uint8Array(value[0]));
+}
+
+/**
+ * Read live pool state via devInspect of get_pool_info, get_current_price and get_option_supply,
+ * plus get_owner_token_amount for each OwnerToken in `ownerTokenIds`.
+ * Returns null if the simulation fails.
+ */
+export async function getPoolState(
+  option: OptionPool,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet',
+  { ownerTokenIds = [], sender = '0x0' }: { ownerTokenIds?: string[]; sender?: string } = {}
+): Promise<PoolState | null> {
+  try {
+    const tx = new Transaction();
+    getPoolInfo(tx, option);
+    getCurrentPrice(tx, option);
+    getOptionSupply(tx, option);
+    for (const ownerTokenId of ownerTokenIds) {
+      getOwnerTokenAmount(tx, option, ownerTokenId);
+    }
+
+    const client = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+    const result = await client.devInspectTransactionBlock({ transactionBlock: tx, sender });
+    if (result.error) throw new Error(result.error);
+
+    const info = result.results?.[0]?.returnValues as ReturnValues | undefined;
+    const price = result.results?.[1]?.returnValues as ReturnValues | undefined;
+    const supplyValues = result.results?.[2]?.returnValues as ReturnValues | undefined;
+
+    const optionsMinted = BigInt(decodeReturn(info, 3, bcs.u64()));
+    const optionSupply = BigInt(decodeReturn(supplyValues, 0, bcs.u64()));
+    const settlementPrice = decodeReturn(info, 8, bcs.option(bcs.u64()));
+    const lastOraclePrice = decodeReturn(price, 0, bcs.option(bcs.u64()));
+
+    let ownerTokenAmount: bigint | undefined;
+    if (ownerTokenIds.length > 0) {
+      ownerTokenAmount = ownerTokenIds.reduce((sum, _, i) => {
+        const values = result.results?.[3 + i]?.returnValues as ReturnValues | undefined;
+        return sum + BigInt(decodeReturn(values, 0, bcs.u64()));
+      }, 0n);
+    }
+
+    return {
+      optionsMinted,
+      optionSupply,
+      optionsExercised: optionsMinted - optionSupply,
+      collateralBase: BigInt(decodeReturn(info, 5, bcs.u64())),
+      collateralQuote: BigInt(decodeReturn(info, 6, bcs.u64())),
+      isSettled: decodeReturn(info, 7, bcs.bool()),
+      settlementPrice: settlementPrice !== null ? Number(settlementPrice) / PRICE_DECIMALS : null,
+      lastOraclePrice: lastOraclePrice !== null ? Number(lastOraclePrice) / PRICE_DECIMALS : null,
+      lastPriceUpdate: Number(decodeReturn(price, 1, bcs.u64())),
+      ownerTokenAmount,
+    };
+  } catch (error) {
+    console.error('Error reading pool state for', option.id, ':', error);
+    return null;
+  }
+}
+
+/**
+ * Read live state for many pools; pools that fail to simulate are left out of the result
+ */
+export async function getPoolStates(
+  options: OptionPool[],
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<Record<string, PoolState>> {
+  const states = await Promise.all(options.map((option) => getPoolState(option, network)));
+  const byId: Record<string, PoolState> = {};
+  options.forEach((option, i) => {
+    const state = states[i];
+    if (state) byId[option.id] = state;
+  });
+  return byId;
+}
+
+/**
+ * Whether an exercise right now would abort on EPriceStale (price missing or older than 5 minutes)
+ */
+export function isPriceStale(state: Pick<PoolState, 'lastOraclePrice' | 'lastPriceUpdate'>, now = Date.now()): boolean {
+  return state.lastOraclePrice === null || now - state.lastPriceUpdate > MAX_PRICE_STALENESS_MS;
+}
+
+// =============== Option Token Markets ===============
+
+/**
+ * Find the DeepBook pool that trades an option token against the option's quote asset
+ * (the pool created from the Create Permissionless Pool form)
+ */
+export function findOptionTokenPool(
+  option: Pick<OptionPool, 'optionTokenType' | 'quoteAssetType'>,
+  pools: PoolInfo[]
+): PoolInfo | null {
+  const optionTokenType = normalizeStructTag(option.optionTokenType);
+  const quoteAssetType = normalizeStructTag(option.quoteAssetType);
+  return (
+    pools.find(
+      (pool) =>
+        !!pool.baseAssetType &&
+        !!pool.quoteAssetType &&
+        normalizeStructTag(pool.baseAssetType) === optionTokenType &&
+        normalizeStructTag(pool.quoteAssetType) === quoteAssetType
+    ) ?? null
+  );
+}
+
+/**
+ * Map option pool IDs to the DeepBook pools their option tokens trade in; options without a
+ * market are left out
+ */
+export async function getOptionTokenPools(
+  options: OptionPool[],
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<Record<string, PoolInfo>> {
+  const pools = await getAllPools(network);
+  const byId: Record<string, PoolInfo> = {};
+  for (const option of options) {
+    const pool = findOptionTokenPool(option, pools);
+    if (pool) byId[option.id] = pool;
+  }
+  return byId;
+}
@@ -0,0 +1,152 @@
+import { binomialAmericanPrice, intrinsicValue, yearsToExpiry, type PricingModel } from './pricing';
+import type { OptionPool } from './options';
+
+/**
+ * Payoff and scenario P&L for a single option position.
+ *
+ * The holder owns option tokens bought for a premium. The writer is always covered: a CALL writer
+ * locked one base unit per option, a PUT writer locked `strike` quote units, and both hold an
+ * OwnerToken that claims the collateral back (or its exercised value). Values are in quote units.
+ */
+
+export type PositionSide = 'holder' | 'writer';
+
+export interface PayoffPosition {
+  side: PositionSide;
+  /** Number of options (human units) */
+  quantity: number;
+  /** Premium per option: paid by the holder, received by the writer */
+  premium: number;
+  /** Underlying price when the position was opened; prices the CALL writer's base collateral */
+  entrySpot: number;
+}
+
+export interface PayoffPoint {
+  price: number;
+  /** P&L if the underlying settles at `price` */
+  expiry: number;
+  /** P&L if the underlying moved to `price` right now (model value) */
+  today: number;
+}
+
+export interface PayoffSummary {
+  /** Underlying prices where P&L at expiry crosses zero */
+  breakevens: number[];
+  maxProfit: number;
+  /** Most negative P&L at expiry (a positive number) */
+  maxLoss: number;
+  /** Whether profit is unbounded as the underlying rises */
+  unlimitedProfit: boolean;
+}
+
+type OptionTerms = Pick<OptionPool, 'type' | 'strikePrice' | 'expirationDate'>;
+
+/**
+ * Value of one option-plus-collateral unit for a side, given the option's value at that price
+ */
+function positionValue(option: OptionTerms, side: PositionSide, price: number, optionValue: number): number {
+  if (side === 'holder') return optionValue;
+  const collateral = option.type === 'CALL' ? price : option.strikePrice;
+  return collateral - optionValue;
+}
+
+/** What one unit of the position cost to open, in quote */
+function positionCost(option: OptionTerms, position: PayoffPosition): number {
+  if (position.side === 'holder') return position.premium;
+  const collateral = option.type === 'CALL' ? position.entrySpot : option.strikePrice;
+  return collateral - position.premium;
+}
+
+/**
+ * P&L at expiry for a position if the underlying settles at `price`
+ */
+export function pnlAtExpiry(option: OptionTerms, position: PayoffPosition, price: number): number {
+  const value = positionValue(option, position.side, price, intrinsicValue(option.type, price, option.strikePrice));
+  return (value - positionCost(option, position)) * position.quantity;
+}
+
+/**
+ * P&L now for a position if the underlying moved to `price` (American binomial value)
+ */
+export function pnlToday(
+  option: OptionTerms,
+  position: PayoffPosition,
+  price: number,
+  model: PricingModel,
+  now = Date.now()
+): number {
+  const optionValue = binomialAmericanPrice(
+    {
+      type: option.type,
+      spot: price,
+      strike: option.strikePrice,
+      timeToExpiry: yearsToExpiry(option.expirationDate, now),
+      volatility: model.volatility,
+      riskFreeRate: model.riskFreeRate,
+    },
+    model.steps
+  );
+  return (positionValue(option, position.side, price, optionValue) - positionCost(option, position)) * position.quantity;
+}
+
+/**
+ * Price range for a payoff chart: covers the strike and spot with room on both sides
+ */
+export function payoffRange(strike: number, spot: number, width = 0.5): [number, number] {
+  const lo = Math.min(strike, spot || strike) * (1 - width);
+  const hi = Math.max(strike, spot || strike) * (1 + width);
+  return [Math.max(lo, 0), hi];
+}
+
+/**
+ * Sample P&L at expiry and today across evenly spaced underlying prices
+ */
+export function buildPayoffCurve(
+  option: OptionTerms,
+  position: PayoffPosition,
+  model: PricingModel,
+  { range, points = 81, now = Date.now() }: { range: [number, number]; points?: number; now?: number }
+): PayoffPoint[] {
+  const [lo, hi] = range;
+  const step = (hi - lo) / Math.max(points - 1, 1);
+  const curve: PayoffPoint[] = [];
+  for (let i = 0; i < points; i++) {
+    const price = lo + step * i;
+    curve.push({
+      price,
+      expiry: pnlAtExpiry(option, position, price),
+      today: pnlToday(option, position, price, model, now),
+    });
+  }
+  return curve;
+}
+
+/**
+ * Breakevens and max profit/loss at expiry. The expiry payoff is piecewise linear with a single
+ * kink at the strike, so everything follows from its value at zero, at the strike and its slope above.
+ */
+export function summarizePayoff(option: OptionTerms, position: PayoffPosition): PayoffSummary {
+  const strike = option.strikePrice;
+  const atZero = pnlAtExpiry(option, position, 0);
+  const atStrike = pnlAtExpiry(option, position, strike);
+  // Only a held CALL keeps gaining above the strike; every other position is flat there
+  const slopeAbove = pnlAtExpiry(option, position, strike + 1) - atStrike;
+
+  const breakevens: number[] = [];
+  // Segment [0, strike]
+  if (atZero !== atStrike && Math.sign(atZero) !== Math.sign(atStrike)) {
+    breakevens.push((-atZero / (atStrike - atZero)) * strike);
+  }
+  // Segment [strike, ∞)
+  if (slopeAbove !== 0 && Math.sign(atStrike) !== Math.sign(slopeAbove)) {
+    breakevens.push(strike - atStrike / slopeAbove);
+  }
+
+  const unlimitedProfit = slopeAbove > 0;
+  return {
+    breakevens,
+    maxProfit: unlimitedProfit ? Infinity : Math.max(atZero, atStrike),
+    maxLoss: Math.max(0, -Math.min(atZero, atStrike)),
+    unlimitedProfit,
+  };
+}
@@ -0,0 +1,228 @@
+import type { SuiGrpcClient } from '@mysten/sui/grpc';
+import { SuiJsonRpcClient } from '@mysten/sui/jsonRpc';
+import type { Transaction } from '@mysten/sui/transactions';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import {
+  RPC_URLS,
+  getBalanceForCoin,
+  getBalanceManagerFills,
+  getOrderBook,
+  type Fill,
+  type OrderBookData,
+  type PoolInfo,
+} from './deepbook';
+import {
+  getAllOwnerTokens,
+  getOptionTokenPools,
+  getPoolSettlement,
+  type OptionPool,
+  type OwnerTokenInfo,
+  type PoolSettlement,
+} from './options';
+import { intrinsicValue, priceOptionPool, type PricingModel } from './pricing';
+import { claimCollateral, mergeOwnerTokens, settlePool } from './varuna';
+
+/**
+ * Options positions of one account: option tokens held (wallet and BalanceManager) and options
+ * written (OwnerTokens), with cost basis from the account's DeepBook fills, a mark from the
+ * option token's book (or the pricing model when the book is one-sided), intrinsic value and
+ * time to expiry. Values are per option, in quote units.
+ */
+
+export type PositionSide = 'long' | 'written';
+
+export interface OptionPosition {
+  option: OptionPool;
+  side: PositionSide;
+  /** Raw option token amount: coins held for long, OwnerToken amount for written */
+  amount: bigint;
+  /** Long only: the part of `amount` in the wallet, which is what exercise and claim can use */
+  walletAmount: bigint;
+  /** Written only */
+  ownerTokens: OwnerTokenInfo[];
+  /** Average buy (long) or sell (written) price from fills; null without fills */
+  costBasis: number | null;
+  mark: number | null;
+  markSource: 'book' | 'model' | null;
+  intrinsic: number | null;
+  /** Negative once expired */
+  daysToExpiry: number;
+  settlement: PoolSettlement | null;
+}
+
+const DAY_MS = 86_400_000;
+
+// =============== Marks & Cost Basis ===============
+
+/**
+ * Volume-weighted price of the fills on one side
+ */
+export function averageFillPrice(fills: Fill[], side: 'buy' | 'sell'): number | null {
+  const matching = fills.filter((fill) => fill.side === side);
+  const size = matching.reduce((sum, fill) => sum + fill.size, 0);
+  if (size <= 0) return null;
+  return matching.reduce((sum, fill) => sum + fill.price * fill.size, 0) / size;
+}
+
+/**
+ * Mid of the best bid and ask when both exist, else the model's fair value at `spot`
+ */
+export function markOption(
+  option: OptionPool,
+  book: OrderBookData | null,
+  spot: number | undefined,
+  model: PricingModel,
+  now = Date.now()
+): { mark: number | null; source: 'book' | 'model' | null } {
+  const bid = book?.bids[0]?.price;
+  const ask = book?.asks[0]?.price;
+  if (bid !== undefined && ask !== undefined) {
+    return { mark: (bid + ask) / 2, source: 'book' };
+  }
+  if (spot && spot > 0 && option.expirationDate > now) {
+    return { mark: priceOptionPool(option, spot, model, now).fairValue, source: 'model' };
+  }
+  return { mark: null, source: null };
+}
+
+/**
+ * Unrealized P&L of a position in quote: mark against cost for long, premium against mark for
+ * written. Null when either side is unknown.
+ */
+export function positionPnl(position: OptionPosition): number | null {
+  if (position.costBasis === null || position.mark === null) return null;
+  const quantity = Number(position.amount) / Math.pow(10, position.option.optionTokenDecimals ?? 9);
+  const perOption = position.side === 'long' ? position.mark - position.costBasis : position.costBasis - position.mark;
+  return perOption * quantity;
+}
+
+// =============== Loading ===============
+
+/**
+ * Load every options position of `owner` across `options`. Books and fills are only fetched for
+ * options the account has a position in. `spotPrices` maps underlying DeepBook pool names to mid
+ * prices, used for intrinsic value and model marks.
+ */
+export async function getOptionPositions(
+  client: SuiGrpcClient,
+  owner: string,
+  options: OptionPool[],
+  {
+    balanceManagerId,
+    spotPrices,
+    model,
+  }: { balanceManagerId: string | null; spotPrices: Record<string, number>; model: PricingModel },
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<OptionPosition[]> {
+  const jsonRpcClient = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+  const [walletBalances, ownerTokens] = await Promise.all([
+    jsonRpcClient.getAllBalances({ owner }),
+    getAllOwnerTokens(owner, options, network),
+  ]);
+  const wallet = new Map(walletBalances.map((b) => [normalizeStructTag(b.coinType), BigInt(b.totalBalance)]));
+  const managerBalances = balanceManagerId
+    ? await Promise.all(
+      options.map((o) => getBalanceForCoin(client, owner, balanceManagerId, o.optionTokenType, network).catch(() => 0n))
+    )
+    : options.map(() => 0n);
+
+  const drafts: Omit<OptionPosition, 'costBasis' | 'mark' | 'markSource' | 'intrinsic' | 'daysToExpiry' | 'settlement'>[] = [];
+  options.forEach((option, i) => {
+    const walletAmount = wallet.get(normalizeStructTag(option.optionTokenType)) ?? 0n;
+    const held = walletAmount + managerBalances[i];
+    if (held > 0n) {
+      drafts.push({ option, side: 'long', amount: held, walletAmount, ownerTokens: [] });
+    }
+    const tokens = ownerTokens.filter((t) => t.poolId === option.id);
+    const written = tokens.reduce((sum, t) => sum + t.amount, 0n);
+    if (written > 0n) {
+      drafts.push({ option, side: 'written', amount: written, walletAmount: 0n, ownerTokens: tokens });
+    }
+  });
+  if (drafts.length === 0) return [];
+
+  const held = Array.from(new Map(drafts.map((d) => [d.option.id, d.option])).values());
+  const now = Date.now();
+  const [markets, settlements] = await Promise.all([
+    // Without the indexer's pool list nothing has a book, but chain positions still show
+    getOptionTokenPools(held, network).catch((error: unknown): Record<string, PoolInfo> => {
+      console.error('Error resolving option token pools:', error);
+      return {};
+    }),
+    Promise.all(held.map((o) => (o.expirationDate <= now ? getPoolSettlement(o.id, network) : Promise.resolve(null)))),
+  ]);
+  const settlementById = new Map(held.map((o, i) => [o.id, settlements[i]]));
+  const marketData = new Map(
+    await Promise.all(
+      held.map(async (o): Promise<[string, { book: OrderBookData | null; fills: Fill[] }]> => {
+        const market = markets[o.id];
+        if (!market) return [o.id, { book: null, fills: [] }];
+        // An indexer failure only costs this option its book mark (falling back to the model) and cost basis
+        const [book, fills] = await Promise.all([
+          getOrderBook(market.poolName, network).catch((error: unknown) => {
+            console.error('Error fetching option token book for', o.id, ':', error);
+            return null;
+          }),
+          balanceManagerId
+            ? getBalanceManagerFills(market.poolName, balanceManagerId, network).catch((error: unknown) => {
+                console.error('Error fetching fills for', o.id, ':', error);
+                return [];
+              })
+            : Promise.resolve([]),
+        ]);
+        return [o.id, { book, fills }];
+      })
+    )
+  );
+
+  return drafts.map((draft) => {
+    const { option } = draft;
+    const { book, fills } = marketData.get(option.id) ?? { book: null, fills: [] };
+    const settlement = settlementById.get(option.id) ?? null;
+    const spot = spotPrices[option.deepbookPoolName];
+    // After expiry the option is worth its settlement intrinsic value
+    const settledPrice = settlement?.settlementPrice ?? settlement?.lastOraclePrice ?? null;
+    const underlying = option.expirationDate <= now ? settledPrice : spot;
+    const { mark, source } = option.expirationDate <= now
+      ? { mark: settledPrice !== null ? intrinsicValue(option.type, settledPrice, option.strikePrice) : null, source: null }
+      : markOption(option, book, spot, model, now);
+
+    return {
+      ...draft,
+      costBasis: averageFillPrice(fills, draft.side === 'long' ? 'buy' : 'sell'),
+      mark,
+      markSource: source,
+      intrinsic: underlying !== undefined && underlying !== null && underlying > 0
+        ? intrinsicValue(option.type, underlying, option.strikePrice)
+        : null,
+      daysToExpiry: (option.expirationDate - now) / DAY_MS,
+      settlement,
+    };
+  });
+}
+
+// =============== Claims ===============
+
+/**
+ * Settle the pool if nobody has yet, merge the OwnerTokens and claim the writer's collateral.
+ * Returns [Coin<BaseAsset>, Coin<QuoteAsset>]; the caller transfers or re-uses them. Dry-run the
+ * result with simulateClaim first: pools settled without a recorded price abort the claim.
+ * @param deepbookPoolId - Needed only when the pool still has to be settled
+ */
+export function addCollateralClaim(
+  tx: Transaction,
+  option: OptionPool,
+  ownerTokenIds: string[],
+  { settle, deepbookPoolId }: { settle: boolean; deepbookPoolId?: string }
+) {
+  if (ownerTokenIds.length === 0) {
+    throw new Error('No OwnerTokens to claim with');
+  }
+  if (settle) {
+    if (!deepbookPoolId) throw new Error(`DeepBook pool ${option.deepbookPoolName} not found`);
+    settlePool(tx, option, deepbookPoolId);
+  }
+  const [primary, ...others] = ownerTokenIds;
+  mergeOwnerTokens(tx, option, primary, others);
+  return claimCollateral(tx, option, primary);
+}
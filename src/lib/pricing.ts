@@ -0,0 +1,282 @@
+/**
+ * Option pricing for Varuna options.
+ *
+ * Varuna options can be exercised any time before expiry, so fair value comes from a
+ * Cox-Ross-Rubinstein binomial tree with an early-exercise check at every node.
+ * Black-Scholes (European) is kept alongside as a closed-form reference.
+ * All prices are in quote units per base unit, matching OptionPool.strikePrice.
+ */
+
+import type { OptionPool } from './options';
+
+export type OptionKind = 'CALL' | 'PUT';
+
+export interface PricingInputs {
+  type: OptionKind;
+  /** Underlying price (e.g. DeepBook mid from getMarketPrice) */
+  spot: number;
+  strike: number;
+  /** Time to expiry in years */
+  timeToExpiry: number;
+  /** Annualized volatility as a decimal (0.8 = 80%) */
+  volatility: number;
+  /** Annualized continuously-compounded risk-free rate as a decimal */
+  riskFreeRate: number;
+}
+
+export interface OptionGreeks {
+  /** Theoretical value per option, in quote units */
+  fairValue: number;
+  /** dV/dS */
+  delta: number;
+  /** d²V/dS² */
+  gamma: number;
+  /** Value change per calendar day */
+  theta: number;
+  /** Value change per 1 volatility point (0.01) */
+  vega: number;
+  /** Value change per 1% move in the risk-free rate */
+  rho: number;
+}
+
+export const DEFAULT_VOLATILITY = 0.8;
+export const DEFAULT_RISK_FREE_RATE = 0.04;
+export const DEFAULT_BINOMIAL_STEPS = 150;
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+const VOL_BUMP = 0.01;
+const RATE_BUMP = 0.01;
+
+/**
+ * Years between now and an expiration timestamp (ms); 0 once expired
+ */
+export function yearsToExpiry(expirationDate: number, now = Date.now()): number {
+  return Math.max(0, (expirationDate - now) / MS_PER_YEAR);
+}
+
+export function intrinsicValue(type: OptionKind, spot: number, strike: number): number {
+  return type === 'CALL' ? Math.max(spot - strike, 0) : Math.max(strike - spot, 0);
+}
+
+// Abramowitz-Stegun approximation of the standard normal CDF (|error| < 7.5e-8)
+function normCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const d = 0.3989422804014327 * Math.exp((-x * x) / 2);
+  const p = d * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return x >= 0 ? 1 - p : p;
+}
+
+function normPdf(x: number): number {
+  return 0.3989422804014327 * Math.exp((-x * x) / 2);
+}
+
+/** Greeks at or past expiry: intrinsic value and a step delta */
+function expiredGreeks({ type, spot, strike }: PricingInputs): OptionGreeks {
+  const itm = type === 'CALL' ? spot > strike : spot < strike;
+  return {
+    fairValue: intrinsicValue(type, spot, strike),
+    delta: itm ? (type === 'CALL' ? 1 : -1) : 0,
+    gamma: 0,
+    theta: 0,
+    vega: 0,
+    rho: 0,
+  };
+}
+
+/**
+ * Black-Scholes price and Greeks for a European option (no early exercise)
+ */
+export function blackScholes(inputs: PricingInputs): OptionGreeks {
+  const { type, spot, strike, timeToExpiry: t, volatility: sigma, riskFreeRate: r } = inputs;
+  if (t <= 0 || sigma <= 0 || spot <= 0 || strike <= 0) return expiredGreeks(inputs);
+
+  const sqrtT = Math.sqrt(t);
+  const d1 = (Math.log(spot / strike) + (r + (sigma * sigma) / 2) * t) / (sigma * sqrtT);
+  const d2 = d1 - sigma * sqrtT;
+  const discount = Math.exp(-r * t);
+
+  const gamma = normPdf(d1) / (spot * sigma * sqrtT);
+  const vega = (spot * normPdf(d1) * sqrtT) * VOL_BUMP;
+
+  if (type === 'CALL') {
+    return {
+      fairValue: spot * normCdf(d1) - strike * discount * normCdf(d2),
+      delta: normCdf(d1),
+      gamma,
+      theta: ((-spot * normPdf(d1) * sigma) / (2 * sqrtT) - r * strike * discount * normCdf(d2)) / 365,
+      vega,
+      rho: strike * t * discount * normCdf(d2) * RATE_BUMP,
+    };
+  }
+  return {
+    fairValue: strike * discount * normCdf(-d2) - spot * normCdf(-d1),
+    delta: normCdf(d1) - 1,
+    gamma,
+    theta: ((-spot * normPdf(d1) * sigma) / (2 * sqrtT) + r * strike * discount * normCdf(-d2)) / 365,
+    vega,
+    rho: -strike * t * discount * normCdf(-d2) * RATE_BUMP,
+  };
+}
+
+/**
+ * Roll a CRR tree back to the root. Returns option values at the root, the two step-1 nodes and
+ * the three step-2 nodes, which is all the tree-based Greeks need.
+ */
+function rollBinomialTree(inputs: PricingInputs, steps: number) {
+  const { type, spot, strike, timeToExpiry: t, volatility: sigma, riskFreeRate: r } = inputs;
+  const dt = t / steps;
+  const u = Math.exp(sigma * Math.sqrt(dt));
+  const d = 1 / u;
+  const growth = Math.exp(r * dt);
+  const p = Math.min(Math.max((growth - d) / (u - d), 0), 1);
+  const discount = 1 / growth;
+
+  // values[j] = option value at node with j up-moves
+  const values = new Float64Array(steps + 1);
+  for (let j = 0; j <= steps; j++) {
+    values[j] = intrinsicValue(type, spot * Math.pow(u, j) * Math.pow(d, steps - j), strike);
+  }
+
+  let step1: [number, number] = [0, 0];
+  let step2: [number, number, number] = [0, 0, 0];
+  for (let i = steps - 1; i >= 0; i--) {
+    for (let j = 0; j <= i; j++) {
+      const continuation = discount * (p * values[j + 1] + (1 - p) * values[j]);
+      const exercise = intrinsicValue(type, spot * Math.pow(u, j) * Math.pow(d, i - j), strike);
+      values[j] = Math.max(continuation, exercise);
+    }
+    if (i === 2) step2 = [values[0], values[1], values[2]];
+    if (i === 1) step1 = [values[0], values[1]];
+  }
+
+  return { root: values[0], step1, step2, u, d, dt };
+}
+
+/**
+ * American option value only (no Greeks)
+ */
+export function binomialAmericanPrice(inputs: PricingInputs, steps = DEFAULT_BINOMIAL_STEPS): number {
+  if (inputs.timeToExpiry <= 0 || inputs.volatility <= 0 || inputs.spot <= 0) {
+    return intrinsicValue(inputs.type, inputs.spot, inputs.strike);
+  }
+  return rollBinomialTree(inputs, Math.max(steps, 3)).root;
+}
+
+/**
+ * American option fair value and Greeks from a binomial tree.
+ * Delta, gamma and theta are read off the first tree steps; vega and rho use central differences.
+ */
+export function binomialAmerican(inputs: PricingInputs, steps = DEFAULT_BINOMIAL_STEPS): OptionGreeks {
+  if (inputs.timeToExpiry <= 0 || inputs.volatility <= 0 || inputs.spot <= 0 || inputs.strike <= 0) {
+    return expiredGreeks(inputs);
+  }
+  const n = Math.max(steps, 3);
+  const { root, step1, step2, u, d, dt } = rollBinomialTree(inputs, n);
+  const { spot } = inputs;
+
+  const su = spot * u;
+  const sd = spot * d;
+  const delta = (step1[1] - step1[0]) / (su - sd);
+
+  const suu = spot * u * u;
+  const sdd = spot * d * d;
+  const deltaUp = (step2[2] - step2[1]) / (suu - spot);
+  const deltaDown = (step2[1] - step2[0]) / (spot - sdd);
+  const gamma = (deltaUp - deltaDown) / ((suu - sdd) / 2);
+
+  // step2[1] sits at the current spot two steps later
+  const theta = (step2[1] - root) / (2 * dt) / 365;
+
+  const bump = (patch: Partial<PricingInputs>) => binomialAmericanPrice({ ...inputs, ...patch }, n);
+  const vega = (bump({ volatility: inputs.volatility + VOL_BUMP })
+    - bump({ volatility: Math.max(inputs.volatility - VOL_BUMP, 1e-4) })) / 2;
+  const rho = (bump({ riskFreeRate: inputs.riskFreeRate + RATE_BUMP })
+    - bump({ riskFreeRate: inputs.riskFreeRate - RATE_BUMP })) / 2;
+
+  return { fairValue: root, delta, gamma, theta, vega, rho };
+}
+
+/** Model parameters shared by every option priced on a page */
+export interface PricingModel {
+  volatility: number;
+  riskFreeRate: number;
+  steps?: number;
+}
+
+/**
+ * Price a discovered option pool at the given spot (American, binomial tree)
+ */
+export function priceOptionPool(
+  option: Pick<OptionPool, 'type' | 'strikePrice' | 'expirationDate'>,
+  spot: number,
+  model: PricingModel,
+  now = Date.now()
+): OptionGreeks {
+  return binomialAmerican(
+    {
+      type: option.type,
+      spot,
+      strike: option.strikePrice,
+      timeToExpiry: yearsToExpiry(option.expirationDate, now),
+      volatility: model.volatility,
+      riskFreeRate: model.riskFreeRate,
+    },
+    model.steps
+  );
+}
+
+// =============== Implied Volatility ===============
+
+const IV_MIN = 0.01;
+const IV_MAX = 10;
+const IV_TOLERANCE = 1e-4;
+const IV_MAX_ITERATIONS = 60;
+/** Fewer steps than pricing: the solver reprices dozens of times per quote */
+const IV_BINOMIAL_STEPS = 80;
+
+/**
+ * Back out the volatility at which the American binomial price matches `price`.
+ * Bisection is used because American values are monotonic in vol but have no closed-form vega.
+ * Returns null when the price is below intrinsic value or above what any vol in range can produce.
+ */
+export function impliedVolatility(
+  price: number,
+  inputs: Omit<PricingInputs, 'volatility'>,
+  steps = IV_BINOMIAL_STEPS
+): number | null {
+  if (!(price > 0) || inputs.timeToExpiry <= 0 || inputs.spot <= 0) return null;
+  const valueAt = (volatility: number) => binomialAmericanPrice({ ...inputs, volatility }, steps);
+
+  let lo = IV_MIN;
+  let hi = IV_MAX;
+  if (price < valueAt(lo) || price > valueAt(hi)) return null;
+
+  for (let i = 0; i < IV_MAX_ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (valueAt(mid) < price) lo = mid;
+    else hi = mid;
+    if (hi - lo < IV_TOLERANCE) break;
+  }
+  return (lo + hi) / 2;
+}
+
+// =============== Display ===============
+
+export type GreekKey = keyof OptionGreeks;
+
+/** Column order and labels for fair value and Greeks in the options chain */
+export const GREEK_COLUMNS: { key: GreekKey; label: string; title: string }[] = [
+  { key: 'fairValue', label: 'Fair', title: 'Theoretical value (American, binomial)' },
+  { key: 'delta', label: 'Δ', title: 'Delta' },
+  { key: 'gamma', label: 'Γ', title: 'Gamma' },
+  { key: 'theta', label: 'Θ', title: 'Theta (per day)' },
+  { key: 'vega', label: 'Vega', title: 'Vega (per 1 vol point)' },
+  { key: 'rho', label: 'ρ', title: 'Rho (per 1% rate)' },
+];
+
+export function formatGreek(key: GreekKey, value: number): string {
+  if (!Number.isFinite(value)) return '—';
+  if (key === 'delta') return value.toFixed(2);
+  if (value === 0) return '0';
+  return Number(value.toPrecision(3)).toLocaleString(undefined, { maximumFractionDigits: 8 });
+}
@@ -0,0 +1,266 @@
+import { SuiJsonRpcClient } from '@mysten/sui/jsonRpc';
+import type { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiObjectId } from '@mysten/sui/utils';
+import { RPC_URLS } from './deepbook';
+import { PRICE_DECIMALS } from './options';
+
+/**
+ * Generate and publish option token modules.
+ *
+ * Every strike/expiry is its own coin, so each needs a Move module with a one-time witness
+ * (e.g. `varuna::call_deep_sui_100000000_exp20270101`). The module is built together with
+ * options_pool.move in move/varuna and published; `init` sends the TreasuryCap to the publisher,
+ * who then calls the module's `create_pool` with the DeepBook oracle pool ID. Compiling Move needs
+ * the Sui CLI, so the guided flow hands the source over and takes the build output back.
+ */
+
+export interface OptionModuleSpec {
+  type: 'CALL' | 'PUT';
+  /** Underlying (base) symbol, e.g. DEEP */
+  baseSymbol: string;
+  /** Quote symbol, e.g. SUI */
+  quoteSymbol: string;
+  /** Strike in quote per base, e.g. 0.1 */
+  strikePrice: number;
+  /** Expiration timestamp in ms; the module name carries its UTC date */
+  expirationDate: number;
+  /** Option token decimals; use the underlying's so one option covers one base unit */
+  decimals: number;
+}
+
+export interface GeneratedOptionModule {
+  /** Move module name, e.g. call_deep_sui_100000000_exp20270101 */
+  moduleName: string;
+  /** One-time witness struct: the module name in uppercase */
+  witnessName: string;
+  /** Coin symbol, e.g. CALL-DEEP-SUI-100000000-EXP20270101 */
+  symbol: string;
+  /** Suggested path inside the repo */
+  fileName: string;
+  /** Raw on-chain strike (PRICE_DECIMALS precision) */
+  strikeRaw: bigint;
+  source: string;
+}
+
+/** Output of `sui move build --dump-bytecode-as-base64` */
+export interface CompiledPackage {
+  modules: string[];
+  dependencies: string[];
+}
+
+export interface PublishedOptionPackage {
+  packageId: string;
+  /** TreasuryCap<OptionToken> IDs sent to the publisher by each module's `init`, by module name */
+  treasuryCaps: Record<string, string>;
+}
+
+/** Build command for the package the generated module is saved into */
+export const MOVE_BUILD_COMMAND = 'sui move build --dump-bytecode-as-base64 --path move/varuna';
+
+const SUI_CLOCK_OBJECT_ID = '0x6';
+
+// =============== Generator ===============
+
+/** Lowercase alphanumeric form of a coin symbol, safe inside a Move identifier */
+function identifierPart(symbol: string): string {
+  return symbol.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/** Move type parameter names for create_pool: the symbol in uppercase, made unique */
+function typeParamNames(baseSymbol: string, quoteSymbol: string): [string, string] {
+  const base = identifierPart(baseSymbol).toUpperCase() || 'BASE';
+  const quote = identifierPart(quoteSymbol).toUpperCase() || 'QUOTE';
+  return base === quote ? [`${base}_BASE`, `${quote}_QUOTE`] : [base, quote];
+}
+
+/** 1234567 -> 1_234_567 */
+function moveNumber(value: bigint): string {
+  return value.toString().replace(/\B(?=(\d{3})+(?!\d))/g, '_');
+}
+
+function utcDateStamp(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getUTCFullYear()}${String(date.getUTCMonth() + 1).padStart(2, '0')}${String(date.getUTCDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Validate a spec before generating; returns an error message or null
+ */
+export function validateOptionModuleSpec(spec: OptionModuleSpec, now = Date.now()): string | null {
+  if (!identifierPart(spec.baseSymbol) || !identifierPart(spec.quoteSymbol)) {
+    return 'Base and quote symbols must contain letters or digits';
+  }
+  if (!(spec.strikePrice > 0)) return 'Strike must be positive';
+  if (BigInt(Math.round(spec.strikePrice * PRICE_DECIMALS)) <= 0n) {
+    return 'Strike is below the on-chain precision (1e-9)';
+  }
+  if (!Number.isFinite(spec.expirationDate) || spec.expirationDate <= now) return 'Expiration must be in the future';
+  if (!Number.isInteger(spec.decimals) || spec.decimals < 0 || spec.decimals > 18) return 'Decimals must be 0-18';
+  return null;
+}
+
+/**
+ * Emit the option token module for a strike/expiry, mirroring the hand-written examples in
+ * move/varuna/sources
+ */
+export function generateOptionModule(spec: OptionModuleSpec): GeneratedOptionModule {
+  const strikeRaw = BigInt(Math.round(spec.strikePrice * PRICE_DECIMALS));
+  const base = identifierPart(spec.baseSymbol);
+  const quote = identifierPart(spec.quoteSymbol);
+  const date = utcDateStamp(spec.expirationDate);
+  const moduleName = `${spec.type.toLowerCase()}_${base}_${quote}_${strikeRaw}_exp${date}`;
+  const witnessName = moduleName.toUpperCase();
+  const symbol = witnessName.replace(/_/g, '-');
+  const [baseParam, quoteParam] = typeParamNames(spec.baseSymbol, spec.quoteSymbol);
+  const pair = `${spec.baseSymbol.toUpperCase()}/${spec.quoteSymbol.toUpperCase()}`;
+  const expiryIso = new Date(spec.expirationDate).toISOString();
+  const optionType = spec.type === 'CALL' ? '0, // OPTION_TYPE_CALL' : '1, // OPTION_TYPE_PUT';
+
+  const source = `// ${spec.type} option token on ${pair}, strike ${spec.strikePrice} ${spec.quoteSymbol.toUpperCase()}, expiring ${expiryIso}
+// Generated by src/lib/publish.ts
+
+module varuna::${moduleName} {
+    use sui::coin::{Self, TreasuryCap};
+    use sui::clock::Clock;
+    use sui::object::ID;
+    use varuna::options_pool;
+
+    /// One-Time Witness for this option token
+    public struct ${witnessName} has drop {}
+
+    const STRIKE_PRICE: u64 = ${moveNumber(strikeRaw)}; // ${spec.strikePrice} (9 decimals precision)
+    const EXPIRATION_DATE: u64 = ${spec.expirationDate}; // ${expiryIso}
+
+    /// Create the option currency and send the TreasuryCap to the publisher
+    fun init(witness: ${witnessName}, ctx: &mut TxContext) {
+        let (treasury_cap, metadata) = coin::create_currency(
+            witness,
+            ${spec.decimals}, // decimals (matches the underlying)
+            b"${symbol}",
+            b"${spec.type} Option ${pair} Strike ${strikeRaw}",
+            b"Decentralized ${spec.type} option with strike ${spec.strikePrice} ${spec.quoteSymbol.toUpperCase()} per ${spec.baseSymbol.toUpperCase()}",
+            option::none(),
+            ctx
+        );
+        transfer::public_freeze_object(metadata);
+        transfer::public_transfer(treasury_cap, ctx.sender());
+    }
+
+    /// Create the options pool; called by the TreasuryCap holder after publishing
+    public fun create_pool<${baseParam}, ${quoteParam}>(
+        treasury_cap: TreasuryCap<${witnessName}>,
+        deepbook_pool_id: ID,
+        clock: &Clock,
+        ctx: &mut TxContext,
+    ): ID {
+        options_pool::create_pool<${witnessName}, ${baseParam}, ${quoteParam}>(
+            treasury_cap,
+            ${optionType}
+            STRIKE_PRICE,
+            EXPIRATION_DATE,
+            deepbook_pool_id,
+            clock,
+            ctx,
+        )
+    }
+
+    #[test_only]
+    public fun init_for_testing(ctx: &mut TxContext) {
+        init(${witnessName} {}, ctx);
+    }
+}
+`;
+
+  return {
+    moduleName,
+    witnessName,
+    symbol,
+    fileName: `move/varuna/sources/${moduleName}.move`,
+    strikeRaw,
+    source,
+  };
+}
+
+// =============== Publish & Create Pool ===============
+
+/**
+ * Parse the JSON printed by MOVE_BUILD_COMMAND
+ */
+export function parseCompiledPackage(json: string): CompiledPackage {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Build output is not valid JSON');
+  }
+  const { modules, dependencies } = (parsed ?? {}) as Record<string, unknown>;
+  const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every((m) => typeof m === 'string');
+  if (!isStringArray(modules) || modules.length === 0 || !isStringArray(dependencies)) {
+    throw new Error(`Expected { modules, dependencies } from \`${MOVE_BUILD_COMMAND}\``);
+  }
+  return { modules, dependencies };
+}
+
+/**
+ * Publish a compiled option package and keep the UpgradeCap with the sender
+ */
+export function publishOptionPackage(tx: Transaction, compiled: CompiledPackage, sender: string): void {
+  const [upgradeCap] = tx.publish({ modules: compiled.modules, dependencies: compiled.dependencies });
+  tx.transferObjects([upgradeCap], sender);
+}
+
+/**
+ * Find the package ID and the TreasuryCaps created by a publish transaction. A package may carry
+ * several option modules (see lib/series.ts), each minting its own TreasuryCap.
+ */
+export async function getPublishedOptionPackage(
+  digest: string,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<PublishedOptionPackage> {
+  const client = new SuiJsonRpcClient({ network, url: RPC_URLS[network] });
+  const tx = await client.waitForTransaction({ digest, options: { showObjectChanges: true } });
+  let packageId: string | null = null;
+  const treasuryCaps: Record<string, string> = {};
+  for (const change of tx.objectChanges ?? []) {
+    if (change.type === 'published') packageId = change.packageId;
+    // 0x2::coin::TreasuryCap<0xPKG::module_name::WITNESS>
+    const module = change.type === 'created'
+      ? /^0x2::coin::TreasuryCap<0x[0-9a-f]+::(\w+)::\w+>$/.exec(change.objectType)?.[1]
+      : undefined;
+    if (change.type === 'created' && module) {
+      treasuryCaps[module] = normalizeSuiObjectId(change.objectId);
+    }
+  }
+  if (!packageId || Object.keys(treasuryCaps).length === 0) {
+    throw new Error('Publish transaction did not create a package and TreasuryCap');
+  }
+  return { packageId: normalizeSuiObjectId(packageId), treasuryCaps };
+}
+
+/**
+ * Call the generated module's create_pool with the TreasuryCap and the DeepBook oracle pool
+ */
+export function createOptionsPool(
+  tx: Transaction,
+  {
+    packageId,
+    moduleName,
+    treasuryCapId,
+    baseAssetType,
+    quoteAssetType,
+    deepbookPoolId,
+  }: {
+    packageId: string;
+    moduleName: string;
+    treasuryCapId: string;
+    baseAssetType: string;
+    quoteAssetType: string;
+    deepbookPoolId: string;
+  }
+): void {
+  tx.moveCall({
+    target: `${packageId}::${moduleName}::create_pool`,
+    typeArguments: [baseAssetType, quoteAssetType],
+    arguments: [tx.object(treasuryCapId), tx.pure.id(deepbookPoolId), tx.object(SUI_CLOCK_OBJECT_ID)],
+  });
+}
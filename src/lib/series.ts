@@ -0,0 +1,285 @@
+import { coinWithBalance, type Transaction } from '@mysten/sui/transactions';
+import { DEEP_COIN_TYPE, POOL_CREATION_FEE_DEEP, createPermissionlessPool } from './deepbook';
+import { binomialAmericanPrice, yearsToExpiry, type PricingModel } from './pricing';
+import { createOptionsPool, generateOptionModule, type GeneratedOptionModule } from './publish';
+
+/**
+ * Plan a full options series: a strike ladder around the DeepBook mid × a set of expiries × CALL/PUT.
+ *
+ * All modules of a series go into one package (one build, one publish, one TreasuryCap each), then
+ * pools are created in batches: the module's `create_pool`, plus optionally a permissionless
+ * DeepBook pool for the option token against the quote asset so it can be traded.
+ */
+
+export type StrikeStepMode = 'percent' | 'fixed';
+
+export interface StrikeLadderSpec {
+  mode: StrikeStepMode;
+  /** Percent step as a decimal (0.05 = 5%), or a fixed step in quote */
+  step: number;
+  /** Strikes on each side of the mid (the ladder has 2 * count + 1 strikes) */
+  count: number;
+}
+
+export interface ExpirySpec {
+  /** Number of weekly (Friday) expiries */
+  weekly: number;
+  /** Number of monthly (last Friday of the month) expiries */
+  monthly: number;
+}
+
+/** Raw create_permissionless_pool parameters for an option token / quote pool */
+export interface MarketParams {
+  tickSize: number;
+  lotSize: number;
+  minSize: number;
+}
+
+export interface SeriesPlanItem {
+  type: 'CALL' | 'PUT';
+  strike: number;
+  expirationDate: number;
+  module: GeneratedOptionModule;
+  /** Model fair value at planning time, used to size the DeepBook tick */
+  fairValue: number;
+}
+
+export interface SeriesAssets {
+  baseSymbol: string;
+  quoteSymbol: string;
+  baseAssetType: string;
+  quoteAssetType: string;
+  /** Option tokens use the underlying's decimals */
+  baseDecimals: number;
+  quoteDecimals: number;
+}
+
+/** Expiries fall at 08:00 UTC, like most crypto option venues */
+const EXPIRY_HOUR_UTC = 8;
+
+/** Expiries closer than this are skipped */
+const MIN_TIME_TO_EXPIRY_MS = 2 * 86_400_000;
+
+/** DeepBook prices are scaled by 1e9 (deepbook::constants::float_scaling) */
+const FLOAT_SCALING = 1_000_000_000;
+
+/** DeepBook rejects lot sizes below this */
+const MIN_LOT_SIZE = 1000;
+
+/** The tick should be at most this fraction of the cheapest option's premium */
+const MAX_TICK_FRACTION = 0.01;
+
+/** Pools created per transaction; each DeepBook pool also pays POOL_CREATION_FEE_DEEP */
+export const SERIES_BATCH_SIZE = 8;
+
+// =============== Strikes & Expiries ===============
+
+/** Round to 3 significant figures so ladders land on readable strikes */
+function roundStrike(value: number): number {
+  if (value <= 0) return 0;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)) - 2);
+  return Math.round(value / magnitude) * magnitude;
+}
+
+/**
+ * Strikes around `mid`, stepping by a percentage or a fixed amount, rounded and de-duplicated.
+ * Fixed ladders are centred on the multiple of `step` nearest the mid.
+ */
+export function buildStrikeLadder(mid: number, { mode, step, count }: StrikeLadderSpec): number[] {
+  if (!(mid > 0) || !(step > 0)) return [];
+  const center = mode === 'percent' ? mid : Math.round(mid / step) * step;
+  const strikes = new Set<number>();
+  for (let k = -count; k <= count; k++) {
+    const raw = mode === 'percent' ? center * (1 + k * step) : center + k * step;
+    const strike = roundStrike(raw);
+    // Float noise from the rounding would otherwise make "equal" strikes distinct
+    if (strike > 0) strikes.add(Number(strike.toPrecision(12)));
+  }
+  return Array.from(strikes).sort((a, b) => a - b);
+}
+
+/**
+ * Weekly Friday expiries and monthly last-Friday expiries at EXPIRY_HOUR_UTC, sorted and unique
+ */
+export function buildExpiries({ weekly, monthly }: ExpirySpec, now = Date.now()): number[] {
+  const expiries = new Set<number>();
+  const earliest = now + MIN_TIME_TO_EXPIRY_MS;
+
+  const day = new Date(now);
+  let friday = Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), EXPIRY_HOUR_UTC);
+  friday += ((5 - day.getUTCDay() + 7) % 7) * 86_400_000;
+  for (let added = 0; added < weekly; friday += 7 * 86_400_000) {
+    if (friday < earliest) continue;
+    expiries.add(friday);
+    added++;
+  }
+
+  for (let m = 0, added = 0; added < monthly; m++) {
+    // Day 0 of the next month is the last day of this one; walk back to Friday
+    const last = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + m + 1, 0, EXPIRY_HOUR_UTC));
+    const lastFriday = last.getTime() - ((last.getUTCDay() - 5 + 7) % 7) * 86_400_000;
+    if (lastFriday < earliest) continue;
+    expiries.add(lastFriday);
+    added++;
+  }
+
+  return Array.from(expiries).sort((a, b) => a - b);
+}
+
+/**
+ * Every (type, strike, expiry) combination with its generated module and a model fair value
+ */
+export function planSeries(
+  assets: SeriesAssets,
+  {
+    types,
+    strikes,
+    expiries,
+    spot,
+    model,
+  }: { types: ('CALL' | 'PUT')[]; strikes: number[]; expiries: number[]; spot: number; model: PricingModel },
+  now = Date.now()
+): SeriesPlanItem[] {
+  const items: SeriesPlanItem[] = [];
+  for (const expirationDate of expiries) {
+    for (const strike of strikes) {
+      for (const type of types) {
+        items.push({
+          type,
+          strike,
+          expirationDate,
+          module: generateOptionModule({
+            type,
+            baseSymbol: assets.baseSymbol,
+            quoteSymbol: assets.quoteSymbol,
+            strikePrice: strike,
+            expirationDate,
+            decimals: assets.baseDecimals,
+          }),
+          fairValue: binomialAmericanPrice(
+            {
+              type,
+              spot,
+              strike,
+              timeToExpiry: yearsToExpiry(expirationDate, now),
+              volatility: model.volatility,
+              riskFreeRate: model.riskFreeRate,
+            },
+            model.steps
+          ),
+        });
+      }
+    }
+  }
+  return items;
+}
+
+// =============== DeepBook Market Params ===============
+
+function isPowerOfTen(value: number): boolean {
+  if (!Number.isInteger(value) || value < 1) return false;
+  let v = value;
+  while (v % 10 === 0) v /= 10;
+  return v === 1;
+}
+
+/** Human price increment of a raw DeepBook tick size */
+export function tickToPrice(tickSize: number, baseDecimals: number, quoteDecimals: number): number {
+  return (tickSize * Math.pow(10, baseDecimals)) / (FLOAT_SCALING * Math.pow(10, quoteDecimals));
+}
+
+/**
+ * Tick, lot and min size for option token pools: the largest power-of-ten tick within
+ * MAX_TICK_FRACTION of the cheapest premium, lots of 0.01 options (at least MIN_LOT_SIZE raw)
+ */
+export function suggestMarketParams(minPremium: number, baseDecimals: number, quoteDecimals: number): MarketParams {
+  const maxTick = Number.isFinite(minPremium) ? minPremium * MAX_TICK_FRACTION : 0;
+  let tickSize = 1;
+  while (tickToPrice(tickSize * 10, baseDecimals, quoteDecimals) <= maxTick) {
+    tickSize *= 10;
+  }
+  const lotSize = Math.max(MIN_LOT_SIZE, Math.pow(10, Math.max(baseDecimals - 2, 0)));
+  return { tickSize, lotSize, minSize: lotSize * 10 };
+}
+
+/**
+ * Check market params against DeepBook's create_pool rules and the series' premiums.
+ * Returns human-readable problems; errors would abort on-chain, warnings only hurt trading.
+ */
+export function validateMarketParams(
+  { tickSize, lotSize, minSize }: MarketParams,
+  { minPremium, baseDecimals, quoteDecimals }: { minPremium: number; baseDecimals: number; quoteDecimals: number }
+): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (!isPowerOfTen(tickSize)) errors.push('Tick size must be a power of ten');
+  if (!isPowerOfTen(lotSize) || lotSize < MIN_LOT_SIZE) {
+    errors.push(`Lot size must be a power of ten of at least ${MIN_LOT_SIZE}`);
+  }
+  if (!isPowerOfTen(minSize) || minSize % lotSize !== 0) {
+    errors.push('Min size must be a power of ten and a multiple of the lot size');
+  }
+
+  const tick = tickToPrice(tickSize, baseDecimals, quoteDecimals);
+  if (minPremium > 0 && tick > minPremium * MAX_TICK_FRACTION) {
+    warnings.push(`Tick of ${tick} is coarse next to the cheapest premium (${minPremium.toPrecision(3)})`);
+  }
+  const minOptions = minSize / Math.pow(10, baseDecimals);
+  if (minOptions > 1) {
+    warnings.push(`Minimum order is ${minOptions} options`);
+  }
+  return { errors, warnings };
+}
+
+// =============== Batched Pool Creation ===============
+
+/**
+ * Add create_pool for each item, and optionally a permissionless DeepBook pool for its option token
+ * against the quote asset. The DEEP fee is drawn from the sender's wallet, so set the sender first.
+ */
+export function buildSeriesPools(
+  tx: Transaction,
+  items: SeriesPlanItem[],
+  {
+    packageId,
+    treasuryCaps,
+    assets,
+    deepbookPoolId,
+    market,
+  }: {
+    packageId: string;
+    /** TreasuryCap IDs by module name (see getPublishedOptionPackage) */
+    treasuryCaps: Record<string, string>;
+    assets: SeriesAssets;
+    /** DeepBook pool of the underlying, used as the oracle */
+    deepbookPoolId: string;
+    /** Also list each option token on DeepBook with these params */
+    market?: MarketParams;
+  },
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): void {
+  const deepType = DEEP_COIN_TYPE[network === 'devnet' ? 'testnet' : network];
+  for (const item of items) {
+    const { moduleName, witnessName } = item.module;
+    const treasuryCapId = treasuryCaps[moduleName];
+    if (!treasuryCapId) {
+      throw new Error(`No TreasuryCap for ${moduleName}`);
+    }
+    createOptionsPool(tx, {
+      packageId,
+      moduleName,
+      treasuryCapId,
+      baseAssetType: assets.baseAssetType,
+      quoteAssetType: assets.quoteAssetType,
+      deepbookPoolId,
+    });
+    if (market) {
+      createPermissionlessPool(tx, {
+        baseAssetType: `${packageId}::${moduleName}::${witnessName}`,
+        quoteAssetType: assets.quoteAssetType,
+        ...market,
+        creationFeeCoin: coinWithBalance({ type: deepType, balance: POOL_CREATION_FEE_DEEP }),
+      }, network);
+    }
+  }
+}
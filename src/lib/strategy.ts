@@ -0,0 +1,323 @@
+import type { SuiGrpcClient } from '@mysten/sui/grpc';
+import type { Transaction } from '@mysten/sui/transactions';
+import {
+  depositIntoBalanceManager,
+  estimateMarketFill,
+  placeMarketOrder,
+  type OrderBookData,
+  type PoolInfo,
+} from './deepbook';
+import { pnlAtExpiry, pnlToday, type PayoffPoint, type PayoffPosition, type PayoffSummary } from './payoff';
+import type { PricingModel } from './pricing';
+import type { OptionPool } from './options';
+import { buildMintAndSell, mintAmounts } from './writing';
+
+/**
+ * Multi-leg strategies (spreads, straddles, collars) on one underlying.
+ *
+ * A buy leg takes the option token's DeepBook asks; a sell leg writes new options and sells them
+ * into the bids (lib/writing.ts), so every short leg is covered. By default P&L is the options
+ * overlay: a short leg mirrors the long one and its locked collateral is reported separately, so a
+ * call spread reads as a call spread. With `covered` set, short legs are valued the way
+ * lib/payoff.ts values a writer, collateral included - which is what makes a collar a collar.
+ * Values are in quote units.
+ */
+
+export type LegAction = 'buy' | 'sell';
+
+export interface StrategyLeg {
+  option: OptionPool;
+  action: LegAction;
+  /** Options (human units) */
+  quantity: number;
+  /** Premium per option: paid on buy legs, received on sell legs */
+  premium: number;
+}
+
+export type StrategyTemplate = 'bull-call-spread' | 'bear-put-spread' | 'straddle' | 'strangle' | 'collar';
+
+export interface CollateralRequirement {
+  asset: string;
+  assetType: string;
+  /** Human units */
+  amount: number;
+}
+
+export interface StrategySummary extends PayoffSummary {
+  /** Premium received minus premium paid */
+  netPremium: number;
+  /** Collateral locked by sell legs, per asset */
+  collateral: CollateralRequirement[];
+}
+
+/** Fill of one leg against its option token's book */
+export interface LegFill {
+  filled: number;
+  averagePrice: number;
+}
+
+export const STRATEGY_TEMPLATES: { id: StrategyTemplate; label: string; description: string; covered?: boolean }[] = [
+  { id: 'bull-call-spread', label: 'Bull call spread', description: 'Buy a call at the money, sell one above' },
+  { id: 'bear-put-spread', label: 'Bear put spread', description: 'Buy a put at the money, sell one below' },
+  { id: 'straddle', label: 'Straddle', description: 'Buy a call and a put at the money' },
+  { id: 'strangle', label: 'Strangle', description: 'Buy an out-of-the-money call and put' },
+  { id: 'collar', label: 'Collar', description: 'Buy a put below and write a covered call above', covered: true },
+];
+
+/** Extra quote deposited for buy legs to cover taker fees and book movement */
+const BUY_FEE_BUFFER = 1.01;
+
+// =============== Legs & Templates ===============
+
+/**
+ * Why a set of legs can't form one strategy, or null. Legs must share the underlying pair (so
+ * premiums and collateral net out in one quote asset) and the expiry (so the payoff at expiry is
+ * one curve), and be live.
+ */
+export function validateStrategy(legs: StrategyLeg[], now = Date.now()): string | null {
+  if (legs.length === 0) return 'Add at least one leg';
+  const [first] = legs;
+  for (const leg of legs) {
+    if (!(leg.quantity > 0)) return `${leg.option.name}: quantity must be positive`;
+    if (leg.option.expirationDate <= now) return `${leg.option.name} has expired`;
+    if (leg.option.baseAssetType !== first.option.baseAssetType || leg.option.quoteAssetType !== first.option.quoteAssetType) {
+      return 'All legs must be on the same underlying pair';
+    }
+    if (leg.option.expirationDate !== first.option.expirationDate) return 'All legs must share an expiry';
+  }
+  return null;
+}
+
+/** Nearest strike of `type` to `target`, optionally only strikes strictly above or below it */
+function pickStrike(
+  options: OptionPool[],
+  type: 'CALL' | 'PUT',
+  target: number,
+  direction?: 'above' | 'below'
+): OptionPool | null {
+  const candidates = options.filter(
+    (o) =>
+      o.type === type &&
+      (direction === 'above' ? o.strikePrice > target : direction === 'below' ? o.strikePrice < target : true)
+  );
+  return candidates.reduce<OptionPool | null>(
+    (best, o) => (!best || Math.abs(o.strikePrice - target) < Math.abs(best.strikePrice - target) ? o : best),
+    null
+  );
+}
+
+/**
+ * Legs for a template from one expiry's options, around `spot`; premiums start at zero for the
+ * caller to fill from the books. Returns null if the expiry lacks the strikes the template needs.
+ */
+export function buildTemplateLegs(
+  template: StrategyTemplate,
+  options: OptionPool[],
+  spot: number,
+  quantity = 1
+): StrategyLeg[] | null {
+  const leg = (option: OptionPool | null, action: LegAction) => (option ? { option, action, quantity, premium: 0 } : null);
+  let legs: (StrategyLeg | null)[];
+  switch (template) {
+    case 'bull-call-spread': {
+      const long = pickStrike(options, 'CALL', spot);
+      legs = [leg(long, 'buy'), leg(long && pickStrike(options, 'CALL', long.strikePrice, 'above'), 'sell')];
+      break;
+    }
+    case 'bear-put-spread': {
+      const long = pickStrike(options, 'PUT', spot);
+      legs = [leg(long, 'buy'), leg(long && pickStrike(options, 'PUT', long.strikePrice, 'below'), 'sell')];
+      break;
+    }
+    case 'straddle': {
+      const call = pickStrike(options, 'CALL', spot);
+      const put = call ? options.find((o) => o.type === 'PUT' && o.strikePrice === call.strikePrice) ?? null : null;
+      legs = [leg(call, 'buy'), leg(put, 'buy')];
+      break;
+    }
+    case 'strangle':
+      legs = [leg(pickStrike(options, 'PUT', spot, 'below'), 'buy'), leg(pickStrike(options, 'CALL', spot, 'above'), 'buy')];
+      break;
+    case 'collar':
+      legs = [leg(pickStrike(options, 'PUT', spot, 'below'), 'buy'), leg(pickStrike(options, 'CALL', spot, 'above'), 'sell')];
+      break;
+  }
+  return legs.every((l): l is StrategyLeg => l !== null) ? legs : null;
+}
+
+// =============== Payoff ===============
+
+/** Slopes smaller than this are float noise from offsetting legs */
+const SLOPE_EPSILON = 1e-9;
+
+/**
+ * Position and sign for one leg. Uncovered sell legs are the negated holder position; covered
+ * ones are a writer position, whose value includes the collateral.
+ */
+function legPosition(leg: StrategyLeg, spot: number, covered: boolean): [PayoffPosition, number] {
+  const side = leg.action === 'sell' && covered ? 'writer' : 'holder';
+  const sign = leg.action === 'sell' && !covered ? -1 : 1;
+  return [{ side, quantity: leg.quantity, premium: leg.premium, entrySpot: spot }, sign];
+}
+
+/**
+ * Combined P&L at expiry if the underlying settles at `price`
+ */
+export function strategyPnlAtExpiry(legs: StrategyLeg[], spot: number, price: number, covered = false): number {
+  return legs.reduce((sum, leg) => {
+    const [position, sign] = legPosition(leg, spot, covered);
+    return sum + sign * pnlAtExpiry(leg.option, position, price);
+  }, 0);
+}
+
+/**
+ * Price range covering every strike and the spot with room on both sides
+ */
+export function strategyRange(legs: StrategyLeg[], spot: number, width = 0.5): [number, number] {
+  const prices = [...legs.map((leg) => leg.option.strikePrice), spot].filter((p) => p > 0);
+  if (prices.length === 0) return [0, 1];
+  return [Math.max(Math.min(...prices) * (1 - width), 0), Math.max(...prices) * (1 + width)];
+}
+
+/**
+ * Sample combined P&L at expiry and today across evenly spaced underlying prices
+ */
+export function buildStrategyCurve(
+  legs: StrategyLeg[],
+  spot: number,
+  model: PricingModel,
+  {
+    range,
+    points = 81,
+    now = Date.now(),
+    covered = false,
+  }: { range: [number, number]; points?: number; now?: number; covered?: boolean }
+): PayoffPoint[] {
+  const [lo, hi] = range;
+  const step = (hi - lo) / Math.max(points - 1, 1);
+  const curve: PayoffPoint[] = [];
+  for (let i = 0; i < points; i++) {
+    const price = lo + step * i;
+    curve.push({
+      price,
+      expiry: strategyPnlAtExpiry(legs, spot, price, covered),
+      today: legs.reduce((sum, leg) => {
+        const [position, sign] = legPosition(leg, spot, covered);
+        return sum + sign * pnlToday(leg.option, position, price, model, now);
+      }, 0),
+    });
+  }
+  return curve;
+}
+
+/**
+ * Net premium, collateral, breakevens and max profit/loss at expiry. The combined expiry payoff is
+ * piecewise linear with kinks only at the strikes, so it is evaluated at zero, at each strike and
+ * by its slope above the highest strike.
+ */
+export function summarizeStrategy(legs: StrategyLeg[], spot: number, covered = false): StrategySummary {
+  const netPremium = legs.reduce((sum, leg) => sum + (leg.action === 'sell' ? 1 : -1) * leg.premium * leg.quantity, 0);
+
+  const collateralByType = new Map<string, CollateralRequirement>();
+  for (const leg of legs) {
+    if (leg.action !== 'sell') continue;
+    const { option } = leg;
+    const { collateralAmount } = mintAmounts(option, leg.quantity);
+    const [asset, assetType, decimals] = option.type === 'CALL'
+      ? [option.baseAsset, option.baseAssetType, option.baseAssetDecimals ?? 9]
+      : [option.quoteAsset, option.quoteAssetType, option.quoteAssetDecimals ?? 9];
+    const entry = collateralByType.get(assetType) ?? { asset, assetType, amount: 0 };
+    entry.amount += Number(collateralAmount) / Math.pow(10, decimals);
+    collateralByType.set(assetType, entry);
+  }
+
+  const kinks = [0, ...new Set(legs.map((leg) => leg.option.strikePrice))].sort((a, b) => a - b);
+  const values = kinks.map((price) => strategyPnlAtExpiry(legs, spot, price, covered));
+  const top = kinks[kinks.length - 1];
+  const rawSlope = strategyPnlAtExpiry(legs, spot, top + 1, covered) - values[values.length - 1];
+  const slopeAbove = Math.abs(rawSlope) < SLOPE_EPSILON ? 0 : rawSlope;
+
+  const breakevens: number[] = [];
+  for (let i = 1; i < kinks.length; i++) {
+    const [a, b] = [values[i - 1], values[i]];
+    if (a * b < 0) {
+      breakevens.push(kinks[i - 1] + (-a / (b - a)) * (kinks[i] - kinks[i - 1]));
+    } else if (b === 0 && a !== 0) {
+      breakevens.push(kinks[i]);
+    }
+  }
+  const last = values[values.length - 1];
+  if (last * slopeAbove < 0) {
+    breakevens.push(top - last / slopeAbove);
+  }
+
+  const unlimitedProfit = slopeAbove > 0;
+  return {
+    netPremium,
+    collateral: Array.from(collateralByType.values()),
+    breakevens,
+    maxProfit: unlimitedProfit ? Infinity : Math.max(...values),
+    maxLoss: slopeAbove < 0 ? Infinity : Math.max(0, -Math.min(...values)),
+    unlimitedProfit,
+  };
+}
+
+// =============== Execution ===============
+
+/**
+ * What the book would fill for a leg at market: buys walk the asks, sells the bids
+ */
+export function estimateLegFill(leg: StrategyLeg, book: OrderBookData | null): LegFill {
+  if (!book) return { filled: 0, averagePrice: 0 };
+  const fill = estimateMarketFill(book, leg.action, leg.quantity);
+  return { filled: fill.filled, averagePrice: fill.averagePrice };
+}
+
+/**
+ * Add every leg to `tx` as market orders on the option tokens' DeepBook pools. Sell legs go first
+ * (mint → deposit → sell), so their premium is already in the BalanceManager when the buy legs
+ * run; only the shortfall, with a fee buffer, is deposited from the wallet. Any leg that can't
+ * fill aborts the whole transaction.
+ * @param markets - option pool ID -> DeepBook pool of its option token
+ */
+export function buildStrategy(
+  tx: Transaction,
+  client: SuiGrpcClient,
+  userAddress: string,
+  legs: StrategyLeg[],
+  markets: Record<string, PoolInfo>,
+  balanceManagerId: string,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): void {
+  const error = validateStrategy(legs);
+  if (error) throw new Error(error);
+  const marketFor = (leg: StrategyLeg) => {
+    const market = markets[leg.option.id];
+    if (!market) throw new Error(`${leg.option.name} has no DeepBook market`);
+    return market;
+  };
+
+  tx.setSender(userAddress);
+  const sells = legs.filter((leg) => leg.action === 'sell');
+  const buys = legs.filter((leg) => leg.action === 'buy');
+
+  for (const leg of sells) {
+    buildMintAndSell(tx, client, userAddress, leg.option, marketFor(leg), balanceManagerId, {
+      quantity: leg.quantity,
+      orderType: 'market',
+    }, network);
+  }
+
+  if (buys.length > 0) {
+    const market = marketFor(buys[0]);
+    const cost = buys.reduce((sum, leg) => sum + leg.premium * leg.quantity, 0) * BUY_FEE_BUFFER;
+    const proceeds = sells.reduce((sum, leg) => sum + leg.premium * leg.quantity, 0) / BUY_FEE_BUFFER;
+    const shortfall = Math.ceil(Math.max(cost - proceeds, 0) * Math.pow(10, market.quoteAssetDecimals));
+    if (shortfall > 0) {
+      depositIntoBalanceManager(tx, balanceManagerId, buys[0].option.quoteAssetType, BigInt(shortfall), network);
+    }
+    for (const leg of buys) {
+      placeMarketOrder(tx, client, userAddress, marketFor(leg), balanceManagerId, 'buy', leg.quantity, network);
+    }
+  }
+}
@@ -0,0 +1,512 @@
+import type { GrpcTypes, SuiGrpcClient } from '@mysten/sui/grpc';
+import { normalizeStructTag, normalizeSuiObjectId } from '@mysten/sui/utils';
+import { getDeepBookPackageId, getIndexer, type OrderBookData, type PoolInfo, type Trade } from './deepbook';
+
+/**
+ * Streaming market data for DeepBook pools. A PoolMarketStream subscribes to the pool's
+ * OrderPlaced / OrderFilled / OrderCanceled events over the gRPC SubscriptionService, keeps a
+ * local L2 book built from an indexer snapshot plus the events since, and pushes the book and new
+ * trades to its listeners.
+ *
+ * Subscriptions start at the chain tip and can't resume, so the book is rebuilt from a snapshot
+ * whenever the stream (re)connects, periodically, and whenever it stops making sense (crossed).
+ * Events are ordered by (checkpoint, transaction index, event index); anything at or before the
+ * last applied event is a duplicate and dropped.
+ */
+
+type Network = 'mainnet' | 'testnet' | 'devnet';
+type GrpcEvent = GrpcTypes.Event;
+type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue };
+
+/**
+ * connecting / reconnecting: no subscription yet. syncing: subscribed, waiting for a snapshot.
+ * live: the local book is current and updates on every event.
+ */
+export type StreamStatus = 'idle' | 'connecting' | 'syncing' | 'live' | 'reconnecting';
+
+export interface EventSequence {
+  checkpoint: bigint;
+  transactionIndex: bigint;
+  eventIndex: number;
+}
+
+interface BookEventBase {
+  sequence: EventSequence;
+  transactionDigest: string;
+  /** Normalized */
+  poolId: string;
+  /** Raw price: quote per base, scaled by 1e9 and the decimals difference */
+  price: bigint;
+  /** Unix milliseconds, from the on-chain clock */
+  timestamp: number;
+}
+
+export type BookEvent =
+  | (BookEventBase & { kind: 'placed'; orderId: string; isBid: boolean; quantity: bigint })
+  | (BookEventBase & { kind: 'filled'; makerOrderId: string; takerIsBid: boolean; baseQuantity: bigint })
+  | (BookEventBase & { kind: 'canceled'; orderId: string; isBid: boolean; quantity: bigint });
+
+export interface MarketUpdate {
+  /** Every level of the local book */
+  book: OrderBookData;
+  /** Trades since the previous update, most recent first */
+  trades: Trade[];
+}
+
+export interface MarketStreamOptions {
+  /** Rebuild the book from a fresh snapshot this often (default: 60s) */
+  resyncIntervalMs?: number;
+  /** First reconnect delay, doubled per failed attempt (default: 1s) */
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+  /** How long events are kept for replay on top of a snapshot (default: 2 min) */
+  replayWindowMs?: number;
+}
+
+const FLOAT_SCALING = 1_000_000_000;
+
+// =============== Sequencing ===============
+
+export function compareSequence(a: EventSequence, b: EventSequence): number {
+  if (a.checkpoint !== b.checkpoint) return a.checkpoint < b.checkpoint ? -1 : 1;
+  if (a.transactionIndex !== b.transactionIndex) return a.transactionIndex < b.transactionIndex ? -1 : 1;
+  return a.eventIndex - b.eventIndex;
+}
+
+// =============== Events ===============
+
+interface BookEventTypes {
+  placed: string;
+  filled: string;
+  canceled: string;
+}
+
+const eventTypesByNetwork = new Map<string, Promise<BookEventTypes>>();
+
+/**
+ * Event types carry the package that first defined them, not the upgraded package transactions
+ * call, so the DeepBook package's type origins are looked up once per network.
+ */
+function getBookEventTypes(client: SuiGrpcClient, network: Network): Promise<BookEventTypes> {
+  let types = eventTypesByNetwork.get(network);
+  if (!types) {
+    types = (async () => {
+      const packageId = getDeepBookPackageId(network);
+      const { response } = await client.movePackageService.getPackage({ packageId });
+      const origins = response.package?.typeOrigins ?? [];
+      const typeOf = (module: string, name: string) => {
+        const origin = origins.find((o) => o.datatypeName === name);
+        return normalizeStructTag(
+          `${origin?.packageId ?? response.package?.originalId ?? packageId}::${origin?.moduleName ?? module}::${name}`
+        );
+      };
+      return {
+        placed: typeOf('order_info', 'OrderPlaced'),
+        filled: typeOf('order_info', 'OrderFilled'),
+        canceled: typeOf('order', 'OrderCanceled'),
+      };
+    })();
+    // Don't cache a failed lookup
+    types.catch(() => eventTypesByNetwork.delete(network));
+    eventTypesByNetwork.set(network, types);
+  }
+  return types;
+}
+
+function toJson(value: NonNullable<GrpcEvent['json']>): JsonValue {
+  switch (value.kind.oneofKind) {
+    case 'nullValue':
+      return null;
+    case 'numberValue':
+      return value.kind.numberValue;
+    case 'stringValue':
+      return value.kind.stringValue;
+    case 'boolValue':
+      return value.kind.boolValue;
+    case 'structValue':
+      return Object.fromEntries(
+        Object.entries(value.kind.structValue.fields).map(([key, field]) => [key, toJson(field)])
+      );
+    case 'listValue':
+      return value.kind.listValue.values.map(toJson);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode a DeepBook order event; null for other event types or events missing their position
+ */
+export function parseBookEvent(event: GrpcEvent, types: BookEventTypes): BookEvent | null {
+  if (!event.eventType || !event.json || event.checkpoint === undefined || event.eventIndex === undefined) {
+    return null;
+  }
+  const eventType = normalizeStructTag(event.eventType);
+  const kind = eventType === types.placed ? 'placed'
+    : eventType === types.filled ? 'filled'
+      : eventType === types.canceled ? 'canceled'
+        : null;
+  if (!kind) return null;
+
+  const json = toJson(event.json);
+  if (!json || typeof json !== 'object' || Array.isArray(json)) return null;
+  const u64 = (key: string) => BigInt(String(json[key] ?? 0));
+  const base: BookEventBase = {
+    sequence: {
+      checkpoint: event.checkpoint,
+      transactionIndex: event.transactionIndex ?? 0n,
+      eventIndex: event.eventIndex,
+    },
+    transactionDigest: event.transactionDigest ?? '',
+    poolId: normalizeSuiObjectId(String(json.pool_id)),
+    price: u64('price'),
+    timestamp: Number(json.timestamp),
+  };
+
+  switch (kind) {
+    case 'placed':
+      return { ...base, kind, orderId: String(json.order_id), isBid: json.is_bid === true, quantity: u64('placed_quantity') };
+    case 'filled':
+      return {
+        ...base,
+        kind,
+        makerOrderId: String(json.maker_order_id),
+        takerIsBid: json.taker_is_bid === true,
+        baseQuantity: u64('base_quantity'),
+      };
+    case 'canceled':
+      return {
+        ...base,
+        kind,
+        orderId: String(json.order_id),
+        isBid: json.is_bid === true,
+        quantity: u64('base_asset_quantity_canceled'),
+      };
+  }
+}
+
+// =============== Local Book ===============
+
+/**
+ * L2 book of one pool in raw units, so snapshot and event prices land on the same level exactly
+ */
+export class LocalOrderBook {
+  private bids = new Map<bigint, bigint>();
+  private asks = new Map<bigint, bigint>();
+  private readonly priceScale: number;
+  private readonly baseScale: number;
+
+  constructor(pool: PoolInfo) {
+    this.priceScale = FLOAT_SCALING * Math.pow(10, pool.quoteAssetDecimals - pool.baseAssetDecimals);
+    this.baseScale = Math.pow(10, pool.baseAssetDecimals);
+  }
+
+  /** Replace the book with an indexer snapshot (prices and quantities in display units) */
+  loadSnapshot(snapshot: { bids: [number, number][]; asks: [number, number][] }): void {
+    this.bids.clear();
+    this.asks.clear();
+    for (const [price, quantity] of snapshot.bids) this.add(this.bids, this.rawPrice(price), this.rawQuantity(quantity));
+    for (const [price, quantity] of snapshot.asks) this.add(this.asks, this.rawPrice(price), this.rawQuantity(quantity));
+  }
+
+  /**
+   * Apply one event. Placed orders rest their remaining quantity at their price; fills take from
+   * the maker's side at the fill price; cancels remove what was left of the order.
+   */
+  apply(event: BookEvent): void {
+    switch (event.kind) {
+      case 'placed':
+        this.add(event.isBid ? this.bids : this.asks, event.price, event.quantity);
+        break;
+      case 'filled':
+        this.add(event.takerIsBid ? this.asks : this.bids, event.price, -event.baseQuantity);
+        break;
+      case 'canceled':
+        this.add(event.isBid ? this.bids : this.asks, event.price, -event.quantity);
+        break;
+    }
+  }
+
+  /** Best bid at or above best ask: the book has drifted from the chain */
+  isCrossed(): boolean {
+    if (this.bids.size === 0 || this.asks.size === 0) return false;
+    const bestBid = [...this.bids.keys()].reduce((a, b) => (b > a ? b : a));
+    const bestAsk = [...this.asks.keys()].reduce((a, b) => (b < a ? b : a));
+    return bestBid >= bestAsk;
+  }
+
+  /** Bids high to low and asks low to high, `depth` levels each (0 = all) */
+  toData(depth = 0): OrderBookData {
+    const levels = (side: Map<bigint, bigint>, descending: boolean) => {
+      const sorted = [...side.entries()].sort(([a], [b]) => (a === b ? 0 : (a < b) !== descending ? -1 : 1));
+      return (depth > 0 ? sorted.slice(0, depth) : sorted).map(([price, quantity]) => ({
+        price: this.displayPrice(price),
+        quantity: Number(quantity) / this.baseScale,
+      }));
+    };
+    return { bids: levels(this.bids, true), asks: levels(this.asks, false) };
+  }
+
+  displayPrice(raw: bigint): number {
+    return Number(raw) / this.priceScale;
+  }
+
+  displayQuantity(raw: bigint): number {
+    return Number(raw) / this.baseScale;
+  }
+
+  private rawPrice(price: number): bigint {
+    return BigInt(Math.round(price * this.priceScale));
+  }
+
+  private rawQuantity(quantity: number): bigint {
+    return BigInt(Math.round(quantity * this.baseScale));
+  }
+
+  private add(side: Map<bigint, bigint>, price: bigint, quantity: bigint): void {
+    const next = (side.get(price) ?? 0n) + quantity;
+    if (next > 0n) side.set(price, next);
+    else side.delete(price);
+  }
+}
+
+// =============== Stream ===============
+
+type UpdateListener = (update: MarketUpdate) => void;
+type StatusListener = (status: StreamStatus) => void;
+
+/**
+ * Live book and trades of one pool. The subscription runs while at least one listener is
+ * subscribed; use getPoolMarketStream to share one per pool.
+ */
+export class PoolMarketStream {
+  readonly pool: PoolInfo;
+  private readonly client: SuiGrpcClient;
+  private readonly network: Network;
+  private readonly options: Required<MarketStreamOptions>;
+
+  private updateListeners = new Set<UpdateListener>();
+  private statusListeners = new Set<StatusListener>();
+  private currentStatus: StreamStatus = 'idle';
+  private abortController: AbortController | null = null;
+  private resyncTimer: ReturnType<typeof setInterval> | null = null;
+
+  private book: LocalOrderBook | null = null;
+  private lastSequence: EventSequence | null = null;
+  /** Recent events, kept to replay on top of a snapshot taken while they streamed in */
+  private recent: BookEvent[] = [];
+  private resyncing = false;
+
+  constructor(client: SuiGrpcClient, pool: PoolInfo, network: Network, options: MarketStreamOptions = {}) {
+    this.client = client;
+    this.pool = pool;
+    this.network = network;
+    this.options = {
+      resyncIntervalMs: options.resyncIntervalMs ?? 60_000,
+      reconnectDelayMs: options.reconnectDelayMs ?? 1_000,
+      maxReconnectDelayMs: options.maxReconnectDelayMs ?? 30_000,
+      replayWindowMs: options.replayWindowMs ?? 120_000,
+    };
+  }
+
+  get status(): StreamStatus {
+    return this.currentStatus;
+  }
+
+  /**
+   * Receive the book and new trades on every change; the current book, if any, is sent right away
+   */
+  subscribe(listener: UpdateListener): () => void {
+    this.updateListeners.add(listener);
+    if (this.book && this.currentStatus === 'live') {
+      listener({ book: this.book.toData(), trades: [] });
+    }
+    if (this.updateListeners.size === 1) this.start();
+    return () => {
+      this.updateListeners.delete(listener);
+      if (this.updateListeners.size === 0) this.stop();
+    };
+  }
+
+  onStatus(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => this.statusListeners.delete(listener);
+  }
+
+  private start(): void {
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    this.run(abortController.signal);
+    // Also retries a snapshot that failed while syncing
+    this.resyncTimer = setInterval(() => {
+      if (this.currentStatus === 'live' || this.currentStatus === 'syncing') this.resync(abortController.signal);
+    }, this.options.resyncIntervalMs);
+  }
+
+  private stop(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+    if (this.resyncTimer) clearInterval(this.resyncTimer);
+    this.resyncTimer = null;
+    this.book = null;
+    this.lastSequence = null;
+    this.recent = [];
+    this.setStatus('idle');
+  }
+
+  private setStatus(status: StreamStatus): void {
+    if (status === this.currentStatus) return;
+    this.currentStatus = status;
+    this.statusListeners.forEach((listener) => listener(status));
+    statusWatchers.forEach((watcher) => watcher());
+  }
+
+  private emit(trades: Trade[]): void {
+    if (!this.book) return;
+    const update = { book: this.book.toData(), trades };
+    this.updateListeners.forEach((listener) => listener(update));
+  }
+
+  /** Subscribe, and on failure or end of stream reconnect with backoff until stopped */
+  private async run(signal: AbortSignal): Promise<void> {
+    const poolId = normalizeSuiObjectId(this.pool.poolId);
+    let attempt = 0;
+    while (!signal.aborted) {
+      this.setStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+      try {
+        const types = await getBookEventTypes(this.client, this.network);
+        const call = this.client.subscriptionService.subscribeEvents(
+          {
+            filter: {
+              terms: [types.placed, types.filled, types.canceled].map((eventType) => ({
+                literals: [{ negated: false, predicate: { oneofKind: 'eventType', eventType: { eventType } } }],
+              })),
+            },
+            readMask: { paths: ['event_type', 'json', 'checkpoint', 'transaction_digest', 'transaction_index', 'event_index'] },
+          },
+          { abort: signal }
+        );
+
+        let subscribed = false;
+        for await (const frame of call.responses) {
+          if (!subscribed) {
+            // Events from here on are seen, so a snapshot taken now can be caught up exactly.
+            // Whatever happened while disconnected is only in the snapshot.
+            subscribed = true;
+            attempt = 0;
+            this.book = null;
+            this.setStatus('syncing');
+            this.resync(signal);
+          }
+          const event = frame.event ? parseBookEvent(frame.event, types) : null;
+          if (event && event.poolId === poolId) this.handleEvent(event, signal);
+        }
+      } catch (error) {
+        if (signal.aborted) return;
+        console.error('Market stream error for', this.pool.poolName, ':', error);
+      }
+      if (signal.aborted) return;
+
+      const delay = Math.min(this.options.reconnectDelayMs * Math.pow(2, attempt), this.options.maxReconnectDelayMs);
+      attempt++;
+      this.setStatus('reconnecting');
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  private handleEvent(event: BookEvent, signal: AbortSignal): void {
+    if (this.lastSequence && compareSequence(event.sequence, this.lastSequence) <= 0) return;
+    this.lastSequence = event.sequence;
+
+    const cutoff = Date.now() - this.options.replayWindowMs;
+    this.recent.push(event);
+    while (this.recent.length > 0 && this.recent[0].timestamp < cutoff) this.recent.shift();
+
+    if (!this.book) return;
+    this.book.apply(event);
+    if (this.book.isCrossed()) {
+      this.book = null;
+      this.setStatus('syncing');
+      this.resync(signal);
+      return;
+    }
+    this.emit(event.kind === 'filled' ? [this.toTrade(event)] : []);
+  }
+
+  /**
+   * Rebuild the book from an indexer snapshot plus the streamed events it doesn't include yet.
+   * The snapshot timestamp marks what it covers; without one, events from the request on replay.
+   */
+  private async resync(signal: AbortSignal): Promise<void> {
+    if (this.resyncing) return;
+    this.resyncing = true;
+    const requestedAt = Date.now();
+    try {
+      const snapshot = await getIndexer(this.network).getOrderBook(this.pool.poolName, { level: 2, depth: 0 }, { signal });
+      if (signal.aborted) return;
+      const book = new LocalOrderBook(this.pool);
+      book.loadSnapshot(snapshot);
+      const coveredUntil = snapshot.timestamp ?? requestedAt;
+      this.recent.filter((event) => event.timestamp > coveredUntil).forEach((event) => book.apply(event));
+
+      this.book = book;
+      this.setStatus('live');
+      this.emit([]);
+    } catch (error) {
+      if (signal.aborted) return;
+      // A live book keeps streaming; otherwise the next resync tick tries again
+      console.error('Order book resync failed for', this.pool.poolName, ':', error);
+    } finally {
+      this.resyncing = false;
+    }
+  }
+
+  private toTrade(event: Extract<BookEvent, { kind: 'filled' }>): Trade {
+    const book = this.book!;
+    return {
+      id: `${event.transactionDigest}:${event.sequence.eventIndex}`,
+      time: Math.floor(event.timestamp / 1000),
+      price: book.displayPrice(event.price),
+      size: book.displayQuantity(event.baseQuantity),
+      side: event.takerIsBid ? 'buy' : 'sell',
+    };
+  }
+}
+
+// =============== Registry ===============
+
+const streams = new Map<string, PoolMarketStream>();
+const statusWatchers = new Set<() => void>();
+const streamKey = (network: Network, poolName: string) => `${network}:${poolName}`;
+
+/**
+ * Shared stream for a pool, so every component watching it rides one subscription
+ */
+export function getPoolMarketStream(
+  client: SuiGrpcClient,
+  pool: PoolInfo,
+  network: Network = 'mainnet'
+): PoolMarketStream {
+  const key = streamKey(network, pool.poolName);
+  let stream = streams.get(key);
+  if (!stream || stream.pool.poolId !== pool.poolId) {
+    stream = new PoolMarketStream(client, pool, network);
+    streams.set(key, stream);
+  }
+  return stream;
+}
+
+/**
+ * Status of a pool's shared stream; 'idle' when nothing has streamed it
+ */
+export function getStreamStatus(network: Network, poolName: string): StreamStatus {
+  return streams.get(streamKey(network, poolName))?.status ?? 'idle';
+}
+
+/**
+ * Called whenever any stream changes status (for useSyncExternalStore)
+ */
+export function watchStreamStatus(watcher: () => void): () => void {
+  statusWatchers.add(watcher);
+  return () => statusWatchers.delete(watcher);
+}
@@ -0,0 +1,248 @@
+import type { ClientWithCoreApi } from '@mysten/sui/client';
+import type { Transaction, TransactionArgument } from '@mysten/sui/transactions';
+import * as optionsPool from '../contracts/varuna/options_pool';
+import type { OptionPool } from './options';
+
+/**
+ * Typed wrappers around the generated `options_pool` bindings (src/contracts/varuna).
+ *
+ * Every published option package bundles its own copy of `options_pool`, so builders take the
+ * discovered OptionPool and fill in the package address and the
+ * <OptionToken, BaseAsset, QuoteAsset> type arguments from it.
+ */
+
+/** The parts of an OptionPool needed to address its options_pool module */
+export type OptionPoolRef = Pick<
+  OptionPool,
+  'id' | 'type' | 'packageId' | 'optionTokenType' | 'baseAssetType' | 'quoteAssetType'
+>;
+
+/** An object ID or a result from an earlier command in the same transaction */
+export type ObjectInput = string | TransactionArgument;
+
+export type OptionsPoolObject = typeof optionsPool.OptionsPool.$inferType;
+export type OwnerTokenObject = typeof optionsPool.OwnerToken.$inferType;
+
+function poolCall(option: OptionPoolRef) {
+  return {
+    package: option.packageId,
+    typeArguments: [option.optionTokenType, option.baseAssetType, option.quoteAssetType] as [
+      string,
+      string,
+      string,
+    ],
+  };
+}
+
+// =============== Mint & Exercise ===============
+
+/**
+ * Mint options against collateral. CALL takes Coin<BaseAsset> and mints one option per unit;
+ * PUT takes Coin<QuoteAsset> and mints `amount` options (collateral must cover strike * amount).
+ * Returns [Coin<OptionToken>, OwnerToken]; the caller must transfer both.
+ */
+export function mintOptions(
+  tx: Transaction,
+  option: OptionPoolRef,
+  collateral: ObjectInput,
+  amount?: bigint
+) {
+  if (option.type === 'CALL') {
+    return tx.add(
+      optionsPool.mintCallOptions({
+        ...poolCall(option),
+        arguments: { pool: option.id, collateral },
+      })
+    );
+  }
+  if (amount === undefined) {
+    throw new Error('Put options require an amount to mint');
+  }
+  return tx.add(
+    optionsPool.mintPutOptions({
+      ...poolCall(option),
+      arguments: { pool: option.id, collateral, amount },
+    })
+  );
+}
+
+/**
+ * Exercise options before expiry. CALL pays strike in Coin<QuoteAsset> and returns Coin<BaseAsset>;
+ * PUT delivers Coin<BaseAsset> and returns Coin<QuoteAsset>.
+ * The pool price must have been updated within the last 5 minutes (see updatePrice).
+ */
+export function exerciseOptions(
+  tx: Transaction,
+  option: OptionPoolRef,
+  optionCoins: ObjectInput,
+  counterAsset: ObjectInput
+) {
+  if (option.type === 'CALL') {
+    return tx.add(
+      optionsPool.exerciseCallOptions({
+        ...poolCall(option),
+        arguments: { pool: option.id, optionCoins, payment: counterAsset },
+      })
+    );
+  }
+  return tx.add(
+    optionsPool.exercisePutOptions({
+      ...poolCall(option),
+      arguments: { pool: option.id, optionCoins, baseAsset: counterAsset },
+    })
+  );
+}
+
+// =============== Oracle & Settlement ===============
+
+/**
+ * Refresh the pool's oracle price from the DeepBook mid price. Only valid before expiry.
+ */
+export function updatePrice(tx: Transaction, option: OptionPoolRef, deepbookPoolId: ObjectInput) {
+  return tx.add(
+    optionsPool.updatePrice({
+      ...poolCall(option),
+      arguments: { pool: option.id, deepbookPool: deepbookPoolId },
+    })
+  );
+}
+
+/**
+ * Settle an expired pool. Anyone can call this once; the pool settles at its last oracle price.
+ */
+export function settlePool(tx: Transaction, option: OptionPoolRef, deepbookPoolId: ObjectInput) {
+  return tx.add(
+    optionsPool.settlePool({
+      ...poolCall(option),
+      arguments: { pool: option.id, deepbookPool: deepbookPoolId },
+    })
+  );
+}
+
+// =============== Claims ===============
+
+/**
+ * Burn an OwnerToken after settlement for the writer's share of the collateral.
+ * Returns [Coin<BaseAsset>, Coin<QuoteAsset>] (one of them is zero).
+ */
+export function claimCollateral(tx: Transaction, option: OptionPoolRef, ownerToken: ObjectInput) {
+  const claim = option.type === 'CALL' ? optionsPool.claimCollateralCall : optionsPool.claimCollateralPut;
+  return tx.add(
+    claim({
+      ...poolCall(option),
+      arguments: { pool: option.id, ownerToken },
+    })
+  );
+}
+
+/**
+ * Burn in-the-money option coins after settlement. CALL pays strike in Coin<QuoteAsset> and
+ * returns Coin<BaseAsset>; PUT delivers Coin<BaseAsset> and returns Coin<QuoteAsset>.
+ */
+export function claimWithOptions(
+  tx: Transaction,
+  option: OptionPoolRef,
+  optionCoins: ObjectInput,
+  counterAsset: ObjectInput
+) {
+  if (option.type === 'CALL') {
+    return tx.add(
+      optionsPool.claimWithCallOptions({
+        ...poolCall(option),
+        arguments: { pool: option.id, optionCoins, payment: counterAsset },
+      })
+    );
+  }
+  return tx.add(
+    optionsPool.claimWithPutOptions({
+      ...poolCall(option),
+      arguments: { pool: option.id, optionCoins, baseAsset: counterAsset },
+    })
+  );
+}
+
+// =============== Owner Tokens ===============
+
+/**
+ * Fold every token in `others` into `primary`. All tokens must belong to the same pool.
+ */
+export function mergeOwnerTokens(
+  tx: Transaction,
+  option: OptionPoolRef,
+  primary: ObjectInput,
+  others: ObjectInput[]
+): void {
+  for (const other of others) {
+    tx.add(
+      optionsPool.mergeOwnerTokens({
+        ...poolCall(option),
+        arguments: { token1: primary, token2: other },
+      })
+    );
+  }
+}
+
+/**
+ * Split `amount` (raw units) off an OwnerToken. Returns the new OwnerToken; the caller must transfer it.
+ */
+export function splitOwnerToken(
+  tx: Transaction,
+  option: OptionPoolRef,
+  ownerToken: ObjectInput,
+  amount: bigint
+) {
+  return tx.add(
+    optionsPool.splitOwnerToken({
+      ...poolCall(option),
+      arguments: { token: ownerToken, splitAmount: amount },
+    })
+  );
+}
+
+// =============== View Functions ===============
+// Read-only calls meant for devInspect; results are decoded in lib/options.ts (getPoolState)
+
+/** (option_type, strike, expiry, total_minted, supply, collateral_base, collateral_quote, is_settled, settlement_price) */
+export function getPoolInfo(tx: Transaction, option: OptionPoolRef) {
+  return tx.add(optionsPool.getPoolInfo({ ...poolCall(option), arguments: { pool: option.id } }));
+}
+
+/** (underlying_asset_price: Option<u64>, last_price_update: u64) */
+export function getCurrentPrice(tx: Transaction, option: OptionPoolRef) {
+  return tx.add(optionsPool.getCurrentPrice({ ...poolCall(option), arguments: { pool: option.id } }));
+}
+
+/** Outstanding option token supply (u64) */
+export function getOptionSupply(tx: Transaction, option: OptionPoolRef) {
+  return tx.add(optionsPool.getOptionSupply({ ...poolCall(option), arguments: { pool: option.id } }));
+}
+
+/** Amount held by an OwnerToken (u64) */
+export function getOwnerTokenAmount(tx: Transaction, option: OptionPoolRef, ownerToken: ObjectInput) {
+  return tx.add(optionsPool.getOwnerTokenAmount({ ...poolCall(option), arguments: { token: ownerToken } }));
+}
+
+// =============== BCS Readers ===============
+
+/**
+ * Read and decode an OptionsPool object. u64 fields are returned as decimal strings.
+ */
+export async function getOptionsPoolObject(
+  client: ClientWithCoreApi,
+  poolId: string
+): Promise<OptionsPoolObject> {
+  const { json } = await optionsPool.OptionsPool.get({ client, objectId: poolId });
+  return json;
+}
+
+/**
+ * Read and decode OwnerToken objects by ID
+ */
+export async function getOwnerTokenObjects(
+  client: ClientWithCoreApi,
+  ownerTokenIds: string[]
+): Promise<OwnerTokenObject[]> {
+  if (ownerTokenIds.length === 0) return [];
+  const objects = await optionsPool.OwnerToken.getMany({ client, objectIds: ownerTokenIds });
+  return objects.map((object) => object.json);
+}
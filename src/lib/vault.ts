@@ -0,0 +1,331 @@
+import type { SuiGrpcClient } from '@mysten/sui/grpc';
+import { coinWithBalance, type Transaction, type TransactionObjectArgument } from '@mysten/sui/transactions';
+import type { PoolInfo } from './deepbook';
+import { estimateOwnerTokenClaim, type OptionPool, type PoolSettlement } from './options';
+import { priceOptionPool, type PricingModel } from './pricing';
+import { addCollateralClaim } from './positions';
+import { buildMintAndSell, buildMintAndSellFrom, mintAmounts, type MintAndSellOrder } from './writing';
+
+/**
+ * Covered-call vault: the deposit → write an out-of-the-money call → sell it → settle → roll loop,
+ * one cycle per expiry on a single underlying pair.
+ *
+ * Each roll is one transaction: settle the expired pool if nobody has yet, claim the writer's
+ * collateral with the cycle's OwnerTokens, and mint and sell the next call from the claimed base
+ * (topped up from the wallet when the last call was assigned or the size grew). Cycle history is
+ * kept in localStorage per network and owner, like the registered option packages in options.ts.
+ */
+
+export type VaultStrikeMode = 'delta' | 'otm';
+
+export interface VaultPolicy {
+  strikeMode: VaultStrikeMode;
+  /** Target call delta (0-1) when strikeMode is 'delta' */
+  targetDelta: number;
+  /** Target distance above spot (0.1 = 10% OTM) when strikeMode is 'otm' */
+  otmPercent: number;
+  /** Share of the available underlying to write each cycle (0-1] */
+  allocation: number;
+  /** Skip expiries closer than this */
+  minDaysToExpiry: number;
+  /** Market sells into the bids; limit rests at the model's fair value */
+  orderType: 'market' | 'limit';
+}
+
+export const DEFAULT_VAULT_POLICY: VaultPolicy = {
+  strikeMode: 'delta',
+  targetDelta: 0.25,
+  otmPercent: 0.1,
+  allocation: 1,
+  minDaysToExpiry: 2,
+  orderType: 'market',
+};
+
+export interface VaultCandidate {
+  option: OptionPool;
+  delta: number;
+  fairValue: number;
+  /** Strike above spot as a fraction of spot */
+  otmPercent: number;
+}
+
+/** Open (or closed) covered-call cycle as recorded by the app */
+export interface VaultCycle {
+  /** Digest of the transaction that opened the cycle */
+  id: string;
+  optionId: string;
+  optionName: string;
+  baseAssetType: string;
+  quoteAssetType: string;
+  strike: number;
+  expiry: number;
+  /** Options written (human units) */
+  quantity: number;
+  spotAtOpen: number;
+  /** Premium expected from the sale when the cycle opened (quote) */
+  premium: number;
+  openedAt: number;
+  closedAt?: number;
+  closeDigest?: string;
+  settlementPrice?: number;
+  /** Whether the call settled in the money, so the base was exchanged for the strike */
+  assigned?: boolean;
+}
+
+export interface VaultCycleResult {
+  /** Premium over the notional written at open */
+  premiumYield: number;
+  /** Upside given up by assignment, (strike - settlement) * quantity; zero when not assigned */
+  assignmentPnl: number;
+  /** (premium + assignmentPnl) / notional: the return over just holding the underlying */
+  realizedReturn: number;
+  annualizedReturn: number;
+}
+
+export interface VaultStats {
+  cycles: number;
+  totalPremium: number;
+  totalAssignmentPnl: number;
+  /** Time-weighted annualized return across closed cycles */
+  annualizedReturn: number;
+  /** Share of closed cycles that were assigned */
+  assignmentRate: number;
+}
+
+/** What the next roll does: close the open cycle, open the next one, or both */
+export interface VaultRoll {
+  expiring?: {
+    option: OptionPool;
+    ownerTokenIds: string[];
+    deepbookPoolId: string;
+    isSettled: boolean;
+    /** Raw base the claim returns (estimateVaultClaim) */
+    claimBase: bigint;
+  };
+  next?: {
+    option: OptionPool;
+    market: PoolInfo;
+    order: MintAndSellOrder;
+  };
+}
+
+const DAY_MS = 86_400_000;
+const YEAR_MS = 365 * DAY_MS;
+
+/** localStorage key for vault cycle history, per network and owner */
+const VAULT_HISTORY_STORAGE_KEY = 'varuna:vault-cycles';
+
+// =============== Strike Selection & Sizing ===============
+
+/**
+ * Out-of-the-money calls on the pair for the nearest expiry at least `minDaysToExpiry` away,
+ * priced at `spot`, lowest strike first
+ */
+export function vaultCandidates(
+  options: OptionPool[],
+  pair: Pick<OptionPool, 'baseAssetType' | 'quoteAssetType'>,
+  spot: number,
+  policy: VaultPolicy,
+  model: PricingModel,
+  now = Date.now()
+): VaultCandidate[] {
+  const eligible = options.filter(
+    (o) =>
+      o.type === 'CALL' &&
+      o.baseAssetType === pair.baseAssetType &&
+      o.quoteAssetType === pair.quoteAssetType &&
+      o.strikePrice > spot &&
+      o.expirationDate >= now + policy.minDaysToExpiry * DAY_MS
+  );
+  if (eligible.length === 0 || spot <= 0) return [];
+  const expiry = Math.min(...eligible.map((o) => o.expirationDate));
+  return eligible
+    .filter((o) => o.expirationDate === expiry)
+    .sort((a, b) => a.strikePrice - b.strikePrice)
+    .map((option) => {
+      const greeks = priceOptionPool(option, spot, model, now);
+      return { option, delta: greeks.delta, fairValue: greeks.fairValue, otmPercent: option.strikePrice / spot - 1 };
+    });
+}
+
+/**
+ * The candidate closest to the policy's target delta or OTM distance
+ */
+export function selectVaultStrike(candidates: VaultCandidate[], policy: VaultPolicy): VaultCandidate | null {
+  const distance = (c: VaultCandidate) =>
+    policy.strikeMode === 'delta' ? Math.abs(c.delta - policy.targetDelta) : Math.abs(c.otmPercent - policy.otmPercent);
+  return candidates.reduce<VaultCandidate | null>(
+    (best, c) => (best === null || distance(c) < distance(best) ? c : best),
+    null
+  );
+}
+
+/**
+ * Options to write from `available` raw base: the policy's allocation, rounded down to the option
+ * token market's lot size. Returns 0 when that is below the market's minimum size.
+ */
+export function sizeVaultCycle(
+  available: bigint,
+  policy: VaultPolicy,
+  option: Pick<OptionPool, 'optionTokenDecimals'>,
+  market: Pick<PoolInfo, 'lotSize' | 'minSize'>
+): number {
+  const allocation = Math.min(Math.max(policy.allocation, 0), 1);
+  let raw = (available * BigInt(Math.round(allocation * 10_000))) / 10_000n;
+  const lot = BigInt(Math.max(Math.floor(market.lotSize), 1));
+  raw -= raw % lot;
+  if (raw <= 0n || raw < BigInt(Math.floor(market.minSize))) return 0;
+  return Number(raw) / Math.pow(10, option.optionTokenDecimals ?? 9);
+}
+
+/**
+ * Raw base and quote the cycle's OwnerTokens claim once settled. Before settlement, settle_pool
+ * locks in the last oracle price, so that is used instead. Null when there is no price, or when
+ * the pool was settled without recording one (its claims abort).
+ */
+export function estimateVaultClaim(
+  option: OptionPool,
+  ownerTokenAmount: bigint,
+  settlement: PoolSettlement
+): { base: bigint; quote: bigint; settlementPrice: number } | null {
+  if (settlement.isSettled && settlement.settlementPrice === null) return null;
+  const settlementPrice = settlement.settlementPrice ?? settlement.lastOraclePrice;
+  if (settlementPrice === null) return null;
+  return { ...estimateOwnerTokenClaim(option, ownerTokenAmount, settlementPrice), settlementPrice };
+}
+
+// =============== Roll ===============
+
+/**
+ * Add the roll commands to `tx`. The expiring cycle's quote proceeds and any base not re-used go
+ * back to the wallet; the next call's collateral comes from the claimed base first and the wallet
+ * for the rest.
+ */
+export function buildVaultRoll(
+  tx: Transaction,
+  client: SuiGrpcClient,
+  userAddress: string,
+  roll: VaultRoll,
+  balanceManagerId: string,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): void {
+  const { expiring, next } = roll;
+  if (!expiring && !next) {
+    throw new Error('Nothing to roll');
+  }
+  if (expiring && next && expiring.option.baseAssetType !== next.option.baseAssetType) {
+    throw new Error('The next call must be on the same underlying');
+  }
+  tx.setSender(userAddress);
+
+  let claimedBase: TransactionObjectArgument | null = null;
+  if (expiring) {
+    const [baseCoin, quoteCoin] = addCollateralClaim(tx, expiring.option, expiring.ownerTokenIds, {
+      settle: !expiring.isSettled,
+      deepbookPoolId: expiring.deepbookPoolId,
+    });
+    tx.transferObjects([quoteCoin], userAddress);
+    claimedBase = baseCoin;
+  }
+
+  if (!next) {
+    if (claimedBase) tx.transferObjects([claimedBase], userAddress);
+    return;
+  }
+  if (!claimedBase || !expiring) {
+    buildMintAndSell(tx, client, userAddress, next.option, next.market, balanceManagerId, next.order, network);
+    return;
+  }
+
+  const { collateralAmount } = mintAmounts(next.option, next.order.quantity);
+  if (collateralAmount > expiring.claimBase) {
+    tx.mergeCoins(claimedBase, [
+      coinWithBalance({ type: next.option.baseAssetType, balance: collateralAmount - expiring.claimBase }),
+    ]);
+  }
+  const [collateral] = tx.splitCoins(claimedBase, [collateralAmount]);
+  tx.transferObjects([claimedBase], userAddress);
+  buildMintAndSellFrom(tx, client, userAddress, next.option, next.market, balanceManagerId, next.order, collateral, network);
+}
+
+// =============== Cycle History ===============
+
+function historyKey(owner: string, network: string): string {
+  return `${VAULT_HISTORY_STORAGE_KEY}:${network}:${owner}`;
+}
+
+/**
+ * Recorded cycles for an owner, oldest first
+ */
+export function getVaultHistory(owner: string, network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'): VaultCycle[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(historyKey(owner, network)) ?? '[]');
+    return Array.isArray(stored) ? (stored as VaultCycle[]).sort((a, b) => a.openedAt - b.openedAt) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Insert or replace a cycle (matched by id)
+ */
+export function saveVaultCycle(
+  owner: string,
+  cycle: VaultCycle,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): void {
+  const history = getVaultHistory(owner, network).filter((c) => c.id !== cycle.id);
+  window.localStorage.setItem(historyKey(owner, network), JSON.stringify([...history, cycle]));
+}
+
+// =============== Yield ===============
+
+/**
+ * Yield of one closed cycle. Null while it is still open.
+ */
+export function vaultCycleResult(cycle: VaultCycle): VaultCycleResult | null {
+  if (cycle.closedAt === undefined || cycle.settlementPrice === undefined) return null;
+  const notional = cycle.quantity * cycle.spotAtOpen;
+  if (notional <= 0) return null;
+  const assignmentPnl = cycle.assigned ? (cycle.strike - cycle.settlementPrice) * cycle.quantity : 0;
+  const realizedReturn = (cycle.premium + assignmentPnl) / notional;
+  // Held from open to expiry; a late roll doesn't dilute the cycle's yield
+  const duration = Math.max(cycle.expiry - cycle.openedAt, DAY_MS);
+  return {
+    premiumYield: cycle.premium / notional,
+    assignmentPnl,
+    realizedReturn,
+    annualizedReturn: realizedReturn * (YEAR_MS / duration),
+  };
+}
+
+/**
+ * Totals and time-weighted annualized return over the closed cycles in `history`
+ */
+export function summarizeVault(history: VaultCycle[]): VaultStats {
+  let totalPremium = 0;
+  let totalAssignmentPnl = 0;
+  let weightedReturn = 0;
+  let totalDuration = 0;
+  let assigned = 0;
+  let cycles = 0;
+  for (const cycle of history) {
+    const result = vaultCycleResult(cycle);
+    if (!result) continue;
+    const duration = Math.max(cycle.expiry - cycle.openedAt, DAY_MS);
+    cycles++;
+    totalPremium += cycle.premium;
+    totalAssignmentPnl += result.assignmentPnl;
+    weightedReturn += result.realizedReturn;
+    totalDuration += duration;
+    if (cycle.assigned) assigned++;
+  }
+  return {
+    cycles,
+    totalPremium,
+    totalAssignmentPnl,
+    annualizedReturn: totalDuration > 0 ? weightedReturn * (YEAR_MS / totalDuration) : 0,
+    assignmentRate: cycles > 0 ? assigned / cycles : 0,
+  };
+}
@@ -0,0 +1,309 @@
+import { getOHLCVData, getOrderBook, type CandleData, type OrderBookData, type PoolInfo } from './deepbook';
+import { impliedVolatility, yearsToExpiry } from './pricing';
+import type { OptionPool } from './options';
+
+/**
+ * Realized volatility from DeepBook OHLCV candles, and implied volatility from the order books of
+ * option tokens listed on DeepBook.
+ *
+ * Realized vol uses three estimators over the same candles:
+ * - close-to-close: standard deviation of log returns
+ * - Parkinson: high/low range, more efficient when there is no drift
+ * - Garman-Klass: open/high/low/close, the most efficient of the three for continuous trading
+ * All results are annualized decimals (0.8 = 80%). DeepBook trades around the clock, so a year
+ * is 365 daily candles.
+ */
+
+export type VolEstimator = 'closeToClose' | 'parkinson' | 'garmanKlass';
+export type CandleInterval = '1h' | '4h' | '1d';
+
+export interface RealizedVol {
+  closeToClose: number;
+  parkinson: number;
+  garmanKlass: number;
+  /** Number of candles in the window */
+  window: number;
+  interval: CandleInterval;
+}
+
+export interface VolConeWindow {
+  window: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+  /** Vol over the most recent `window` candles */
+  current: number;
+}
+
+export const VOL_ESTIMATORS: { key: VolEstimator; label: string }[] = [
+  { key: 'closeToClose', label: 'Close-to-Close' },
+  { key: 'parkinson', label: 'Parkinson' },
+  { key: 'garmanKlass', label: 'Garman-Klass' },
+];
+
+/** Default cone windows, in days */
+export const DEFAULT_CONE_WINDOWS = [7, 30, 90];
+
+/** Daily candles of history used to build the cone */
+const DEFAULT_CONE_HISTORY = 365;
+
+const PERIODS_PER_YEAR: Record<CandleInterval, number> = {
+  '1h': 365 * 24,
+  '4h': 365 * 6,
+  '1d': 365,
+};
+
+/** Candles are reused for this long before the indexer is queried again */
+const CANDLE_CACHE_TTL_MS = 5 * 60_000;
+
+const candleCache = new Map<string, { candles: CandleData[]; fetchedAt: number }>();
+
+// =============== Estimators ===============
+
+/**
+ * Close-to-close volatility: sample standard deviation of log returns, annualized
+ */
+export function closeToCloseVol(candles: CandleData[], periodsPerYear = PERIODS_PER_YEAR['1d']): number {
+  if (candles.length < 3) return 0;
+  const returns: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    if (candles[i - 1].close > 0 && candles[i].close > 0) {
+      returns.push(Math.log(candles[i].close / candles[i - 1].close));
+    }
+  }
+  if (returns.length < 2) return 0;
+  const mean = returns.reduce((s, r) => s + r, 0) / returns.length;
+  const variance = returns.reduce((s, r) => s + (r - mean) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance * periodsPerYear);
+}
+
+/**
+ * Parkinson (1980) volatility from each candle's high/low range, annualized
+ */
+export function parkinsonVol(candles: CandleData[], periodsPerYear = PERIODS_PER_YEAR['1d']): number {
+  const valid = candles.filter((c) => c.high > 0 && c.low > 0);
+  if (valid.length === 0) return 0;
+  const sum = valid.reduce((s, c) => s + Math.log(c.high / c.low) ** 2, 0);
+  return Math.sqrt((sum / (4 * Math.LN2 * valid.length)) * periodsPerYear);
+}
+
+/**
+ * Garman-Klass (1980) volatility from open/high/low/close, annualized
+ */
+export function garmanKlassVol(candles: CandleData[], periodsPerYear = PERIODS_PER_YEAR['1d']): number {
+  const valid = candles.filter((c) => c.open > 0 && c.high > 0 && c.low > 0 && c.close > 0);
+  if (valid.length === 0) return 0;
+  const sum = valid.reduce((s, c) => {
+    const hl = Math.log(c.high / c.low);
+    const co = Math.log(c.close / c.open);
+    return s + 0.5 * hl * hl - (2 * Math.LN2 - 1) * co * co;
+  }, 0);
+  return Math.sqrt(Math.max(sum / valid.length, 0) * periodsPerYear);
+}
+
+const ESTIMATORS: Record<VolEstimator, (candles: CandleData[], periodsPerYear: number) => number> = {
+  closeToClose: closeToCloseVol,
+  parkinson: parkinsonVol,
+  garmanKlass: garmanKlassVol,
+};
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+/**
+ * Build a volatility cone: for each window, the distribution of rolling realized vol across the
+ * candle history, plus the vol over the most recent window
+ */
+export function buildVolCone(
+  candles: CandleData[],
+  windows: number[] = DEFAULT_CONE_WINDOWS,
+  estimator: VolEstimator = 'closeToClose',
+  periodsPerYear = PERIODS_PER_YEAR['1d']
+): VolConeWindow[] {
+  const estimate = ESTIMATORS[estimator];
+  // Close-to-close needs one extra candle per window for the first return
+  const span = (window: number) => (estimator === 'closeToClose' ? window + 1 : window);
+
+  return windows
+    .filter((window) => candles.length >= span(window))
+    .map((window) => {
+      const samples: number[] = [];
+      for (let end = span(window); end <= candles.length; end++) {
+        samples.push(estimate(candles.slice(end - span(window), end), periodsPerYear));
+      }
+      const sorted = [...samples].sort((a, b) => a - b);
+      return {
+        window,
+        min: sorted[0],
+        p25: percentile(sorted, 0.25),
+        median: percentile(sorted, 0.5),
+        p75: percentile(sorted, 0.75),
+        max: sorted[sorted.length - 1],
+        current: samples[samples.length - 1],
+      };
+    });
+}
+
+// =============== Indexer ===============
+
+async function getCachedCandles(
+  poolName: string,
+  interval: CandleInterval,
+  limit: number,
+  network: 'mainnet' | 'testnet' | 'devnet'
+): Promise<CandleData[]> {
+  const key = `${network}:${poolName}:${interval}:${limit}`;
+  const cached = candleCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < CANDLE_CACHE_TTL_MS) {
+    return cached.candles;
+  }
+  const candles = await getOHLCVData(poolName, interval, limit, undefined, undefined, network);
+  // Don't cache an empty history so a pool that just started trading shows up on the next call
+  if (candles.length > 0) {
+    candleCache.set(key, { candles, fetchedAt: Date.now() });
+  }
+  return candles;
+}
+
+/**
+ * Realized volatility of a DeepBook pool over the last `window` candles (all three estimators)
+ */
+export async function getRealizedVol(
+  poolName: string,
+  { window = 30, interval = '1d' }: { window?: number; interval?: CandleInterval } = {},
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<RealizedVol | null> {
+  const candles = await getCachedCandles(poolName, interval, window + 1, network);
+  if (candles.length < 3) return null;
+  const periodsPerYear = PERIODS_PER_YEAR[interval];
+  const recent = candles.slice(-(window + 1));
+  return {
+    closeToClose: closeToCloseVol(recent, periodsPerYear),
+    parkinson: parkinsonVol(recent.slice(-window), periodsPerYear),
+    garmanKlass: garmanKlassVol(recent.slice(-window), periodsPerYear),
+    window: Math.min(window, recent.length),
+    interval,
+  };
+}
+
+/**
+ * Volatility cone for a DeepBook pool from daily candles
+ */
+export async function getVolCone(
+  poolName: string,
+  {
+    windows = DEFAULT_CONE_WINDOWS,
+    estimator = 'closeToClose',
+    history = DEFAULT_CONE_HISTORY,
+  }: { windows?: number[]; estimator?: VolEstimator; history?: number } = {},
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<VolConeWindow[]> {
+  const candles = await getCachedCandles(poolName, '1d', history + Math.max(...windows), network);
+  return buildVolCone(candles, windows, estimator, PERIODS_PER_YEAR['1d']);
+}
+
+// =============== Implied Volatility ===============
+
+/** Why an option's IV could not be solved from its book ('error': the book couldn't be fetched) */
+export type ThinBookReason = 'no-market' | 'no-bid' | 'no-ask' | 'wide-spread' | 'no-solution' | 'error';
+
+export interface OptionImpliedVol {
+  optionId: string;
+  type: OptionPool['type'];
+  strike: number;
+  expirationDate: number;
+  bid: number | null;
+  ask: number | null;
+  bidIv: number | null;
+  askIv: number | null;
+  /** IV of the bid/ask mid; null when the book is too thin to trust */
+  midIv: number | null;
+  /** Set when the book is too thin to solve a mid IV */
+  thin: ThinBookReason | null;
+}
+
+/** Books with a bid/ask spread wider than this fraction of the mid are flagged thin */
+export const DEFAULT_MAX_SPREAD = 0.5;
+
+/**
+ * Solve bid, ask and mid implied vol for each option from the best bid/ask of its option token's
+ * DeepBook pool. `marketPools` maps option IDs to those pools (see getOptionTokenPools) and
+ * `spotPrices` maps deepbookPoolName to the underlying price.
+ */
+export async function getImpliedVols(
+  options: OptionPool[],
+  marketPools: Record<string, PoolInfo>,
+  spotPrices: Record<string, number>,
+  {
+    riskFreeRate,
+    maxSpread = DEFAULT_MAX_SPREAD,
+  }: { riskFreeRate: number; maxSpread?: number },
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): Promise<Record<string, OptionImpliedVol>> {
+  const now = Date.now();
+  const results = await Promise.all(
+    options.map(async (option): Promise<OptionImpliedVol | null> => {
+      const spot = spotPrices[option.deepbookPoolName];
+      if (!spot) return null;
+      const base = {
+        optionId: option.id,
+        type: option.type,
+        strike: option.strikePrice,
+        expirationDate: option.expirationDate,
+      };
+      const empty = { bid: null, ask: null, bidIv: null, askIv: null, midIv: null };
+
+      const pool = marketPools[option.id];
+      if (!pool) return { ...base, ...empty, thin: 'no-market' };
+      // One unreadable book only loses that option's point on the smile
+      let book: OrderBookData;
+      try {
+        // depth counts both sides, so 2 is the best level of each
+        book = await getOrderBook(pool.poolName, network, 2, 2);
+      } catch (error) {
+        console.error('Error fetching option token book for', option.id, ':', error);
+        return { ...base, ...empty, thin: 'error' };
+      }
+
+      const bid = book.bids[0]?.price ?? null;
+      const ask = book.asks[0]?.price ?? null;
+      const solve = (price: number | null) =>
+        price === null
+          ? null
+          : impliedVolatility(price, {
+              type: option.type,
+              spot,
+              strike: option.strikePrice,
+              timeToExpiry: yearsToExpiry(option.expirationDate, now),
+              riskFreeRate,
+            });
+      const bidIv = solve(bid);
+      const askIv = solve(ask);
+
+      let thin: ThinBookReason | null = null;
+      let midIv: number | null = null;
+      if (bid === null) thin = 'no-bid';
+      else if (ask === null) thin = 'no-ask';
+      else if ((ask - bid) / ((ask + bid) / 2) > maxSpread) thin = 'wide-spread';
+      else {
+        midIv = solve((bid + ask) / 2);
+        if (midIv === null) thin = 'no-solution';
+      }
+
+      return { ...base, bid, ask, bidIv, askIv, midIv, thin };
+    })
+  );
+
+  const byId: Record<string, OptionImpliedVol> = {};
+  for (const result of results) {
+    if (result) byId[result.optionId] = result;
+  }
+  return byId;
+}
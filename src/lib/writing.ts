@@ -0,0 +1,158 @@
+import type { SuiGrpcClient } from '@mysten/sui/grpc';
+import { coinWithBalance, type Transaction } from '@mysten/sui/transactions';
+import {
+  depositIntoBalanceManager,
+  estimateMarketFill,
+  placeLimitOrder,
+  placeMarketOrder,
+  type OrderBookData,
+  type PoolInfo,
+} from './deepbook';
+import { PRICE_DECIMALS, type OptionPool } from './options';
+import { mintOptions, type ObjectInput } from './varuna';
+
+/**
+ * Write options and sell them on DeepBook in one programmable transaction:
+ * collateral → options_pool mint → deposit the option coins into the BalanceManager → sell order
+ * on the option token's pool. The OwnerToken goes back to the writer. If any step aborts (e.g. the
+ * sell fails) nothing is minted.
+ */
+
+export interface MintAndSellOrder {
+  /** Options to mint and sell (human units) */
+  quantity: number;
+  orderType: 'limit' | 'market';
+  /** Limit price per option in quote; ignored for market orders */
+  price?: number;
+}
+
+export interface MintAndSellPreview {
+  /** Raw option token amount minted */
+  optionAmount: bigint;
+  /** Raw collateral locked in the options pool (base for CALL, quote for PUT) */
+  collateralAmount: bigint;
+  /** Collateral locked in human units of `collateralAsset` */
+  collateral: number;
+  collateralAsset: string;
+  /** Quote received if the sell fills completely (limit) or as far as the book goes (market) */
+  premium: number;
+  /** Average sale price per option */
+  averagePrice: number;
+  /** Options the book can absorb right now; equals quantity for limit orders */
+  filled: number;
+}
+
+/**
+ * Raw option and collateral amounts for minting `quantity` options.
+ * CALL locks one base unit per option; PUT locks strike * amount / PRICE_DECIMALS quote, rounded up.
+ */
+export function mintAmounts(
+  option: Pick<OptionPool, 'type' | 'strikePrice' | 'optionTokenDecimals'>,
+  quantity: number
+): { optionAmount: bigint; collateralAmount: bigint } {
+  const optionAmount = BigInt(Math.floor(quantity * Math.pow(10, option.optionTokenDecimals ?? 9)));
+  if (option.type === 'CALL') {
+    return { optionAmount, collateralAmount: optionAmount };
+  }
+  const strike = BigInt(Math.floor(option.strikePrice * PRICE_DECIMALS));
+  const scale = BigInt(PRICE_DECIMALS);
+  return { optionAmount, collateralAmount: (strike * optionAmount + scale - 1n) / scale };
+}
+
+/**
+ * Preview premium received and collateral locked. Market sells walk the bids of `book`;
+ * fees are not included.
+ */
+export function previewMintAndSell(
+  option: OptionPool,
+  order: MintAndSellOrder,
+  book: OrderBookData | null
+): MintAndSellPreview {
+  const { optionAmount, collateralAmount } = mintAmounts(option, order.quantity);
+  const isCall = option.type === 'CALL';
+  const collateralDecimals = isCall ? option.baseAssetDecimals ?? 9 : option.quoteAssetDecimals ?? 9;
+
+  let premium = 0;
+  let filled = 0;
+  if (order.orderType === 'limit') {
+    filled = order.quantity;
+    premium = (order.price ?? 0) * order.quantity;
+  } else if (book) {
+    const fill = estimateMarketFill(book, 'sell', order.quantity);
+    filled = fill.filled;
+    premium = fill.total;
+  }
+
+  return {
+    optionAmount,
+    collateralAmount,
+    collateral: Number(collateralAmount) / Math.pow(10, collateralDecimals),
+    collateralAsset: isCall ? option.baseAsset : option.quoteAsset,
+    premium,
+    averagePrice: filled > 0 ? premium / filled : 0,
+    filled,
+  };
+}
+
+/**
+ * Add the mint → deposit → sell commands to `tx`. Collateral is drawn from the sender's wallet
+ * (SUI from the gas coin), so the sender must be set before building.
+ * @param marketPool - DeepBook pool of the option token against its quote asset
+ */
+export function buildMintAndSell(
+  tx: Transaction,
+  client: SuiGrpcClient,
+  userAddress: string,
+  option: OptionPool,
+  marketPool: PoolInfo,
+  balanceManagerId: string,
+  order: MintAndSellOrder,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): void {
+  const { collateralAmount } = mintAmounts(option, order.quantity);
+  tx.setSender(userAddress);
+  const collateral = coinWithBalance({
+    type: option.type === 'CALL' ? option.baseAssetType : option.quoteAssetType,
+    balance: collateralAmount,
+  });
+  buildMintAndSellFrom(tx, client, userAddress, option, marketPool, balanceManagerId, order, collateral, network);
+}
+
+/**
+ * Same as buildMintAndSell, but mints from a collateral coin produced earlier in `tx` (e.g. by a
+ * claim). The coin must hold exactly mintAmounts(option, order.quantity).collateralAmount.
+ */
+export function buildMintAndSellFrom(
+  tx: Transaction,
+  client: SuiGrpcClient,
+  userAddress: string,
+  option: OptionPool,
+  marketPool: PoolInfo,
+  balanceManagerId: string,
+  order: MintAndSellOrder,
+  collateral: ObjectInput,
+  network: 'mainnet' | 'testnet' | 'devnet' = 'mainnet'
+): void {
+  if (order.orderType === 'limit' && !(order.price && order.price > 0)) {
+    throw new Error('Limit orders require a price');
+  }
+  const { optionAmount } = mintAmounts(option, order.quantity);
+  if (optionAmount <= 0n) {
+    throw new Error('Quantity must be positive');
+  }
+
+  const [optionCoins, ownerToken] = mintOptions(
+    tx,
+    option,
+    collateral,
+    option.type === 'PUT' ? optionAmount : undefined
+  );
+  tx.transferObjects([ownerToken], userAddress);
+  depositIntoBalanceManager(tx, balanceManagerId, option.optionTokenType, optionCoins, network);
+
+  if (order.orderType === 'limit') {
+    placeLimitOrder(tx, client, userAddress, marketPool, balanceManagerId, 'sell', order.price as number, order.quantity, network);
+  } else {
+    placeMarketOrder(tx, client, userAddress, marketPool, balanceManagerId, 'sell', order.quantity, network);
+  }
+}
@@ -4,8 +4,8 @@ const config: SuiCodegenConfig = {
   output: "./src/contracts",
   packages: [
     {
-      package: "@local-pkg/counter",
-      path: "./move/counter",
+      package: "@local-pkg/varuna",
+      path: "./move/varuna",
     },
   ],
 };